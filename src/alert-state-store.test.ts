@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AlertStateStore } from './alert-state-store';
+
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('AlertStateStore', () => {
+  let directory: string;
+  let stateFile: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'alert-state-'));
+    stateFile = path.join(directory, 'nested', 'state.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('persists delivered alerts across instances', async () => {
+    const store = new AlertStateStore(stateFile);
+    await store.record('new:abc', 'new', new Date(NOW.getTime() - DAY_MS));
+    await store.record('new:abc', 'new', NOW);
+    await store.save(NOW);
+
+    const reloaded = new AlertStateStore(stateFile);
+    expect(await reloaded.has('new:abc')).toBe(true);
+    expect(await reloaded.has('new:def')).toBe(false);
+    expect(JSON.parse(await fs.readFile(stateFile, 'utf-8'))).toEqual({
+      alerts: { 'new:abc': { rule: 'new', first_fired: '2026-10-17T12:00:00.000Z', last_fired: '2026-10-18T12:00:00.000Z' } },
+    });
+  });
+
+  it('forgets resolved alerts of a rule only', async () => {
+    const store = new AlertStateStore(stateFile);
+    await store.record('crash_free:1.0.0', 'crash_free', NOW);
+    await store.record('crash_free:1.1.0', 'crash_free', NOW);
+    await store.record('other:1.0.0', 'other', NOW);
+
+    await store.clearResolved('crash_free', new Set(['crash_free:1.1.0']));
+
+    expect(await store.has('crash_free:1.0.0')).toBe(false);
+    expect(await store.has('crash_free:1.1.0')).toBe(true);
+    expect(await store.has('other:1.0.0')).toBe(true);
+  });
+
+  it('drops alerts that have not fired for 30 days when saving', async () => {
+    const store = new AlertStateStore(stateFile);
+    await store.record('old', 'rule', new Date(NOW.getTime() - 31 * DAY_MS));
+    await store.record('recent', 'rule', new Date(NOW.getTime() - 29 * DAY_MS));
+    await store.save(NOW);
+
+    expect(await store.has('old')).toBe(false);
+    expect(await new AlertStateStore(stateFile).has('recent')).toBe(true);
+  });
+
+  it('starts empty when the state file is unreadable', async () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await fs.mkdir(path.dirname(stateFile), { recursive: true });
+    await fs.writeFile(stateFile, '{ not json');
+
+    expect(await new AlertStateStore(stateFile).has('anything')).toBe(false);
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('Ignoring unreadable alert state file'), expect.any(SyntaxError));
+  });
+
+  it('starts empty without logging when there is no state file yet', async () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await new AlertStateStore(stateFile).has('anything')).toBe(false);
+    expect(errors).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface AlertStateEntry {
+  rule: string;
+  first_fired: string;
+  last_fired: string;
+}
+
+const STATE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Alerts that have already been delivered, persisted as JSON so a restarted
+ * watcher does not fire them again. Entries older than 30 days are dropped.
+ */
+export class AlertStateStore {
+  private entries: Record<string, AlertStateEntry> | null = null;
+
+  constructor(private readonly stateFile: string) {}
+
+  private async load(): Promise<Record<string, AlertStateEntry>> {
+    if (this.entries) return this.entries;
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.stateFile, 'utf-8'));
+      this.entries = parsed?.alerts && typeof parsed.alerts === 'object' ? parsed.alerts : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Ignoring unreadable alert state file ${this.stateFile}:`, error);
+      }
+      this.entries = {};
+    }
+    return this.entries!;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return key in (await this.load());
+  }
+
+  async record(key: string, rule: string, now: Date = new Date()): Promise<void> {
+    const entries = await this.load();
+    const timestamp = now.toISOString();
+    entries[key] = {
+      rule,
+      first_fired: entries[key]?.first_fired || timestamp,
+      last_fired: timestamp,
+    };
+  }
+
+  /** Forgets alerts of `rule` whose condition no longer holds, so they can fire again. */
+  async clearResolved(rule: string, activeKeys: Set<string>): Promise<void> {
+    const entries = await this.load();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.rule === rule && !activeKeys.has(key)) {
+        delete entries[key];
+      }
+    }
+  }
+
+  async save(now: Date = new Date()): Promise<void> {
+    const entries = await this.load();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (now.getTime() - new Date(entry.last_fired).getTime() > STATE_RETENTION_MS) {
+        delete entries[key];
+      }
+    }
+
+    const temporaryFile = `${this.stateFile}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+      await fs.writeFile(temporaryFile, JSON.stringify({ alerts: entries }, null, 2));
+      await fs.rename(temporaryFile, this.stateFile);
+    } catch (error) {
+      throw new Error(`Failed to save alert state ${this.stateFile}: ${error}`);
+    }
+  }
+}
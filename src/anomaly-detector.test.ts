@@ -0,0 +1,112 @@
+import { AnomalyDetectionOptions, AnomalyDetector } from './anomaly-detector';
+import { FIXTURE_NOW } from './test-helpers';
+import { CrashVolumeRow } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const dailyOptions: AnomalyDetectionOptions = {
+  granularity: 'day',
+  dimension: 'issue',
+  since: new Date(FIXTURE_NOW.getTime() - 28 * DAY_MS),
+  now: FIXTURE_NOW,
+  minScore: 3,
+};
+
+/** One row per day of the lookback, ending with yesterday's `observed` events. */
+function dailySeries(seriesKey: string, baseline: (daysAgo: number) => number, observed: number): CrashVolumeRow[] {
+  const yesterday = Date.parse('2026-10-17T00:00:00.000Z');
+  return Array.from({ length: 27 }, (_, daysAgo) => {
+    const eventCount = daysAgo === 0 ? observed : baseline(daysAgo);
+    return {
+      series_key: seriesKey,
+      label: `Issue ${seriesKey}`,
+      app_package: 'com.example.app',
+      bucket: new Date(yesterday - daysAgo * DAY_MS).toISOString(),
+      event_count: eventCount,
+      user_count: Math.ceil(eventCount / 2),
+    };
+  });
+}
+
+describe('AnomalyDetector.detect', () => {
+  const detector = new AnomalyDetector();
+
+  it('flags a spike against the same weekday of earlier weeks', () => {
+    const report = detector.detect(dailySeries('checkout', () => 10, 40), dailyOptions);
+
+    expect(report).toMatchObject({ granularity: 'day', dimension: 'issue', evaluated_bucket: '2026-10-17T00:00:00.000Z', series_analyzed: 1 });
+    expect(report.anomalies).toEqual([{
+      type: 'spike',
+      dimension: 'issue',
+      series_key: 'checkout',
+      label: 'Issue checkout',
+      app_package: 'com.example.app',
+      bucket: '2026-10-17T00:00:00.000Z',
+      observed: 40,
+      expected: 10,
+      affected_users: 20,
+      baseline_points: 3,
+      score: 9.49,
+      confidence: 1,
+    }]);
+  });
+
+  it('uses the weekly cycle so busy weekdays are not spikes', () => {
+    // Every seventh day has 40 events, including the evaluated one
+    const report = detector.detect(dailySeries('weekly', daysAgo => daysAgo % 7 === 0 ? 40 : 10, 40), dailyOptions);
+
+    expect(report.anomalies).toEqual([]);
+  });
+
+  it('flags issues with no history as emerging once they have a few events', () => {
+    const rows = [...dailySeries('new', () => 0, 5), ...dailySeries('trickle', () => 0, 2)];
+
+    expect(detector.detect(rows, dailyOptions).anomalies.map(anomaly => [anomaly.series_key, anomaly.type])).toEqual([
+      ['new', 'emerging'],
+    ]);
+  });
+
+  it('flags drops of series with enough volume', () => {
+    const report = detector.detect([...dailySeries('busy', () => 20, 0), ...dailySeries('quiet', () => 2, 0)], dailyOptions);
+
+    expect(report.anomalies).toEqual([expect.objectContaining({ series_key: 'busy', type: 'drop', score: -4.47 })]);
+  });
+
+  it('does not turn a few events of a quiet series into a spike', () => {
+    expect(detector.detect(dailySeries('quiet', () => 1, 3), dailyOptions).anomalies).toEqual([]);
+  });
+
+  it('respects the minimum score and sorts by score', () => {
+    const rows = [...dailySeries('small', () => 10, 25), ...dailySeries('large', () => 10, 60)];
+
+    expect(detector.detect(rows, dailyOptions).anomalies.map(anomaly => anomaly.series_key)).toEqual(['large', 'small']);
+    expect(detector.detect(rows, { ...dailyOptions, minScore: 10 }).anomalies.map(anomaly => anomaly.series_key)).toEqual(['large']);
+  });
+
+  it('ignores the current, incomplete bucket', () => {
+    const rows = [
+      ...dailySeries('checkout', () => 10, 10),
+      { series_key: 'checkout', label: 'Issue checkout', app_package: 'com.example.app', bucket: '2026-10-18T08:00:00.000Z', event_count: 500, user_count: 400 },
+    ];
+
+    expect(detector.detect(rows, dailyOptions).anomalies).toEqual([]);
+  });
+
+  it('halves the confidence of hourly baselines without a daily cycle', () => {
+    const since = new Date(FIXTURE_NOW.getTime() - 2 * DAY_MS);
+    const evaluated = Date.parse('2026-10-18T11:00:00.000Z');
+    const rows = Array.from({ length: 47 }, (_, hoursAgo) => ({
+      series_key: 'checkout',
+      label: 'Issue checkout',
+      app_package: 'com.example.app',
+      bucket: new Date(evaluated - hoursAgo * HOUR_MS).toISOString(),
+      event_count: hoursAgo === 0 ? 100 : 10,
+      user_count: 1,
+    }));
+
+    const [anomaly] = detector.detect(rows, { ...dailyOptions, granularity: 'hour', since }).anomalies;
+
+    expect(anomaly).toMatchObject({ type: 'spike', bucket: '2026-10-18T11:00:00.000Z', baseline_points: 46, confidence: 0.5 });
+  });
+});
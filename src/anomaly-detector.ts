@@ -0,0 +1,156 @@
+import {
+  AnomalyDimension,
+  AnomalyGranularity,
+  AnomalyReport,
+  CrashAnomaly,
+  CrashVolumeRow,
+} from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MIN_SEASONAL_POINTS = 3;
+const MIN_EMERGING_EVENTS = 3;
+const MIN_SPIKE_DELTA = 3;
+const MIN_DROP_BASELINE = 5;
+
+export interface AnomalyDetectionOptions {
+  granularity: AnomalyGranularity;
+  dimension: AnomalyDimension;
+  since: Date;
+  now?: Date;
+  minScore: number;
+}
+
+interface VolumeSeries {
+  label: string;
+  appPackage: string;
+  events: Map<number, number>;
+  users: Map<number, number>;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/** Abramowitz-Stegun approximation, accurate to ~1e-7. */
+function erf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Flags unusual crash volume in the most recent complete hour or day of each
+ * series. The baseline is the median of the same weekday (and hour) in earlier
+ * weeks, falling back to the same hour on earlier days and then to all prior
+ * buckets when there is too little history. Scores are robust z-scores using
+ * the median absolute deviation, floored at Poisson noise so that quiet
+ * series do not turn single events into anomalies. Confidence discounts
+ * scores backed by few or non-seasonal baseline points.
+ */
+export class AnomalyDetector {
+  detect(rows: CrashVolumeRow[], options: AnomalyDetectionOptions): AnomalyReport {
+    const bucketMs = options.granularity === 'hour' ? HOUR_MS : DAY_MS;
+    const now = options.now || new Date();
+    const evaluatedBucket = Math.floor(now.getTime() / bucketMs) * bucketMs - bucketMs;
+    const firstBucket = Math.floor(options.since.getTime() / bucketMs) * bucketMs + bucketMs;
+    const series = this.groupSeries(rows, bucketMs);
+    const anomalies: CrashAnomaly[] = [];
+
+    for (const [seriesKey, volume] of series) {
+      const values: number[] = [];
+      for (let bucket = firstBucket; bucket <= evaluatedBucket; bucket += bucketMs) {
+        values.push(volume.events.get(bucket) || 0);
+      }
+      if (values.length < 2) continue;
+
+      const observed = values[values.length - 1];
+      const history = values.slice(0, -1);
+      const { points: baseline, seasonal } = this.baselinePoints(history, options.granularity);
+      const expected = median(baseline);
+      const spread = 1.4826 * median(baseline.map(value => Math.abs(value - expected)));
+      const score = (observed - expected) / Math.max(spread, Math.sqrt(expected), 1);
+
+      let type: CrashAnomaly['type'] | null = null;
+      if (history.every(value => value === 0)) {
+        type = observed >= MIN_EMERGING_EVENTS ? 'emerging' : null;
+      } else if (score >= options.minScore && observed - expected >= MIN_SPIKE_DELTA) {
+        type = 'spike';
+      } else if (score <= -options.minScore && expected >= MIN_DROP_BASELINE) {
+        type = 'drop';
+      }
+      if (!type) continue;
+
+      anomalies.push({
+        type,
+        dimension: options.dimension,
+        series_key: seriesKey,
+        label: volume.label,
+        app_package: volume.appPackage,
+        bucket: new Date(evaluatedBucket).toISOString(),
+        observed,
+        expected: round(expected),
+        affected_users: volume.users.get(evaluatedBucket) || 0,
+        baseline_points: baseline.length,
+        score: round(score),
+        confidence: round(
+          erf(Math.abs(score) / Math.SQRT2) * Math.min(1, baseline.length / MIN_SEASONAL_POINTS) * (seasonal ? 1 : 0.5)
+        ),
+      });
+    }
+
+    return {
+      granularity: options.granularity,
+      dimension: options.dimension,
+      evaluated_bucket: new Date(evaluatedBucket).toISOString(),
+      series_analyzed: series.size,
+      anomalies: anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score)),
+    };
+  }
+
+  private groupSeries(rows: CrashVolumeRow[], bucketMs: number): Map<string, VolumeSeries> {
+    const series = new Map<string, VolumeSeries>();
+
+    for (const row of rows) {
+      const bucket = Math.floor(new Date(row.bucket).getTime() / bucketMs) * bucketMs;
+      if (Number.isNaN(bucket)) continue;
+
+      const entry = series.get(row.series_key) || {
+        label: row.label,
+        appPackage: row.app_package,
+        events: new Map<number, number>(),
+        users: new Map<number, number>(),
+      };
+      entry.events.set(bucket, (entry.events.get(bucket) || 0) + row.event_count);
+      entry.users.set(bucket, (entry.users.get(bucket) || 0) + row.user_count);
+      series.set(row.series_key, entry);
+    }
+
+    return series;
+  }
+
+  /**
+   * Earlier buckets at the same point of the weekly (or, for hours, daily)
+   * cycle as the evaluated bucket; `history` ends right before it.
+   */
+  private baselinePoints(history: number[], granularity: AnomalyGranularity): { points: number[]; seasonal: boolean } {
+    const periods = granularity === 'hour' ? [7 * 24, 24] : [7];
+
+    for (const period of periods) {
+      const points: number[] = [];
+      for (let index = history.length - period; index >= 0; index -= period) {
+        points.push(history[index]);
+      }
+      if (points.length >= MIN_SEASONAL_POINTS) return { points, seasonal: true };
+    }
+
+    return { points: history, seasonal: false };
+  }
+}
@@ -0,0 +1,105 @@
+import { AnrAnalyzer } from './anr-analyzer';
+import { crashEvent } from './test-helpers';
+
+function frame(symbol: string, owner = 'PLATFORM', file = '', line = 0) {
+  return { symbol, owner, file, line };
+}
+
+function thread(name: string, title: string, frames: ReturnType<typeof frame>[], subtitle = '') {
+  return { name, thread_name: name, title, subtitle, frames };
+}
+
+function anrEvent(threads: Array<ReturnType<typeof thread> & { crashed?: boolean }>, overrides: Record<string, unknown> = {}) {
+  return crashEvent({ error_type: 'ANR', threads, ...overrides });
+}
+
+describe('AnrAnalyzer.analyze', () => {
+  const analyzer = new AnrAnalyzer();
+
+  it('classifies main-thread I/O by its strongest frame', () => {
+    const analysis = analyzer.analyze(anrEvent([
+      thread('main', 'main (native)', [
+        frame('java.io.FileOutputStream.write'),
+        frame('android.app.SharedPreferencesImpl$EditorImpl.commit'),
+        frame('com.example.app.Settings.save', 'DEVELOPER', 'Settings.kt', 54),
+      ]),
+    ]));
+
+    expect(analysis).toMatchObject({
+      cause: 'shared_preferences',
+      findings: ['shared_preferences', 'disk_io'],
+      evidence: 'android.app.SharedPreferencesImpl$EditorImpl.commit',
+      blocking_frame: 'com.example.app.Settings.save (Settings.kt:54)',
+      main_thread: { name: 'main', state: 'NATIVE' },
+    });
+  });
+
+  it('follows the lock the main thread waits for', () => {
+    const analysis = analyzer.analyze(anrEvent([
+      thread('main', 'main tid=1 Blocked', [frame('com.example.app.Cache.get', 'DEVELOPER')], '- waiting to lock <0x0d1a2b3c> (a com.example.app.Cache) held by thread 23'),
+      thread('worker', 'worker tid=23 Runnable', [frame('com.example.app.Cache.refresh', 'DEVELOPER')], '- locked <0x0d1a2b3c> (a com.example.app.Cache)'),
+    ]));
+
+    expect(analysis.cause).toBe('lock_contention');
+    expect(analysis.evidence).toBe('waiting to lock <0x0d1a2b3c> (a com.example.app.Cache) held by worker');
+    expect(analysis.lock_chain).toEqual([{ thread: 'main', lock: '0x0d1a2b3c', lock_class: 'com.example.app.Cache', held_by: 'worker' }]);
+    expect(analysis.blocked_threads).toBe(1);
+  });
+
+  it('detects lock cycles as deadlocks', () => {
+    const analysis = analyzer.analyze(anrEvent([
+      thread('main', 'main tid=1 Blocked', [frame('com.example.app.A.run', 'DEVELOPER')], '- waiting to lock <0xa> held by thread 2\n- locked <0xb>'),
+      thread('db', 'db tid=2 Blocked', [frame('com.example.app.B.run', 'DEVELOPER')], '- waiting to lock <0xb> held by thread 1\n- locked <0xa>'),
+    ]));
+
+    expect(analysis.cause).toBe('deadlock');
+    expect(analysis.deadlocked_threads.sort()).toEqual(['db', 'main']);
+    expect(analysis.lock_chain.map(step => step.held_by)).toEqual(['db', 'main']);
+  });
+
+  it('tells an idle message loop from busy code', () => {
+    const idle = analyzer.analyze(anrEvent([thread('main', 'main', [frame('android.os.MessageQueue.nativePollOnce'), frame('android.os.Looper.loop')])]));
+    const busy = analyzer.analyze(anrEvent([thread('main', 'main', [frame('com.example.app.Feed.layout', 'DEVELOPER')])]));
+
+    expect(idle.cause).toBe('main_thread_idle');
+    expect(busy).toMatchObject({ cause: 'main_thread_busy', evidence: 'com.example.app.Feed.layout' });
+  });
+
+  it('falls back to the crashed thread and reports events without one', () => {
+    const crashed = analyzer.analyze(anrEvent([{ ...thread('Thread-0', '', [frame('android.os.BinderProxy.transact')]), crashed: true }]));
+    const none = analyzer.analyze(anrEvent([thread('worker', '', [])]));
+
+    expect(crashed).toMatchObject({ cause: 'binder_call', main_thread: { name: 'Thread-0' } });
+    expect(none).toMatchObject({ cause: 'unknown', main_thread: null, threads_analyzed: 1 });
+  });
+});
+
+describe('AnrAnalyzer.summarizeIssue', () => {
+  const analyzer = new AnrAnalyzer();
+  const io = (eventId: string, userId: string) => anrEvent(
+    [thread('main', 'main', [frame('java.net.SocketInputStream.read'), frame('com.example.app.Api.fetch', 'DEVELOPER', 'Api.kt', 12)])],
+    { event_id: eventId, user: { id: userId } }
+  );
+
+  it('ranks causes by the events they explain', () => {
+    const events = [
+      io('e1', 'u1'),
+      io('e2', 'u2'),
+      anrEvent([thread('main', 'main', [frame('com.example.app.Feed.layout', 'DEVELOPER')])], { event_id: 'e3', user: { id: 'u1' } }),
+      anrEvent([], { event_id: 'e4' }),
+    ];
+
+    const summary = analyzer.summarizeIssue('issue-1', events);
+
+    expect(summary).toMatchObject({ issue_id: 'issue-1', events_analyzed: 3, events_without_threads: 1 });
+    expect(summary.causes.map(cause => [cause.cause, cause.event_count, cause.percentage, cause.affected_users])).toEqual([
+      ['network_io', 2, 66.7, 2],
+      ['main_thread_busy', 1, 33.3, 1],
+    ]);
+    expect(summary.causes[0]).toMatchObject({
+      example_crash_id: 'e1',
+      top_blocking_frames: [{ frame: 'com.example.app.Api.fetch (Api.kt:12)', count: 2 }],
+    });
+    expect(summary.events.map(event => event.crash_id)).toEqual(['e1', 'e2', 'e3']);
+  });
+});
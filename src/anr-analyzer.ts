@@ -0,0 +1,282 @@
+import {
+  AnrAnalysis,
+  AnrCause,
+  AnrCauseSummary,
+  AnrIssueAnalysis,
+  AnrLockWait,
+  CrashEvent,
+  CrashFrame,
+  CrashThread,
+} from './types.js';
+
+const TOP_FRAMES = 5;
+const TOP_BLOCKING_FRAMES = 3;
+
+const TID_PATTERN = /\btid=(\d+)/;
+const STATE_PATTERN = /\b(runnable|blocked|timed_?waiting|waiting|sleeping|native|suspended|monitor)\b/i;
+// Lock lines as they appear in Android thread dumps, e.g.
+// "- waiting to lock <0x0d1a2b3c> (a com.example.Cache) held by thread 23"
+const WAITING_TO_LOCK_PATTERN = /waiting to lock <(0x[0-9a-f]+)>(?: \(a ([\w.$]+)\))?(?: held by (?:thread |tid=)(\d+))?/i;
+const LOCKED_PATTERN = /\blocked <(0x[0-9a-f]+)>/gi;
+const IDLE_PATTERN = /^android\.os\.MessageQueue\.nativePollOnce/;
+
+const ANR_CAUSE_DESCRIPTIONS: Record<AnrCause, string> = {
+  deadlock: 'The main thread waits on a lock cycle between threads (deadlock)',
+  lock_contention: 'The main thread waits for a lock held by another thread',
+  shared_preferences: 'SharedPreferences commit() or pending apply() writes run on the main thread',
+  binder_call: 'The main thread is blocked in a binder call to another process',
+  network_io: 'The main thread performs network I/O',
+  disk_io: 'The main thread performs disk or database I/O',
+  blocking_wait: 'The main thread waits on another thread (wait, join, future, latch or runBlocking)',
+  main_thread_busy: 'The main thread is running code without blocking; look for long work or loops',
+  main_thread_idle: 'The main thread was idle in its message loop; the ANR likely came from system load or a slow broadcast or service, or was captured late',
+  unknown: 'The event has no main thread dump to classify',
+};
+
+// Checked in order against every main-thread frame, strongest cause first,
+// so a SharedPreferences commit wins over the file write beneath it.
+const FRAME_RULES: Array<{ cause: AnrCause; pattern: RegExp }> = [
+  { cause: 'lock_contention', pattern: /^java\.util\.concurrent\.locks\.(ReentrantLock|ReentrantReadWriteLock)/ },
+  { cause: 'shared_preferences', pattern: /SharedPreferencesImpl\$EditorImpl\.commit|SharedPreferencesImpl\.awaitLoadedLocked|QueuedWork\.waitToFinish/ },
+  { cause: 'binder_call', pattern: /^android\.os\.BinderProxy\.transact|IPCThreadState::(transact|talkWithDriver)/ },
+  {
+    cause: 'network_io',
+    pattern: /^(java\.net\.(Socket|PlainSocketImpl|AbstractPlainSocketImpl|SocketInputStream|SocketOutputStream|InetAddress|Inet6AddressImpl|HttpURLConnection)|javax\.net\.ssl\.|okhttp3\.|com\.android\.okhttp\.|com\.android\.org\.conscrypt\.|libcore\.io\.Linux\.(recvfrom|sendto|connect|getaddrinfo))/,
+  },
+  {
+    cause: 'disk_io',
+    pattern: /^(java\.io\.(File|RandomAccessFile)|java\.nio\.channels\.FileChannel|sun\.nio\.ch\.FileChannelImpl|libcore\.io\.IoBridge\.(open|read|write)|libcore\.io\.Linux\.(open|read|write|fsync|fdatasync|stat|lstat|access)|android\.database\.sqlite\.|androidx\.(room|sqlite)\.|android\.os\.FileUtils)/,
+  },
+  {
+    cause: 'blocking_wait',
+    pattern: /^(java\.lang\.Object\.wait|java\.lang\.Thread\.(join|sleep)|java\.util\.concurrent\.(CountDownLatch\.await|FutureTask\.(get|awaitDone)|CompletableFuture\.(get|join)|locks\.LockSupport\.park)|kotlinx\.coroutines\..*runBlocking)/,
+  },
+];
+
+interface ThreadInfo {
+  name: string;
+  tid: string | null;
+  state: string | null;
+  frames: CrashFrame[];
+  waitingOn: { lock: string; lockClass: string | null; heldByTid: string | null } | null;
+  heldLocks: Set<string>;
+}
+
+function formatFrame(frame: CrashFrame): string {
+  const location = frame.file ? ` (${frame.file}${frame.line ? `:${frame.line}` : ''})` : '';
+  return `${frame.symbol || 'Unknown'}${location}`;
+}
+
+/**
+ * Classifies why an ANR blocked the main thread from the thread dump the
+ * export records with it, and ranks those causes across an issue's events.
+ */
+export class AnrAnalyzer {
+  analyze(event: CrashEvent): AnrAnalysis {
+    const threads = event.threads.map((thread, index) => this.parseThread(thread, index));
+    const deadlocked = this.findDeadlockedThreads(threads);
+    const mainIndex = this.findMainThreadIndex(event.threads);
+    const main = mainIndex >= 0 ? threads[mainIndex] : null;
+    const blockedThreads = threads.filter(thread => thread.state === 'BLOCKED' || thread.waitingOn).length;
+
+    if (!main) {
+      return {
+        cause: 'unknown',
+        description: ANR_CAUSE_DESCRIPTIONS.unknown,
+        findings: [],
+        main_thread: null,
+        evidence: null,
+        blocking_frame: null,
+        lock_chain: [],
+        deadlocked_threads: Array.from(deadlocked),
+        threads_analyzed: threads.length,
+        blocked_threads: blockedThreads,
+      };
+    }
+
+    const lockChain = this.lockChain(main, threads);
+    const findings: Array<{ cause: AnrCause; evidence: string | null }> = [];
+
+    if (lockChain.length > 0) {
+      const inCycle = lockChain.some(step => deadlocked.has(step.thread) || (step.held_by !== null && deadlocked.has(step.held_by)));
+      const first = lockChain[0];
+      findings.push({
+        cause: inCycle ? 'deadlock' : 'lock_contention',
+        evidence: `waiting to lock <${first.lock}>${first.lock_class ? ` (a ${first.lock_class})` : ''}${first.held_by ? ` held by ${first.held_by}` : ''}`,
+      });
+    } else if (main.state === 'BLOCKED') {
+      findings.push({ cause: 'lock_contention', evidence: main.frames[0] ? formatFrame(main.frames[0]) : null });
+    }
+
+    for (const rule of FRAME_RULES) {
+      const frame = main.frames.find(candidate => rule.pattern.test(candidate.symbol));
+      if (frame && !findings.some(finding => finding.cause === rule.cause)) {
+        findings.push({ cause: rule.cause, evidence: formatFrame(frame) });
+      }
+    }
+
+    if (findings.length === 0 && main.frames.length > 0) {
+      const idle = main.frames.slice(0, 2).some(frame => IDLE_PATTERN.test(frame.symbol));
+      findings.push({ cause: idle ? 'main_thread_idle' : 'main_thread_busy', evidence: formatFrame(main.frames[0]) });
+    }
+
+    const cause = findings[0]?.cause || 'unknown';
+    const blockingFrame = main.frames.find(frame => frame.owner === 'DEVELOPER');
+
+    return {
+      cause,
+      description: ANR_CAUSE_DESCRIPTIONS[cause],
+      findings: findings.map(finding => finding.cause),
+      main_thread: {
+        name: main.name,
+        state: main.state,
+        top_frames: main.frames.slice(0, TOP_FRAMES).map(formatFrame),
+      },
+      evidence: findings[0]?.evidence || null,
+      blocking_frame: blockingFrame ? formatFrame(blockingFrame) : null,
+      lock_chain: lockChain,
+      deadlocked_threads: Array.from(deadlocked),
+      threads_analyzed: threads.length,
+      blocked_threads: blockedThreads,
+    };
+  }
+
+  /** Ranks the causes of an issue's ANR events by how many events they explain. */
+  summarizeIssue(issueId: string, events: CrashEvent[]): AnrIssueAnalysis {
+    const withThreads = events.filter(event => event.threads.length > 0);
+    const analyzed = withThreads.map(event => ({ event, analysis: this.analyze(event) }));
+    const groups = new Map<AnrCause, { summary: AnrCauseSummary; users: Set<string>; frames: Map<string, number> }>();
+
+    for (const { event, analysis } of analyzed) {
+      let group = groups.get(analysis.cause);
+      if (!group) {
+        group = {
+          summary: {
+            cause: analysis.cause,
+            description: analysis.description,
+            event_count: 0,
+            percentage: 0,
+            affected_users: 0,
+            example_crash_id: event.event_id,
+            top_blocking_frames: [],
+          },
+          users: new Set(),
+          frames: new Map(),
+        };
+        groups.set(analysis.cause, group);
+      }
+
+      group.summary.event_count++;
+      const user = event.user.id || event.installation_uuid;
+      if (user) group.users.add(user);
+      if (analysis.blocking_frame) {
+        group.frames.set(analysis.blocking_frame, (group.frames.get(analysis.blocking_frame) || 0) + 1);
+      }
+    }
+
+    const causes = Array.from(groups.values())
+      .map(({ summary, users, frames }) => ({
+        ...summary,
+        percentage: Math.round((summary.event_count / analyzed.length) * 1000) / 10,
+        affected_users: users.size,
+        top_blocking_frames: Array.from(frames.entries())
+          .map(([frame, count]) => ({ frame, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, TOP_BLOCKING_FRAMES),
+      }))
+      .sort((a, b) => b.event_count - a.event_count || b.affected_users - a.affected_users);
+
+    return {
+      issue_id: issueId,
+      issue_title: events[0]?.issue_title || '',
+      events_analyzed: analyzed.length,
+      events_without_threads: events.length - withThreads.length,
+      causes,
+      events: analyzed.map(({ event, analysis }) => ({
+        crash_id: event.event_id,
+        timestamp: event.event_timestamp,
+        cause: analysis.cause,
+        evidence: analysis.evidence,
+        blocking_frame: analysis.blocking_frame,
+      })),
+    };
+  }
+
+  private parseThread(thread: CrashThread, index: number): ThreadInfo {
+    const header = [thread.name, thread.thread_name, thread.title, thread.subtitle].join(' ');
+    const lines = [thread.title, thread.subtitle, ...thread.frames.map(frame => frame.symbol)];
+    const state = header.match(STATE_PATTERN)?.[1].toUpperCase().replace('TIMEDWAITING', 'TIMED_WAITING') || null;
+
+    let waitingOn: ThreadInfo['waitingOn'] = null;
+    const heldLocks = new Set<string>();
+    for (const line of lines) {
+      const waiting = line.match(WAITING_TO_LOCK_PATTERN);
+      if (waiting && !waitingOn) {
+        waitingOn = { lock: waiting[1].toLowerCase(), lockClass: waiting[2] || null, heldByTid: waiting[3] || null };
+      }
+      for (const locked of line.matchAll(LOCKED_PATTERN)) {
+        heldLocks.add(locked[1].toLowerCase());
+      }
+    }
+
+    return {
+      name: thread.name || thread.thread_name || thread.title || `thread-${index}`,
+      tid: header.match(TID_PATTERN)?.[1] || null,
+      state,
+      frames: thread.frames,
+      waitingOn,
+      heldLocks,
+    };
+  }
+
+  private findMainThreadIndex(threads: CrashThread[]): number {
+    const named = threads.findIndex(thread => thread.name === 'main' || thread.thread_name === 'main');
+    return named >= 0 ? named : threads.findIndex(thread => thread.crashed || thread.blamed);
+  }
+
+  private holderOf(thread: ThreadInfo, threads: ThreadInfo[]): ThreadInfo | null {
+    const waitingOn = thread.waitingOn;
+    if (!waitingOn) return null;
+
+    return threads.find(candidate => candidate !== thread && (
+      (waitingOn.heldByTid !== null && candidate.tid === waitingOn.heldByTid) ||
+      candidate.heldLocks.has(waitingOn.lock)
+    )) || null;
+  }
+
+  private lockChain(start: ThreadInfo, threads: ThreadInfo[]): AnrLockWait[] {
+    const chain: AnrLockWait[] = [];
+    const visited = new Set<ThreadInfo>();
+    let current: ThreadInfo | null = start;
+
+    while (current?.waitingOn && !visited.has(current)) {
+      visited.add(current);
+      const holder = this.holderOf(current, threads);
+      chain.push({
+        thread: current.name,
+        lock: current.waitingOn.lock,
+        lock_class: current.waitingOn.lockClass,
+        held_by: holder?.name || (current.waitingOn.heldByTid ? `tid=${current.waitingOn.heldByTid}` : null),
+      });
+      current = holder;
+    }
+    return chain;
+  }
+
+  private findDeadlockedThreads(threads: ThreadInfo[]): Set<string> {
+    const deadlocked = new Set<string>();
+
+    for (const start of threads) {
+      const path: ThreadInfo[] = [];
+      let current: ThreadInfo | null = start;
+      while (current && !path.includes(current)) {
+        path.push(current);
+        current = this.holderOf(current, threads);
+      }
+      if (current) {
+        path.slice(path.indexOf(current)).forEach(thread => deadlocked.add(thread.name));
+      }
+    }
+    return deadlocked;
+  }
+}
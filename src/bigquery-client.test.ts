@@ -0,0 +1,330 @@
+import { BigQueryClient } from './bigquery-client';
+import { FIXTURE_NOW, freezeFixtureTime } from './test-helpers';
+import { ServerConfig } from './types';
+import { versionSortKey } from './version-utils';
+
+interface RecordedQuery {
+  query: string;
+  params: Record<string, unknown>;
+  dryRun?: boolean;
+  maximumBytesBilled?: string;
+}
+
+const queries: RecordedQuery[] = [];
+let respond: (query: RecordedQuery) => unknown[] = () => [];
+
+jest.mock('@google-cloud/bigquery', () => ({
+  BigQuery: jest.fn().mockImplementation(() => ({
+    createQueryJob: async (options: RecordedQuery) => {
+      queries.push(options);
+      return [
+        {
+          getQueryResults: async () => [respond(options)],
+          getMetadata: async () => [{ statistics: { query: { totalBytesProcessed: '100', totalBytesBilled: '100' } } }],
+        },
+        { statistics: { totalBytesProcessed: '100' } },
+      ];
+    },
+  })),
+}));
+
+function createClient(overrides: Partial<ServerConfig> = {}): BigQueryClient {
+  return new BigQueryClient({
+    dataSource: 'bigquery',
+    serviceAccountKey: '{}',
+    projectId: 'my-project',
+    datasetId: 'firebase_crashlytics',
+    ticketTrackers: {},
+    ticketStoreFile: '.crashlytics-tickets.json',
+    defaultCrashLimit: 10,
+    countryCustomKey: 'country',
+    crashFreeDenominator: 'none',
+    queryCache: { ttlSeconds: 0, maxEntries: 0, maxBytes: 0 },
+    queryCost: { dryRun: false, maxBytesPerQuery: 0, maxBytesPerSession: 0, defaultLookbackDays: 90 },
+    ...overrides,
+  });
+}
+
+const HOSTILE = "x' OR '1'='1` UNION SELECT * FROM secrets; --";
+
+beforeEach(() => {
+  queries.length = 0;
+  respond = () => [];
+});
+
+describe('BigQueryClient parameterized call sites', () => {
+  it.each([
+    ['getCrashDetails', (client: BigQueryClient) => client.getCrashDetails({ crash_id: HOSTILE })],
+    ['getCrashDetailsByIssueId', (client: BigQueryClient) => client.getCrashDetailsByIssueId({ issue_id: HOSTILE, limit: 5 })],
+    ['fetchFatalCrashesByApp', (client: BigQueryClient) => client.fetchFatalCrashesByApp(HOSTILE, 5)],
+    ['fetchANRIssuesByApp', (client: BigQueryClient) => client.fetchANRIssuesByApp(HOSTILE, 5)],
+    ['fetchCrashes', (client: BigQueryClient) => client.fetchCrashes({ app_version: HOSTILE, limit: 5 })],
+    ['fetchCrashesByApp', (client: BigQueryClient) => client.fetchCrashesByApp(HOSTILE, { app_version: HOSTILE, limit: 5 })],
+    ['fetchIssueAggregates', (client: BigQueryClient) => client.fetchIssueAggregates({
+      app_package: HOSTILE, time_range: '7d', issue_type: 'all', sort_by: 'users', limit: 5, app_version: HOSTILE, issue_id: HOSTILE,
+    })],
+    ['getVersionCrashTotals', (client: BigQueryClient) => client.getVersionCrashTotals(HOSTILE, [HOSTILE], '30d')],
+    ['fetchUserEvents', (client: BigQueryClient) => client.fetchUserEvents({
+      user_id: HOSTILE, app_package: HOSTILE, time_range: '30d', view: 'sessions', limit: 5,
+    })],
+    ['fetchSessionEvents', (client: BigQueryClient) => client.fetchSessionEvents(HOSTILE, HOSTILE, new Date(0), new Date())],
+  ])('%s passes hostile values only as parameters', async (_name, call) => {
+    await call(createClient());
+
+    expect(queries.length).toBeGreaterThan(0);
+    for (const recorded of queries) {
+      // Per-app queries name the app's tables, with everything but [A-Za-z0-9_] replaced
+      const tables = recorded.query.match(/`[^`]*`/g) || [];
+      for (const table of tables) {
+        expect(table).toMatch(/^`my-project\.firebase_crashlytics\.\w*\*`$/);
+      }
+      const query = tables.reduce((text, table) => text.replace(table, '`table`'), recorded.query);
+      expect(query).not.toContain(HOSTILE);
+      expect(query).not.toContain('secrets');
+      expect(Object.values(recorded.params).flat()).toContain(HOSTILE);
+    }
+  });
+
+  it('binds filter values as parameters', async () => {
+    await createClient().getCrashDetailsByIssueId({
+      issue_id: 'abc',
+      limit: 5,
+      filter: {
+        device_model: [HOSTILE],
+        country: [HOSTILE],
+        custom_keys: [{ key: HOSTILE, equals: HOSTILE }, { key: 'screen', contains: HOSTILE }],
+      },
+    });
+
+    const [recorded] = queries;
+    expect(recorded.query).not.toContain('secrets');
+    expect(recorded.params).toMatchObject({
+      filter_models: [HOSTILE.toUpperCase()],
+      filter_countries: [HOSTILE.toUpperCase()],
+      filter_custom_key_0: HOSTILE,
+      filter_custom_value_0: HOSTILE,
+      filter_custom_value_1: HOSTILE.toLowerCase(),
+    });
+  });
+
+  it('compares version ranges by their sort keys', async () => {
+    await createClient().fetchFatalCrashesByApp('com.example.app', 5, undefined, {
+      app_version: { min: '4.9', max: '4.12.0' },
+      os_version: { max: '14' },
+    });
+
+    const [recorded] = queries;
+    expect(recorded.query).toContain('>= @filter_app_version_min');
+    expect(recorded.query).toContain('<= @filter_os_version_max');
+    expect(recorded.query).not.toContain('@filter_os_version_min');
+    expect(recorded.params).toMatchObject({
+      filter_app_version_min: versionSortKey('4.9'),
+      filter_app_version_max: versionSortKey('4.12.0'),
+      filter_os_version_max: versionSortKey('14'),
+    });
+  });
+
+  it('narrows per-app queries to sanitized table names', async () => {
+    await createClient().fetchFatalCrashesByApp('com.example.app`; DROP TABLE x; --', 5);
+
+    expect(queries[0].query).toContain('FROM `my-project.firebase_crashlytics.com_example_app___DROP_TABLE_x_____*`');
+  });
+
+  it('refuses invalid configured identifiers', () => {
+    expect(() => createClient({ datasetId: 'crashlytics`; DROP' })).toThrow('Invalid BigQuery dataset identifier');
+    expect(() => createClient({ projectId: 'my-project.other' })).toThrow('Invalid BigQuery project identifier');
+    expect(() => createClient({ crashFreeDenominator: 'table', crashFreeDenominatorTable: 'metrics.dau; --' })).toThrow(
+      'Invalid BigQuery table identifier'
+    );
+  });
+});
+
+describe('BigQueryClient result rows', () => {
+  it('maps app listings to plain values', async () => {
+    respond = () => [{
+      bundle_identifier: 'com.example.app',
+      platform: 'ANDROID',
+      total_crashes: 5,
+      fatal_crashes: 4,
+      non_fatal_crashes: 1,
+      latest_crash: { value: '2026-10-17T10:00:00.000Z' },
+      earliest_crash: new Date('2026-10-01T10:00:00.000Z'),
+    }];
+
+    expect(await createClient().discoverApps()).toEqual([{
+      app_package: 'com.example.app',
+      platform: 'ANDROID',
+      total_crashes: 5,
+      fatal_crashes: 4,
+      non_fatal_crashes: 1,
+      latest_crash: '2026-10-17T10:00:00.000Z',
+      earliest_crash: '2026-10-01T10:00:00.000Z',
+    }]);
+  });
+
+  it('maps statistics rows, keeping missing groups empty', async () => {
+    respond = () => [{ group_key: null, crash_count: 3, affected_users: '2', crash_date: { value: '2026-10-17' } }];
+
+    expect(await createClient().getCrashStatistics({ time_range: '7d', group_by: 'device' })).toEqual([
+      { group_key: '', crash_count: 3, affected_users: 2, crash_date: '2026-10-17' },
+    ]);
+  });
+
+  it('counts crashed installations alongside crashed users per version', async () => {
+    respond = () => [{ version: '1.0.0', event_count: 5, user_count: 2, installation_count: 3 }];
+
+    expect(await createClient().getVersionCrashTotals('com.example.app', ['1.0.0'], '7d')).toEqual([
+      { version: '1.0.0', event_count: 5, user_count: 2, installation_count: 3 },
+    ]);
+    expect(queries[0].query).toContain('COUNT(DISTINCT installation_uuid) as installation_count');
+  });
+});
+
+describe('BigQueryClient.getCrashFreeCounts', () => {
+  beforeEach(() => {
+    freezeFixtureTime();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it.each(['table', 'analytics'] as const)('binds separate start times for crashes and the %s denominator', async source => {
+    await createClient({
+      crashFreeDenominator: source,
+      crashFreeDenominatorTable: 'metrics.daily_active_users',
+      analyticsDatasetId: 'analytics_123',
+    }).getCrashFreeCounts('7d');
+
+    const [recorded] = queries;
+    expect(recorded.query).toContain('event_timestamp >= @start_time');
+    expect(recorded.query).toContain('DATE(@exposure_start_time)');
+    expect(recorded.params.start_time).toBeInstanceOf(Date);
+    expect(recorded.params.exposure_start_time).toEqual(recorded.params.start_time);
+  });
+
+  it.each(['table', 'analytics'] as const)('reads only the given app\'s crashes and %s denominator rows', async source => {
+    await createClient({
+      crashFreeDenominator: source,
+      crashFreeDenominatorTable: 'metrics.daily_active_users',
+      analyticsDatasetId: 'analytics_123',
+    }).getCrashFreeCounts('7d', 'com.example.app');
+
+    const [recorded] = queries;
+    expect(recorded.query).toContain('`my-project.firebase_crashlytics.com_example_app_*`');
+    expect(recorded.query).toContain('bundle_identifier = @app_package');
+    expect(recorded.query).toContain(`${source === 'analytics' ? 'app_info.id' : 'app_package'} = @exposure_app_package`);
+    expect(recorded.params).toMatchObject({ app_package: 'com.example.app', exposure_app_package: 'com.example.app' });
+  });
+
+  it('leaves totals null without a denominator', async () => {
+    respond = () => [{ date: { value: '2026-10-17' }, app_package: 'com.example.app', app_version: '1.0.0', crashed_users: 2, crashed_sessions: 3, total_users: null, total_sessions: null }];
+
+    expect(await createClient().getCrashFreeCounts('7d')).toEqual([{
+      date: '2026-10-17',
+      app_package: 'com.example.app',
+      app_version: '1.0.0',
+      crashed_users: 2,
+      crashed_sessions: 3,
+      total_users: null,
+      total_sessions: null,
+    }]);
+  });
+});
+
+describe('BigQueryClient query cache', () => {
+  const cached = { queryCache: { ttlSeconds: 300, maxEntries: 10, maxBytes: 1024 * 1024 } };
+
+  beforeEach(() => {
+    freezeFixtureTime();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts relative ranges at the same time within the TTL', async () => {
+    const client = createClient(cached);
+    const aggregates = () => client.fetchIssueAggregates({
+      app_package: 'com.example.app', time_range: '7d', issue_type: 'all', sort_by: 'users', limit: 5,
+    });
+
+    await aggregates();
+    jest.setSystemTime(FIXTURE_NOW.getTime() + 4 * 60 * 1000);
+    await aggregates();
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].params.start_time).toEqual(new Date(FIXTURE_NOW.getTime() - 7 * 24 * 60 * 60 * 1000));
+  });
+
+  it('keeps the timestamps callers pass in exact', async () => {
+    const client = createClient(cached);
+    const filtered = (startTime: string) =>
+      client.fetchFatalCrashesByApp('com.example.app', 5, undefined, { start_time: startTime });
+
+    await filtered('2026-10-18T11:01:00Z');
+    await filtered('2026-10-18T11:04:00Z');
+
+    expect(queries.map(recorded => recorded.params.filter_start_time)).toEqual([
+      new Date('2026-10-18T11:01:00Z'),
+      new Date('2026-10-18T11:04:00Z'),
+    ]);
+  });
+});
+
+describe('BigQueryClient default lookback', () => {
+  it.each([
+    ['getCrashDetails', (client: BigQueryClient) => client.getCrashDetails({ crash_id: 'abc' })],
+    ['getCrashDetailsByIssueId', (client: BigQueryClient) => client.getCrashDetailsByIssueId({ issue_id: 'abc', limit: 5 })],
+  ])('%s searches every partition for the ID', async (_name, call) => {
+    await call(createClient());
+
+    expect(queries[0].query).not.toContain('@start_time');
+  });
+
+  it('bounds app listings without a time range', async () => {
+    await createClient().fetchFatalCrashesByApp('com.example.app', 5);
+
+    expect(queries[0].query).toContain('event_timestamp >= @start_time');
+    expect(Date.now() - (queries[0].params.start_time as Date).getTime()).toBeCloseTo(90 * 24 * 60 * 60 * 1000, -5);
+  });
+
+  it('lets a filter start time replace the lookback', async () => {
+    await createClient().fetchFatalCrashesByApp('com.example.app', 5, undefined, { start_time: '2020-01-01T00:00:00Z' });
+
+    expect(queries[0].query).not.toContain('@start_time');
+    expect(queries[0].params.filter_start_time).toEqual(new Date('2020-01-01T00:00:00Z'));
+  });
+});
+
+describe('BigQueryClient query cost limits', () => {
+  const queryCost = { dryRun: true, maxBytesPerQuery: 1000, maxBytesPerSession: 0, defaultLookbackDays: 90 };
+
+  it('dry-runs queries and caps what the job may bill', async () => {
+    await createClient({ queryCost }).getCrashDetails({ crash_id: 'abc' });
+
+    expect(queries.map(recorded => [recorded.dryRun, recorded.maximumBytesBilled])).toEqual([
+      [true, undefined],
+      [undefined, '1000'],
+    ]);
+  });
+
+  it('refuses queries whose estimate exceeds the per-query limit', async () => {
+    await expect(createClient({ queryCost: { ...queryCost, maxBytesPerQuery: 50 } }).getCrashDetails({ crash_id: 'abc' })).rejects.toThrow(
+      'Query would process 100 B, above the per-query limit of 50 B'
+    );
+    expect(queries).toHaveLength(1);
+  });
+
+  it('lowers the cap to what is left of the session budget', async () => {
+    const client = createClient({ queryCost: { ...queryCost, maxBytesPerSession: 250 } });
+
+    await client.getCrashDetails({ crash_id: 'a' });
+    await client.getCrashDetails({ crash_id: 'b' });
+    expect(queries[3].maximumBytesBilled).toBe('150');
+
+    await expect(client.getCrashDetails({ crash_id: 'c' })).rejects.toThrow(
+      'Query would process 100 B, but only 50 B of the session budget of 250 B remains'
+    );
+  });
+});
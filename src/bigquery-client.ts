@@ -1,21 +1,123 @@
 import { BigQuery } from '@google-cloud/bigquery';
 import { 
   ServerConfig, 
-  BigQueryCrashRow, 
+  CrashEvent,
   FetchCrashesParams, 
   GetCrashDetailsParams,
   GetCrashDetailsByIssueIdParams,
   AnalyzeCrashTrendsParams,
   TimeRange,
-  Platform 
+  Platform,
+  AppSummary,
+  CrashStatisticsRow,
+  CrashFreeCountRow,
+  IssueAggregate,
+  IssueTypeFilter,
+  IssueSortBy,
+  IssueAggregateQuery,
+  VersionCrashTotals,
+  CrashVolumeRow,
+  DetectCrashAnomaliesParams,
+  AnomalyDimension,
+  CrashFilter,
+  VersionRange,
+  GetUserCrashHistoryParams
 } from './types.js';
+import { QueryBuilder, ParameterizedQuery, buildTableReference, combineParams, resolveTableReference } from './query-builder.js';
+import { CrashDataSource, getTimeRangeStart, getGrowthWindow } from './crash-data-source.js';
+import { normalizeCrashEvent, toTimestamp, toDateString } from './crash-normalizer.js';
+import { QueryCache } from './query-cache.js';
+import { QueryCostGuard } from './query-cost-guard.js';
+import { getQueryContext } from './query-context.js';
+import { EventCursor } from './event-cursor.js';
+import { SORT_KEY_SEGMENTS, SORT_KEY_WIDTH, versionSortKey } from './version-utils.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A result row before it is mapped; nested records and TIMESTAMP values arrive as objects. */
+type QueryRow = Record<string, unknown>;
+
+// Events read for one session's timeline; a session rarely reports more.
+const SESSION_EVENT_LIMIT = 100;
+
+// Columns read for crash lists; the bulky threads, logs and breadcrumbs are
+// only fetched when a single crash is inspected.
+const SUMMARY_COLUMNS = [
+  'event_id',
+  'issue_id',
+  'issue_title',
+  'issue_subtitle',
+  'event_timestamp',
+  'platform',
+  'bundle_identifier',
+  'is_fatal',
+  'error_type',
+  'application',
+  'device',
+  'operating_system',
+  'user',
+  'installation_uuid',
+  'firebase_session_id',
+  'process_state',
+  'blame_frame',
+  'exceptions',
+  'errors',
+];
+
+const DETAIL_COLUMNS = [
+  ...SUMMARY_COLUMNS,
+  'variant_id',
+  'received_timestamp',
+  'app_orientation',
+  'device_orientation',
+  'memory',
+  'storage',
+  'custom_keys',
+  'logs',
+  'breadcrumbs',
+  'threads',
+];
+
+/**
+ * SQL counterpart of `versionSortKey`: zero-padded numeric segments followed
+ * by `-<pre-release>` or `~`, and NULL when the version has no numeric core.
+ */
+function versionSortKeySql(column: string): string {
+  const segment = "IFNULL(parts[SAFE_OFFSET(segment)], '0')";
+  return `(SELECT IF(core IS NULL, NULL, CONCAT(
+      ARRAY_TO_STRING(ARRAY(
+        SELECT LPAD(${segment}, GREATEST(${SORT_KEY_WIDTH}, LENGTH(${segment})), '0')
+        FROM UNNEST(GENERATE_ARRAY(0, ${SORT_KEY_SEGMENTS - 1})) AS segment
+        ORDER BY segment
+      ), '.'),
+      IF(pre IS NULL, '~', CONCAT('-', pre))
+    ))
+    FROM (SELECT core, pre, SPLIT(REPLACE(core, '_', '.'), '.') AS parts
+      FROM (SELECT
+        REGEXP_EXTRACT(TRIM(${column}), r'^[vV]?([0-9]+(?:[._][0-9]+)*)') AS core,
+        REGEXP_EXTRACT(TRIM(${column}), r'^[vV]?[0-9]+(?:[._][0-9]+)*-([^+]*)') AS pre)))`;
+}
+
+const EVENT_PAGE_ORDER = ['TIMESTAMP_TRUNC(event_timestamp, MILLISECOND) DESC', 'event_id DESC'];
 
-export class BigQueryClient {
+export class BigQueryClient implements CrashDataSource {
   private bigquery: BigQuery;
   private config: ServerConfig;
+  private tableReference: string;
+  private exposureTableReference: string | null = null;
+  private queryCache: QueryCache;
+  private costGuard: QueryCostGuard;
 
   constructor(config: ServerConfig) {
     this.config = config;
+    this.queryCache = new QueryCache(config.queryCache);
+    this.costGuard = new QueryCostGuard(config.queryCost);
+    this.tableReference = buildTableReference(config.projectId, config.datasetId);
+    if (config.crashFreeDenominator === 'analytics' && config.analyticsDatasetId) {
+      this.exposureTableReference = resolveTableReference(`${config.analyticsDatasetId}.events_*`, config.projectId);
+    } else if (config.crashFreeDenominator === 'table' && config.crashFreeDenominatorTable) {
+      this.exposureTableReference = resolveTableReference(config.crashFreeDenominatorTable, config.projectId);
+    }
     
     let credentials;
     try {
@@ -40,333 +142,686 @@ export class BigQueryClient {
     });
   }
 
-  private getTimeRangeCondition(timeRange: TimeRange): string {
-    const now = new Date();
-    let startDate: Date;
-
-    switch (timeRange) {
-      case '24h':
-        startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
+  /** Without a time range, falls back to the default lookback; `all` stays unbounded. */
+  private applyTimeRange(builder: QueryBuilder, timeRange: TimeRange | undefined, filter?: CrashFilter): QueryBuilder {
+    if (!timeRange) return this.applyDefaultLookback(builder, filter);
+
+    const startDate = getTimeRangeStart(timeRange, this.queryCache.rangeEnd());
+    return builder.whereIf(startDate !== null, 'event_timestamp >= @start_time', { start_time: startDate! });
+  }
+
+  /**
+   * App listings carry no time range, but the export is partitioned by
+   * `event_timestamp`, so bounding them keeps BigQuery from scanning every
+   * partition. A filter `start_time` takes its place. Lookups by event or
+   * issue ID skip it, since an older crash would otherwise look missing;
+   * the dry run and `maximumBytesBilled` bound their cost instead.
+   */
+  private applyDefaultLookback(builder: QueryBuilder, filter?: CrashFilter): QueryBuilder {
+    if (filter?.start_time) return builder;
+    const lookbackDays = this.config.queryCost.defaultLookbackDays;
+    return builder.whereIf(lookbackDays > 0, 'event_timestamp >= @start_time', {
+      start_time: new Date(this.queryCache.rangeEnd().getTime() - lookbackDays * DAY_MS),
+    });
+  }
+
+  /**
+   * Keyset condition for the page after `after`. Normalized events carry
+   * millisecond timestamps, so the comparison truncates the column to match,
+   * and listings order by the same truncated value.
+   */
+  private applyCursor(builder: QueryBuilder, after: EventCursor | undefined): QueryBuilder {
+    if (!after) return builder;
+
+    return builder
+      .where('event_timestamp < TIMESTAMP_ADD(@cursor_timestamp, INTERVAL 1 MILLISECOND)', {
+        cursor_timestamp: new Date(after.timestamp),
+      })
+      .where(
+        'TIMESTAMP_TRUNC(event_timestamp, MILLISECOND) < @cursor_timestamp ' +
+          'OR (TIMESTAMP_TRUNC(event_timestamp, MILLISECOND) = @cursor_timestamp AND event_id < @cursor_event_id)',
+        { cursor_event_id: after.event_id }
+      );
+  }
+
+  /**
+   * Compiles a `CrashFilter` into WHERE conditions. Values only ever reach
+   * the query as parameters; the SQL fragments are fixed per field.
+   */
+  private applyFilter(builder: QueryBuilder, filter: CrashFilter | undefined): QueryBuilder {
+    if (!filter) return builder;
+    const upper = (values: string[]) => values.map(value => value.toUpperCase());
+
+    builder
+      .whereIf(!!filter.start_time, 'event_timestamp >= @filter_start_time', { filter_start_time: new Date(filter.start_time!) })
+      .whereIf(!!filter.end_time, 'event_timestamp < @filter_end_time', { filter_end_time: new Date(filter.end_time!) })
+      .whereIf(!!filter.device_manufacturer, 'UPPER(device.manufacturer) IN UNNEST(@filter_manufacturers)', {
+        filter_manufacturers: upper(filter.device_manufacturer || []),
+      })
+      .whereIf(!!filter.device_model, 'UPPER(device.model) IN UNNEST(@filter_models)', {
+        filter_models: upper(filter.device_model || []),
+      })
+      .whereIf(!!filter.process_state, 'UPPER(process_state) IN UNNEST(@filter_process_states)', {
+        filter_process_states: upper(filter.process_state || []),
+      })
+      .whereIf(
+        !!filter.country,
+        'EXISTS (SELECT 1 FROM UNNEST(custom_keys) AS custom_key WHERE custom_key.key = @filter_country_key AND UPPER(custom_key.value) IN UNNEST(@filter_countries))',
+        { filter_country_key: this.config.countryCustomKey, filter_countries: upper(filter.country || []) }
+      );
+
+    this.applyVersionRange(builder, 'application.display_version', 'filter_app_version', filter.app_version);
+    this.applyVersionRange(builder, 'application.build_version', 'filter_build_version', filter.build_version);
+    this.applyVersionRange(builder, 'operating_system.display_version', 'filter_os_version', filter.os_version);
+    this.applyIssueType(builder, filter.issue_type);
+
+    (filter.custom_keys || []).forEach((customKey, index) => {
+      const valueCondition = customKey.contains !== undefined
+        ? `STRPOS(LOWER(custom_key.value), @filter_custom_value_${index}) > 0`
+        : `custom_key.value = @filter_custom_value_${index}`;
+      builder.where(
+        `EXISTS (SELECT 1 FROM UNNEST(custom_keys) AS custom_key WHERE custom_key.key = @filter_custom_key_${index} AND ${valueCondition})`,
+        {
+          [`filter_custom_key_${index}`]: customKey.key,
+          [`filter_custom_value_${index}`]: customKey.contains !== undefined ? customKey.contains.toLowerCase() : customKey.equals!,
+        }
+      );
+    });
+
+    return builder;
+  }
+
+  private applyVersionRange(builder: QueryBuilder, column: string, paramPrefix: string, range: VersionRange | undefined): QueryBuilder {
+    if (!range) return builder;
+    const sortKey = versionSortKeySql(column);
+
+    return builder
+      .whereIf(range.min !== undefined, `${sortKey} >= @${paramPrefix}_min`, { [`${paramPrefix}_min`]: versionSortKey(range.min || '')! })
+      .whereIf(range.max !== undefined, `${sortKey} <= @${paramPrefix}_max`, { [`${paramPrefix}_max`]: versionSortKey(range.max || '')! });
+  }
+
+  private applyPlatform(builder: QueryBuilder, platform: Platform | undefined): QueryBuilder {
+    return builder.whereIf(!!platform && platform !== 'all', 'UPPER(platform) = UPPER(@platform)', { platform: platform! });
+  }
+
+  private applyIssueType(builder: QueryBuilder, issueType: IssueTypeFilter | undefined): QueryBuilder {
+    switch (issueType) {
+      case 'fatal':
+        return builder.where("UPPER(error_type) = 'FATAL'");
+      case 'non_fatal':
+        return builder.where("UPPER(error_type) = 'NON_FATAL'");
+      case 'anr':
+        return builder.where("UPPER(error_type) = 'ANR'");
       case 'all':
       default:
-        return '';
+        return builder;
     }
+  }
 
-    return `AND event_timestamp >= TIMESTAMP('${startDate.toISOString()}')`;
+  private getIssueOrderBy(sortBy: IssueSortBy): string {
+    switch (sortBy) {
+      case 'events':
+        return 'event_count DESC';
+      case 'growth':
+        return '(recent_events - previous_events) DESC';
+      case 'users':
+      default:
+        return 'user_count DESC';
+    }
   }
 
-  private getPlatformCondition(platform: Platform): string {
-    if (platform === 'all') return '';
-    return `AND platform = '${platform}'`;
+  private newQuery(): QueryBuilder {
+    return new QueryBuilder(this.tableReference);
   }
 
-  async fetchCrashes(params: FetchCrashesParams): Promise<BigQueryCrashRow[]> {
+  /**
+   * Crashlytics exports one table per app and platform, named after the
+   * bundle ID with dots replaced (`com_example_app_ANDROID`, plus a
+   * `_REALTIME` table when streaming is enabled). Narrowing the wildcard to
+   * the app's prefix and `_TABLE_SUFFIX` to the platform names keeps BigQuery
+   * from scanning other apps, including ones whose bundle ID extends this one.
+   */
+  private newAppQuery(appPackageName: string, platform?: Platform): QueryBuilder {
+    const tablePrefix = appPackageName.replace(/[^A-Za-z0-9_]/g, '_');
+    const platforms = platform && platform !== 'all' ? [platform.toUpperCase()] : ['ANDROID', 'IOS'];
+
+    return new QueryBuilder(buildTableReference(this.config.projectId, this.config.datasetId, `${tablePrefix}_*`))
+      .where('_TABLE_SUFFIX IN UNNEST(@table_suffixes)', {
+        table_suffixes: platforms.flatMap(name => [name, `${name}_REALTIME`]),
+      })
+      .where('bundle_identifier = @app_package', { app_package: appPackageName });
+  }
+
+  private async runQuery(query: ParameterizedQuery): Promise<QueryRow[]> {
+    return this.queryCache.getOrLoad(query, () => this.executeQuery(query));
+  }
+
+  /**
+   * Runs a query within the configured byte limits, dry-running it first so
+   * an over-budget query is refused before it is billed. The bytes each job
+   * processed are reported to the current tool call.
+   */
+  private async executeQuery(query: ParameterizedQuery): Promise<QueryRow[]> {
+    const options = {
+      query: query.query,
+      params: query.params,
+      location: 'US',
+    };
+
+    let estimatedBytes: number | null = null;
+    if (this.config.queryCost.dryRun) {
+      const [, dryRun] = await this.bigquery.createQueryJob({ ...options, dryRun: true });
+      estimatedBytes = Number(dryRun.statistics?.totalBytesProcessed || 0);
+    }
+    this.costGuard.assertAllowed(estimatedBytes);
+
+    const maximumBytesBilled = this.costGuard.maximumBytesBilled();
+    const [job] = await this.bigquery.createQueryJob({
+      ...options,
+      ...(maximumBytesBilled !== null ? { maximumBytesBilled: String(maximumBytesBilled) } : {}),
+    });
+    const [rows] = await job.getQueryResults();
+    const [metadata] = await job.getMetadata();
+    const bytesBilled = Number(metadata.statistics?.query?.totalBytesBilled || 0);
+    this.costGuard.record(bytesBilled);
+
+    const context = getQueryContext();
+    if (context) {
+      context.jobs.push({
+        estimated_bytes: estimatedBytes,
+        bytes_processed: Number(metadata.statistics?.query?.totalBytesProcessed || 0),
+        bytes_billed: bytesBilled,
+      });
+      context.usage = this.costGuard.usage();
+    }
+    return rows;
+  }
+
+  async fetchCrashes(params: FetchCrashesParams): Promise<CrashEvent[]> {
     const limit = params.limit || this.config.defaultCrashLimit;
-    const timeCondition = params.time_range ? this.getTimeRangeCondition(params.time_range) : '';
-    const versionCondition = params.app_version ? `AND app_version = '${params.app_version}'` : '';
-
-    // First, let's try a simple query to understand the schema
-    const query = `
-      SELECT *
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE 1=1
-        ${timeCondition}
-        ${versionCondition}
-      ORDER BY event_timestamp DESC
-      LIMIT ${limit}
-    `;
+
+    const builder = this.newQuery()
+      .select(...SUMMARY_COLUMNS)
+      .whereIf(!!params.app_version, 'application.display_version = @app_version', { app_version: params.app_version! })
+      .orderBy('event_timestamp DESC')
+      .limit(limit);
+    this.applyTimeRange(builder, params.time_range, params.filter);
+    this.applyPlatform(builder, params.platform);
+    this.applyFilter(builder, params.filter);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
-      return rows as BigQueryCrashRow[];
+      return rows.map(normalizeCrashEvent);
     } catch (error) {
       throw new Error(`BigQuery query failed: ${error}`);
     }
   }
 
-  async getCrashDetails(params: GetCrashDetailsParams): Promise<BigQueryCrashRow | null> {
-    const query = `
-      SELECT *
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE event_id = '${params.crash_id}'
-      LIMIT 1
-    `;
+  async getCrashDetails(params: Pick<GetCrashDetailsParams, 'crash_id'>): Promise<CrashEvent | null> {
+    const builder = this.newQuery()
+      .select(...DETAIL_COLUMNS)
+      .where('event_id = @event_id', { event_id: params.crash_id })
+      .limit(1);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
       if (rows.length === 0) return null;
 
-      const row = rows[0];
-      return {
-        crash_id: row.event_id || params.crash_id,
-        timestamp: row.event_timestamp || new Date().toISOString(),
-        event_name: row.event_name || 'crash',
-        platform: row.platform || 'Unknown',
-        app_version: row.application?.display_version || row.app_version || 'Unknown',
-        bundle_id: row.bundle_identifier || 'Unknown',
-        exception_type: row.exception_info?.type || row.error_type || row.issue_title || 'Unknown',
-        exception_message: row.exception_info?.exception_message || row.issue_subtitle || 'Unknown',
-        stack_trace: JSON.stringify(row.exception_info?.frames || row.exception_info || []),
-        is_fatal: row.is_fatal !== undefined ? row.is_fatal : true,
-        device_model: row.device?.model || 'Unknown',
-        os_version: row.device?.os_version || 'Unknown',
-        memory_available: BigInt(row.device?.ram_mb ? row.device.ram_mb * 1024 * 1024 : 0),
-        storage_available: BigInt(row.device?.disk_mb ? row.device.disk_mb * 1024 * 1024 : 0),
-        user_id: row.user_id || '',
-        session_id: row.session_id || '',
-        custom_keys: JSON.stringify(row.custom_keys || {}),
-        breadcrumbs: JSON.stringify(row.breadcrumbs || [])
-      } as BigQueryCrashRow;
+      return normalizeCrashEvent(rows[0]);
     } catch (error) {
       throw new Error(`BigQuery query failed: ${error}`);
     }
   }
 
-  async getCrashDetailsByIssueId(params: GetCrashDetailsByIssueIdParams): Promise<BigQueryCrashRow[]> {
+  async getCrashDetailsByIssueId(params: GetCrashDetailsByIssueIdParams, after?: EventCursor): Promise<CrashEvent[]> {
     const limit = params.limit || 10;
-    const query = `
-      SELECT *
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE issue_id = '${params.issue_id}'
-      ORDER BY event_timestamp DESC
-      LIMIT ${limit}
-    `;
+    const builder = this.newQuery()
+      .select(...DETAIL_COLUMNS)
+      .where('issue_id = @issue_id', { issue_id: params.issue_id })
+      .orderBy(...EVENT_PAGE_ORDER)
+      .limit(limit);
+    this.applyFilter(builder, params.filter);
+    this.applyCursor(builder, after);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
       if (rows.length === 0) return [];
 
-      return rows.map(row => ({
-        crash_id: row.event_id || row.issue_id,
-        timestamp: row.event_timestamp || new Date().toISOString(),
-        event_name: row.event_name || 'crash',
-        platform: row.platform || 'Unknown',
-        app_version: row.application?.display_version || row.app_version || 'Unknown',
-        bundle_id: row.bundle_identifier || 'Unknown',
-        exception_type: row.exception_info?.type || row.error_type || row.issue_title || 'Unknown',
-        exception_message: row.exception_info?.exception_message || row.issue_subtitle || 'Unknown',
-        stack_trace: JSON.stringify(row.exception_info?.frames || row.exception_info || []),
-        is_fatal: row.is_fatal !== undefined ? row.is_fatal : true,
-        device_model: row.device?.model || 'Unknown',
-        os_version: row.device?.os_version || 'Unknown',
-        memory_available: BigInt(row.device?.ram_mb ? row.device.ram_mb * 1024 * 1024 : 0),
-        storage_available: BigInt(row.device?.disk_mb ? row.device.disk_mb * 1024 * 1024 : 0),
-        user_id: row.user_id || '',
-        session_id: row.session_id || '',
-        custom_keys: JSON.stringify(row.custom_keys || {}),
-        breadcrumbs: JSON.stringify(row.breadcrumbs || [])
-      } as BigQueryCrashRow));
+      return rows.map(normalizeCrashEvent);
     } catch (error) {
       throw new Error(`BigQuery query failed: ${error}`);
     }
   }
 
-
-  async getCrashStatistics(params: AnalyzeCrashTrendsParams): Promise<any[]> {
-    const timeCondition = this.getTimeRangeCondition(params.time_range);
+  async getCrashStatistics(params: AnalyzeCrashTrendsParams, appPackageName?: string): Promise<CrashStatisticsRow[]> {
     const groupByColumn = this.getGroupByColumn(params.group_by || 'version');
 
-    const query = `
-      SELECT 
-        ${groupByColumn} as group_key,
-        COUNT(*) as crash_count,
-        COUNT(DISTINCT user_id) as affected_users,
-        DATE(event_timestamp) as crash_date
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE 1=1
-        ${timeCondition}
-      GROUP BY group_key, crash_date
-      ORDER BY crash_date DESC, crash_count DESC
-    `;
+    const builder = (appPackageName ? this.newAppQuery(appPackageName) : this.newQuery())
+      .select(
+        `${groupByColumn} as group_key`,
+        'COUNT(*) as crash_count',
+        'COUNT(DISTINCT user.id) as affected_users',
+        'DATE(event_timestamp) as crash_date'
+      )
+      .groupBy('group_key', 'crash_date')
+      .orderBy('crash_date DESC', 'crash_count DESC');
+    this.applyTimeRange(builder, params.time_range);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
-      return rows;
+      return rows.map(row => ({
+        group_key: String(row.group_key ?? ''),
+        crash_count: Number(row.crash_count),
+        affected_users: Number(row.affected_users),
+        crash_date: toDateString(row.crash_date),
+      }));
     } catch (error) {
       throw new Error(`BigQuery statistics query failed: ${error}`);
     }
   }
 
-  async getCrashFreeCounts(timeRange: TimeRange): Promise<any[]> {
-    const timeCondition = this.getTimeRangeCondition(timeRange);
-
-    const query = `
-      WITH daily_stats AS (
-        SELECT 
-          DATE(event_timestamp) as date,
-          COUNT(DISTINCT user_id) as crashed_users,
-          COUNT(DISTINCT user_id) as total_users
-        FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-        WHERE 1=1 ${timeCondition}
-        GROUP BY date
+  async getCrashFreeCounts(timeRange: TimeRange, appPackageName?: string): Promise<CrashFreeCountRow[]> {
+    const builder = (appPackageName ? this.newAppQuery(appPackageName) : this.newQuery())
+      .select(
+        'DATE(event_timestamp) as date',
+        'bundle_identifier as app_package',
+        'application.display_version as app_version',
+        'COUNT(DISTINCT IF(is_fatal, installation_uuid, NULL)) as crashed_users',
+        'COUNT(DISTINCT IF(is_fatal, firebase_session_id, NULL)) as crashed_sessions'
       )
-      SELECT 
+      .groupBy('date', 'app_package', 'app_version');
+    this.applyTimeRange(builder, timeRange);
+    const dailyCrashes = builder.build();
+    const dailyExposure = this.buildExposureQuery(timeRange, appPackageName);
+
+    const query = dailyExposure
+      ? {
+        query: `
+      WITH daily_crashes AS (
+        ${dailyCrashes.query}
+      ),
+      daily_exposure AS (
+        ${dailyExposure.query}
+      )
+      SELECT
         date,
-        crashed_users,
+        app_package,
+        app_version,
+        IFNULL(crashed_users, 0) as crashed_users,
+        IFNULL(crashed_sessions, 0) as crashed_sessions,
         total_users,
-        SAFE_DIVIDE((total_users - crashed_users), total_users) * 100 as crash_free_rate
-      FROM daily_stats
+        total_sessions
+      FROM daily_crashes
+      FULL OUTER JOIN daily_exposure USING (date, app_package, app_version)
+      ORDER BY date DESC
+    `,
+        params: combineParams(dailyCrashes, dailyExposure),
+      }
+      : {
+        query: `
+      WITH daily_crashes AS (
+        ${dailyCrashes.query}
+      )
+      SELECT
+        *,
+        CAST(NULL AS INT64) as total_users,
+        CAST(NULL AS INT64) as total_sessions
+      FROM daily_crashes
       ORDER BY date DESC
-    `;
+    `,
+        params: dailyCrashes.params,
+      };
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(query);
 
-      return rows;
+      return rows.map(row => ({
+        date: toDateString(row.date),
+        app_package: String(row.app_package || ''),
+        app_version: String(row.app_version || ''),
+        crashed_users: Number(row.crashed_users),
+        crashed_sessions: Number(row.crashed_sessions),
+        total_users: row.total_users === null || row.total_users === undefined ? null : Number(row.total_users),
+        total_sessions: row.total_sessions === null || row.total_sessions === undefined ? null : Number(row.total_sessions),
+      }));
     } catch (error) {
       throw new Error(`BigQuery crash-free query failed: ${error}`);
     }
   }
 
+  /**
+   * Daily active users and sessions per app and version from the configured
+   * denominator, or null when none is configured. The Analytics export counts
+   * app instances (`user_pseudo_id`), which is why crashed users are counted
+   * by `installation_uuid` rather than `user.id`.
+   */
+  private buildExposureQuery(timeRange: TimeRange, appPackageName?: string): ParameterizedQuery | null {
+    if (!this.exposureTableReference) return null;
+    const startDate = getTimeRangeStart(timeRange, this.queryCache.rangeEnd());
+
+    if (this.config.crashFreeDenominator === 'analytics') {
+      return new QueryBuilder(this.exposureTableReference)
+        .select(
+          "PARSE_DATE('%Y%m%d', event_date) as date",
+          'app_info.id as app_package',
+          'app_info.version as app_version',
+          'COUNT(DISTINCT user_pseudo_id) as total_users',
+          "COUNT(DISTINCT CONCAT(user_pseudo_id, '-', CAST((SELECT value.int_value FROM UNNEST(event_params) WHERE key = 'ga_session_id') AS STRING))) as total_sessions"
+        )
+        .whereIf(startDate !== null, "_TABLE_SUFFIX >= FORMAT_DATE('%Y%m%d', DATE(@exposure_start_time))", { exposure_start_time: startDate! })
+        .whereIf(!!appPackageName, 'app_info.id = @exposure_app_package', { exposure_app_package: appPackageName! })
+        .groupBy('date', 'app_package', 'app_version')
+        .build();
+    }
+
+    return new QueryBuilder(this.exposureTableReference)
+      .select(
+        'date',
+        'app_package',
+        'app_version',
+        'SUM(active_users) as total_users',
+        'SUM(sessions) as total_sessions'
+      )
+      .whereIf(startDate !== null, 'date >= DATE(@exposure_start_time)', { exposure_start_time: startDate! })
+      .whereIf(!!appPackageName, 'app_package = @exposure_app_package', { exposure_app_package: appPackageName! })
+      .groupBy('date', 'app_package', 'app_version')
+      .build();
+  }
+
   private getGroupByColumn(groupBy: string): string {
     switch (groupBy) {
       case 'version':
-        return 'app_version';
+        return 'application.display_version';
       case 'device':
-        return 'device_info.device_model';
+        return 'device.model';
       case 'os':
-        return 'device_info.os_version';
+        return 'operating_system.display_version';
       case 'issue_type':
-        return 'crash_info.exception_type';
+        return 'error_type';
       default:
-        return 'app_version';
+        return 'application.display_version';
     }
   }
 
-  async discoverApps(): Promise<any[]> {
-    const query = `
-      SELECT 
-        bundle_identifier,
-        platform,
-        COUNT(*) as total_crashes,
-        MAX(event_timestamp) as latest_crash,
-        MIN(event_timestamp) as earliest_crash,
-        COUNTIF(is_fatal = true) as fatal_crashes,
-        COUNTIF(is_fatal = false) as non_fatal_crashes
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      GROUP BY bundle_identifier, platform
-      ORDER BY total_crashes DESC
-    `;
+  async discoverApps(): Promise<AppSummary[]> {
+    const query = this.newQuery()
+      .select(
+        'bundle_identifier',
+        'platform',
+        'COUNT(*) as total_crashes',
+        'MAX(event_timestamp) as latest_crash',
+        'MIN(event_timestamp) as earliest_crash',
+        'COUNTIF(is_fatal = true) as fatal_crashes',
+        'COUNTIF(is_fatal = false) as non_fatal_crashes'
+      )
+      .groupBy('bundle_identifier', 'platform')
+      .orderBy('total_crashes DESC')
+      .build();
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(query);
 
-      return rows.map((row: any) => ({
-        app_package: row.bundle_identifier,
-        platform: row.platform,
-        total_crashes: row.total_crashes,
-        fatal_crashes: row.fatal_crashes,
-        non_fatal_crashes: row.non_fatal_crashes,
-        latest_crash: row.latest_crash,
-        earliest_crash: row.earliest_crash
+      return rows.map(row => ({
+        app_package: String(row.bundle_identifier),
+        platform: String(row.platform),
+        total_crashes: Number(row.total_crashes),
+        fatal_crashes: Number(row.fatal_crashes),
+        non_fatal_crashes: Number(row.non_fatal_crashes),
+        latest_crash: toTimestamp(row.latest_crash),
+        earliest_crash: toTimestamp(row.earliest_crash)
       }));
     } catch (error) {
       throw new Error(`Failed to discover apps: ${error}`);
     }
   }
 
-  async fetchCrashesByApp(appPackageName: string, params: FetchCrashesParams): Promise<BigQueryCrashRow[]> {
+  async fetchCrashesByApp(appPackageName: string, params: FetchCrashesParams): Promise<CrashEvent[]> {
     const limit = params.limit || this.config.defaultCrashLimit;
-    const timeCondition = params.time_range ? this.getTimeRangeCondition(params.time_range) : '';
-    const versionCondition = params.app_version ? `AND application.display_version = '${params.app_version}'` : '';
-    const platformCondition = params.platform ? `AND UPPER(platform) = UPPER('${params.platform}')` : '';
-
-    const query = `
-      SELECT *
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE bundle_identifier = '${appPackageName}'
-        ${timeCondition}
-        ${versionCondition}
-        ${platformCondition}
-      ORDER BY event_timestamp DESC
-      LIMIT ${limit}
-    `;
+
+    const builder = this.newAppQuery(appPackageName, params.platform)
+      .select(...SUMMARY_COLUMNS)
+      .whereIf(!!params.app_version, 'application.display_version = @app_version', { app_version: params.app_version! })
+      .orderBy('event_timestamp DESC')
+      .limit(limit);
+    this.applyTimeRange(builder, params.time_range, params.filter);
+    this.applyPlatform(builder, params.platform);
+    this.applyFilter(builder, params.filter);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
-      return rows as BigQueryCrashRow[];
+      return rows.map(normalizeCrashEvent);
     } catch (error) {
       throw new Error(`BigQuery app-specific query failed: ${error}`);
     }
   }
 
-  async fetchFatalCrashesByApp(appPackageName: string, limit: number = 10): Promise<BigQueryCrashRow[]> {
-    const query = `
-      SELECT *
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE bundle_identifier = '${appPackageName}'
-        AND is_fatal = true
-      ORDER BY event_timestamp DESC
-      LIMIT ${limit}
-    `;
+  async fetchFatalCrashesByApp(appPackageName: string, limit: number = 10, after?: EventCursor, filter?: CrashFilter): Promise<CrashEvent[]> {
+    const builder = this.newAppQuery(appPackageName)
+      .select(...SUMMARY_COLUMNS)
+      .where('is_fatal = true')
+      .orderBy(...EVENT_PAGE_ORDER)
+      .limit(limit);
+    this.applyDefaultLookback(builder, filter);
+    this.applyFilter(builder, filter);
+    this.applyCursor(builder, after);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
-      return rows as BigQueryCrashRow[];
+      return rows.map(normalizeCrashEvent);
     } catch (error) {
       throw new Error(`Failed to fetch fatal crashes: ${error}`);
     }
   }
 
-  async fetchANRIssuesByApp(appPackageName: string, limit: number = 10): Promise<BigQueryCrashRow[]> {
-    const query = `
-      SELECT *
-      FROM \`${this.config.projectId}.${this.config.datasetId}.*\`
-      WHERE bundle_identifier = '${appPackageName}'
-        AND UPPER(error_type) = 'ANR'
-      ORDER BY event_timestamp DESC
-      LIMIT ${limit}
-    `;
+  async fetchANRIssuesByApp(appPackageName: string, limit: number = 10, after?: EventCursor, filter?: CrashFilter): Promise<CrashEvent[]> {
+    const builder = this.newAppQuery(appPackageName)
+      .select(...SUMMARY_COLUMNS)
+      .where("UPPER(error_type) = 'ANR'")
+      .orderBy(...EVENT_PAGE_ORDER)
+      .limit(limit);
+    this.applyDefaultLookback(builder, filter);
+    this.applyFilter(builder, filter);
+    this.applyCursor(builder, after);
 
     try {
-      const [rows] = await this.bigquery.query({
-        query,
-        location: 'US',
-      });
+      const rows = await this.runQuery(builder.build());
 
-      return rows as BigQueryCrashRow[];
+      return rows.map(normalizeCrashEvent);
     } catch (error) {
       throw new Error(`Failed to fetch ANR issues: ${error}`);
     }
   }
 
+  async fetchIssueAggregates(params: IssueAggregateQuery): Promise<IssueAggregate[]> {
+    const growthWindow = getGrowthWindow(params.time_range, this.queryCache.rangeEnd());
+
+    const builder = this.newAppQuery(params.app_package)
+      .select(
+        'issue_id',
+        'ANY_VALUE(issue_title) as issue_title',
+        'ANY_VALUE(issue_subtitle) as issue_subtitle',
+        'ANY_VALUE(error_type) as error_type',
+        'COUNT(*) as event_count',
+        'COUNT(DISTINCT user.id) as user_count',
+        'COUNT(DISTINCT installation_uuid) as installation_count',
+        'MIN(event_timestamp) as first_seen',
+        'MAX(event_timestamp) as last_seen',
+        'ARRAY_AGG(DISTINCT application.display_version IGNORE NULLS) as versions',
+        'ARRAY_AGG(DISTINCT operating_system.display_version IGNORE NULLS) as os_versions',
+        'COUNTIF(event_timestamp >= @growth_split) as recent_events',
+        'COUNTIF(event_timestamp >= @growth_start AND event_timestamp < @growth_split) as previous_events',
+        'ANY_VALUE(blame_frame) as blame_frame'
+      )
+      .whereIf(!!params.issue_id, 'issue_id = @issue_id', { issue_id: params.issue_id! })
+      .whereIf(!!params.app_version, 'application.display_version = @app_version', { app_version: params.app_version! })
+      .groupBy('issue_id')
+      .orderBy(this.getIssueOrderBy(params.sort_by))
+      .limit(params.limit);
+    builder.addParam('growth_split', growthWindow.split);
+    builder.addParam('growth_start', growthWindow.start);
+    this.applyTimeRange(builder, params.time_range);
+    this.applyIssueType(builder, params.issue_type);
+    this.applyFilter(builder, params.filter);
+
+    try {
+      const rows = await this.runQuery(builder.build());
+
+      return rows.map(row => {
+        const event = normalizeCrashEvent(row);
+        return {
+          issue_id: event.issue_id,
+          issue_title: event.issue_title,
+          issue_subtitle: event.issue_subtitle,
+          error_type: event.error_type,
+          event_count: Number(row.event_count),
+          user_count: Number(row.user_count),
+          installation_count: Number(row.installation_count),
+          first_seen: toTimestamp(row.first_seen),
+          last_seen: toTimestamp(row.last_seen),
+          versions: Array.isArray(row.versions) ? row.versions.map(String) : [],
+          os_versions: Array.isArray(row.os_versions) ? row.os_versions.map(String) : [],
+          recent_events: Number(row.recent_events),
+          previous_events: Number(row.previous_events),
+          blame_frame: event.blame_frame
+        };
+      });
+    } catch (error) {
+      throw new Error(`Failed to aggregate issues: ${error}`);
+    }
+  }
+
+  async getVersionCrashTotals(appPackageName: string, versions: string[], timeRange: TimeRange): Promise<VersionCrashTotals[]> {
+    const builder = this.newAppQuery(appPackageName)
+      .select(
+        'application.display_version as version',
+        'COUNT(*) as event_count',
+        'COUNT(DISTINCT user.id) as user_count',
+        'COUNT(DISTINCT installation_uuid) as installation_count'
+      )
+      .where('application.display_version IN UNNEST(@versions)', { versions })
+      .groupBy('version');
+    this.applyTimeRange(builder, timeRange);
+
+    try {
+      const rows = await this.runQuery(builder.build());
+
+      return rows.map(row => ({
+        version: String(row.version),
+        event_count: Number(row.event_count),
+        user_count: Number(row.user_count),
+        installation_count: Number(row.installation_count),
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch version crash totals: ${error}`);
+    }
+  }
+
+  async getCrashVolumeSeries(params: DetectCrashAnomaliesParams, since: Date): Promise<CrashVolumeRow[]> {
+    const series = this.getSeriesColumns(params.dimension);
+
+    const builder = (params.app_package ? this.newAppQuery(params.app_package) : this.newQuery())
+      .select(
+        `TIMESTAMP_TRUNC(event_timestamp, ${params.granularity === 'hour' ? 'HOUR' : 'DAY'}) as bucket`,
+        `${series.key} as series_key`,
+        `ANY_VALUE(${series.label}) as label`,
+        'ANY_VALUE(bundle_identifier) as app_package',
+        'COUNT(*) as event_count',
+        'COUNT(DISTINCT user.id) as user_count'
+      )
+      .where('event_timestamp >= @start_time', { start_time: since })
+      .groupBy('bucket', 'series_key');
+
+    try {
+      const rows = await this.runQuery(builder.build());
+
+      return rows.map(row => ({
+        series_key: String(row.series_key || ''),
+        label: String(row.label || ''),
+        app_package: String(row.app_package || ''),
+        bucket: toTimestamp(row.bucket),
+        event_count: Number(row.event_count),
+        user_count: Number(row.user_count),
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch crash volume series: ${error}`);
+    }
+  }
+
+  async fetchUserEvents(params: GetUserCrashHistoryParams): Promise<CrashEvent[]> {
+    const builder = (params.app_package ? this.newAppQuery(params.app_package) : this.newQuery())
+      .select(...SUMMARY_COLUMNS)
+      .whereIf(!!params.user_id, 'user.id = @user_id', { user_id: params.user_id! })
+      .whereIf(!!params.installation_uuid, 'installation_uuid = @installation_uuid', { installation_uuid: params.installation_uuid! })
+      .orderBy(...EVENT_PAGE_ORDER)
+      .limit(params.limit);
+    this.applyTimeRange(builder, params.time_range);
+
+    try {
+      const rows = await this.runQuery(builder.build());
+
+      return rows.map(normalizeCrashEvent);
+    } catch (error) {
+      throw new Error(`Failed to fetch user crash history: ${error}`);
+    }
+  }
+
+  async fetchSessionEvents(appPackageName: string, sessionId: string, since: Date, until: Date): Promise<CrashEvent[]> {
+    const builder = this.newAppQuery(appPackageName)
+      .select(...SUMMARY_COLUMNS, 'logs', 'breadcrumbs')
+      .where('firebase_session_id = @session_id', { session_id: sessionId })
+      .where('event_timestamp BETWEEN @since AND @until', { since, until })
+      .orderBy(...EVENT_PAGE_ORDER)
+      .limit(SESSION_EVENT_LIMIT);
+
+    try {
+      const rows = await this.runQuery(builder.build());
+
+      return rows.map(normalizeCrashEvent);
+    } catch (error) {
+      throw new Error(`Failed to fetch session events: ${error}`);
+    }
+  }
+
+  async fetchIssueSamples(appPackageName: string, timeRange: TimeRange, eventsPerIssue: number, maxEvents: number): Promise<CrashEvent[]> {
+    const builder = this.newAppQuery(appPackageName)
+      .select(...SUMMARY_COLUMNS)
+      .qualify('ROW_NUMBER() OVER (PARTITION BY issue_id ORDER BY event_timestamp DESC) <= @events_per_issue', {
+        events_per_issue: eventsPerIssue,
+      })
+      .orderBy(...EVENT_PAGE_ORDER)
+      .limit(maxEvents);
+    this.applyTimeRange(builder, timeRange);
+
+    try {
+      const rows = await this.runQuery(builder.build());
+
+      return rows.map(normalizeCrashEvent);
+    } catch (error) {
+      throw new Error(`Failed to fetch issue samples: ${error}`);
+    }
+  }
+
+  private getSeriesColumns(dimension: AnomalyDimension): { key: string; label: string } {
+    switch (dimension) {
+      case 'app':
+        return { key: 'bundle_identifier', label: 'bundle_identifier' };
+      case 'version':
+        return {
+          key: "CONCAT(bundle_identifier, '@', IFNULL(application.display_version, ''))",
+          label: 'application.display_version',
+        };
+      case 'issue':
+      default:
+        return { key: 'issue_id', label: 'issue_title' };
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const query = `SELECT 1 as test_value LIMIT 1`;
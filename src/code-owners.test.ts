@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeOwnersResolver, compileOwnershipPattern, parseCodeOwners, parseOwnershipYaml } from './code-owners';
+import { SourceFileIndex } from './source-files';
+
+describe('compileOwnershipPattern', () => {
+  it.each([
+    ['*.kt', 'app/src/Cart.kt', true],
+    ['*.kt', 'app/src/Cart.java', false],
+    ['checkout/', 'app/checkout/Cart.kt', true],
+    ['checkout/', 'app/checkout', false],
+    ['/checkout/', 'app/checkout/Cart.kt', false],
+    ['/checkout/', 'checkout/Cart.kt', true],
+    ['app/checkout', 'app/checkout/ui/Cart.kt', true],
+    ['app/checkout', 'lib/app/checkout/Cart.kt', false],
+    ['docs/*', 'docs/README.md', true],
+    ['docs/*.md', 'docs/guides/setup.md', false],
+    ['**/payments/*.kt', 'app/src/payments/Pay.kt', true],
+    ['**/payments/*.kt', 'payments/Pay.kt', true],
+    ['app/**/Cart.kt', 'app/src/main/Cart.kt', true],
+    ['Cart?.kt', 'app/Cart2.kt', true],
+    ['Cart.kt', 'app/CartXkt', false],
+  ])('%s matching %s is %s', (pattern, file, matches) => {
+    expect(compileOwnershipPattern(pattern).test(file)).toBe(matches);
+  });
+});
+
+describe('parseCodeOwners', () => {
+  it('skips comments and GitLab section headers', () => {
+    const rules = parseCodeOwners([
+      '# Owners',
+      '*            @mobile-team',
+      '',
+      '[Payments] @payments-team',
+      '/app/payments/ @payments-team @alice # inline comment',
+    ].join('\n'));
+
+    expect(rules.map(rule => [rule.pattern, rule.owners])).toEqual([
+      ['*', ['@mobile-team']],
+      ['/app/payments/', ['@payments-team', '@alice']],
+    ]);
+  });
+});
+
+describe('parseOwnershipYaml', () => {
+  it('reads a map from owners to pattern lists', () => {
+    const rules = parseOwnershipYaml('payments:\n  - "app/payments/"\n  - feature/pay/\n# search\nsearch:\n  - \'*.search.kt\'\n', 'teams.yml');
+
+    expect(rules.map(rule => [rule.pattern, rule.owners])).toEqual([
+      ['app/payments/', ['payments']],
+      ['feature/pay/', ['payments']],
+      ['*.search.kt', ['search']],
+    ]);
+  });
+
+  it('reads the same shape from JSON', () => {
+    expect(parseOwnershipYaml('{"payments": ["app/payments/"]}', 'teams.json')).toEqual([
+      expect.objectContaining({ pattern: 'app/payments/', owners: ['payments'] }),
+    ]);
+    expect(() => parseOwnershipYaml('{"payments": "app/payments/"}', 'teams.json')).toThrow('patterns of payments must be a list of strings');
+  });
+
+  it('refuses other YAML', () => {
+    expect(() => parseOwnershipYaml('payments: app/payments/\n', 'teams.yml')).toThrow('unsupported syntax on line 1: payments: app/payments/');
+  });
+});
+
+describe('CodeOwnersResolver', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'code-owners-'));
+    await fs.mkdir(path.join(repo, 'app', 'checkout'), { recursive: true });
+    await fs.mkdir(path.join(repo, '.github'));
+    await fs.writeFile(path.join(repo, 'app', 'checkout', 'CartFragment.kt'), '');
+    await fs.writeFile(path.join(repo, 'app', 'Main.kt'), '');
+    await fs.writeFile(path.join(repo, '.github', 'CODEOWNERS'), '*.kt @android\n/app/checkout/ @checkout\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('resolves a frame to the owners of the last matching rule', async () => {
+    const resolver = new CodeOwnersResolver(new SourceFileIndex(repo));
+
+    expect(await resolver.resolveFrame({ file: 'CartFragment.kt', symbol: 'com.example.CartFragment.onViewCreated' })).toEqual({
+      owners: ['@checkout'],
+      frame: 'com.example.CartFragment.onViewCreated',
+      source_file: 'app/checkout/CartFragment.kt',
+      rule: '/app/checkout/',
+    });
+    expect((await resolver.resolveFrame({ file: 'Main.kt' })).owners).toEqual(['@android']);
+    expect(await resolver.resolveFrame({ file: 'Missing.kt' })).toEqual({ owners: [], frame: 'Missing.kt', source_file: null, rule: null });
+  });
+
+  it('reads a configured team ownership file', async () => {
+    await fs.writeFile(path.join(repo, 'teams.yml'), 'payments:\n  - app/\n');
+
+    const resolver = new CodeOwnersResolver(new SourceFileIndex(repo), 'teams.yml');
+
+    expect((await resolver.resolveFrame({ file: 'Main.kt' })).owners).toEqual(['payments']);
+  });
+
+  it('finds no owners until a CODEOWNERS file is added', async () => {
+    const codeOwners = path.join(repo, '.github', 'CODEOWNERS');
+    await fs.rm(codeOwners);
+    const resolver = new CodeOwnersResolver(new SourceFileIndex(repo));
+
+    expect(await resolver.resolveFrame({ file: 'Main.kt' })).toMatchObject({ owners: [], rule: null });
+
+    await fs.writeFile(codeOwners, '* @mobile\n');
+    expect((await resolver.resolveFrame({ file: 'Main.kt' })).owners).toEqual(['@mobile']);
+  });
+
+  it('rereads a configured ownership file after a failure', async () => {
+    const resolver = new CodeOwnersResolver(new SourceFileIndex(repo), 'teams.yml');
+
+    await expect(resolver.resolveFrame({ file: 'Main.kt' })).rejects.toThrow('Failed to read ownership file');
+
+    await fs.writeFile(path.join(repo, 'teams.yml'), 'payments:\n  - app/\n');
+    expect((await resolver.resolveFrame({ file: 'Main.kt' })).owners).toEqual(['payments']);
+  });
+});
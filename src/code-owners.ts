@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SourceFileIndex, blamedStack, isAppFrame } from './source-files.js';
+import { CodeOwnerSource, CrashEvent, CrashFrame } from './types.js';
+
+export interface OwnershipRule {
+  pattern: string;
+  owners: string[];
+  regex: RegExp;
+}
+
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+/** The first app frame of an event's blamed stack, else its blame frame if that is app code. */
+export function firstAppFrame(event: CrashEvent): CrashFrame | null {
+  const frame = blamedStack(event).find(isAppFrame) || event.blame_frame;
+  return frame && isAppFrame(frame) ? frame : null;
+}
+
+/**
+ * Compiles a CODEOWNERS pattern with gitignore semantics: patterns without
+ * a slash match at any depth, a leading or inner slash anchors them to the
+ * repository root, and a pattern naming a directory covers everything in it.
+ */
+export function compileOwnershipPattern(pattern: string): RegExp {
+  const anchored = pattern.startsWith('/') || pattern.replace(/\/$/, '').includes('/');
+  const directoryOnly = pattern.endsWith('/');
+  const body = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '^(?:.*/)?'}${source}${directoryOnly ? '/.*$' : '(?:/.*)?$'}`);
+}
+
+export function parseCodeOwners(contents: string): OwnershipRule[] {
+  const rules: OwnershipRule[] = [];
+
+  for (const rawLine of contents.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    // GitLab section headers, e.g. "[Payments] @payments-team"
+    if (!line || line.startsWith('[') || line.startsWith('^[')) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners, regex: compileOwnershipPattern(pattern) });
+  }
+  return rules;
+}
+
+/**
+ * Parses a team ownership file: a YAML (or JSON) map from each owner to a
+ * list of patterns, such as
+ *
+ *   payments:
+ *     - "app/src/main/java/com/example/checkout/"
+ *     - "feature/payments/"
+ *
+ * Only that shape is supported. Rules apply in file order, later ones
+ * winning, as in CODEOWNERS.
+ */
+export function parseOwnershipYaml(contents: string, file: string): OwnershipRule[] {
+  if (file.endsWith('.json')) {
+    const teams = JSON.parse(contents);
+    if (!teams || typeof teams !== 'object' || Array.isArray(teams)) {
+      throw new Error('expected an object of owner to pattern lists');
+    }
+    return Object.entries(teams).flatMap(([owner, patterns]) => {
+      if (!Array.isArray(patterns) || !patterns.every(pattern => typeof pattern === 'string')) {
+        throw new Error(`patterns of ${owner} must be a list of strings`);
+      }
+      return patterns.map(pattern => ({ pattern, owners: [owner], regex: compileOwnershipPattern(pattern) }));
+    });
+  }
+
+  const rules: OwnershipRule[] = [];
+  let owner: string | null = null;
+  const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+  contents.split('\n').forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const key = line.match(/^(\S.*?):\s*$/);
+    const item = line.match(/^\s+-\s+(.+?)\s*$/);
+    if (key) {
+      owner = unquote(key[1]);
+    } else if (item && owner) {
+      const pattern = unquote(item[1]);
+      rules.push({ pattern, owners: [owner], regex: compileOwnershipPattern(pattern) });
+    } else {
+      throw new Error(`unsupported syntax on line ${index + 1}: ${line.trim()}`);
+    }
+  });
+  return rules;
+}
+
+/**
+ * Maps crash frames to the teams that own their source files, using a
+ * local checkout of the app repository and its CODEOWNERS or a team
+ * ownership file.
+ */
+export class CodeOwnersResolver {
+  private rules: Promise<OwnershipRule[]> | null = null;
+
+  constructor(private readonly sourceFiles: SourceFileIndex, private readonly ownershipFile?: string) {}
+
+  async resolveFrame(frame: { file: string; symbol?: string }): Promise<CodeOwnerSource & { owners: string[] }> {
+    const description = frame.symbol || frame.file;
+    const sourceFile = await this.sourceFiles.findFrameFile(frame);
+    if (!sourceFile) {
+      return { owners: [], frame: description, source_file: null, rule: null };
+    }
+
+    const match = await this.ownersOf(sourceFile);
+    return { owners: match?.owners || [], frame: description, source_file: sourceFile, rule: match?.pattern || null };
+  }
+
+  /** The last rule matching a repository-relative path, as in CODEOWNERS. */
+  async ownersOf(relativePath: string): Promise<OwnershipRule | null> {
+    const rules = await this.loadRules();
+    for (let i = rules.length - 1; i >= 0; i--) {
+      if (rules[i].regex.test(relativePath)) return rules[i];
+    }
+    return null;
+  }
+
+  private loadRules(): Promise<OwnershipRule[]> {
+    if (!this.rules) {
+      // Forget a failed read or a missing CODEOWNERS so a fixed or added file is picked up
+      const forget = () => { this.rules = null; };
+      this.rules = this.readRules().then(
+        rules => {
+          if (!rules) forget();
+          return rules || [];
+        },
+        error => {
+          forget();
+          throw error;
+        }
+      );
+    }
+    return this.rules;
+  }
+
+  /** Null when no CODEOWNERS exists and no ownership file is configured, so nothing has an owner. */
+  private async readRules(): Promise<OwnershipRule[] | null> {
+    const candidates = this.ownershipFile
+      ? [path.resolve(this.sourceFiles.root, this.ownershipFile)]
+      : CODEOWNERS_LOCATIONS.map(location => path.join(this.sourceFiles.root, location));
+
+    for (const file of candidates) {
+      let contents: string;
+      try {
+        contents = await fs.readFile(file, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !this.ownershipFile) continue;
+        throw new Error(`Failed to read ownership file ${file}: ${error}`);
+      }
+
+      try {
+        return /\.(ya?ml|json)$/.test(file) ? parseOwnershipYaml(contents, file) : parseCodeOwners(contents);
+      } catch (error) {
+        throw new Error(`Failed to parse ownership file ${file}: ${error}`);
+      }
+    }
+    return null;
+  }
+}
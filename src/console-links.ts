@@ -0,0 +1,20 @@
+const CONSOLE_BASE_URL = 'https://console.firebase.google.com';
+
+/**
+ * Link to an issue, or one of its events, in the Crashlytics console. Apps
+ * are addressed as `<platform>:<bundle id>`, so the platform must be known;
+ * the export dataset is assumed to live in the Firebase project itself.
+ */
+export function firebaseConsoleIssueUrl(
+  projectId: string,
+  platform: string,
+  bundleIdentifier: string,
+  issueId: string,
+  eventId?: string
+): string | null {
+  if (!projectId || !platform || !bundleIdentifier || !issueId) return null;
+
+  const app = `${encodeURIComponent(platform.toLowerCase())}:${encodeURIComponent(bundleIdentifier)}`;
+  const url = `${CONSOLE_BASE_URL}/project/${encodeURIComponent(projectId)}/crashlytics/app/${app}/issues/${encodeURIComponent(issueId)}`;
+  return eventId ? `${url}?sessionEventKey=${encodeURIComponent(eventId)}` : url;
+}
@@ -0,0 +1,78 @@
+import {
+  CrashEvent,
+  FetchCrashesParams,
+  GetCrashDetailsParams,
+  GetCrashDetailsByIssueIdParams,
+  AnalyzeCrashTrendsParams,
+  AppSummary,
+  CrashStatisticsRow,
+  CrashFreeCountRow,
+  IssueAggregate,
+  IssueAggregateQuery,
+  TimeRange,
+  VersionCrashTotals,
+  CrashVolumeRow,
+  DetectCrashAnomaliesParams,
+  CrashFilter,
+  GetUserCrashHistoryParams,
+} from './types.js';
+import { EventCursor } from './event-cursor.js';
+
+/**
+ * Backend the MCP tool handlers read crash data from. Implementations must
+ * return the same shapes regardless of where the Crashlytics export lives.
+ */
+export interface CrashDataSource {
+  testConnection(): Promise<boolean>;
+  discoverApps(): Promise<AppSummary[]>;
+  fetchCrashes(params: FetchCrashesParams): Promise<CrashEvent[]>;
+  fetchCrashesByApp(appPackageName: string, params: FetchCrashesParams): Promise<CrashEvent[]>;
+  /** Listings that accept `after` return the events that follow that cursor, newest first. */
+  fetchFatalCrashesByApp(appPackageName: string, limit?: number, after?: EventCursor, filter?: CrashFilter): Promise<CrashEvent[]>;
+  fetchANRIssuesByApp(appPackageName: string, limit?: number, after?: EventCursor, filter?: CrashFilter): Promise<CrashEvent[]>;
+  getCrashDetails(params: Pick<GetCrashDetailsParams, 'crash_id'>): Promise<CrashEvent | null>;
+  getCrashDetailsByIssueId(params: GetCrashDetailsByIssueIdParams, after?: EventCursor): Promise<CrashEvent[]>;
+  /** Crash counts per group and day, across all apps unless `appPackageName` is given. */
+  getCrashStatistics(params: AnalyzeCrashTrendsParams, appPackageName?: string): Promise<CrashStatisticsRow[]>;
+  /** Crash-free counts per day, app and version, across all apps unless `appPackageName` is given. */
+  getCrashFreeCounts(timeRange: TimeRange, appPackageName?: string): Promise<CrashFreeCountRow[]>;
+  fetchIssueAggregates(params: IssueAggregateQuery): Promise<IssueAggregate[]>;
+  getVersionCrashTotals(appPackageName: string, versions: string[], timeRange: TimeRange): Promise<VersionCrashTotals[]>;
+  getCrashVolumeSeries(params: DetectCrashAnomaliesParams, since: Date): Promise<CrashVolumeRow[]>;
+  /** Events of one user or installation across apps, versions and devices, newest first. */
+  fetchUserEvents(params: GetUserCrashHistoryParams): Promise<CrashEvent[]>;
+  /** Events of one session between `since` and `until` inclusive, with their logs and breadcrumbs, newest first. */
+  fetchSessionEvents(appPackageName: string, sessionId: string, since: Date, until: Date): Promise<CrashEvent[]>;
+  /** The newest `eventsPerIssue` events of each issue of an app, at most `maxEvents` in total, newest first. */
+  fetchIssueSamples(appPackageName: string, timeRange: TimeRange, eventsPerIssue: number, maxEvents: number): Promise<CrashEvent[]>;
+}
+
+export function getTimeRangeStart(timeRange: TimeRange, now: Date = new Date()): Date | null {
+  switch (timeRange) {
+    case '1h':
+      return new Date(now.getTime() - 60 * 60 * 1000);
+    case '24h':
+      return new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    case '7d':
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case '30d':
+      return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    case 'all':
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits a time range into the two periods used to measure issue growth:
+ * the halves of the range, or the last two weeks when the range is `all`.
+ */
+export function getGrowthWindow(timeRange: TimeRange, now: Date = new Date()): { start: Date; split: Date } {
+  const rangeStart = getTimeRangeStart(timeRange, now);
+  const windowMs = rangeStart ? now.getTime() - rangeStart.getTime() : 14 * 24 * 60 * 60 * 1000;
+
+  return {
+    start: new Date(now.getTime() - windowMs),
+    split: new Date(now.getTime() - windowMs / 2),
+  };
+}
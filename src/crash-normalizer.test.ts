@@ -0,0 +1,123 @@
+import { getPrimaryError, normalizeCrashEvent, normalizeFrame, toDateString, toTimestamp } from './crash-normalizer';
+import { crashEvent } from './test-helpers';
+
+describe('normalizeCrashEvent', () => {
+  it('fills every missing record with empty values', () => {
+    const event = normalizeCrashEvent({});
+
+    expect(event).toMatchObject({
+      event_id: '',
+      is_fatal: false,
+      error_type: 'UNKNOWN',
+      application: { build_version: '', display_version: '' },
+      memory: { used: 0, free: 0 },
+      custom_keys: {},
+      blame_frame: null,
+      exceptions: [],
+      errors: [],
+      threads: [],
+    });
+  });
+
+  it('treats rows and nested records of the wrong shape as empty', () => {
+    const event = normalizeCrashEvent({ application: 'not a record', exceptions: [null, 'frame'], custom_keys: [{ value: 'no key' }] });
+
+    expect(normalizeCrashEvent(null)).toEqual(normalizeCrashEvent({}));
+    expect(event.application).toEqual({ build_version: '', display_version: '' });
+    expect(event.exceptions.map(exception => exception.type)).toEqual(['', '']);
+    expect(event.custom_keys).toEqual({});
+  });
+
+  it('unwraps the value objects the BigQuery client returns', () => {
+    const event = normalizeCrashEvent({
+      event_timestamp: { value: '2026-10-17T10:00:00.000Z' },
+      received_timestamp: new Date('2026-10-17T10:00:05.000Z'),
+      memory: { used: { value: '2048' }, free: 'not a number' },
+    });
+
+    expect(event.event_timestamp).toBe('2026-10-17T10:00:00.000Z');
+    expect(event.received_timestamp).toBe('2026-10-17T10:00:05.000Z');
+    expect(event.memory).toEqual({ used: 2048, free: 0 });
+  });
+
+  it('maps repeated key/value records to objects', () => {
+    const event = normalizeCrashEvent({
+      custom_keys: [{ key: 'screen', value: 'checkout' }, { key: 'retries', value: 3 }, { value: 'no key' }],
+      breadcrumbs: [{ timestamp: '2026-10-17T09:59:00Z', name: 'add_to_cart', params: [{ key: 'sku', value: 'A1' }] }],
+    });
+
+    expect(event.custom_keys).toEqual({ screen: 'checkout', retries: '3' });
+    expect(event.breadcrumbs).toEqual([
+      { timestamp: '2026-10-17T09:59:00.000Z', name: 'add_to_cart', params: { sku: 'A1' } },
+    ]);
+  });
+
+  it('derives the error type from the fatal flag when the export has none', () => {
+    expect(normalizeCrashEvent({ is_fatal: true }).error_type).toBe('FATAL');
+    expect(normalizeCrashEvent({ is_fatal: false, error_type: 'bogus' }).error_type).toBe('UNKNOWN');
+    expect(normalizeCrashEvent({ error_type: 'anr' }).error_type).toBe('ANR');
+  });
+
+  it('prefers the Firebase session id', () => {
+    expect(normalizeCrashEvent({ firebase_session_id: 'fs-1', session_id: 's-1' }).session_id).toBe('fs-1');
+    expect(normalizeCrashEvent({ session_id: 's-1' }).session_id).toBe('s-1');
+  });
+
+  it('normalizes nested frames', () => {
+    const event = normalizeCrashEvent({
+      blame_frame: { symbol: 'Main.onCreate', line: { value: '42' }, blamed: true },
+      threads: [{ crashed: true, frames: [{ symbol: 'Main.onCreate', file: 'Main.kt', line: 42 }] }],
+    });
+
+    expect(event.blame_frame).toMatchObject({ symbol: 'Main.onCreate', line: 42, blamed: true, file: '' });
+    expect(event.threads[0]).toMatchObject({ crashed: true, frames: [{ symbol: 'Main.onCreate', file: 'Main.kt', line: 42 }] });
+  });
+});
+
+describe('normalizeFrame', () => {
+  it('only treats a literal true as blamed', () => {
+    expect(normalizeFrame({ blamed: 'true' }).blamed).toBe(false);
+    expect(normalizeFrame(null)).toMatchObject({ symbol: '', line: 0, blamed: false });
+  });
+});
+
+describe('toTimestamp and toDateString', () => {
+  it('keeps unparseable timestamps as they are', () => {
+    expect(toTimestamp('yesterday')).toBe('yesterday');
+    expect(toTimestamp(null)).toBe('');
+  });
+
+  it('reads epoch milliseconds', () => {
+    expect(toTimestamp(Date.parse('2026-10-17T10:00:00.000Z'))).toBe('2026-10-17T10:00:00.000Z');
+  });
+
+  it('truncates dates', () => {
+    expect(toDateString({ value: '2026-10-17' })).toBe('2026-10-17');
+    expect(toDateString('2026-10-17T10:00:00Z')).toBe('2026-10-17');
+  });
+});
+
+describe('getPrimaryError', () => {
+  it('prefers the blamed exception', () => {
+    const event = crashEvent({
+      exceptions: [
+        { type: 'java.lang.RuntimeException', exception_message: 'wrapper' },
+        { type: 'java.lang.NullPointerException', exception_message: 'cart was null', blamed: true },
+      ],
+    });
+
+    expect(getPrimaryError(event)).toEqual({ type: 'java.lang.NullPointerException', message: 'cart was null' });
+  });
+
+  it('falls back to the errors of non-fatals', () => {
+    const event = crashEvent({ is_fatal: false, errors: [{ title: 'NSURLErrorDomain', subtitle: 'timed out' }] });
+
+    expect(getPrimaryError(event)).toEqual({ type: 'NSURLErrorDomain', message: 'timed out' });
+  });
+
+  it('describes events without exceptions or errors by their issue', () => {
+    const event = crashEvent({ error_type: 'ANR', issue_title: 'Input dispatching timed out', issue_subtitle: 'main thread' });
+
+    expect(getPrimaryError(event)).toEqual({ type: 'Input dispatching timed out', message: 'main thread' });
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  CrashEvent,
+  CrashErrorType,
+  CrashFrame,
+  CrashException,
+  CrashError,
+  CrashThread,
+  CrashLog,
+  CrashBreadcrumb,
+  MemoryUsage,
+} from './types.js';
+
+/** A record of the export, or of a fixture file, before normalization. */
+type RawRecord = Record<string, unknown>;
+
+/**
+ * The BigQuery client wraps TIMESTAMP, DATE and (optionally) INT64 values in
+ * objects exposing a `value` property; fixture files carry plain JSON values.
+ */
+function unwrap(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'value' in value) {
+    return value.value;
+  }
+  return value;
+}
+
+/** The fields of a nested record; missing or non-record values have none. */
+function toRecord(value: unknown): RawRecord {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as RawRecord : {};
+}
+
+function toStringValue(value: unknown): string {
+  const unwrapped = unwrap(value);
+  return unwrapped === null || unwrapped === undefined ? '' : String(unwrapped);
+}
+
+function toNumberValue(value: unknown): number {
+  const parsed = Number(unwrap(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function toTimestamp(value: unknown): string {
+  const unwrapped = unwrap(value);
+  if (!unwrapped) return '';
+
+  const date = unwrapped instanceof Date ? unwrapped : new Date(typeof unwrapped === 'number' ? unwrapped : String(unwrapped));
+  return Number.isNaN(date.getTime()) ? String(unwrapped) : date.toISOString();
+}
+
+/** `DATE` columns arrive as `{ value: 'YYYY-MM-DD' }` from BigQuery and as plain strings from fixtures. */
+export function toDateString(value: unknown): string {
+  return toStringValue(value).slice(0, 10);
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function toKeyValueMap(value: unknown): Record<string, string> {
+  const map: Record<string, string> = {};
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const entry = toRecord(item);
+      if (entry.key !== undefined && entry.key !== null) {
+        map[String(entry.key)] = toStringValue(entry.value);
+      }
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, entry] of Object.entries(value)) {
+      map[key] = toStringValue(entry);
+    }
+  }
+
+  return map;
+}
+
+function normalizeErrorType(errorType: unknown, isFatal: boolean): CrashErrorType {
+  const parsed = CrashErrorType.safeParse(toStringValue(errorType).toUpperCase());
+  if (parsed.success) return parsed.data;
+  return isFatal ? 'FATAL' : 'UNKNOWN';
+}
+
+function normalizeMemory(value: unknown): MemoryUsage {
+  const memory = toRecord(value);
+  return {
+    used: toNumberValue(memory.used),
+    free: toNumberValue(memory.free),
+  };
+}
+
+export function normalizeFrame(value: unknown): CrashFrame {
+  const frame = toRecord(value);
+  return {
+    symbol: toStringValue(frame.symbol),
+    file: toStringValue(frame.file),
+    line: toNumberValue(frame.line),
+    offset: toNumberValue(frame.offset),
+    address: toNumberValue(frame.address),
+    library: toStringValue(frame.library),
+    owner: toStringValue(frame.owner),
+    blamed: frame.blamed === true,
+  };
+}
+
+function normalizeFrames(frames: unknown): CrashFrame[] {
+  return toArray(frames).map(normalizeFrame);
+}
+
+function normalizeException(value: unknown): CrashException {
+  const exception = toRecord(value);
+  return {
+    type: toStringValue(exception.type),
+    exception_message: toStringValue(exception.exception_message),
+    nested: exception.nested === true,
+    title: toStringValue(exception.title),
+    subtitle: toStringValue(exception.subtitle),
+    blamed: exception.blamed === true,
+    frames: normalizeFrames(exception.frames),
+  };
+}
+
+function normalizeError(value: unknown): CrashError {
+  const error = toRecord(value);
+  return {
+    queue_name: toStringValue(error.queue_name),
+    code: toNumberValue(error.code),
+    title: toStringValue(error.title),
+    subtitle: toStringValue(error.subtitle),
+    blamed: error.blamed === true,
+    frames: normalizeFrames(error.frames),
+  };
+}
+
+function normalizeThread(value: unknown): CrashThread {
+  const thread = toRecord(value);
+  return {
+    crashed: thread.crashed === true,
+    thread_name: toStringValue(thread.thread_name),
+    queue_name: toStringValue(thread.queue_name),
+    signal_name: toStringValue(thread.signal_name),
+    signal_code: toStringValue(thread.signal_code),
+    crash_address: toNumberValue(thread.crash_address),
+    code: toNumberValue(thread.code),
+    name: toStringValue(thread.name),
+    title: toStringValue(thread.title),
+    subtitle: toStringValue(thread.subtitle),
+    blamed: thread.blamed === true,
+    frames: normalizeFrames(thread.frames),
+  };
+}
+
+function normalizeLog(value: unknown): CrashLog {
+  const log = toRecord(value);
+  return {
+    timestamp: toTimestamp(log.timestamp),
+    message: toStringValue(log.message),
+  };
+}
+
+function normalizeBreadcrumb(value: unknown): CrashBreadcrumb {
+  const breadcrumb = toRecord(value);
+  return {
+    timestamp: toTimestamp(breadcrumb.timestamp),
+    name: toStringValue(breadcrumb.name),
+    params: toKeyValueMap(breadcrumb.params),
+  };
+}
+
+/**
+ * Maps one row of the Crashlytics BigQuery export into a `CrashEvent`.
+ * Missing nested records become empty values so consumers never need to
+ * null-check the export's optional structs.
+ */
+export function normalizeCrashEvent(value: unknown): CrashEvent {
+  const row = toRecord(value);
+  const isFatal = row.is_fatal === true;
+  const application = toRecord(row.application);
+  const device = toRecord(row.device);
+  const operatingSystem = toRecord(row.operating_system);
+  const user = toRecord(row.user);
+
+  return {
+    event_id: toStringValue(row.event_id),
+    issue_id: toStringValue(row.issue_id),
+    variant_id: toStringValue(row.variant_id),
+    issue_title: toStringValue(row.issue_title),
+    issue_subtitle: toStringValue(row.issue_subtitle),
+    event_timestamp: toTimestamp(row.event_timestamp),
+    received_timestamp: toTimestamp(row.received_timestamp),
+    platform: toStringValue(row.platform),
+    bundle_identifier: toStringValue(row.bundle_identifier),
+    is_fatal: isFatal,
+    error_type: normalizeErrorType(row.error_type, isFatal),
+    application: {
+      build_version: toStringValue(application.build_version),
+      display_version: toStringValue(application.display_version),
+    },
+    device: {
+      manufacturer: toStringValue(device.manufacturer),
+      model: toStringValue(device.model),
+      architecture: toStringValue(device.architecture),
+    },
+    operating_system: {
+      display_version: toStringValue(operatingSystem.display_version),
+      name: toStringValue(operatingSystem.name),
+      modification_state: toStringValue(operatingSystem.modification_state),
+      type: toStringValue(operatingSystem.type),
+      device_type: toStringValue(operatingSystem.device_type),
+    },
+    user: {
+      id: toStringValue(user.id),
+      name: toStringValue(user.name),
+      email: toStringValue(user.email),
+    },
+    installation_uuid: toStringValue(row.installation_uuid),
+    session_id: toStringValue(row.firebase_session_id ?? row.session_id),
+    process_state: toStringValue(row.process_state),
+    app_orientation: toStringValue(row.app_orientation),
+    device_orientation: toStringValue(row.device_orientation),
+    memory: normalizeMemory(row.memory),
+    storage: normalizeMemory(row.storage),
+    custom_keys: toKeyValueMap(row.custom_keys),
+    logs: toArray(row.logs).map(normalizeLog),
+    breadcrumbs: toArray(row.breadcrumbs).map(normalizeBreadcrumb),
+    blame_frame: row.blame_frame ? normalizeFrame(row.blame_frame) : null,
+    exceptions: toArray(row.exceptions).map(normalizeException),
+    errors: toArray(row.errors).map(normalizeError),
+    threads: toArray(row.threads).map(normalizeThread),
+  };
+}
+
+/**
+ * The exception type and message that best describe an event: the blamed
+ * exception for crashes, the blamed error for non-fatals, and the issue
+ * title/subtitle when the event carries neither (typically ANRs).
+ */
+export function getPrimaryError(event: CrashEvent): { type: string; message: string } {
+  const exception = event.exceptions.find(candidate => candidate.blamed) || event.exceptions[0];
+  if (exception) {
+    return {
+      type: exception.type || exception.title || event.issue_title || 'Unknown',
+      message: exception.exception_message || exception.subtitle || event.issue_subtitle,
+    };
+  }
+
+  const error = event.errors.find(candidate => candidate.blamed) || event.errors[0];
+  if (error) {
+    return {
+      type: error.title || event.issue_title || 'Unknown',
+      message: error.subtitle || event.issue_subtitle,
+    };
+  }
+
+  return {
+    type: event.issue_title || event.error_type,
+    message: event.issue_subtitle,
+  };
+}
@@ -0,0 +1,310 @@
+import { CrashProcessor } from './crash-processor';
+import { BundleSourceMaps, SourceMap } from './source-map-resolver';
+import { crashEvent, issueAggregate } from './test-helpers';
+import { CompareVersionsParams, GetUserCrashHistoryParams } from './types';
+
+describe('CrashProcessor.processCrashDetails', () => {
+  const processor = new CrashProcessor();
+
+  describe('structured frames', () => {
+    const appFrame = { symbol: 'com.example.app.CartFragment.onViewCreated', file: 'CartFragment.kt', line: 87, owner: 'DEVELOPER', blamed: true };
+    const looperFrame = { symbol: 'android.os.Looper.loop', file: 'Looper.java', line: 193, owner: 'PLATFORM' };
+
+    it('keeps every exception and thread and uses the blamed exception for the frames', () => {
+      const { stack_trace } = processor.processCrashDetails(crashEvent({
+        blame_frame: appFrame,
+        exceptions: [
+          { type: 'java.lang.RuntimeException', exception_message: 'Unable to start activity', frames: [looperFrame] },
+          { type: 'java.lang.NullPointerException', exception_message: 'cart was null', nested: true, blamed: true, frames: [appFrame, looperFrame] },
+        ],
+        threads: [
+          { thread_name: 'main', crashed: true, frames: [appFrame] },
+          { thread_name: 'OkHttp Dispatcher', frames: [] },
+        ],
+      }));
+
+      expect(stack_trace.exception_type).toBe('java.lang.NullPointerException');
+      expect(stack_trace.message).toBe('cart was null');
+      expect(stack_trace.frames).toEqual([
+        {
+          method: 'onViewCreated',
+          class: 'com.example.app.CartFragment',
+          file: 'CartFragment.kt',
+          line: 87,
+          column: undefined,
+          library: undefined,
+          symbol: 'com.example.app.CartFragment.onViewCreated',
+          offset: undefined,
+          address: undefined,
+          owner: 'DEVELOPER',
+          blamed: true,
+        },
+        expect.objectContaining({ method: 'loop', class: 'android.os.Looper', library: 'android', owner: 'PLATFORM', blamed: false }),
+      ]);
+      expect(stack_trace.blamed_frame).toMatchObject({ method: 'onViewCreated', blamed: true });
+      expect(stack_trace.exceptions?.map(exception => [exception.exception_type, exception.nested, exception.blamed])).toEqual([
+        ['java.lang.RuntimeException', false, false],
+        ['java.lang.NullPointerException', true, true],
+      ]);
+      expect(stack_trace.threads?.map(thread => [thread.name, thread.crashed, thread.frames.length])).toEqual([
+        ['main', true, 1],
+        ['OkHttp Dispatcher', false, 0],
+      ]);
+    });
+
+    it('uses the crashed thread when the event has no exceptions', () => {
+      const { stack_trace } = processor.processCrashDetails(crashEvent({
+        error_type: 'ANR',
+        threads: [{ thread_name: 'main', crashed: true, frames: [looperFrame] }],
+      }));
+
+      expect(stack_trace.frames).toEqual([expect.objectContaining({ method: 'loop', class: 'android.os.Looper' })]);
+      expect(stack_trace.threads).toBeUndefined();
+    });
+
+    it.each([
+      ['-[CartViewController viewDidLoad]', 'CartViewController.m', 'CartViewController', 'viewDidLoad'],
+      ['std::vector<int>::at(unsigned long)', 'vector', 'std::vector<int>', 'at'],
+      ['checkout', 'src/cart/Checkout.swift', 'Checkout', 'checkout'],
+    ])('splits the symbol %s', (symbol, file, className, method) => {
+      const { stack_trace } = processor.processCrashDetails(crashEvent({
+        exceptions: [{ type: 'SIGABRT', frames: [{ symbol, file, line: 1 }] }],
+      }));
+
+      expect(stack_trace.frames[0]).toMatchObject({ class: className, method });
+    });
+
+    it('takes the bundle column of JavaScript frames from the offset', () => {
+      const { stack_trace } = processor.processCrashDetails(crashEvent({
+        exceptions: [{ type: 'Error', frames: [{ symbol: 'fetchCart', file: 'index.android.bundle', line: 1, offset: 150 }] }],
+      }));
+
+      expect(stack_trace.frames[0]).toMatchObject({ method: 'fetchCart', line: 1, column: 150 });
+    });
+  });
+
+  describe('JavaScript stacks embedded in the message', () => {
+    const event = crashEvent({
+      platform: 'ANDROID',
+      exceptions: [{
+        type: 'com.facebook.react.common.JavascriptException',
+        exception_message: [
+          'TypeError: undefined is not an object',
+          'at addItem (address at index.android.bundle:1:284712)',
+          'at Cart.render (https://cdn.example.com/app.js?v=3:10:5)',
+          'at https://cdn.example.com/app.js:12:7',
+          'fetchCart@index.android.bundle:1:150',
+          '@index.android.bundle:2:6',
+        ].join('\n'),
+      }],
+    });
+
+    it('parses Hermes, V8 and JavaScriptCore frames', () => {
+      const { stack_trace } = processor.processCrashDetails(event);
+
+      expect(stack_trace.message).toBe('TypeError: undefined is not an object');
+      expect(stack_trace.frames).toEqual([
+        { method: 'addItem', class: 'index.android.bundle', file: 'index.android.bundle', line: 1, column: 284712 },
+        { method: 'render', class: 'Cart', file: 'https://cdn.example.com/app.js?v=3', line: 10, column: 5 },
+        { method: 'anonymous', class: 'app.js', file: 'https://cdn.example.com/app.js', line: 12, column: 7 },
+        { method: 'fetchCart', class: 'index.android.bundle', file: 'index.android.bundle', line: 1, column: 150 },
+        { method: 'anonymous', class: 'index.android.bundle', file: 'index.android.bundle', line: 2, column: 6 },
+      ]);
+    });
+
+    it('resolves bundle frames with the version source maps', () => {
+      const sourceMaps = new BundleSourceMaps(
+        new Map([['index.android.bundle', new SourceMap({ sources: ['src/api.ts'], names: ['fetchCart'], mappings: 'AASIA' })]]),
+        '/maps/com.example.app/1.0.0'
+      );
+
+      const { stack_trace, deobfuscation } = processor.processCrashDetails(event, { sourceMaps });
+
+      expect(stack_trace.frames[3]).toMatchObject({
+        method: 'fetchCart',
+        class: 'api',
+        file: 'src/api.ts',
+        line: 10,
+        column: 5,
+        generated_location: 'index.android.bundle:1:150',
+      });
+      expect(deobfuscation).toEqual([expect.objectContaining({ type: 'source_map', status: 'retraced', frames_retraced: 2 })]);
+    });
+
+    it('reports missing source maps for bundle frames', () => {
+      const { deobfuscation } = processor.processCrashDetails(event, { sourceMaps: null });
+
+      expect(deobfuscation).toEqual([expect.objectContaining({ type: 'source_map', status: 'mapping_not_found' })]);
+    });
+  });
+});
+
+describe('CrashProcessor.processVersionComparison', () => {
+  const processor = new CrashProcessor();
+  const params = CompareVersionsParams.parse({ app_package: 'com.example.app', base_version: '1.0.0', target_version: '1.1.0' });
+  const baseTotals = { version: '1.0.0', event_count: 1000, user_count: 500, installation_count: 500 };
+  const targetTotals = { version: '1.1.0', event_count: 1000, user_count: 500, installation_count: 500 };
+
+  const comparison = processor.processVersionComparison(
+    params,
+    [
+      issueAggregate({ issue_id: 'regressed', event_count: 100, user_count: 50 }),
+      issueAggregate({ issue_id: 'steady', event_count: 100, user_count: 50 }),
+      issueAggregate({ issue_id: 'improved', event_count: 300, user_count: 150 }),
+      issueAggregate({ issue_id: 'resolved', event_count: 40, user_count: 20 }),
+    ],
+    [
+      issueAggregate({ issue_id: 'regressed', event_count: 300, user_count: 150 }),
+      issueAggregate({ issue_id: 'steady', event_count: 105, user_count: 52 }),
+      issueAggregate({ issue_id: 'improved', event_count: 100, user_count: 50 }),
+      issueAggregate({ issue_id: 'new', event_count: 60, user_count: 30, error_type: 'ANR' }),
+    ],
+    baseTotals,
+    targetTotals
+  );
+
+  it('sorts issues into new, resolved, regressed and improved', () => {
+    const ids = (changes: Array<{ issue_id: string }>) => changes.map(change => change.issue_id);
+
+    expect(ids(comparison.new_issues)).toEqual(['new']);
+    expect(ids(comparison.resolved_issues)).toEqual(['resolved']);
+    expect(ids(comparison.regressed_issues)).toEqual(['regressed']);
+    expect(ids(comparison.improved_issues)).toEqual(['improved']);
+  });
+
+  it('reports rates as a share of each version\'s crashes', () => {
+    expect(comparison.rate_basis).toBe('share_of_crashes');
+    expect(comparison.totals).toEqual({
+      base: { ...baseTotals, active_users: null, sessions: null },
+      target: { ...targetTotals, active_users: null, sessions: null },
+    });
+    expect(comparison.regressed_issues[0]).toMatchObject({
+      base: { event_count: 100, user_count: 50, event_rate: 0.1, user_rate: 0.1 },
+      target: { event_count: 300, user_count: 150, event_rate: 0.3, user_rate: 0.3 },
+      event_rate_change: 200,
+      user_rate_change: 200,
+    });
+    expect(comparison.new_issues[0]).toMatchObject({ type: 'anr', base: null, target: { event_rate: 0.06 } });
+  });
+
+  it('ignores changes below the minimum rate change', () => {
+    const lenient = processor.processVersionComparison(
+      { ...params, min_rate_change: 250 },
+      [issueAggregate({ issue_id: 'regressed', event_count: 100, user_count: 50 })],
+      [issueAggregate({ issue_id: 'regressed', event_count: 300, user_count: 150 })],
+      baseTotals,
+      targetTotals
+    );
+
+    expect(lenient.regressed_issues).toEqual([]);
+  });
+});
+
+describe('CrashProcessor.processVersionComparison with a crash-free denominator', () => {
+  const processor = new CrashProcessor();
+  const params = CompareVersionsParams.parse({ app_package: 'com.example.app', base_version: '1.0.0', target_version: '1.1.0' });
+  const dailyCounts = (version: string, totalUsers: number, totalSessions: number) => ['2026-10-16', '2026-10-17'].map(date => ({
+    date,
+    app_package: 'com.example.app',
+    app_version: version,
+    crashed_users: 10,
+    crashed_sessions: 10,
+    total_users: totalUsers,
+    total_sessions: totalSessions,
+  }));
+  // Both versions crash equally often, but 1.1.0 has a quarter of the users and sessions.
+  // Some crashed users signed out, so there are more crashed installations than user IDs.
+  const baseIssues = [issueAggregate({ issue_id: 'checkout', event_count: 100, user_count: 50, installation_count: 60 })];
+  const targetIssues = [issueAggregate({ issue_id: 'checkout', event_count: 100, user_count: 50, installation_count: 60 })];
+  const baseTotals = { version: '1.0.0', event_count: 200, user_count: 100, installation_count: 120 };
+  const targetTotals = { version: '1.1.0', event_count: 200, user_count: 100, installation_count: 120 };
+
+  it('divides crashed installations and events by the active users and sessions of each version', () => {
+    const comparison = processor.processVersionComparison(
+      params,
+      baseIssues,
+      targetIssues,
+      baseTotals,
+      targetTotals,
+      [...dailyCounts('1.0.0', 2000, 5000), ...dailyCounts('1.1.0', 500, 1250), ...dailyCounts('9.9.9', 1, 1)],
+      'table'
+    );
+
+    expect(comparison.rate_basis).toBe('exposure');
+    expect(comparison.totals.base).toEqual({ ...baseTotals, active_users: 4000, sessions: 10000 });
+    expect(comparison.totals.target).toEqual({ ...targetTotals, active_users: 1000, sessions: 2500 });
+    expect(comparison.regressed_issues).toEqual([expect.objectContaining({
+      issue_id: 'checkout',
+      base: { event_count: 100, user_count: 60, event_rate: 0.01, user_rate: 0.015 },
+      target: { event_count: 100, user_count: 60, event_rate: 0.04, user_rate: 0.06 },
+      event_rate_change: 300,
+    })]);
+  });
+
+  it('falls back to a share of crashes when a version has no denominator rows', () => {
+    const comparison = processor.processVersionComparison(
+      params, baseIssues, targetIssues, baseTotals, targetTotals, dailyCounts('1.0.0', 2000, 5000), 'analytics'
+    );
+
+    expect(comparison.rate_basis).toBe('share_of_crashes');
+    expect(comparison.rate_basis_message).toContain('no active users or sessions for version 1.1.0');
+    expect(comparison.totals.target).toMatchObject({ active_users: null, sessions: null });
+    expect(comparison.regressed_issues).toEqual([]);
+  });
+
+  it('says how to configure a denominator when none is', () => {
+    const comparison = processor.processVersionComparison(params, baseIssues, targetIssues, baseTotals, targetTotals);
+
+    expect(comparison.rate_basis).toBe('share_of_crashes');
+    expect(comparison.rate_basis_message).toContain('set CRASH_FREE_DENOMINATOR');
+  });
+});
+
+describe('CrashProcessor.processUserCrashHistory', () => {
+  const processor = new CrashProcessor();
+  const params = GetUserCrashHistoryParams.parse({ user_id: 'user-1' });
+  // Newest first, as the data sources return them
+  const events = [
+    crashEvent({ event_id: 'e4', session_id: 's2', issue_id: 'checkout', event_timestamp: '2026-10-17T10:05:00.000Z', application: { display_version: '1.1.0' } }),
+    crashEvent({ event_id: 'e3', session_id: 's2', issue_id: 'network', is_fatal: false, error_type: 'NON_FATAL', event_timestamp: '2026-10-17T10:00:00.000Z', application: { display_version: '1.1.0' } }),
+    crashEvent({ event_id: 'e2', issue_id: 'anr', error_type: 'ANR', event_timestamp: '2026-10-16T08:00:00.000Z', installation_uuid: 'install-2' }),
+    crashEvent({ event_id: 'e1', session_id: 's1', issue_id: 'checkout', event_timestamp: '2026-10-15T09:00:00.000Z', device: { manufacturer: 'samsung', model: 'SM-S911B' } }),
+  ];
+
+  it('groups events by session, oldest event first within a session', () => {
+    const history = processor.processUserCrashHistory(events, params, { truncated: false });
+
+    expect(history.sessions?.map(session => [session.session_id, session.events.map(event => event.crash_id)])).toEqual([
+      ['s2', ['e3', 'e4']],
+      [null, ['e2']],
+      ['s1', ['e1']],
+    ]);
+    expect(history.sessions?.[0]).toMatchObject({ started_at: '2026-10-17T10:00:00.000Z', ended_at: '2026-10-17T10:05:00.000Z', fatal: true, issue_ids: ['checkout', 'network'] });
+    expect(history.multi_error_sessions).toBe(1);
+  });
+
+  it('summarizes the user across versions, devices and issues', () => {
+    const history = processor.processUserCrashHistory(events, params, { truncated: true });
+
+    expect(history).toMatchObject({
+      user_id: 'user-1',
+      installation_uuid: null,
+      total_events: 4,
+      truncated: true,
+      counts: { fatal: 2, non_fatal: 1, anr: 1 },
+      first_seen: '2026-10-15T09:00:00.000Z',
+      last_seen: '2026-10-17T10:05:00.000Z',
+      app_versions: ['1.1.0', '1.0.0'],
+      devices: ['Google Pixel 7', 'samsung SM-S911B'],
+      installations: ['install-2'],
+    });
+    expect(history.issues[0]).toMatchObject({ issue_id: 'checkout', event_count: 2, session_count: 2, first_seen: '2026-10-15T09:00:00.000Z' });
+  });
+
+  it('lists events instead of sessions in the events view', () => {
+    const history = processor.processUserCrashHistory(events, { ...params, view: 'events' }, { truncated: false });
+
+    expect(history.sessions).toBeUndefined();
+    expect(history.events?.map(event => event.crash_id)).toEqual(['e4', 'e3', 'e2', 'e1']);
+  });
+});
@@ -1,91 +1,408 @@
 import { 
-  BigQueryCrashRow, 
+  CrashEvent, 
+  CrashFrame,
   CrashSummary, 
   CrashDetails, 
   StackTrace, 
   StackFrame, 
+  ExceptionTrace,
+  ThreadTrace,
   DeviceInfo, 
   CrashContext,
+  DeobfuscationStatus,
   TrendAnalysis,
-  CrashTrend
+  CrashTrend,
+  CrashFreeCountRow,
+  CrashStatisticsRow,
+  TimeRange,
+  CrashFreeDenominatorSource,
+  BreakdownEntry,
+  CrashFreeSummary,
+  IssueAggregate,
+  IssueSummary,
+  CompareVersionsParams,
+  VersionComparison,
+  VersionCrashTotals,
+  VersionTotals,
+  VersionIssueChange,
+  VersionIssueStats,
+  GetUserCrashHistoryParams,
+  UserCrashEvent,
+  UserCrashHistory,
+  UserIssueSummary,
+  UserSession
 } from './types.js';
 import { ImpactAnalyzer } from './impact-analyzer.js';
+import { AnrAnalyzer } from './anr-analyzer.js';
+import { getPrimaryError } from './crash-normalizer.js';
+import { compareVersions, sortVersions } from './version-utils.js';
+import { firebaseConsoleIssueUrl } from './console-links.js';
+import { BundleSourceMaps, SourceMapResolver, isJavaScriptBundleFile, isJavaScriptBundleFrame } from './source-map-resolver.js';
+
+export interface CrashDetailsOptions {
+  deobfuscation?: DeobfuscationStatus[];
+  /** Source maps for the event's app version; `null` when none were found, omitted when not configured. */
+  sourceMaps?: BundleSourceMaps | null;
+}
 
 export class CrashProcessor {
   private impactAnalyzer: ImpactAnalyzer;
+  private anrAnalyzer = new AnrAnalyzer();
 
   constructor(totalUsers: number = 10000) {
     this.impactAnalyzer = new ImpactAnalyzer(totalUsers);
   }
 
-  processCrashRows(rows: BigQueryCrashRow[]): CrashSummary[] {
-    const crashMap = new Map<string, { row: BigQueryCrashRow; count: number; users: Set<string> }>();
+  processCrashRows(events: CrashEvent[]): CrashSummary[] {
+    const crashMap = new Map<string, { event: CrashEvent; count: number; users: Set<string> }>();
 
-    rows.forEach(row => {
-      const key = `${row.exception_type}-${row.exception_message}-${row.app_version}`;
+    events.forEach(event => {
+      const error = getPrimaryError(event);
+      const key = event.issue_id || `${error.type}-${error.message}-${event.application.display_version}`;
       
       if (crashMap.has(key)) {
         const existing = crashMap.get(key)!;
         existing.count++;
-        if (row.user_id) {
-          existing.users.add(row.user_id);
+        if (event.user.id) {
+          existing.users.add(event.user.id);
         }
       } else {
         const users = new Set<string>();
-        if (row.user_id) {
-          users.add(row.user_id);
+        if (event.user.id) {
+          users.add(event.user.id);
         }
-        crashMap.set(key, { row, count: 1, users });
+        crashMap.set(key, { event, count: 1, users });
       }
     });
 
-    const summaries: CrashSummary[] = Array.from(crashMap.values()).map(({ row, count, users }) => {
+    const summaries: CrashSummary[] = Array.from(crashMap.values()).map(({ event, count, users }) => {
       const affectedUsers = users.size;
-      const impact = this.impactAnalyzer.calculateImpactLevel(affectedUsers, count, row.is_fatal);
+      const impact = this.impactAnalyzer.calculateImpactLevel(affectedUsers, count, event.is_fatal);
       
+      return this.buildCrashSummary(event, impact, affectedUsers, count);
+    });
+
+    return this.impactAnalyzer.sortByImpactAndFrequency(summaries);
+  }
+
+  /**
+   * Turns per-issue aggregates into summaries, keeping the order chosen by
+   * the data source.
+   */
+  processIssueAggregates(aggregates: IssueAggregate[]): IssueSummary[] {
+    return aggregates.map(aggregate => {
+      const type = this.issueTypeOf(aggregate);
+      const osVersions = sortVersions(aggregate.os_versions);
+      const change = aggregate.recent_events - aggregate.previous_events;
+
       return {
-        id: row.crash_id,
-        timestamp: row.timestamp,
-        impact,
-        affected_users: affectedUsers,
-        occurrences: count,
-        app_version: row.app_version,
-        platform: row.platform,
-        crash_message: row.exception_message || 'Unknown error',
-        is_fatal: row.is_fatal,
-        title: this.generateCrashTitle(row.exception_type, row.exception_message)
+        issue_id: aggregate.issue_id,
+        title: aggregate.issue_title,
+        subtitle: aggregate.issue_subtitle,
+        type,
+        event_count: aggregate.event_count,
+        affected_users: aggregate.user_count,
+        first_seen: aggregate.first_seen,
+        last_seen: aggregate.last_seen,
+        affected_versions: [...aggregate.versions].sort((a, b) => compareVersions(b, a)),
+        os_range: {
+          min: osVersions[0] || 'Unknown',
+          max: osVersions[osVersions.length - 1] || 'Unknown',
+        },
+        impact: this.impactAnalyzer.calculateImpactLevel(aggregate.user_count, aggregate.event_count, type !== 'non_fatal'),
+        growth: {
+          recent_events: aggregate.recent_events,
+          previous_events: aggregate.previous_events,
+          change,
+          change_rate: aggregate.previous_events > 0 ? Math.round((change / aggregate.previous_events) * 1000) / 10 : null,
+        },
       };
     });
+  }
 
-    return this.impactAnalyzer.sortByImpactAndFrequency(summaries);
+  /**
+   * Compares per-issue aggregates of two versions. Rates are per session and
+   * per active user when the crash-free denominator covers both versions,
+   * using the same daily totals as the crash-free rates and counting crashed
+   * users by installation, as those totals do. Otherwise they are
+   * each issue's share of its version's crash events and crashed users,
+   * which shows how an issue's weight shifted but not how often users hit it.
+   */
+  processVersionComparison(
+    params: CompareVersionsParams,
+    baseIssues: IssueAggregate[],
+    targetIssues: IssueAggregate[],
+    baseCrashTotals: VersionCrashTotals,
+    targetCrashTotals: VersionCrashTotals,
+    crashFreeCounts: CrashFreeCountRow[] = [],
+    denominatorSource: CrashFreeDenominatorSource = 'none'
+  ): VersionComparison {
+    const baseTotals = this.versionTotals(params.app_package, baseCrashTotals, crashFreeCounts);
+    const targetTotals = this.versionTotals(params.app_package, targetCrashTotals, crashFreeCounts);
+    const uncovered = [baseTotals, targetTotals].filter(totals => !totals.active_users || !totals.sessions);
+    const rateBasis = uncovered.length === 0 ? 'exposure' : 'share_of_crashes';
+    const baseDenominators = this.rateDenominators(baseTotals, rateBasis);
+    const targetDenominators = this.rateDenominators(targetTotals, rateBasis);
+
+    const baseById = new Map(baseIssues.map(issue => [issue.issue_id, issue]));
+    const targetById = new Map(targetIssues.map(issue => [issue.issue_id, issue]));
+    const newIssues: VersionIssueChange[] = [];
+    const resolvedIssues: VersionIssueChange[] = [];
+    const regressedIssues: VersionIssueChange[] = [];
+    const improvedIssues: VersionIssueChange[] = [];
+
+    for (const target of targetIssues) {
+      const base = baseById.get(target.issue_id);
+      if (!base) {
+        newIssues.push(this.buildVersionIssueChange(target, null, this.versionIssueStats(target, targetDenominators, rateBasis)));
+        continue;
+      }
+
+      const baseStats = this.versionIssueStats(base, baseDenominators, rateBasis);
+      const targetStats = this.versionIssueStats(target, targetDenominators, rateBasis);
+      const eventChange = this.rateChange(baseStats.event_rate, targetStats.event_rate);
+      const userChange = this.rateChange(baseStats.user_rate, targetStats.user_rate);
+      const eventsSignificant = eventChange !== null
+        && Math.abs(eventChange) >= params.min_rate_change
+        && this.impactAnalyzer.isSignificantRateChange(
+          base.event_count, baseDenominators.events, target.event_count, targetDenominators.events
+        );
+      const usersSignificant = userChange !== null
+        && Math.abs(userChange) >= params.min_rate_change
+        && this.impactAnalyzer.isSignificantRateChange(
+          baseStats.user_count, baseDenominators.users, targetStats.user_count, targetDenominators.users
+        );
+      if (!eventsSignificant && !usersSignificant) continue;
+
+      const change: VersionIssueChange = {
+        ...this.buildVersionIssueChange(target, baseStats, targetStats),
+        event_rate_change: eventChange,
+        user_rate_change: userChange,
+      };
+      const direction = eventsSignificant ? eventChange! : userChange!;
+      (direction > 0 ? regressedIssues : improvedIssues).push(change);
+    }
+
+    for (const base of baseIssues) {
+      if (!targetById.has(base.issue_id)) {
+        resolvedIssues.push(this.buildVersionIssueChange(base, this.versionIssueStats(base, baseDenominators, rateBasis), null));
+      }
+    }
+
+    const byTargetUsers = (a: VersionIssueChange, b: VersionIssueChange) =>
+      (b.target?.user_count || 0) - (a.target?.user_count || 0) || (b.target?.event_count || 0) - (a.target?.event_count || 0);
+    const byBaseUsers = (a: VersionIssueChange, b: VersionIssueChange) =>
+      (b.base?.user_count || 0) - (a.base?.user_count || 0) || (b.base?.event_count || 0) - (a.base?.event_count || 0);
+
+    return {
+      app_package: params.app_package,
+      base_version: params.base_version,
+      target_version: params.target_version,
+      time_range: params.time_range,
+      rate_basis: rateBasis,
+      rate_basis_message: this.rateBasisMessage(denominatorSource, uncovered),
+      totals: {
+        base: baseTotals,
+        target: targetTotals,
+      },
+      new_issues: newIssues.sort(byTargetUsers).slice(0, params.limit),
+      resolved_issues: resolvedIssues.sort(byBaseUsers).slice(0, params.limit),
+      regressed_issues: regressedIssues.sort(byTargetUsers).slice(0, params.limit),
+      improved_issues: improvedIssues.sort(byBaseUsers).slice(0, params.limit),
+    };
+  }
+
+  private buildVersionIssueChange(
+    issue: IssueAggregate,
+    base: VersionIssueStats | null,
+    target: VersionIssueStats | null
+  ): VersionIssueChange {
+    const scored = (target || base)!;
+    const type = this.issueTypeOf(issue);
+
+    return {
+      issue_id: issue.issue_id,
+      title: issue.issue_title,
+      subtitle: issue.issue_subtitle,
+      type,
+      impact: this.impactAnalyzer.calculateImpactLevel(scored.user_count, scored.event_count, type !== 'non_fatal'),
+      base,
+      target,
+      event_rate_change: null,
+      user_rate_change: null,
+    };
+  }
+
+  private versionTotals(appPackage: string, crashTotals: VersionCrashTotals, crashFreeCounts: CrashFreeCountRow[]): VersionTotals {
+    const totals = this.sumCrashFreeCounts(
+      crashFreeCounts.filter(row => row.app_package === appPackage && row.app_version === crashTotals.version)
+    );
+    return { ...crashTotals, active_users: totals.totalUsers, sessions: totals.totalSessions };
+  }
+
+  private rateDenominators(totals: VersionTotals, rateBasis: VersionComparison['rate_basis']): { events: number; users: number } {
+    return rateBasis === 'exposure'
+      ? { events: totals.sessions!, users: totals.active_users! }
+      : { events: totals.event_count, users: totals.user_count };
+  }
+
+  private rateBasisMessage(source: CrashFreeDenominatorSource, uncovered: VersionTotals[]): string {
+    const shareOfCrashes = 'rates are each issue\'s share of its version\'s crash events and crashed users, not of its sessions or active users';
+    if (source === 'none') {
+      return `No crash-free denominator configured, so ${shareOfCrashes}; set CRASH_FREE_DENOMINATOR to "analytics" or "table" for rates per session and active user`;
+    }
+    if (uncovered.length > 0) {
+      return `The ${source} denominator has no active users or sessions for version ${uncovered.map(totals => totals.version).join(' and ')}, so ${shareOfCrashes}`;
+    }
+    return `Rates are per session and per active user, from the ${source} daily sessions and active users that crash-free rates use`;
+  }
+
+  private versionIssueStats(
+    issue: IssueAggregate,
+    denominators: { events: number; users: number },
+    rateBasis: VersionComparison['rate_basis']
+  ): VersionIssueStats {
+    const rate = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1e6) / 1e6 : 0;
+    const users = rateBasis === 'exposure' ? issue.installation_count : issue.user_count;
+
+    return {
+      event_count: issue.event_count,
+      user_count: users,
+      event_rate: rate(issue.event_count, denominators.events),
+      user_rate: rate(users, denominators.users),
+    };
+  }
+
+  private rateChange(baseRate: number, targetRate: number): number | null {
+    if (baseRate === 0) return null;
+    return Math.round(((targetRate - baseRate) / baseRate) * 1000) / 10;
+  }
+
+  private issueTypeOf(issue: { error_type: string }): 'fatal' | 'non_fatal' | 'anr' {
+    return issue.error_type === 'FATAL' ? 'fatal' : issue.error_type === 'ANR' ? 'anr' : 'non_fatal';
+  }
+
+  /**
+   * Builds one user's (or installation's) crash history from their events,
+   * newest first. Sessions list their events oldest first so that several
+   * errors within one session read as a sequence. `consoleProjectId` enables
+   * Firebase console links.
+   */
+  processUserCrashHistory(
+    events: CrashEvent[],
+    params: GetUserCrashHistoryParams,
+    options: { truncated: boolean; consoleProjectId?: string }
+  ): UserCrashHistory {
+    const userEvents = events.map(event => this.buildUserCrashEvent(event, options.consoleProjectId || ''));
+    const issues = new Map<string, UserIssueSummary & { sessions: Set<string> }>();
+    const sessions = new Map<string, UserSession>();
+
+    for (const event of userEvents) {
+      const sessionKey = event.session_id || '';
+      const issue = issues.get(event.issue_id) || {
+        issue_id: event.issue_id,
+        title: event.issue_title,
+        type: event.type,
+        event_count: 0,
+        session_count: 0,
+        first_seen: event.timestamp,
+        last_seen: event.timestamp,
+        sessions: new Set<string>(),
+      };
+      issue.event_count++;
+      if (event.session_id) issue.sessions.add(event.session_id);
+      if (event.timestamp < issue.first_seen) issue.first_seen = event.timestamp;
+      if (event.timestamp > issue.last_seen) issue.last_seen = event.timestamp;
+      issues.set(event.issue_id, issue);
+
+      const session = sessions.get(sessionKey) || {
+        session_id: event.session_id,
+        started_at: event.timestamp,
+        ended_at: event.timestamp,
+        app_versions: [],
+        devices: [],
+        event_count: 0,
+        fatal: false,
+        issue_ids: [],
+        events: [],
+      };
+      session.events.unshift(event);
+      session.event_count++;
+      session.fatal = session.fatal || event.type !== 'non_fatal';
+      if (event.timestamp < session.started_at) session.started_at = event.timestamp;
+      if (event.timestamp > session.ended_at) session.ended_at = event.timestamp;
+      if (event.app_version && !session.app_versions.includes(event.app_version)) session.app_versions.push(event.app_version);
+      if (event.device && !session.devices.includes(event.device)) session.devices.push(event.device);
+      if (!session.issue_ids.includes(event.issue_id)) session.issue_ids.push(event.issue_id);
+      sessions.set(sessionKey, session);
+    }
+
+    const sessionList = Array.from(sessions.values()).sort((a, b) => b.ended_at.localeCompare(a.ended_at));
+    const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+    return {
+      user_id: params.user_id || null,
+      installation_uuid: params.installation_uuid || null,
+      time_range: params.time_range,
+      total_events: userEvents.length,
+      truncated: options.truncated,
+      counts: {
+        fatal: userEvents.filter(event => event.type === 'fatal').length,
+        non_fatal: userEvents.filter(event => event.type === 'non_fatal').length,
+        anr: userEvents.filter(event => event.type === 'anr').length,
+      },
+      first_seen: userEvents.length > 0 ? userEvents[userEvents.length - 1].timestamp : null,
+      last_seen: userEvents.length > 0 ? userEvents[0].timestamp : null,
+      app_versions: sortVersions(distinct(userEvents.map(event => event.app_version))).reverse(),
+      devices: distinct(userEvents.map(event => event.device)),
+      installations: distinct(events.map(event => event.installation_uuid)),
+      issues: Array.from(issues.values())
+        .map(({ sessions: issueSessions, ...issue }) => ({ ...issue, session_count: issueSessions.size }))
+        .sort((a, b) => b.event_count - a.event_count || b.last_seen.localeCompare(a.last_seen)),
+      multi_error_sessions: sessionList.filter(session => session.session_id && session.event_count > 1).length,
+      ...(params.view === 'events' ? { events: userEvents } : { sessions: sessionList }),
+    };
+  }
+
+  private buildUserCrashEvent(event: CrashEvent, consoleProjectId: string): UserCrashEvent {
+    return {
+      crash_id: event.event_id,
+      issue_id: event.issue_id,
+      issue_title: event.issue_title,
+      issue_subtitle: event.issue_subtitle,
+      type: this.issueTypeOf(event),
+      timestamp: event.event_timestamp,
+      session_id: event.session_id || null,
+      app_package: event.bundle_identifier,
+      app_version: event.application.display_version,
+      device: [event.device.manufacturer, event.device.model].filter(Boolean).join(' '),
+      os_version: [event.operating_system.name, event.operating_system.display_version].filter(Boolean).join(' '),
+      process_state: event.process_state,
+      console_url: firebaseConsoleIssueUrl(consoleProjectId, event.platform, event.bundle_identifier, event.issue_id, event.event_id),
+    };
   }
 
-  processCrashDetails(row: BigQueryCrashRow): CrashDetails {
-    const stackTrace = this.parseStackTrace(row.stack_trace);
-    const deviceInfo = this.extractDeviceInfo(row);
-    const context = this.extractCrashContext(row);
+  processCrashDetails(event: CrashEvent, options: CrashDetailsOptions = {}): CrashDetails {
+    const error = getPrimaryError(event);
+    const deobfuscation = [...(options.deobfuscation || [])];
+    const stackTrace = this.buildStackTrace(event);
+
+    if (options.sourceMaps !== undefined && this.allFrames(stackTrace).some(isJavaScriptBundleFrame)) {
+      deobfuscation.push(this.applySourceMaps(stackTrace, options.sourceMaps, event));
+    }
+    const deviceInfo = this.extractDeviceInfo(event);
+    const context = this.extractCrashContext(event);
     
     const affectedUsers = 1;
-    const impact = this.impactAnalyzer.calculateImpactLevel(affectedUsers, 1, row.is_fatal);
+    const impact = this.impactAnalyzer.calculateImpactLevel(affectedUsers, 1, event.is_fatal);
 
-    const crashSummary: CrashSummary = {
-      id: row.crash_id,
-      timestamp: row.timestamp,
-      impact,
-      affected_users: 1,
-      occurrences: 1,
-      app_version: row.app_version,
-      platform: row.platform,
-      crash_message: row.exception_message || 'Unknown error',
-      is_fatal: row.is_fatal,
-      title: this.generateCrashTitle(row.exception_type, row.exception_message)
-    };
+    const crashSummary = this.buildCrashSummary(event, impact, affectedUsers, 1);
 
     const suggestedFixContext = this.impactAnalyzer.generateFixSuggestionContext(
-      row.exception_type,
+      error.type,
       stackTrace.frames,
-      row.exception_message,
-      row.app_version
+      error.message,
+      event.application.display_version
     );
 
     return {
@@ -93,10 +410,156 @@ export class CrashProcessor {
       stack_trace: stackTrace,
       context,
       device_info: deviceInfo,
-      suggested_fix_context: suggestedFixContext
+      suggested_fix_context: suggestedFixContext,
+      ...(deobfuscation.length > 0 ? { deobfuscation } : {}),
+      ...(event.error_type === 'ANR' ? { anr_analysis: this.anrAnalyzer.analyze(event) } : {})
+    };
+  }
+
+  private applySourceMaps(stackTrace: StackTrace, sourceMaps: BundleSourceMaps | null, event: CrashEvent): DeobfuscationStatus {
+    let framesResolved = 0;
+
+    if (sourceMaps) {
+      const resolveFrames = (frames: StackFrame[]) => frames.map(frame => {
+        const resolved = sourceMaps.resolveFrame(frame);
+        if (!resolved) return frame;
+        framesResolved++;
+        return { ...frame, ...resolved };
+      });
+
+      stackTrace.frames = resolveFrames(stackTrace.frames);
+      stackTrace.exceptions?.forEach(exception => { exception.frames = resolveFrames(exception.frames); });
+      stackTrace.threads?.forEach(thread => { thread.frames = resolveFrames(thread.frames); });
+    }
+
+    return SourceMapResolver.describe(event, sourceMaps, framesResolved);
+  }
+
+  private buildCrashSummary(
+    event: CrashEvent,
+    impact: CrashSummary['impact'],
+    affectedUsers: number,
+    occurrences: number
+  ): CrashSummary {
+    const error = getPrimaryError(event);
+
+    return {
+      id: event.event_id,
+      timestamp: event.event_timestamp,
+      impact,
+      affected_users: affectedUsers,
+      occurrences,
+      app_version: event.application.display_version || 'Unknown',
+      platform: event.platform || 'Unknown',
+      crash_message: error.message || 'Unknown error',
+      is_fatal: event.is_fatal,
+      title: this.generateCrashTitle(error.type, error.message)
     };
   }
 
+  /**
+   * Builds the stack trace from the export's structured frames. Every
+   * exception, non-fatal error and thread is kept; `frames` holds the blamed
+   * exception (or the crashed thread for ANRs). Text parsing is only used for
+   * stacks embedded in a message string, such as React Native JS errors.
+   */
+  private buildStackTrace(event: CrashEvent): StackTrace {
+    const error = getPrimaryError(event);
+
+    const exceptions: ExceptionTrace[] = [
+      ...event.exceptions.map(exception => ({
+        exception_type: exception.type || exception.title || 'Unknown',
+        message: exception.exception_message || exception.subtitle,
+        nested: exception.nested,
+        blamed: exception.blamed,
+        frames: exception.frames.map(frame => this.convertFrame(frame))
+      })),
+      ...event.errors.map(crashError => ({
+        exception_type: crashError.title || 'Unknown',
+        message: crashError.subtitle,
+        nested: false,
+        blamed: crashError.blamed,
+        frames: crashError.frames.map(frame => this.convertFrame(frame))
+      }))
+    ];
+
+    const threads: ThreadTrace[] = event.threads.map(thread => ({
+      name: thread.thread_name || thread.name || thread.queue_name || 'Unknown',
+      crashed: thread.crashed,
+      blamed: thread.blamed,
+      frames: thread.frames.map(frame => this.convertFrame(frame))
+    }));
+
+    const primaryException = exceptions.find(exception => exception.blamed) || exceptions[0];
+    const primaryThread = threads.find(thread => thread.crashed) || threads.find(thread => thread.blamed);
+    let frames = primaryException?.frames.length ? primaryException.frames : primaryThread?.frames || [];
+    let message = error.message || 'Unknown error';
+
+    const [firstLine, ...rest] = message.split('\n');
+    if (rest.length > 0) {
+      const embedded = this.parseStackTrace(`${error.type}: ${message}`);
+      if (embedded.frames.length > 0) {
+        frames = embedded.frames;
+        message = firstLine;
+      }
+    }
+
+    return {
+      exception_type: error.type || 'Unknown',
+      message,
+      frames,
+      ...(event.blame_frame ? { blamed_frame: this.convertFrame(event.blame_frame) } : {}),
+      ...(exceptions.length > 1 ? { exceptions } : {}),
+      ...(threads.length > 1 ? { threads } : {})
+    };
+  }
+
+  private allFrames(stackTrace: StackTrace): StackFrame[] {
+    return [
+      ...stackTrace.frames,
+      ...(stackTrace.exceptions || []).flatMap(exception => exception.frames),
+      ...(stackTrace.threads || []).flatMap(thread => thread.frames)
+    ];
+  }
+
+  private convertFrame(frame: CrashFrame): StackFrame {
+    const { className, method } = this.parseSymbol(frame.symbol, frame.file);
+    // JavaScript frames exported from React Native carry the bundle column in `offset`.
+    const column = isJavaScriptBundleFile(frame.file) && frame.offset > 0 ? frame.offset : undefined;
+
+    return {
+      method,
+      class: className,
+      file: frame.file || 'Unknown',
+      line: frame.line,
+      column,
+      library: frame.library || this.detectLibrary(className),
+      symbol: frame.symbol,
+      offset: frame.offset || undefined,
+      address: frame.address || undefined,
+      owner: frame.owner || undefined,
+      blamed: frame.blamed
+    };
+  }
+
+  private parseSymbol(symbol: string, file: string): { className: string; method: string } {
+    const objcMatch = symbol.match(/^[-+]\[(\S+)\s+([^\]]+)\]$/);
+    if (objcMatch) {
+      return { className: objcMatch[1], method: objcMatch[2] };
+    }
+
+    const base = symbol.split('(')[0].trim();
+    const separator = base.lastIndexOf('::') >= 0 ? '::' : '.';
+    const index = base.lastIndexOf(separator);
+
+    if (index > 0) {
+      return { className: base.slice(0, index), method: base.slice(index + separator.length) };
+    }
+
+    const fileName = file ? file.split('/').pop()!.replace(/\.[^.]+$/, '') : '';
+    return { className: fileName || 'Unknown', method: base || 'unknown' };
+  }
+
   private parseStackTrace(stackTraceString: string): StackTrace {
     if (!stackTraceString) {
       return {
@@ -137,6 +600,11 @@ export class CrashProcessor {
   }
 
   private parseStackFrame(line: string): StackFrame | null {
+    const javaScriptFrame = this.parseJavaScriptFrame(line);
+    if (javaScriptFrame) {
+      return javaScriptFrame;
+    }
+
     const patterns = [
       /at\s+(.+)\.(\w+)\(([^:]+):(\d+)(?::(\d+))?\)/,
       /at\s+(.+)\.(\w+)\((.+)\)/,
@@ -154,6 +622,36 @@ export class CrashProcessor {
     return null;
   }
 
+  private parseJavaScriptFrame(line: string): StackFrame | null {
+    const patterns = [
+      // Hermes and V8: "at fn (address at index.android.bundle:1:284712)", "at fn (https://host/app.js:10:5)"
+      /^at\s+(.+?)\s+\((?:address at\s+)?(.+):(\d+):(\d+)\)$/,
+      // V8 anonymous: "at https://host/app.js:10:5"
+      /^at\s+()(?:address at\s+)?(.+):(\d+):(\d+)$/,
+      // JavaScriptCore: "fn@index.android.bundle:1:284712"
+      /^([^@\s]*)@(.+):(\d+):(\d+)$/
+    ];
+
+    for (const pattern of patterns) {
+      const match = line.match(pattern);
+      if (match) {
+        const method = match[1] || 'anonymous';
+        const file = match[2];
+        const lastDot = method.lastIndexOf('.');
+
+        return {
+          method: lastDot > 0 ? method.slice(lastDot + 1) : method,
+          class: lastDot > 0 ? method.slice(0, lastDot) : file.split(/[?#]/)[0].split('/').pop() || file,
+          file,
+          line: parseInt(match[3]),
+          column: parseInt(match[4])
+        };
+      }
+    }
+
+    return null;
+  }
+
   private createStackFrame(match: RegExpMatchArray): StackFrame {
     if (match.length >= 4) {
       const className = match[1]?.split('.').pop() || 'Unknown';
@@ -201,46 +699,28 @@ export class CrashProcessor {
     return undefined;
   }
 
-  private extractDeviceInfo(row: BigQueryCrashRow): DeviceInfo {
+  private extractDeviceInfo(event: CrashEvent): DeviceInfo {
     return {
-      model: row.device_model || 'Unknown',
-      os_version: row.os_version || 'Unknown',
-      memory_available: this.formatMemory(row.memory_available),
-      storage_available: this.formatMemory(row.storage_available),
-      orientation: 'Unknown',
+      model: event.device.model || 'Unknown',
+      os_version: event.operating_system.display_version || 'Unknown',
+      memory_available: this.formatMemory(event.memory.free),
+      storage_available: this.formatMemory(event.storage.free),
+      orientation: event.device_orientation || 'Unknown',
       battery_level: undefined
     };
   }
 
-  private extractCrashContext(row: BigQueryCrashRow): CrashContext {
-    let breadcrumbs: string[] = [];
-    let customKeys: Record<string, any> = {};
-
-    try {
-      if (row.breadcrumbs) {
-        breadcrumbs = JSON.parse(row.breadcrumbs);
-      }
-    } catch (e) {
-      breadcrumbs = row.breadcrumbs ? [row.breadcrumbs] : [];
-    }
-
-    try {
-      if (row.custom_keys) {
-        customKeys = JSON.parse(row.custom_keys);
-      }
-    } catch (e) {
-      customKeys = {};
-    }
-
+  private extractCrashContext(event: CrashEvent): CrashContext {
     return {
-      app_version: row.app_version || 'Unknown',
-      os_version: row.os_version || 'Unknown',
-      device: row.device_model || 'Unknown',
-      memory_available: this.formatMemory(row.memory_available),
-      breadcrumbs,
-      custom_keys: customKeys,
-      session_id: row.session_id || 'Unknown',
-      user_id: row.user_id
+      app_version: event.application.display_version || 'Unknown',
+      os_version: event.operating_system.display_version || 'Unknown',
+      device: event.device.model || 'Unknown',
+      memory_available: this.formatMemory(event.memory.free),
+      logs: event.logs,
+      breadcrumbs: event.breadcrumbs,
+      custom_keys: event.custom_keys,
+      session_id: event.session_id || 'Unknown',
+      user_id: event.user.id || undefined
     };
   }
 
@@ -266,47 +746,128 @@ export class CrashProcessor {
   }
 
   processTrendAnalysis(
-    crashStats: any[], 
-    crashFreeCounts: any[], 
+    crashStats: CrashStatisticsRow[], 
+    crashFreeCounts: CrashFreeCountRow[], 
     topCrashes: CrashSummary[],
-    timeRange: string
+    timeRange: TimeRange,
+    denominatorSource: CrashFreeDenominatorSource = 'none'
   ): TrendAnalysis {
-    const trends: CrashTrend[] = crashFreeCounts.map(row => ({
-      date: row.date,
-      crash_count: row.crashed_users || 0,
-      affected_users: row.crashed_users || 0,
-      crash_free_rate: row.crash_free_rate || 100
-    }));
+    const rowsByDate = new Map<string, CrashFreeCountRow[]>();
+    crashFreeCounts.forEach(row => {
+      rowsByDate.set(row.date, [...(rowsByDate.get(row.date) || []), row]);
+    });
 
-    const overallCrashFreeRate = crashFreeCounts.length > 0
-      ? crashFreeCounts.reduce((sum, row) => sum + (row.crash_free_rate || 100), 0) / crashFreeCounts.length
-      : 100;
+    const trends: CrashTrend[] = Array.from(rowsByDate.entries()).map(([date, rows]) => {
+      const totals = this.sumCrashFreeCounts(rows);
+      return {
+        date,
+        crash_count: totals.crashedUsers,
+        affected_users: totals.crashedUsers,
+        crash_free_users_rate: totals.usersRate,
+        crash_free_sessions_rate: totals.sessionsRate
+      };
+    });
 
     const deviceStats = this.aggregateDeviceStats(crashStats);
 
     return {
-      time_range: timeRange as any,
+      time_range: timeRange,
       trends,
       top_crashes: topCrashes.slice(0, 10),
       most_affected_devices: deviceStats,
-      crash_free_percentage: Math.round(overallCrashFreeRate * 100) / 100
+      crash_free: this.buildCrashFreeSummary(crashFreeCounts, denominatorSource)
     };
   }
 
-  private aggregateDeviceStats(crashStats: any[]): Array<{ device: string; crash_count: number; percentage: number }> {
-    const deviceMap = new Map<string, number>();
+  buildCrashFreeSummary(rows: CrashFreeCountRow[], source: CrashFreeDenominatorSource): CrashFreeSummary {
+    const totals = this.sumCrashFreeCounts(rows);
+    const available = totals.usersRate !== null || totals.sessionsRate !== null;
+
+    let message: string;
+    if (source === 'none') {
+      message = 'No crash-free denominator configured; set CRASH_FREE_DENOMINATOR to "analytics" or "table" to compute crash-free users and sessions';
+    } else if (!available) {
+      message = `The ${source} denominator has no active users for this period`;
+    } else {
+      message = `Crash-free rates use ${source} daily active users and sessions, weighted across days, apps and versions`;
+      if (totals.unmatchedCrashedUsers > 0) {
+        message += `; ${totals.unmatchedCrashedUsers} crashed users are excluded because their app version has no denominator row`;
+      }
+    }
+
+    return {
+      status: available ? 'available' : 'unavailable',
+      source,
+      crash_free_users_rate: totals.usersRate,
+      crash_free_sessions_rate: totals.sessionsRate,
+      crashed_users: totals.crashedUsers,
+      total_users: totals.totalUsers,
+      crashed_sessions: totals.crashedSessions,
+      total_sessions: totals.totalSessions,
+      message
+    };
+  }
+
+  /**
+   * Sums daily rows. Rates only count crashes from rows that have a
+   * denominator, so an app version missing from the exposure source does not
+   * push the rate below zero.
+   */
+  private sumCrashFreeCounts(rows: CrashFreeCountRow[]) {
+    let crashedUsers = 0;
+    let crashedSessions = 0;
+    let matchedCrashedUsers = 0;
+    let matchedCrashedSessions = 0;
+    let totalUsers: number | null = null;
+    let totalSessions: number | null = null;
+
+    for (const row of rows) {
+      crashedUsers += row.crashed_users;
+      crashedSessions += row.crashed_sessions;
+      if (row.total_users !== null) {
+        totalUsers = (totalUsers || 0) + row.total_users;
+        matchedCrashedUsers += row.crashed_users;
+      }
+      if (row.total_sessions !== null) {
+        totalSessions = (totalSessions || 0) + row.total_sessions;
+        matchedCrashedSessions += row.crashed_sessions;
+      }
+    }
+
+    const rate = (total: number | null, crashed: number): number | null => total
+      ? Math.round(Math.max(0, this.impactAnalyzer.calculateCrashFreeRate(total, crashed)) * 100) / 100
+      : null;
+
+    return {
+      crashedUsers,
+      crashedSessions,
+      totalUsers,
+      totalSessions,
+      unmatchedCrashedUsers: crashedUsers - matchedCrashedUsers,
+      usersRate: rate(totalUsers, matchedCrashedUsers),
+      sessionsRate: rate(totalSessions, matchedCrashedSessions)
+    };
+  }
+
+  private aggregateDeviceStats(crashStats: CrashStatisticsRow[]): Array<{ device: string; crash_count: number; percentage: number }> {
+    return this.processBreakdown(crashStats).map(({ name, ...stats }) => ({ device: name, ...stats }));
+  }
+
+  /** Sums daily statistics rows per group, the ten groups with the most crashes first. */
+  processBreakdown(crashStats: CrashStatisticsRow[]): BreakdownEntry[] {
+    const groupMap = new Map<string, number>();
     let totalCrashes = 0;
 
     crashStats.forEach(stat => {
-      const device = stat.group_key || 'Unknown';
+      const name = stat.group_key || 'Unknown';
       const count = stat.crash_count || 0;
-      deviceMap.set(device, (deviceMap.get(device) || 0) + count);
+      groupMap.set(name, (groupMap.get(name) || 0) + count);
       totalCrashes += count;
     });
 
-    return Array.from(deviceMap.entries())
-      .map(([device, crash_count]) => ({
-        device,
+    return Array.from(groupMap.entries())
+      .map(([name, crash_count]) => ({
+        name,
         crash_count,
         percentage: totalCrashes > 0 ? Math.round((crash_count / totalCrashes) * 10000) / 100 : 0
       }))
@@ -0,0 +1,82 @@
+import { generateCrashReport } from './crash-report';
+import { CrashProcessor } from './crash-processor';
+import { FixtureDataSource } from './fixture-data-source';
+import { FIXTURE_PATH, freezeFixtureTime, issueAggregate } from './test-helpers';
+import { IssueAggregate, ListTopIssuesParams } from './types';
+
+const ANR_ISSUE = '7c9e2b1a4d5f6e8a9b0c1d2e3f4a5b6c';
+const CHECKOUT_ISSUE = 'addd0a8117be12c0631a2140b751167f';
+
+describe('generateCrashReport', () => {
+  const dataSource = new FixtureDataSource(FIXTURE_PATH);
+  const options = { appPackage: 'com.example.myapp', timeRange: '7d' as const, topIssues: 5, crashFreeDenominator: 'none' as const };
+
+  beforeAll(() => {
+    freezeFixtureTime();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('summarizes the period', async () => {
+    const report = await generateCrashReport(dataSource, new CrashProcessor(), options);
+
+    expect(report).toMatchObject({
+      generated_at: '2026-10-18T12:00:00.000Z',
+      period_start: '2026-10-11T12:00:00.000Z',
+      totals: { issues: 2, events: 3, fatal_events: 2, non_fatal_events: 0, anr_events: 1 },
+      crash_free: { status: 'unavailable', crashed_users: 3 },
+    });
+    expect(report.trend.map(day => day.date)).toEqual(['2026-10-15', '2026-10-16', '2026-10-17']);
+    expect(report.top_issues.map(issue => issue.issue_id)).toEqual([CHECKOUT_ISSUE, ANR_ISSUE]);
+    expect(report.devices.map(entry => entry.name)).toEqual(['Pixel 7', 'SM-S911B', 'Redmi Note 12']);
+    expect(report.anr).toEqual({
+      issue_count: 1,
+      event_count: 1,
+      share_of_events: 33.33,
+      top_issues: [expect.objectContaining({ issue_id: ANR_ISSUE, top_cause: 'shared_preferences' })],
+    });
+  });
+
+  it('limits the top issues', async () => {
+    const report = await generateCrashReport(dataSource, new CrashProcessor(), { ...options, topIssues: 1 });
+
+    expect(report.top_issues.map(issue => issue.issue_id)).toEqual([CHECKOUT_ISSUE]);
+    expect(report.new_issues).toHaveLength(1);
+  });
+
+  it('compares the period with the next longer one for new and regressed issues', async () => {
+    const before = '2026-09-01T00:00:00.000Z';
+    const aggregates: Record<string, IssueAggregate[]> = {
+      '7d': [
+        issueAggregate({ issue_id: 'regressed', event_count: 50, first_seen: before }),
+        issueAggregate({ issue_id: 'steady', event_count: 45, first_seen: before }),
+        issueAggregate({ issue_id: 'new', event_count: 5, first_seen: '2026-10-17T00:00:00.000Z' }),
+      ],
+      '30d': [
+        issueAggregate({ issue_id: 'regressed', event_count: 60, first_seen: before }),
+        issueAggregate({ issue_id: 'steady', event_count: 535, first_seen: before }),
+        issueAggregate({ issue_id: 'new', event_count: 5, first_seen: '2026-10-17T00:00:00.000Z' }),
+      ],
+    };
+    jest.spyOn(dataSource, 'fetchIssueAggregates').mockImplementation(async (params: ListTopIssuesParams) => aggregates[params.time_range]);
+
+    const report = await generateCrashReport(dataSource, new CrashProcessor(), options);
+
+    expect(report.new_issues?.map(issue => issue.issue_id)).toEqual(['new']);
+    expect(report.regressed_issues).toEqual([
+      expect.objectContaining({ issue_id: 'regressed', previous_share: 2, current_share: 50 }),
+    ]);
+  });
+
+  it('has no new or regressed issues for the all-time period', async () => {
+    const report = await generateCrashReport(dataSource, new CrashProcessor(), { ...options, timeRange: 'all' });
+
+    expect(report).toMatchObject({ period_start: null, new_issues: null, regressed_issues: null });
+  });
+});
@@ -0,0 +1,178 @@
+import { CrashDataSource, getTimeRangeStart } from './crash-data-source.js';
+import { CrashProcessor } from './crash-processor.js';
+import { ImpactAnalyzer } from './impact-analyzer.js';
+import { AnrAnalyzer } from './anr-analyzer.js';
+import {
+  AnrReportIssue,
+  CrashFreeDenominatorSource,
+  CrashReport,
+  IssueAggregate,
+  IssueSummary,
+  RegressedIssue,
+  TimeRange,
+} from './types.js';
+
+// Issues aggregated for the report and for the period it is compared with.
+const REPORT_ISSUE_LIMIT = 1000;
+const ANR_REPORT_ISSUES = 5;
+const ANR_SAMPLE_EVENTS = 5;
+
+// Each period is compared with the next longer one, which contains it.
+const BASELINE_RANGE: Record<TimeRange, TimeRange | null> = {
+  '1h': '24h',
+  '24h': '7d',
+  '7d': '30d',
+  '30d': 'all',
+  'all': null,
+};
+
+const IMPACT_WEIGHT = { high: 3, medium: 2, low: 1 };
+
+export interface CrashReportOptions {
+  appPackage: string;
+  timeRange: TimeRange;
+  topIssues: number;
+  crashFreeDenominator: CrashFreeDenominatorSource;
+}
+
+function share(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
+}
+
+/**
+ * Collects a stability report for one app and period: crash-free trend,
+ * top issues by impact, new and regressed issues, device and OS breakdown
+ * and an ANR summary. Render it with `renderCrashReport`.
+ *
+ * New and regressed issues come from comparing the period with the next
+ * longer one: an issue is new when the longer period has no earlier event
+ * of it, and regressed when its share of the app's events grew
+ * significantly over its share before the period.
+ */
+export async function generateCrashReport(
+  dataSource: CrashDataSource,
+  crashProcessor: CrashProcessor,
+  options: CrashReportOptions
+): Promise<CrashReport> {
+  const { appPackage, timeRange } = options;
+  const baselineRange = BASELINE_RANGE[timeRange];
+  const issueQuery = (range: TimeRange) => dataSource.fetchIssueAggregates({
+    app_package: appPackage,
+    time_range: range,
+    issue_type: 'all',
+    sort_by: 'users',
+    limit: REPORT_ISSUE_LIMIT,
+  });
+
+  const [aggregates, baseline, deviceStats, osStats, crashFreeCounts] = await Promise.all([
+    issueQuery(timeRange),
+    baselineRange ? issueQuery(baselineRange) : Promise.resolve(null),
+    dataSource.getCrashStatistics({ time_range: timeRange, group_by: 'device' }, appPackage),
+    dataSource.getCrashStatistics({ time_range: timeRange, group_by: 'os' }, appPackage),
+    dataSource.getCrashFreeCounts(timeRange, appPackage),
+  ]);
+
+  const issues = crashProcessor.processIssueAggregates(aggregates);
+  const trendAnalysis = crashProcessor.processTrendAnalysis(
+    deviceStats,
+    crashFreeCounts,
+    [],
+    timeRange,
+    options.crashFreeDenominator
+  );
+  const eventsOfType = (type: IssueSummary['type']) => issues
+    .filter(issue => issue.type === type)
+    .reduce((sum, issue) => sum + issue.event_count, 0);
+  const totalEvents = issues.reduce((sum, issue) => sum + issue.event_count, 0);
+  const periodStart = getTimeRangeStart(timeRange);
+  const changes = baseline && periodStart ? compareWithBaseline(issues, baseline, periodStart) : null;
+
+  const anrIssues = issues.filter(issue => issue.type === 'anr');
+  return {
+    app_package: appPackage,
+    time_range: timeRange,
+    generated_at: new Date().toISOString(),
+    period_start: periodStart?.toISOString() || null,
+    totals: {
+      issues: issues.length,
+      events: totalEvents,
+      fatal_events: eventsOfType('fatal'),
+      non_fatal_events: eventsOfType('non_fatal'),
+      anr_events: eventsOfType('anr'),
+    },
+    crash_free: trendAnalysis.crash_free,
+    trend: [...trendAnalysis.trends].sort((a, b) => a.date.localeCompare(b.date)),
+    top_issues: [...issues]
+      .sort((a, b) => IMPACT_WEIGHT[b.impact] - IMPACT_WEIGHT[a.impact] || b.affected_users - a.affected_users || b.event_count - a.event_count)
+      .slice(0, options.topIssues),
+    new_issues: changes ? changes.newIssues.slice(0, options.topIssues) : null,
+    regressed_issues: changes ? changes.regressedIssues.slice(0, options.topIssues) : null,
+    devices: crashProcessor.processBreakdown(deviceStats),
+    operating_systems: crashProcessor.processBreakdown(osStats),
+    anr: {
+      issue_count: anrIssues.length,
+      event_count: eventsOfType('anr'),
+      share_of_events: share(eventsOfType('anr'), totalEvents),
+      top_issues: await summarizeAnrIssues(dataSource, anrIssues),
+    },
+  };
+}
+
+/**
+ * Only the baseline period is searched, so an issue first seen before it
+ * but silent throughout it counts as new.
+ */
+function compareWithBaseline(
+  issues: IssueSummary[],
+  baseline: IssueAggregate[],
+  periodStart: Date
+): { newIssues: IssueSummary[]; regressedIssues: RegressedIssue[] } {
+  const impactAnalyzer = new ImpactAnalyzer();
+  const baselineById = new Map(baseline.map(aggregate => [aggregate.issue_id, aggregate]));
+  const currentTotal = issues.reduce((sum, issue) => sum + issue.event_count, 0);
+  const previousTotal = Math.max(0, baseline.reduce((sum, aggregate) => sum + aggregate.event_count, 0) - currentTotal);
+
+  const newIssues: IssueSummary[] = [];
+  const regressedIssues: RegressedIssue[] = [];
+  for (const issue of issues) {
+    const longer = baselineById.get(issue.issue_id);
+    const previous = longer ? Math.max(0, longer.event_count - issue.event_count) : 0;
+
+    if (!longer || Date.parse(longer.first_seen) >= periodStart.getTime()) {
+      newIssues.push(issue);
+    } else if (
+      previous > 0
+      && issue.event_count / currentTotal > previous / previousTotal
+      && impactAnalyzer.isSignificantRateChange(previous, previousTotal, issue.event_count, currentTotal)
+    ) {
+      regressedIssues.push({
+        ...issue,
+        previous_share: share(previous, previousTotal),
+        current_share: share(issue.event_count, currentTotal),
+      });
+    }
+  }
+
+  return {
+    newIssues: newIssues.sort((a, b) => b.affected_users - a.affected_users),
+    regressedIssues: regressedIssues.sort((a, b) => b.current_share - b.previous_share - (a.current_share - a.previous_share)),
+  };
+}
+
+async function summarizeAnrIssues(dataSource: CrashDataSource, anrIssues: IssueSummary[]): Promise<AnrReportIssue[]> {
+  const anrAnalyzer = new AnrAnalyzer();
+  const top = [...anrIssues].sort((a, b) => b.event_count - a.event_count).slice(0, ANR_REPORT_ISSUES);
+
+  return Promise.all(top.map(async issue => {
+    const events = await dataSource.getCrashDetailsByIssueId({ issue_id: issue.issue_id, limit: ANR_SAMPLE_EVENTS });
+    const [cause] = anrAnalyzer.summarizeIssue(issue.issue_id, events).causes;
+    return {
+      issue_id: issue.issue_id,
+      title: issue.title,
+      event_count: issue.event_count,
+      affected_users: issue.affected_users,
+      top_cause: cause?.cause || null,
+      top_cause_description: cause?.description || null,
+    };
+  }));
+}
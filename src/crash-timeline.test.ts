@@ -0,0 +1,91 @@
+import { CrashTimelineBuilder, CrashTimelineOptions } from './crash-timeline';
+import { crashEvent } from './test-helpers';
+
+const options: CrashTimelineOptions = { windowMinutes: 30, includeNonFatals: true, maxEntries: 200 };
+
+function screenView(timestamp: string, screen: string) {
+  return { timestamp, name: 'screen_view', params: [{ key: 'firebase_screen', value: screen }] };
+}
+
+describe('CrashTimelineBuilder.build', () => {
+  const builder = new CrashTimelineBuilder();
+  const crash = crashEvent({
+    event_id: 'crash',
+    session_id: 'session-1',
+    event_timestamp: '2026-10-17T10:00:00.000Z',
+    exceptions: [{ type: 'java.lang.NullPointerException', exception_message: 'cart is null', blamed: true, frames: [] }],
+    logs: [
+      { timestamp: '2026-10-17T09:59:58.000Z', message: 'Cart: loading' },
+      { timestamp: '2026-10-17T09:00:00.000Z', message: 'outside the window' },
+    ],
+    breadcrumbs: [
+      screenView('2026-10-17T09:58:00.000Z', 'ProductDetail'),
+      { timestamp: '2026-10-17T09:58:30.000Z', name: 'add_to_cart', params: [{ key: 'item', value: 'sku-1' }] },
+      { timestamp: '2026-10-17T09:58:31.000Z', name: 'user_engagement', params: [] },
+      screenView('2026-10-17T09:59:00.000Z', 'Cart'),
+    ],
+  });
+
+  it('merges logs and breadcrumbs in order, ending at the crash', () => {
+    const timeline = builder.build(crash, [], options);
+
+    expect(timeline.entries.map(entry => [entry.kind, entry.message, entry.offset_ms])).toEqual([
+      ['screen', 'ProductDetail', -120_000],
+      ['breadcrumb', 'add_to_cart', -90_000],
+      ['breadcrumb', 'user_engagement', -89_000],
+      ['screen', 'Cart', -60_000],
+      ['log', 'Cart: loading', -2_000],
+      ['crash', 'java.lang.NullPointerException: cart is null', 0],
+    ]);
+    expect(timeline.counts).toEqual({ logs: 1, breadcrumbs: 2, screens: 2, non_fatals: 0 });
+  });
+
+  it('tracks screen transitions and the last user actions', () => {
+    const timeline = builder.build(crash, [], options);
+
+    expect(timeline.screen_transitions.map(transition => [transition.from, transition.to])).toEqual([
+      [null, 'ProductDetail'],
+      ['ProductDetail', 'Cart'],
+    ]);
+    expect(timeline.last_screen).toBe('Cart');
+    expect(timeline.last_user_actions).toEqual([expect.objectContaining({ message: 'add_to_cart', params: { item: 'sku-1' } })]);
+  });
+
+  it('adds what other events of the session saw, once', () => {
+    const nonFatal = crashEvent({
+      event_id: 'non-fatal',
+      session_id: 'session-1',
+      is_fatal: false,
+      error_type: 'NON_FATAL',
+      event_timestamp: '2026-10-17T09:59:30.000Z',
+      exceptions: [{ type: 'java.io.IOException', exception_message: 'timeout', blamed: true, frames: [] }],
+      logs: [{ timestamp: '2026-10-17T09:59:10.000Z', message: 'Cart: fetching prices' }],
+      breadcrumbs: [screenView('2026-10-17T09:59:00.000Z', 'Cart')],
+    });
+
+    const timeline = builder.build(crash, [crash, nonFatal], options);
+
+    expect(timeline.session_events).toBe(1);
+    expect(timeline.counts).toEqual({ logs: 2, breadcrumbs: 2, screens: 2, non_fatals: 1 });
+    expect(timeline.entries.find(entry => entry.kind === 'non_fatal')).toMatchObject({
+      message: 'java.io.IOException: timeout',
+      event_id: 'non-fatal',
+      offset_ms: -30_000,
+    });
+    expect(builder.build(crash, [nonFatal], { ...options, includeNonFatals: false }).counts.non_fatals).toBe(0);
+  });
+
+  it('keeps the entries closest to the crash', () => {
+    const timeline = builder.build(crash, [], { ...options, maxEntries: 2 });
+
+    expect(timeline.total_entries).toBe(6);
+    expect(timeline.truncated).toBe(true);
+    expect(timeline.entries.map(entry => entry.kind)).toEqual(['log', 'crash']);
+  });
+
+  it('narrows the window', () => {
+    const timeline = builder.build(crash, [], { ...options, windowMinutes: 1 });
+
+    expect(timeline.entries.map(entry => entry.message)).toEqual(['Cart', 'Cart: loading', 'java.lang.NullPointerException: cart is null']);
+  });
+});
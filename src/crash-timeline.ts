@@ -0,0 +1,153 @@
+import { getPrimaryError } from './crash-normalizer.js';
+import { CrashBreadcrumb, CrashEvent, CrashTimeline, ScreenTransition, TimelineEntry } from './types.js';
+
+const MINUTE_MS = 60 * 1000;
+const LAST_USER_ACTIONS = 5;
+const SCREEN_VIEW_EVENT = 'screen_view';
+const SCREEN_PARAMS = ['firebase_screen', 'firebase_screen_class'];
+
+// Analytics events the Firebase SDK logs on its own. They stay on the
+// timeline but say nothing about what the user did.
+const AUTOMATIC_EVENTS = new Set([
+  'app_clear_data',
+  'app_exception',
+  'app_remove',
+  'app_update',
+  'first_open',
+  'notification_dismiss',
+  'notification_foreground',
+  'notification_open',
+  'notification_receive',
+  'os_update',
+  'session_start',
+  'user_engagement',
+]);
+
+export interface CrashTimelineOptions {
+  windowMinutes: number;
+  includeNonFatals: boolean;
+  maxEntries: number;
+}
+
+/**
+ * Merges a crash's Crashlytics logs and analytics breadcrumbs with those of
+ * the other events of its session into one chronological timeline ending at
+ * the crash. Every event carries the log and breadcrumb buffer it saw, so
+ * entries repeated across the events of a session are listed once.
+ */
+export class CrashTimelineBuilder {
+  build(crash: CrashEvent, sessionEvents: CrashEvent[], options: CrashTimelineOptions): CrashTimeline {
+    const crashTime = Date.parse(crash.event_timestamp);
+    const since = crashTime - options.windowMinutes * MINUTE_MS;
+    const entries = new Map<string, TimelineEntry>();
+
+    const add = (entry: Omit<TimelineEntry, 'offset_ms'>) => {
+      const time = Date.parse(entry.timestamp);
+      if (Number.isNaN(time) || time < since || time > crashTime) return;
+
+      const key = [entry.kind, entry.timestamp, entry.message, JSON.stringify(entry.params || {})].join('\u0000');
+      if (!entries.has(key)) {
+        const { timestamp, ...rest } = entry;
+        entries.set(key, { timestamp, offset_ms: time - crashTime, ...rest });
+      }
+    };
+
+    const others = sessionEvents.filter(event => event.event_id !== crash.event_id);
+    for (const event of [crash, ...others]) {
+      for (const log of event.logs) {
+        add({ timestamp: log.timestamp, kind: 'log', message: log.message });
+      }
+      for (const breadcrumb of event.breadcrumbs) {
+        const screen = this.screenOf(breadcrumb);
+        add({
+          timestamp: breadcrumb.timestamp,
+          kind: screen ? 'screen' : 'breadcrumb',
+          message: screen || breadcrumb.name,
+          params: breadcrumb.params,
+        });
+      }
+      if (options.includeNonFatals && event !== crash && event.error_type === 'NON_FATAL') {
+        add({
+          timestamp: event.event_timestamp,
+          kind: 'non_fatal',
+          message: this.describeError(event),
+          event_id: event.event_id,
+          issue_id: event.issue_id,
+        });
+      }
+    }
+
+    const timeline = Array.from(entries.values())
+      .sort((a, b) => a.offset_ms - b.offset_ms);
+    timeline.push({
+      timestamp: crash.event_timestamp,
+      offset_ms: 0,
+      kind: 'crash',
+      message: this.describeError(crash),
+      event_id: crash.event_id,
+      issue_id: crash.issue_id,
+    });
+
+    const screenTransitions = this.screenTransitions(timeline);
+    const lastUserActions = timeline
+      .filter(entry => entry.kind === 'breadcrumb' && this.isUserAction(entry.message))
+      .slice(-LAST_USER_ACTIONS);
+
+    return {
+      crash_id: crash.event_id,
+      issue_id: crash.issue_id,
+      issue_title: crash.issue_title,
+      type: crash.error_type === 'FATAL' ? 'fatal' : crash.error_type === 'ANR' ? 'anr' : 'non_fatal',
+      crash_timestamp: crash.event_timestamp,
+      session_id: crash.session_id || null,
+      app_package: crash.bundle_identifier,
+      app_version: crash.application.display_version || 'Unknown',
+      device: [crash.device.manufacturer, crash.device.model].filter(Boolean).join(' ') || 'Unknown',
+      window_minutes: options.windowMinutes,
+      session_events: others.length,
+      counts: {
+        logs: timeline.filter(entry => entry.kind === 'log').length,
+        breadcrumbs: timeline.filter(entry => entry.kind === 'breadcrumb').length,
+        screens: timeline.filter(entry => entry.kind === 'screen').length,
+        non_fatals: timeline.filter(entry => entry.kind === 'non_fatal').length,
+      },
+      last_screen: screenTransitions.length > 0 ? screenTransitions[screenTransitions.length - 1].to : null,
+      screen_transitions: screenTransitions,
+      last_user_actions: lastUserActions,
+      total_entries: timeline.length,
+      truncated: timeline.length > options.maxEntries,
+      // Keep the entries closest to the crash
+      entries: timeline.slice(-options.maxEntries),
+    };
+  }
+
+  private screenOf(breadcrumb: CrashBreadcrumb): string | null {
+    if (breadcrumb.name !== SCREEN_VIEW_EVENT) return null;
+
+    for (const param of SCREEN_PARAMS) {
+      if (breadcrumb.params[param]) return breadcrumb.params[param];
+    }
+    return 'Unknown screen';
+  }
+
+  private screenTransitions(timeline: TimelineEntry[]): ScreenTransition[] {
+    const transitions: ScreenTransition[] = [];
+    let current: string | null = null;
+
+    for (const entry of timeline) {
+      if (entry.kind !== 'screen' || entry.message === current) continue;
+      transitions.push({ timestamp: entry.timestamp, offset_ms: entry.offset_ms, from: current, to: entry.message });
+      current = entry.message;
+    }
+    return transitions;
+  }
+
+  private isUserAction(eventName: string): boolean {
+    return !eventName.startsWith('_') && !AUTOMATIC_EVENTS.has(eventName);
+  }
+
+  private describeError(event: CrashEvent): string {
+    const error = getPrimaryError(event);
+    return error.message ? `${error.type}: ${error.message}` : error.type;
+  }
+}
@@ -0,0 +1,78 @@
+import { compareEventsDescending, decodeEventCursor, encodeEventCursor, isAfterCursor, paginateEvents } from './event-cursor';
+import { crashEvent } from './test-helpers';
+
+const SCOPE = 'fatal:com.example.app';
+
+function encodeToken(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+describe('event cursors', () => {
+  const event = crashEvent({ event_id: 'b', event_timestamp: '2026-10-17T09:12:44.120Z' });
+
+  it('round-trips the position of an event', () => {
+    expect(decodeEventCursor(encodeEventCursor(event, SCOPE), SCOPE)).toEqual({
+      timestamp: '2026-10-17T09:12:44.120Z',
+      event_id: 'b',
+    });
+  });
+
+  it('refuses cursors of another listing', () => {
+    expect(() => decodeEventCursor(encodeEventCursor(event, SCOPE), 'anr:com.example.app')).toThrow(
+      'Cursor belongs to a different query; start again without a cursor'
+    );
+  });
+
+  it.each([
+    ['not base64 JSON', 'not-a-cursor'],
+    ['a JSON scalar', encodeToken(5)],
+    ['null', encodeToken(null)],
+    ['an invalid timestamp', encodeToken({ s: 'x', t: 'yesterday', id: 'b' })],
+    ['a missing event ID', encodeToken({ s: 'x', t: '2026-10-17T09:12:44.120Z' })],
+  ])('rejects %s', (_name, token) => {
+    expect(() => decodeEventCursor(token, SCOPE)).toThrow(/^Invalid cursor$/);
+  });
+});
+
+describe('compareEventsDescending', () => {
+  it('orders newest first, breaking ties by descending event ID', () => {
+    const events = [
+      { event_timestamp: '2026-10-16T00:00:00.000Z', event_id: 'z' },
+      { event_timestamp: '2026-10-17T00:00:00.000Z', event_id: 'a' },
+      { event_timestamp: '2026-10-17T00:00:00.000Z', event_id: 'c' },
+    ];
+
+    expect(events.sort(compareEventsDescending).map(position => position.event_id)).toEqual(['c', 'a', 'z']);
+  });
+
+  it('puts events without a valid timestamp last', () => {
+    expect(compareEventsDescending({ event_timestamp: '', event_id: 'a' }, { event_timestamp: '2026-10-17T00:00:00.000Z', event_id: 'b' })).toBeGreaterThan(0);
+  });
+});
+
+describe('isAfterCursor', () => {
+  const cursor = { timestamp: '2026-10-17T00:00:00.000Z', event_id: 'm' };
+
+  it('keeps only events listed after the cursor', () => {
+    expect(isAfterCursor(crashEvent({ event_timestamp: '2026-10-16T23:59:59.999Z', event_id: 'z' }), cursor)).toBe(true);
+    expect(isAfterCursor(crashEvent({ event_timestamp: '2026-10-17T00:00:00.000Z', event_id: 'a' }), cursor)).toBe(true);
+    expect(isAfterCursor(crashEvent({ event_timestamp: '2026-10-17T00:00:00.000Z', event_id: 'm' }), cursor)).toBe(false);
+    expect(isAfterCursor(crashEvent({ event_timestamp: '2026-10-17T00:00:00.001Z', event_id: 'a' }), cursor)).toBe(false);
+  });
+});
+
+describe('paginateEvents', () => {
+  const events = ['c', 'b', 'a'].map(id => crashEvent({ event_id: id, event_timestamp: '2026-10-17T00:00:00.000Z' }));
+
+  it('returns a cursor after the last event of a full page', () => {
+    const { page, nextCursor } = paginateEvents(events, 2, SCOPE);
+
+    expect(page.map(pageEvent => pageEvent.event_id)).toEqual(['c', 'b']);
+    expect(decodeEventCursor(nextCursor!, SCOPE)).toEqual({ timestamp: '2026-10-17T00:00:00.000Z', event_id: 'b' });
+  });
+
+  it('returns no cursor once no more events exist', () => {
+    expect(paginateEvents(events, 3, SCOPE).nextCursor).toBeNull();
+    expect(paginateEvents([], 3, SCOPE)).toEqual({ page: [], nextCursor: null });
+  });
+});
@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import { CrashEvent } from './types.js';
+
+/**
+ * Position after the last event of a page. Events are listed newest first,
+ * ordered by `event_timestamp` (to the millisecond) and then `event_id`, so
+ * the next page holds the events strictly before this pair.
+ */
+export interface EventCursor {
+  timestamp: string;
+  event_id: string;
+}
+
+/** Token contents: scope hash, timestamp and event ID under short keys. */
+interface CursorPayload {
+  s: unknown;
+  t: string;
+  id: string;
+}
+
+function isCursorPayload(value: unknown): value is CursorPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const { t, id } = value as Record<string, unknown>;
+  return typeof t === 'string' && !Number.isNaN(Date.parse(t)) && typeof id === 'string';
+}
+
+// Ties a token to the listing it came from, so a cursor for one issue or
+// app cannot silently page through another.
+function scopeHash(scope: string): string {
+  return createHash('sha256').update(scope).digest('hex').slice(0, 12);
+}
+
+export function encodeEventCursor(event: CrashEvent, scope: string): string {
+  const payload = { s: scopeHash(scope), t: event.event_timestamp, id: event.event_id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeEventCursor(token: string, scope: string): EventCursor {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!isCursorPayload(payload)) {
+    throw new Error('Invalid cursor');
+  }
+  if (payload.s !== scopeHash(scope)) {
+    throw new Error('Cursor belongs to a different query; start again without a cursor');
+  }
+
+  return { timestamp: payload.t, event_id: payload.id };
+}
+
+type EventPosition = Pick<CrashEvent, 'event_timestamp' | 'event_id'>;
+
+function timeOf(event: EventPosition): number {
+  const time = Date.parse(event.event_timestamp);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/** Newest-first order shared by every backend, with `event_id` breaking timestamp ties. */
+export function compareEventsDescending(a: EventPosition, b: EventPosition): number {
+  const timeDelta = timeOf(b) - timeOf(a);
+  if (timeDelta) return timeDelta;
+  return a.event_id < b.event_id ? 1 : a.event_id > b.event_id ? -1 : 0;
+}
+
+export function isAfterCursor(event: CrashEvent, cursor: EventCursor): boolean {
+  return compareEventsDescending({ event_timestamp: cursor.timestamp, event_id: cursor.event_id }, event) < 0;
+}
+
+/**
+ * Splits `limit + 1` fetched events into a page and the cursor for the next
+ * one; the extra event only signals that more exist.
+ */
+export function paginateEvents(events: CrashEvent[], limit: number, scope: string): { page: CrashEvent[]; nextCursor: string | null } {
+  const page = events.slice(0, limit);
+  const nextCursor = events.length > limit && page.length > 0
+    ? encodeEventCursor(page[page.length - 1], scope)
+    : null;
+  return { page, nextCursor };
+}
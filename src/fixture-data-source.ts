@@ -0,0 +1,514 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  CrashEvent,
+  FetchCrashesParams,
+  GetCrashDetailsParams,
+  GetCrashDetailsByIssueIdParams,
+  AnalyzeCrashTrendsParams,
+  AppSummary,
+  CrashStatisticsRow,
+  CrashFreeCountRow,
+  IssueAggregate,
+  IssueTypeFilter,
+  IssueAggregateQuery,
+  TimeRange,
+  VersionCrashTotals,
+  CrashVolumeRow,
+  DetectCrashAnomaliesParams,
+  CrashFilter,
+  VersionRange,
+  GetUserCrashHistoryParams,
+} from './types.js';
+import { CrashDataSource, getTimeRangeStart, getGrowthWindow } from './crash-data-source.js';
+import { normalizeCrashEvent } from './crash-normalizer.js';
+import { versionSortKey } from './version-utils.js';
+import { EventCursor, compareEventsDescending, isAfterCursor } from './event-cursor.js';
+
+const FIXTURE_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+const SESSION_EVENT_LIMIT = 100;
+
+/**
+ * Serves Crashlytics-export-shaped rows from local JSON or NDJSON files so the
+ * server can run without a GCP project. `fixturePath` may point at a single file
+ * or a directory, in which case every fixture file inside it is loaded.
+ */
+export class FixtureDataSource implements CrashDataSource {
+  private events: CrashEvent[] | null = null;
+
+  constructor(
+    private readonly fixturePath: string,
+    private readonly defaultCrashLimit: number = 10,
+    private readonly countryCustomKey: string = 'country'
+  ) {}
+
+  private async loadEvents(): Promise<CrashEvent[]> {
+    if (this.events) return this.events;
+
+    const stat = await fs.stat(this.fixturePath);
+    const files = stat.isDirectory()
+      ? (await fs.readdir(this.fixturePath))
+        .filter(name => FIXTURE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .sort()
+        .map(name => path.join(this.fixturePath, name))
+      : [this.fixturePath];
+
+    const rows: unknown[] = [];
+    for (const file of files) {
+      rows.push(...this.parseFixtureFile(file, await fs.readFile(file, 'utf-8')));
+    }
+
+    const events = rows.map(normalizeCrashEvent);
+    events.sort(compareEventsDescending);
+    this.events = events;
+    return events;
+  }
+
+  private parseFixtureFile(file: string, contents: string): unknown[] {
+    try {
+      if (path.extname(file).toLowerCase() !== '.json') {
+        return contents
+          .split('\n')
+          .map(line => line.trim())
+          .filter(line => line)
+          .map(line => JSON.parse(line));
+      }
+
+      const parsed = JSON.parse(contents);
+      if (Array.isArray(parsed)) return parsed;
+      if (Array.isArray(parsed?.rows)) return parsed.rows;
+      return [parsed];
+    } catch (error) {
+      throw new Error(`Failed to parse fixture file ${file}: ${error}`);
+    }
+  }
+
+  private timestampOf(event: CrashEvent): number {
+    const time = event.event_timestamp ? new Date(event.event_timestamp).getTime() : NaN;
+    return Number.isNaN(time) ? 0 : time;
+  }
+
+  private dateOf(event: CrashEvent): string {
+    return new Date(this.timestampOf(event)).toISOString().slice(0, 10);
+  }
+
+  private withinTimeRange(event: CrashEvent, timeRange: TimeRange | undefined): boolean {
+    const startDate = timeRange ? getTimeRangeStart(timeRange) : null;
+    return !startDate || this.timestampOf(event) >= startDate.getTime();
+  }
+
+  private matchesParams(event: CrashEvent, params: FetchCrashesParams): boolean {
+    if (!this.withinTimeRange(event, params.time_range)) return false;
+    if (params.app_version && event.application.display_version !== params.app_version) return false;
+    if (params.platform && params.platform !== 'all' && event.platform.toUpperCase() !== params.platform.toUpperCase()) {
+      return false;
+    }
+    return this.matchesFilter(event, params.filter);
+  }
+
+  /** Mirrors `BigQueryClient`'s compiled filter conditions. */
+  private matchesFilter(event: CrashEvent, filter: CrashFilter | undefined): boolean {
+    if (!filter) return true;
+    const timestamp = this.timestampOf(event);
+    const anyOf = (values: string[] | undefined, actual: string) =>
+      !values || values.some(value => value.toUpperCase() === actual.toUpperCase());
+
+    if (filter.start_time && timestamp < Date.parse(filter.start_time)) return false;
+    if (filter.end_time && timestamp >= Date.parse(filter.end_time)) return false;
+    if (!anyOf(filter.device_manufacturer, event.device.manufacturer)) return false;
+    if (!anyOf(filter.device_model, event.device.model)) return false;
+    if (!anyOf(filter.process_state, event.process_state)) return false;
+    if (!anyOf(filter.country, event.custom_keys[this.countryCustomKey] || '')) return false;
+    if (!this.withinVersionRange(event.application.display_version, filter.app_version)) return false;
+    if (!this.withinVersionRange(event.application.build_version, filter.build_version)) return false;
+    if (!this.withinVersionRange(event.operating_system.display_version, filter.os_version)) return false;
+    if (!this.matchesIssueType(event, filter.issue_type)) return false;
+
+    return (filter.custom_keys || []).every(customKey => {
+      if (!(customKey.key in event.custom_keys)) return false;
+      const value = event.custom_keys[customKey.key];
+      return customKey.contains !== undefined
+        ? value.toLowerCase().includes(customKey.contains.toLowerCase())
+        : value === customKey.equals;
+    });
+  }
+
+  private withinVersionRange(version: string, range: VersionRange | undefined): boolean {
+    if (!range) return true;
+    const key = versionSortKey(version);
+    if (key === null) return false;
+    return (!range.min || key >= versionSortKey(range.min)!) && (!range.max || key <= versionSortKey(range.max)!);
+  }
+
+  private matchesIssueType(event: CrashEvent, issueType: IssueTypeFilter | undefined): boolean {
+    switch (issueType) {
+      case 'fatal':
+        return event.error_type === 'FATAL';
+      case 'non_fatal':
+        return event.error_type === 'NON_FATAL';
+      case 'anr':
+        return event.error_type === 'ANR';
+      case 'all':
+      default:
+        return true;
+    }
+  }
+
+  private seriesOf(event: CrashEvent, dimension: DetectCrashAnomaliesParams['dimension']): { key: string; label: string } {
+    switch (dimension) {
+      case 'app':
+        return { key: event.bundle_identifier, label: event.bundle_identifier };
+      case 'version':
+        return {
+          key: `${event.bundle_identifier}@${event.application.display_version}`,
+          label: event.application.display_version,
+        };
+      case 'issue':
+      default:
+        return { key: event.issue_id, label: event.issue_title };
+    }
+  }
+
+  private groupKeyOf(event: CrashEvent, groupBy: string): string {
+    switch (groupBy) {
+      case 'device':
+        return event.device.model || 'Unknown';
+      case 'os':
+        return event.operating_system.display_version || 'Unknown';
+      case 'issue_type':
+        return event.error_type;
+      case 'version':
+      default:
+        return event.application.display_version || 'Unknown';
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.loadEvents();
+      return true;
+    } catch (error) {
+      console.error('Fixture data source failed to load:', error);
+      return false;
+    }
+  }
+
+  async discoverApps(): Promise<AppSummary[]> {
+    const events = await this.loadEvents();
+    const apps = new Map<string, AppSummary>();
+
+    for (const event of events) {
+      const key = `${event.bundle_identifier}|${event.platform}`;
+      const app = apps.get(key) || {
+        app_package: event.bundle_identifier,
+        platform: event.platform,
+        total_crashes: 0,
+        fatal_crashes: 0,
+        non_fatal_crashes: 0,
+        latest_crash: event.event_timestamp,
+        earliest_crash: event.event_timestamp,
+      };
+
+      app.total_crashes++;
+      if (event.is_fatal) {
+        app.fatal_crashes++;
+      } else {
+        app.non_fatal_crashes++;
+      }
+      if (event.event_timestamp > app.latest_crash) app.latest_crash = event.event_timestamp;
+      if (event.event_timestamp < app.earliest_crash) app.earliest_crash = event.event_timestamp;
+      apps.set(key, app);
+    }
+
+    return Array.from(apps.values()).sort((a, b) => b.total_crashes - a.total_crashes);
+  }
+
+  async fetchCrashes(params: FetchCrashesParams): Promise<CrashEvent[]> {
+    const limit = params.limit || this.defaultCrashLimit;
+    const events = await this.loadEvents();
+
+    return events.filter(event => this.matchesParams(event, params)).slice(0, limit);
+  }
+
+  async fetchCrashesByApp(appPackageName: string, params: FetchCrashesParams): Promise<CrashEvent[]> {
+    const limit = params.limit || this.defaultCrashLimit;
+    const events = await this.loadEvents();
+
+    return events
+      .filter(event => event.bundle_identifier === appPackageName && this.matchesParams(event, params))
+      .slice(0, limit);
+  }
+
+  async fetchFatalCrashesByApp(appPackageName: string, limit: number = 10, after?: EventCursor, filter?: CrashFilter): Promise<CrashEvent[]> {
+    const events = await this.loadEvents();
+
+    return events
+      .filter(event => event.bundle_identifier === appPackageName && event.is_fatal)
+      .filter(event => this.matchesFilter(event, filter))
+      .filter(event => !after || isAfterCursor(event, after))
+      .slice(0, limit);
+  }
+
+  async fetchANRIssuesByApp(appPackageName: string, limit: number = 10, after?: EventCursor, filter?: CrashFilter): Promise<CrashEvent[]> {
+    const events = await this.loadEvents();
+
+    return events
+      .filter(event => event.bundle_identifier === appPackageName && event.error_type === 'ANR')
+      .filter(event => this.matchesFilter(event, filter))
+      .filter(event => !after || isAfterCursor(event, after))
+      .slice(0, limit);
+  }
+
+  async getCrashDetails(params: Pick<GetCrashDetailsParams, 'crash_id'>): Promise<CrashEvent | null> {
+    const events = await this.loadEvents();
+
+    return events.find(event => event.event_id === params.crash_id) || null;
+  }
+
+  async getCrashDetailsByIssueId(params: GetCrashDetailsByIssueIdParams, after?: EventCursor): Promise<CrashEvent[]> {
+    const limit = params.limit || 10;
+    const events = await this.loadEvents();
+
+    return events
+      .filter(event => event.issue_id === params.issue_id && this.matchesFilter(event, params.filter))
+      .filter(event => !after || isAfterCursor(event, after))
+      .slice(0, limit);
+  }
+
+  async getCrashStatistics(params: AnalyzeCrashTrendsParams, appPackageName?: string): Promise<CrashStatisticsRow[]> {
+    const events = await this.loadEvents();
+    const groupBy = params.group_by || 'version';
+    const stats = new Map<string, { row: CrashStatisticsRow; users: Set<string> }>();
+    const matches = (event: CrashEvent) => this.withinTimeRange(event, params.time_range)
+      && (!appPackageName || event.bundle_identifier === appPackageName);
+
+    for (const event of events.filter(matches)) {
+      const groupKey = this.groupKeyOf(event, groupBy);
+      const crashDate = this.dateOf(event);
+      const key = `${groupKey}|${crashDate}`;
+      const entry = stats.get(key) || {
+        row: { group_key: groupKey, crash_count: 0, affected_users: 0, crash_date: crashDate },
+        users: new Set<string>(),
+      };
+
+      entry.row.crash_count++;
+      if (event.user.id) entry.users.add(event.user.id);
+      entry.row.affected_users = entry.users.size;
+      stats.set(key, entry);
+    }
+
+    return Array.from(stats.values())
+      .map(entry => entry.row)
+      .sort((a, b) => b.crash_date.localeCompare(a.crash_date) || b.crash_count - a.crash_count);
+  }
+
+  async getCrashFreeCounts(timeRange: TimeRange, appPackageName?: string): Promise<CrashFreeCountRow[]> {
+    const events = await this.loadEvents();
+    const counts = new Map<string, { row: CrashFreeCountRow; users: Set<string>; sessions: Set<string> }>();
+    const matches = (event: CrashEvent) => this.withinTimeRange(event, timeRange)
+      && (!appPackageName || event.bundle_identifier === appPackageName);
+
+    for (const event of events.filter(matches)) {
+      const date = this.dateOf(event);
+      const key = `${date}|${event.bundle_identifier}|${event.application.display_version}`;
+      const entry = counts.get(key) || {
+        row: {
+          date,
+          app_package: event.bundle_identifier,
+          app_version: event.application.display_version,
+          crashed_users: 0,
+          crashed_sessions: 0,
+          total_users: null,
+          total_sessions: null,
+        },
+        users: new Set<string>(),
+        sessions: new Set<string>(),
+      };
+
+      if (event.is_fatal) {
+        if (event.installation_uuid) entry.users.add(event.installation_uuid);
+        if (event.session_id) entry.sessions.add(event.session_id);
+      }
+      entry.row.crashed_users = entry.users.size;
+      entry.row.crashed_sessions = entry.sessions.size;
+      counts.set(key, entry);
+    }
+
+    return Array.from(counts.values())
+      .map(entry => entry.row)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async fetchIssueAggregates(params: IssueAggregateQuery): Promise<IssueAggregate[]> {
+    const events = await this.loadEvents();
+    const growthWindow = getGrowthWindow(params.time_range);
+    const issues = new Map<string, {
+      aggregate: IssueAggregate;
+      users: Set<string>;
+      installations: Set<string>;
+      versions: Set<string>;
+      osVersions: Set<string>;
+    }>();
+
+    for (const event of events) {
+      if (event.bundle_identifier !== params.app_package) continue;
+      if (params.issue_id && event.issue_id !== params.issue_id) continue;
+      if (!this.withinTimeRange(event, params.time_range) || !this.matchesIssueType(event, params.issue_type)) continue;
+      if (params.app_version && event.application.display_version !== params.app_version) continue;
+      if (!this.matchesFilter(event, params.filter)) continue;
+
+      const entry = issues.get(event.issue_id) || {
+        aggregate: {
+          issue_id: event.issue_id,
+          issue_title: event.issue_title,
+          issue_subtitle: event.issue_subtitle,
+          error_type: event.error_type,
+          event_count: 0,
+          user_count: 0,
+          installation_count: 0,
+          first_seen: event.event_timestamp,
+          last_seen: event.event_timestamp,
+          versions: [],
+          os_versions: [],
+          recent_events: 0,
+          previous_events: 0,
+          blame_frame: event.blame_frame,
+        },
+        users: new Set<string>(),
+        installations: new Set<string>(),
+        versions: new Set<string>(),
+        osVersions: new Set<string>(),
+      };
+      const aggregate = entry.aggregate;
+      const timestamp = this.timestampOf(event);
+
+      aggregate.event_count++;
+      if (event.user.id) entry.users.add(event.user.id);
+      if (event.installation_uuid) entry.installations.add(event.installation_uuid);
+      if (event.application.display_version) entry.versions.add(event.application.display_version);
+      if (event.operating_system.display_version) entry.osVersions.add(event.operating_system.display_version);
+      if (event.event_timestamp < aggregate.first_seen) aggregate.first_seen = event.event_timestamp;
+      if (event.event_timestamp > aggregate.last_seen) aggregate.last_seen = event.event_timestamp;
+      if (timestamp >= growthWindow.split.getTime()) {
+        aggregate.recent_events++;
+      } else if (timestamp >= growthWindow.start.getTime()) {
+        aggregate.previous_events++;
+      }
+      issues.set(event.issue_id, entry);
+    }
+
+    const aggregates = Array.from(issues.values()).map(entry => ({
+      ...entry.aggregate,
+      user_count: entry.users.size,
+      installation_count: entry.installations.size,
+      versions: Array.from(entry.versions),
+      os_versions: Array.from(entry.osVersions),
+    }));
+
+    const sortValue = (aggregate: IssueAggregate): number => {
+      switch (params.sort_by) {
+        case 'events':
+          return aggregate.event_count;
+        case 'growth':
+          return aggregate.recent_events - aggregate.previous_events;
+        case 'users':
+        default:
+          return aggregate.user_count;
+      }
+    };
+
+    return aggregates.sort((a, b) => sortValue(b) - sortValue(a)).slice(0, params.limit);
+  }
+
+  async getVersionCrashTotals(appPackageName: string, versions: string[], timeRange: TimeRange): Promise<VersionCrashTotals[]> {
+    const events = await this.loadEvents();
+    const totals = new Map<string, { row: VersionCrashTotals; users: Set<string>; installations: Set<string> }>();
+
+    for (const event of events) {
+      const version = event.application.display_version;
+      if (event.bundle_identifier !== appPackageName || !versions.includes(version)) continue;
+      if (!this.withinTimeRange(event, timeRange)) continue;
+
+      const entry = totals.get(version) || {
+        row: { version, event_count: 0, user_count: 0, installation_count: 0 },
+        users: new Set<string>(),
+        installations: new Set<string>(),
+      };
+      entry.row.event_count++;
+      if (event.user.id) entry.users.add(event.user.id);
+      if (event.installation_uuid) entry.installations.add(event.installation_uuid);
+      entry.row.user_count = entry.users.size;
+      entry.row.installation_count = entry.installations.size;
+      totals.set(version, entry);
+    }
+
+    return Array.from(totals.values()).map(entry => entry.row);
+  }
+
+  async getCrashVolumeSeries(params: DetectCrashAnomaliesParams, since: Date): Promise<CrashVolumeRow[]> {
+    const events = await this.loadEvents();
+    const bucketMs = params.granularity === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+    const volumes = new Map<string, { row: CrashVolumeRow; users: Set<string> }>();
+
+    for (const event of events) {
+      const timestamp = this.timestampOf(event);
+      if (timestamp < since.getTime()) continue;
+      if (params.app_package && event.bundle_identifier !== params.app_package) continue;
+
+      const series = this.seriesOf(event, params.dimension);
+      const bucket = new Date(Math.floor(timestamp / bucketMs) * bucketMs).toISOString();
+      const key = `${series.key}|${bucket}`;
+      const entry = volumes.get(key) || {
+        row: {
+          series_key: series.key,
+          label: series.label,
+          app_package: event.bundle_identifier,
+          bucket,
+          event_count: 0,
+          user_count: 0,
+        },
+        users: new Set<string>(),
+      };
+
+      entry.row.event_count++;
+      if (event.user.id) entry.users.add(event.user.id);
+      entry.row.user_count = entry.users.size;
+      volumes.set(key, entry);
+    }
+
+    return Array.from(volumes.values()).map(entry => entry.row);
+  }
+
+  async fetchUserEvents(params: GetUserCrashHistoryParams): Promise<CrashEvent[]> {
+    const events = await this.loadEvents();
+
+    return events
+      .filter(event => !params.app_package || event.bundle_identifier === params.app_package)
+      .filter(event => params.user_id ? event.user.id === params.user_id : event.installation_uuid === params.installation_uuid)
+      .filter(event => this.withinTimeRange(event, params.time_range))
+      .slice(0, params.limit);
+  }
+
+  async fetchSessionEvents(appPackageName: string, sessionId: string, since: Date, until: Date): Promise<CrashEvent[]> {
+    const events = await this.loadEvents();
+
+    return events
+      .filter(event => event.bundle_identifier === appPackageName && event.session_id === sessionId)
+      .filter(event => this.timestampOf(event) >= since.getTime() && this.timestampOf(event) <= until.getTime())
+      .slice(0, SESSION_EVENT_LIMIT);
+  }
+
+  async fetchIssueSamples(appPackageName: string, timeRange: TimeRange, eventsPerIssue: number, maxEvents: number): Promise<CrashEvent[]> {
+    const events = await this.loadEvents();
+    const perIssue = new Map<string, number>();
+
+    return events
+      .filter(event => event.bundle_identifier === appPackageName && this.withinTimeRange(event, timeRange))
+      .filter(event => {
+        const count = perIssue.get(event.issue_id) || 0;
+        perIssue.set(event.issue_id, count + 1);
+        return count < eventsPerIssue;
+      })
+      .slice(0, maxEvents);
+  }
+}
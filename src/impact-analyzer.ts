@@ -50,7 +50,7 @@ export class ImpactAnalyzer {
     crashMessage: string,
     appVersion: string
   ): string {
-    const topFrame = stackFrames[0];
+    const topFrame = stackFrames.find(frame => frame?.blamed) || stackFrames[0];
     const context = [];
 
     context.push(`The crash occurs in ${topFrame?.class || 'unknown class'}`);
@@ -117,6 +117,20 @@ export class ImpactAnalyzer {
     return ((totalUsers - crashedUsers) / totalUsers) * 100;
   }
 
+  /**
+   * Two-proportion z-test: whether `countB / totalB` differs from
+   * `countA / totalA` by more than chance, at roughly 95% confidence.
+   */
+  isSignificantRateChange(countA: number, totalA: number, countB: number, totalB: number): boolean {
+    if (totalA === 0 || totalB === 0) return false;
+
+    const pooled = (countA + countB) / (totalA + totalB);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+    if (standardError === 0) return false;
+
+    return Math.abs(countB / totalB - countA / totalA) / standardError >= 1.96;
+  }
+
   identifyTrends(crashCounts: Array<{ date: string; count: number }>): {
     trend: 'increasing' | 'decreasing' | 'stable';
     changeRate: number;
@@ -0,0 +1,719 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureDataSource } from './fixture-data-source';
+import { FixtureClient, GitCheckout, connectFixtureClient, createGitCheckout, crashEvent, freezeFixtureTime } from './test-helpers';
+
+const CHECKOUT_ISSUE = 'addd0a8117be12c0631a2140b751167f';
+const ANR_ISSUE = '7c9e2b1a4d5f6e8a9b0c1d2e3f4a5b6c';
+const LATEST_CHECKOUT_EVENT = 'a1f0c2d4e5b6478899aabbccddeeff00';
+
+let server: FixtureClient;
+
+beforeAll(async () => {
+  // Failing tool calls are logged by the server before being returned as MCP errors
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  freezeFixtureTime();
+  server = await connectFixtureClient();
+});
+
+afterAll(async () => {
+  await server.close();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('list_available_apps', () => {
+  it('lists every app in the fixtures', async () => {
+    const result = await server.callTool('list_available_apps');
+
+    expect(result.available_apps).toEqual([
+      expect.objectContaining({ app_package: 'com.example.myapp', platform: 'ANDROID', total_crashes: 3, fatal_crashes: 3 }),
+      expect.objectContaining({ app_package: 'com.example.myapp.ios', platform: 'IOS', total_crashes: 1, non_fatal_crashes: 1 }),
+    ]);
+  });
+});
+
+describe('get_fatal_crashes', () => {
+  it('returns the newest fatal crashes of an app', async () => {
+    const result = await server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', limit: 2 });
+
+    expect(result.fatal_crashes.map((crash: { crash_id: string }) => crash.crash_id)).toEqual([
+      LATEST_CHECKOUT_EVENT,
+      'b2e1d3c5f6a7489900bbccddeeff1122',
+    ]);
+  });
+
+  it('pages through older crashes with next_cursor', async () => {
+    const first = await server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', limit: 1 });
+    const second = await server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', limit: 1, cursor: first.next_cursor });
+
+    expect(first.fatal_crashes.map((crash: { crash_id: string }) => crash.crash_id)).toEqual([LATEST_CHECKOUT_EVENT]);
+    expect(second.fatal_crashes.map((crash: { crash_id: string }) => crash.crash_id)).toEqual(['b2e1d3c5f6a7489900bbccddeeff1122']);
+    expect(second.next_cursor).toEqual(expect.any(String));
+  });
+
+  it('refuses a cursor from another listing', async () => {
+    const fatal = await server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', limit: 1 });
+
+    await expect(server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp.ios', cursor: fatal.next_cursor })).rejects.toThrow(
+      'Cursor belongs to a different query'
+    );
+  });
+
+  it('narrows crashes with a filter', async () => {
+    const crashIds = async (filter: Record<string, unknown>) => {
+      const result = await server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', filter });
+      return result.fatal_crashes.map((crash: { crash_id: string }) => crash.crash_id);
+    };
+
+    expect(await crashIds({ device_manufacturer: ['SAMSUNG', 'apple'] })).toEqual(['b2e1d3c5f6a7489900bbccddeeff1122']);
+    expect(await crashIds({ app_version: { min: '4.12.0-beta' }, os_version: { min: '13' } })).toEqual([LATEST_CHECKOUT_EVENT]);
+    expect(await crashIds({ custom_keys: [{ key: 'experiment', contains: 'CHECKOUT' }] })).toEqual([LATEST_CHECKOUT_EVENT]);
+    expect(await crashIds({ custom_keys: [{ key: 'cart_size', equals: '1' }] })).toEqual([]);
+    expect(await crashIds({ start_time: '2026-10-15T00:00:00Z', end_time: '2026-10-16T00:00:00Z', issue_type: 'anr' })).toHaveLength(1);
+  });
+
+  it('rejects invalid filters', async () => {
+    await expect(server.callTool('get_fatal_crashes', {
+      app_package: 'com.example.myapp',
+      filter: { custom_keys: [{ key: 'cart_size', equals: '0', contains: '0' }] },
+    })).rejects.toThrow('Set exactly one of equals or contains');
+    await expect(server.callTool('get_fatal_crashes', {
+      app_package: 'com.example.myapp',
+      filter: { start_time: '2026-10-17T00:00:00Z', end_time: '2026-10-16T00:00:00Z' },
+    })).rejects.toThrow('start_time must be before end_time');
+    await expect(server.callTool('get_fatal_crashes', {
+      app_package: 'com.example.myapp',
+      filter: { app_version: { min: 'latest' } },
+    })).rejects.toThrow('Version bounds must start with a number');
+  });
+
+  it('lists crashes without owners from a checkout without CODEOWNERS', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'app-repo-'));
+    const withRepo = await connectFixtureClient({ APP_REPO_PATH: repo });
+    try {
+      await fs.writeFile(path.join(repo, 'CartFragment.kt'), '');
+
+      const fatal = await withRepo.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', limit: 2 });
+      const top = await withRepo.callTool('list_top_issues', { app_package: 'com.example.myapp' });
+
+      expect(fatal.fatal_crashes.map((crash: { owners: string[] }) => crash.owners)).toEqual([[], []]);
+      expect(top.issues.map((issue: { owners: string[] }) => issue.owners)).toEqual([[], []]);
+    } finally {
+      await withRepo.close();
+      await fs.rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('requires an app package', async () => {
+    await expect(server.callTool('get_fatal_crashes', {})).rejects.toThrow('app_package');
+  });
+
+  it('refuses limits that are not whole numbers up to 50', async () => {
+    for (const limit of ['2', 0, 1.5, 51]) {
+      await expect(server.callTool('get_fatal_crashes', { app_package: 'com.example.myapp', limit })).rejects.toThrow('limit');
+    }
+  });
+});
+
+describe('get_anr_issues', () => {
+  it('returns only ANRs', async () => {
+    const result = await server.callTool('get_anr_issues', { app_package: 'com.example.myapp' });
+
+    expect(result.anr_issues).toHaveLength(1);
+    expect(result.anr_issues[0]).toMatchObject({ issue_id: ANR_ISSUE });
+  });
+
+  it('validates its arguments', async () => {
+    await expect(server.callTool('get_anr_issues', {})).rejects.toThrow('app_package');
+    await expect(server.callTool('get_anr_issues', { app_package: 'com.example.myapp', limit: '2' })).rejects.toThrow('limit');
+    await expect(server.callTool('get_anr_issues', { app_package: 'com.example.myapp', limit: 100 })).rejects.toThrow('limit');
+  });
+});
+
+describe('get_crash_details', () => {
+  it('returns the structured stack trace of an event', async () => {
+    const result = await server.callTool('get_crash_details', { crash_id: LATEST_CHECKOUT_EVENT });
+
+    expect(result.crash_summary).toMatchObject({ id: LATEST_CHECKOUT_EVENT, app_version: '4.12.0', is_fatal: true });
+    expect(result.stack_trace.exception_type).toBe('java.lang.NullPointerException');
+    expect(result.stack_trace.frames[0]).toMatchObject({ file: 'CartFragment.kt', line: 87, method: 'onViewCreated' });
+    expect(result.context.breadcrumbs).toHaveLength(2);
+  });
+
+  it('includes the source around in-app frames from the app repository', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'app-repo-'));
+    const withRepo = await connectFixtureClient({ APP_REPO_PATH: repo });
+    try {
+      const source = Array.from({ length: 90 }, (_, index) => `// line ${index + 1}`);
+      await fs.writeFile(path.join(repo, 'CartFragment.kt'), source.join('\n'));
+
+      const result = await withRepo.callTool('get_crash_details', { crash_id: LATEST_CHECKOUT_EVENT, context_lines: 1 });
+      const withoutSource = await withRepo.callTool('get_crash_details', { crash_id: LATEST_CHECKOUT_EVENT, include_source: false });
+
+      expect(result.source_snippets).toEqual([
+        expect.objectContaining({ file: 'CartFragment.kt', line: 87, code: '  86 | // line 86\n> 87 | // line 87\n  88 | // line 88' }),
+      ]);
+      expect(withoutSource.source_snippets).toBeUndefined();
+      // The checkout has no CODEOWNERS, so nothing has an owner
+      expect(result.owners).toEqual([]);
+    } finally {
+      await withRepo.close();
+      await fs.rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('names the owners of the crashing code', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'app-repo-'));
+    const withRepo = await connectFixtureClient({ APP_REPO_PATH: repo });
+    try {
+      await fs.mkdir(path.join(repo, 'checkout'));
+      await fs.writeFile(path.join(repo, 'checkout', 'CartFragment.kt'), '');
+      await fs.writeFile(path.join(repo, 'CODEOWNERS'), '/checkout/ @checkout-team\n');
+
+      const result = await withRepo.callTool('get_crash_details', { crash_id: LATEST_CHECKOUT_EVENT });
+
+      expect(result.owners).toEqual(['@checkout-team']);
+      expect(result.owner_source).toMatchObject({ source_file: 'checkout/CartFragment.kt', rule: '/checkout/' });
+    } finally {
+      await withRepo.close();
+      await fs.rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps crash details when the ownership file is unreadable', async () => {
+    const repo = await fs.mkdtemp(path.join(os.tmpdir(), 'app-repo-'));
+    const withRepo = await connectFixtureClient({ APP_REPO_PATH: repo, CODEOWNERS_PATH: 'teams.yml' });
+    try {
+      await fs.writeFile(path.join(repo, 'CartFragment.kt'), '');
+
+      const result = await withRepo.callTool('get_crash_details', { crash_id: LATEST_CHECKOUT_EVENT });
+
+      expect(result.crash_summary).toMatchObject({ id: LATEST_CHECKOUT_EVENT });
+      expect(result.owners).toBeUndefined();
+    } finally {
+      await withRepo.close();
+      await fs.rm(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('reports unknown events', async () => {
+    await expect(server.callTool('get_crash_details', { crash_id: 'missing' })).rejects.toThrow('Crash not found: missing');
+  });
+});
+
+describe('get_crash_details_by_issue_id', () => {
+  it('returns the events of an issue, newest first', async () => {
+    const result = await server.callTool('get_crash_details_by_issue_id', { issue_id: CHECKOUT_ISSUE });
+
+    expect(result.total_events_retrieved).toBe(2);
+    expect(result.events.map((event: { crash_summary: { id: string } }) => event.crash_summary.id)).toEqual([
+      LATEST_CHECKOUT_EVENT,
+      'b2e1d3c5f6a7489900bbccddeeff1122',
+    ]);
+  });
+
+  it('walks every event of the issue with next_cursor', async () => {
+    const first = await server.callTool('get_crash_details_by_issue_id', { issue_id: CHECKOUT_ISSUE, limit: 1 });
+    const second = await server.callTool('get_crash_details_by_issue_id', { issue_id: CHECKOUT_ISSUE, limit: 1, cursor: first.next_cursor });
+
+    expect(first.events[0].crash_summary.id).toBe(LATEST_CHECKOUT_EVENT);
+    expect(second.events[0].crash_summary.id).toBe('b2e1d3c5f6a7489900bbccddeeff1122');
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('reports issues without events', async () => {
+    await expect(server.callTool('get_crash_details_by_issue_id', { issue_id: 'missing' })).rejects.toThrow(
+      'No crashes found for issue_id: missing'
+    );
+  });
+});
+
+describe('analyze_crash_trends', () => {
+  it('buckets crashes by day', async () => {
+    const result = await server.callTool('analyze_crash_trends', { time_range: '7d' });
+
+    expect(result.analysis_period).toBe('7d');
+    expect(result.trends.map((trend: { date: string }) => trend.date).sort()).toEqual([
+      '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17',
+    ]);
+    expect(result.crash_free.status).toBe('unavailable');
+  });
+
+  it('rejects unknown groupings', async () => {
+    await expect(server.callTool('analyze_crash_trends', { time_range: '7d', group_by: 'day' })).rejects.toThrow(
+      'Invalid enum value'
+    );
+  });
+});
+
+describe('list_top_issues', () => {
+  it('aggregates events by issue', async () => {
+    const result = await server.callTool('list_top_issues', { app_package: 'com.example.myapp', time_range: '7d' });
+
+    expect(result.total_issues).toBe(2);
+    expect(result.issues[0]).toMatchObject({
+      issue_id: CHECKOUT_ISSUE,
+      type: 'fatal',
+      event_count: 2,
+      affected_users: 2,
+      first_seen: '2026-10-16T18:03:11.500Z',
+      last_seen: '2026-10-17T09:12:44.120Z',
+      affected_versions: ['4.12.0', '4.11.2'],
+      os_range: { min: '13', max: '14' },
+    });
+    expect(result.issues[1]).toMatchObject({ issue_id: ANR_ISSUE, type: 'anr', event_count: 1 });
+  });
+
+  it('narrows issues by type and version', async () => {
+    const anrs = await server.callTool('list_top_issues', { app_package: 'com.example.myapp', issue_type: 'anr' });
+    const onVersion = await server.callTool('list_top_issues', { app_package: 'com.example.myapp', app_version: '4.11.2' });
+
+    expect(anrs.issues.map((issue: { issue_id: string }) => issue.issue_id)).toEqual([ANR_ISSUE]);
+    expect(onVersion.issues).toEqual([expect.objectContaining({ issue_id: CHECKOUT_ISSUE, event_count: 1 })]);
+  });
+
+  it('counts only the events matching a filter', async () => {
+    const result = await server.callTool('list_top_issues', {
+      app_package: 'com.example.myapp',
+      filter: { device_model: 'Pixel 7' },
+    });
+
+    expect(result.issues).toEqual([expect.objectContaining({ issue_id: CHECKOUT_ISSUE, event_count: 1, affected_versions: ['4.12.0'] })]);
+  });
+});
+
+describe('compare_versions', () => {
+  it('finds the issues a version introduced', async () => {
+    const result = await server.callTool('compare_versions', {
+      app_package: 'com.example.myapp',
+      base_version: '4.11.2',
+      target_version: '4.12.0',
+    });
+
+    expect(result.rate_basis).toBe('share_of_crashes');
+    expect(result.totals).toEqual({
+      base: { version: '4.11.2', event_count: 1, user_count: 1, installation_count: 1, active_users: null, sessions: null },
+      target: { version: '4.12.0', event_count: 2, user_count: 2, installation_count: 2, active_users: null, sessions: null },
+    });
+    expect(result.new_issues).toEqual([expect.objectContaining({ issue_id: ANR_ISSUE, type: 'anr', base: null })]);
+    expect(result.resolved_issues).toEqual([]);
+  });
+
+  it('requires crashes in the base version', async () => {
+    await expect(server.callTool('compare_versions', {
+      app_package: 'com.example.myapp',
+      base_version: '1.0.0',
+      target_version: '4.12.0',
+    })).rejects.toThrow('No crash data found for com.example.myapp version 1.0.0');
+  });
+});
+
+describe('detect_crash_anomalies', () => {
+  it('evaluates yesterday against the lookback window', async () => {
+    const result = await server.callTool('detect_crash_anomalies', { app_package: 'com.example.myapp', lookback_days: 7 });
+
+    expect(result).toMatchObject({
+      app_package: 'com.example.myapp',
+      lookback_days: 7,
+      granularity: 'day',
+      dimension: 'issue',
+      evaluated_bucket: '2026-10-17T00:00:00.000Z',
+      series_analyzed: 2,
+      total_anomalies: 0,
+    });
+  });
+
+  it('rejects lookbacks too short for a baseline', async () => {
+    await expect(server.callTool('detect_crash_anomalies', { lookback_days: 3 })).rejects.toThrow('lookback_days');
+  });
+});
+
+describe('get_user_crash_history', () => {
+  it('finds the crashes of a user', async () => {
+    const result = await server.callTool('get_user_crash_history', { user_id: 'user-1001' });
+
+    expect(result).toMatchObject({
+      user_id: 'user-1001',
+      total_events: 1,
+      truncated: false,
+      counts: { fatal: 1, non_fatal: 0, anr: 0 },
+      devices: ['Google Pixel 7'],
+      message: 'Found 1 events for user user-1001: 1 fatal, 0 ANR, 0 non-fatal',
+    });
+    expect(result.sessions[0].events[0]).toMatchObject({ crash_id: LATEST_CHECKOUT_EVENT, issue_id: CHECKOUT_ISSUE });
+  });
+
+  it('finds the crashes of an installation as a flat list', async () => {
+    const result = await server.callTool('get_user_crash_history', {
+      installation_uuid: '9a1b2c3d-4e5f-4a6b-8c7d-0e1f2a3b4c33',
+      view: 'events',
+    });
+
+    expect(result.events).toEqual([expect.objectContaining({ issue_id: ANR_ISSUE, type: 'anr' })]);
+  });
+
+  it('reports users without crashes', async () => {
+    const result = await server.callTool('get_user_crash_history', { user_id: 'user-1001', time_range: '1h' });
+
+    expect(result.message).toBe('No crash events found for user user-1001 in the last 1h');
+  });
+
+  it('requires exactly one of user_id and installation_uuid', async () => {
+    await expect(server.callTool('get_user_crash_history', {})).rejects.toThrow('Set exactly one of user_id or installation_uuid');
+  });
+});
+
+describe('get_crash_timeline', () => {
+  it('reconstructs what happened before a crash', async () => {
+    const result = await server.callTool('get_crash_timeline', { crash_id: LATEST_CHECKOUT_EVENT });
+
+    expect(result).toMatchObject({
+      crash_id: LATEST_CHECKOUT_EVENT,
+      issue_id: CHECKOUT_ISSUE,
+      session_events: 0,
+      counts: { logs: 1, breadcrumbs: 0, screens: 2, non_fatals: 0 },
+      last_screen: 'Cart',
+      message: 'Reconstructed 3 entries in the 30 minutes before crash a1f0c2d4e5b6478899aabbccddeeff00; last screen: Cart',
+    });
+    expect(result.entries.map((entry: { kind: string }) => entry.kind)).toEqual(['screen', 'log', 'screen', 'crash']);
+  });
+
+  it('reports crashes without logs or breadcrumbs', async () => {
+    const result = await server.callTool('get_crash_timeline', { crash_id: 'b2e1d3c5f6a7489900bbccddeeff1122' });
+
+    expect(result.message).toBe('No logs or breadcrumbs recorded in the 30 minutes before crash b2e1d3c5f6a7489900bbccddeeff1122');
+  });
+
+  it('reports unknown crashes', async () => {
+    await expect(server.callTool('get_crash_timeline', { crash_id: 'missing' })).rejects.toThrow('Crash not found: missing');
+  });
+});
+
+describe('analyze_anr_issue', () => {
+  it('classifies the thread dumps of an ANR issue', async () => {
+    const result = await server.callTool('analyze_anr_issue', { issue_id: ANR_ISSUE });
+
+    expect(result).toMatchObject({
+      issue_id: ANR_ISSUE,
+      events_analyzed: 1,
+      message: 'Analyzed 1 ANR events; most common cause: shared_preferences (100%)',
+    });
+    expect(result.causes[0].top_blocking_frames).toEqual([
+      { frame: 'com.example.myapp.settings.SettingsRepository.save (SettingsRepository.kt:54)', count: 1 },
+    ]);
+  });
+
+  it('refuses issues that are not ANRs', async () => {
+    await expect(server.callTool('analyze_anr_issue', { issue_id: CHECKOUT_ISSUE })).rejects.toThrow(
+      `Issue ${CHECKOUT_ISSUE} is not an ANR issue`
+    );
+  });
+});
+
+describe('find_similar_issues', () => {
+  it('compares an issue with the other issues of its app', async () => {
+    const result = await server.callTool('find_similar_issues', { issue_id: CHECKOUT_ISSUE });
+
+    expect(result).toMatchObject({
+      issue_id: CHECKOUT_ISSUE,
+      app_package: 'com.example.myapp',
+      issues_compared: 1,
+      similar_issues: [],
+      message: `No issues at least 0.6 similar to ${CHECKOUT_ISSUE} among 1 issues`,
+    });
+    expect(result.signatures).toEqual([expect.objectContaining({ exception_type: 'NullPointerException' })]);
+  });
+
+  it('clusters the issues of an app', async () => {
+    const result = await server.callTool('find_similar_issues', { app_package: 'com.example.myapp', min_similarity: 0.1 });
+
+    expect(result).toMatchObject({ issues_compared: 2, time_range: '30d' });
+    expect(result.clusters).toEqual([]);
+  });
+
+  it('requires an issue or an app', async () => {
+    await expect(server.callTool('find_similar_issues', {})).rejects.toThrow('Set issue_id, app_package or both');
+  });
+});
+
+describe('get_team_crash_rollup', () => {
+  let repo: string;
+  let withRepo: FixtureClient;
+
+  beforeAll(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'app-repo-'));
+    await fs.mkdir(path.join(repo, 'app', 'checkout'), { recursive: true });
+    await fs.writeFile(path.join(repo, 'app', 'checkout', 'CartFragment.kt'), '');
+    await fs.writeFile(path.join(repo, 'CODEOWNERS'), '/app/checkout/ @checkout-team\n');
+    withRepo = await connectFixtureClient({ APP_REPO_PATH: repo });
+  });
+
+  afterAll(async () => {
+    await withRepo.close();
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('rolls issues up by the owners of their first app frame', async () => {
+    const result = await withRepo.callTool('get_team_crash_rollup', { app_package: 'com.example.myapp' });
+
+    expect(result.teams).toEqual([
+      expect.objectContaining({ owner: '@checkout-team', issue_count: 1, event_count: 2, top_issues: [expect.objectContaining({ issue_id: CHECKOUT_ISSUE })] }),
+      expect.objectContaining({ owner: null, issue_count: 1, top_issues: [expect.objectContaining({ issue_id: ANR_ISSUE })] }),
+    ]);
+    expect(result.message).toBe('2 issues across 1 owners, 1 without an owner');
+  });
+
+  it('falls back to the blame frame when the sampled event has no owned frame', async () => {
+    jest.spyOn(FixtureDataSource.prototype, 'fetchIssueSamples').mockResolvedValueOnce([
+      crashEvent({ issue_id: CHECKOUT_ISSUE, bundle_identifier: 'com.example.myapp' }),
+    ]);
+
+    const result = await withRepo.callTool('get_team_crash_rollup', { app_package: 'com.example.myapp', refresh: true });
+
+    expect(result.teams[0]).toMatchObject({ owner: '@checkout-team', issue_count: 1 });
+  });
+
+  it('leaves every issue unowned in a checkout without CODEOWNERS', async () => {
+    const bare = await fs.mkdtemp(path.join(os.tmpdir(), 'app-repo-'));
+    const withBareRepo = await connectFixtureClient({ APP_REPO_PATH: bare });
+    try {
+      const result = await withBareRepo.callTool('get_team_crash_rollup', { app_package: 'com.example.myapp' });
+
+      expect(result.teams).toEqual([expect.objectContaining({ owner: null, issue_count: 2 })]);
+    } finally {
+      await withBareRepo.close();
+      await fs.rm(bare, { recursive: true, force: true });
+    }
+  });
+
+  it('requires an app repository', async () => {
+    const withoutRepo = await connectFixtureClient({ APP_REPO_PATH: '' });
+    try {
+      await expect(withoutRepo.callTool('get_team_crash_rollup', { app_package: 'com.example.myapp' })).rejects.toThrow(
+        'Code ownership is not configured; set APP_REPO_PATH'
+      );
+    } finally {
+      await withoutRepo.close();
+    }
+  });
+});
+
+describe('find_suspect_commits', () => {
+  const CART_FRAGMENT = 'app/src/main/java/com/example/myapp/checkout/CartFragment.kt';
+  const cartFragment = (line85: string) => Array.from({ length: 100 }, (_, index) => index === 84 ? line85 : `// ${index + 1}`).join('\n');
+  let checkout: GitCheckout;
+  let suspect: string;
+  let withRepo: FixtureClient;
+
+  beforeAll(async () => {
+    checkout = await createGitCheckout();
+    await checkout.commit('Add cart', { [CART_FRAGMENT]: cartFragment('val cart = viewModel.cart') }, 'v4.11.0');
+    suspect = await checkout.commit('Read the cart eagerly', { [CART_FRAGMENT]: cartFragment('val cart = viewModel.cart!!') }, 'v4.11.2');
+    withRepo = await connectFixtureClient({ APP_REPO_PATH: checkout.root });
+  });
+
+  afterAll(async () => {
+    await withRepo.close();
+    await checkout.remove();
+  });
+
+  it('ranks the commits between the newest tagged version and the tag before it', async () => {
+    const result = await withRepo.callTool('find_suspect_commits', { issue_id: CHECKOUT_ISSUE });
+
+    expect(result).toMatchObject({ good_tag: 'v4.11.0', bad_version: '4.11.2', bad_tag: 'v4.11.2', commits_in_range: 1 });
+    expect(result.frames).toEqual([
+      { frame: 'com.example.myapp.checkout.CartFragment.onViewCreated', file: CART_FRAGMENT, line: 87, version: '4.12.0' },
+      { frame: 'com.example.myapp.checkout.CartFragment.onViewCreated', file: CART_FRAGMENT, line: 85, version: '4.11.2' },
+    ]);
+    expect(result.suspects).toEqual([expect.objectContaining({ hash: suspect, message: 'Read the cart eagerly' })]);
+  });
+
+  it('refuses versions without a tag', async () => {
+    await expect(withRepo.callTool('find_suspect_commits', { issue_id: CHECKOUT_ISSUE, bad_version: '4.12.0' })).rejects.toThrow(
+      'No git tag found for version 4.12.0; pass bad_version'
+    );
+  });
+
+  it('requires a git checkout', async () => {
+    const withoutRepo = await connectFixtureClient({ APP_REPO_PATH: '' });
+    try {
+      await expect(withoutRepo.callTool('find_suspect_commits', { issue_id: CHECKOUT_ISSUE })).rejects.toThrow(
+        'No local git checkout is configured; set APP_REPO_PATH'
+      );
+    } finally {
+      await withoutRepo.close();
+    }
+  });
+});
+
+describe('generate_crash_report', () => {
+  it('returns a summary followed by the rendered report', async () => {
+    const [summary, report] = await server.callToolText('generate_crash_report', { app_package: 'com.example.myapp', format: 'csv' });
+
+    expect(JSON.parse(summary)).toMatchObject({
+      app_package: 'com.example.myapp',
+      time_range: '7d',
+      format: 'csv',
+      totals: { issues: 2, events: 3 },
+      message: 'csv report of 2 issues and 3 events for com.example.myapp',
+    });
+    expect(report).toContain(`\n\nTop issues by impact\nIssue,Issue ID,Type,Impact,Events,Users,Growth,Versions\n`
+      + `com.example.myapp.checkout.CartFragment.onViewCreated,${CHECKOUT_ISSUE},fatal,low,2,2,new,"4.12.0, 4.11.2"\n`);
+  });
+
+  it('renders markdown by default', async () => {
+    const [, report] = await server.callToolText('generate_crash_report', { app_package: 'com.example.myapp', time_range: 'all' });
+
+    expect(report.startsWith('# Crash report: com.example.myapp (all time)\n')).toBe(true);
+  });
+
+  it('rejects unknown formats', async () => {
+    await expect(server.callTool('generate_crash_report', { app_package: 'com.example.myapp', format: 'pdf' })).rejects.toThrow('format');
+  });
+});
+
+describe('create_ticket_from_issue', () => {
+  let directory: string;
+  let withTracker: FixtureClient;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tickets-'));
+    withTracker = await connectFixtureClient({
+      GITHUB_REPOSITORY: 'example/app',
+      GITHUB_API_URL: 'https://github.example.com/api/v3',
+      TICKET_STORE_FILE: path.join(directory, 'tickets.json'),
+    });
+  });
+
+  afterAll(async () => {
+    await withTracker.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    let issueNumber = 0;
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => {
+      issueNumber++;
+      return Response.json({ number: issueNumber, html_url: `https://github.example.com/example/app/issues/${issueNumber}` }, { status: 201 });
+    });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('drafts the request without filing it', async () => {
+    const aggregates = jest.spyOn(FixtureDataSource.prototype, 'fetchIssueAggregates');
+    const result = await withTracker.callTool('create_ticket_from_issue', { issue_id: CHECKOUT_ISSUE, dry_run: true, labels: ['checkout'] });
+    // Only the filed issue is aggregated, not every issue of the app
+    expect(aggregates).toHaveBeenCalledWith(expect.objectContaining({ issue_id: CHECKOUT_ISSUE, limit: 1 }));
+    aggregates.mockRestore();
+
+    expect(result).toMatchObject({
+      status: 'draft',
+      tracker: 'github',
+      existing_ticket: null,
+      request: {
+        url: 'https://github.example.com/api/v3/repos/example/app/issues',
+        payload: { title: 'Crash: com.example.myapp.checkout.CartFragment.onViewCreated', labels: ['crashlytics', 'fatal', 'checkout'] },
+      },
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('files an issue once and returns the existing ticket afterwards', async () => {
+    const created = await withTracker.callTool('create_ticket_from_issue', { issue_id: CHECKOUT_ISSUE });
+    expect(created).toMatchObject({ status: 'created', ticket: { issue_id: CHECKOUT_ISSUE, tracker: 'github', key: 'example/app#1' } });
+
+    const existing = await withTracker.callTool('create_ticket_from_issue', { issue_id: CHECKOUT_ISSUE });
+    expect(existing).toMatchObject({ status: 'existing', ticket: created.ticket });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('files one ticket for concurrent calls', async () => {
+    const results = await Promise.all([
+      withTracker.callTool('create_ticket_from_issue', { issue_id: ANR_ISSUE }),
+      withTracker.callTool('create_ticket_from_issue', { issue_id: ANR_ISSUE }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.status).sort()).toEqual(['created', 'existing']);
+    expect(results[0].ticket).toEqual(results[1].ticket);
+  });
+
+  it('requires a configured tracker', async () => {
+    await expect(withTracker.callTool('create_ticket_from_issue', { issue_id: ANR_ISSUE, tracker: 'jira' })).rejects.toThrow(
+      'The jira tracker is not configured; set JIRA_BASE_URL'
+    );
+  });
+});
+
+describe('resources', () => {
+  const readResource = async (uri: string) => {
+    const { contents } = await server.client.readResource({ uri });
+    return JSON.parse(contents[0].text as string);
+  };
+
+  it('lists the apps resource and the issues of each app', async () => {
+    const { resources } = await server.client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'crashlytics://apps',
+      'crashlytics://apps/com.example.myapp/issues',
+      'crashlytics://apps/com.example.myapp.ios/issues',
+    ]);
+    expect((await server.client.listResourceTemplates()).resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'crashlytics://apps/{package}/issues',
+      'crashlytics://apps/{package}/issues/{issue_id}',
+      'crashlytics://events/{event_id}',
+    ]);
+  });
+
+  it('reads apps with links to their issues', async () => {
+    const { apps } = await readResource('crashlytics://apps');
+
+    expect(apps).toContainEqual(expect.objectContaining({
+      app_package: 'com.example.myapp',
+      issues_uri: 'crashlytics://apps/com.example.myapp/issues',
+    }));
+  });
+
+  it('reads the top issues of an app with links to each issue', async () => {
+    const result = await readResource('crashlytics://apps/com.example.myapp/issues');
+
+    expect(result).toMatchObject({ app_package: 'com.example.myapp', time_range: '7d', sort_by: 'users' });
+    expect(result.issues[0]).toMatchObject({
+      uri: `crashlytics://apps/com.example.myapp/issues/${CHECKOUT_ISSUE}`,
+      issue_id: CHECKOUT_ISSUE,
+    });
+  });
+
+  it('reads an issue with its newest events', async () => {
+    const aggregates = jest.spyOn(FixtureDataSource.prototype, 'fetchIssueAggregates');
+    const result = await readResource(`crashlytics://apps/com.example.myapp/issues/${CHECKOUT_ISSUE}`);
+    expect(aggregates).toHaveBeenCalledWith(expect.objectContaining({ issue_id: CHECKOUT_ISSUE, limit: 1 }));
+    aggregates.mockRestore();
+
+    expect(result.issue).toMatchObject({ issue_id: CHECKOUT_ISSUE, event_count: 2 });
+    expect(result.recent_events.map((event: { uri: string }) => event.uri)).toEqual([
+      `crashlytics://events/${LATEST_CHECKOUT_EVENT}`,
+      expect.stringMatching(/^crashlytics:\/\/events\/b2e1/),
+    ]);
+  });
+
+  it('reads an event like get_crash_details', async () => {
+    expect(await readResource(`crashlytics://events/${LATEST_CHECKOUT_EVENT}`)).toEqual(
+      await server.callTool('get_crash_details', { crash_id: LATEST_CHECKOUT_EVENT })
+    );
+  });
+
+  it('refuses unknown resources and issues of other apps', async () => {
+    await expect(readResource('crashlytics://builds/1')).rejects.toThrow('Unknown resource: crashlytics://builds/1');
+    await expect(readResource(`crashlytics://apps/com.example.myapp.ios/issues/${CHECKOUT_ISSUE}`)).rejects.toThrow(
+      `No crashes found for issue_id ${CHECKOUT_ISSUE} in com.example.myapp.ios`
+    );
+  });
+});
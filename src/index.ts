@@ -3,27 +3,188 @@
 import 'dotenv/config';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { BigQueryClient } from './bigquery-client.js';
-import { CrashProcessor } from './crash-processor.js';
+import { CrashDataSource } from './crash-data-source.js';
+import { FixtureDataSource } from './fixture-data-source.js';
+import { CrashProcessor, CrashDetailsOptions } from './crash-processor.js';
 import { ImpactAnalyzer } from './impact-analyzer.js';
+import { ProguardRetracer } from './proguard-retracer.js';
+import { SourceMapResolver } from './source-map-resolver.js';
+import { AnomalyDetector } from './anomaly-detector.js';
+import { CrashTimelineBuilder } from './crash-timeline.js';
+import { AnrAnalyzer } from './anr-analyzer.js';
+import { IssueSimilarityAnalyzer } from './issue-similarity.js';
+import { CodeOwnersResolver, firstAppFrame } from './code-owners.js';
+import { SourceFileIndex, isAppFrame } from './source-files.js';
+import { SourceSnippetResolver } from './source-snippets.js';
+import { SuspectCommitFinder, previousTag, tagFor } from './suspect-commits.js';
+import { sortVersions } from './version-utils.js';
+import { generateCrashReport } from './crash-report.js';
+import { renderCrashReport } from './report-renderer.js';
+import { IssueTrackerClient, draftTicket } from './issue-tracker.js';
+import { TicketStore } from './ticket-store.js';
+import { firebaseConsoleIssueUrl } from './console-links.js';
+import { parseResourceUri, resourceUri } from './resource-uris.js';
+import { CrashWatcher } from './watcher.js';
+import { QueryContext, runInQueryContext } from './query-context.js';
+import { EventCursor, decodeEventCursor, paginateEvents } from './event-cursor.js';
 import {
   ServerConfig,
+  CrashEvent,
+  CrashFrame,
+  CrashDetails,
+  StackFrame,
+  TeamCrashRollup,
+  DeobfuscationStatus,
+  DataSourceType,
+  CrashFreeDenominatorSource,
   FetchCrashesParams,
   GetCrashDetailsParams,
   GetCrashDetailsByIssueIdParams,
+  ListAppEventsParams,
   AnalyzeCrashTrendsParams,
+  ListTopIssuesParams,
+  CompareVersionsParams,
+  DetectCrashAnomaliesParams,
+  GetUserCrashHistoryParams,
+  GetCrashTimelineParams,
+  AnalyzeAnrIssueParams,
+  FindSimilarIssuesParams,
+  GetTeamCrashRollupParams,
+  FindSuspectCommitsParams,
+  GenerateCrashReportParams,
+  CreateTicketFromIssueParams,
+  FiledTicket,
+  TicketDraft,
+  TicketTracker,
+  CrashlyticsResource,
+  IssueAggregate,
+  IssueSummary,
 } from './types.js';
 
-class CrashlyticsServer {
+// How long each tool's queries may be served from the query cache. Exported
+// events never change, so lookups by ID can be cached longer than aggregates.
+const TOOL_CACHE_TTL_SECONDS: Record<string, number> = {
+  list_available_apps: 1800,
+  get_fatal_crashes: 300,
+  get_anr_issues: 300,
+  get_crash_details: 3600,
+  get_crash_details_by_issue_id: 600,
+  analyze_crash_trends: 900,
+  list_top_issues: 300,
+  compare_versions: 900,
+  detect_crash_anomalies: 120,
+  get_user_crash_history: 300,
+  get_crash_timeline: 3600,
+  analyze_anr_issue: 600,
+  find_similar_issues: 900,
+  get_team_crash_rollup: 300,
+  find_suspect_commits: 600,
+  generate_crash_report: 900,
+  create_ticket_from_issue: 600,
+};
+
+const DEFAULT_TICKET_STORE_FILE = '.crashlytics-tickets.json';
+
+// Resources are read with the queries, and cache TTLs, of these tools.
+const RESOURCE_TOOLS: Record<CrashlyticsResource['kind'], string> = {
+  apps: 'list_available_apps',
+  app_issues: 'list_top_issues',
+  issue: 'get_crash_details_by_issue_id',
+  event: 'get_crash_details',
+};
+
+// Newest events included in an issue resource.
+const ISSUE_RESOURCE_EVENTS = 5;
+
+const RESOURCE_MIME_TYPE = 'application/json';
+
+// Issues fetched per version for compare_versions, above the list_top_issues cap.
+const VERSION_COMPARISON_ISSUE_LIMIT = 1000;
+
+// Events sampled per issue, and in total, when comparing stack signatures.
+const SIMILARITY_EVENTS_PER_ISSUE = 3;
+const SIMILARITY_MAX_EVENTS = 600;
+
+// Issues rolled up per team; ownership is resolved once per issue.
+const TEAM_ROLLUP_ISSUE_LIMIT = 1000;
+
+// Events whose in-app frames are matched against git history.
+const SUSPECT_SAMPLE_EVENTS = 50;
+
+const STRING_OR_LIST_SCHEMA = {
+  anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+};
+
+const VERSION_RANGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    min: { type: 'string', description: 'Lowest version to include' },
+    max: { type: 'string', description: 'Highest version to include; missing segments count as 0, so 4.12 excludes 4.12.1' },
+  },
+  additionalProperties: false,
+};
+
+// JSON schema of `CrashFilter`, shared by the listing tools.
+const CRASH_FILTER_SCHEMA = {
+  type: 'object',
+  description: 'Only include events matching every given condition; lists match any of their values, case-insensitively',
+  properties: {
+    start_time: { type: 'string', description: 'ISO 8601 timestamp, inclusive' },
+    end_time: { type: 'string', description: 'ISO 8601 timestamp, exclusive' },
+    issue_type: { type: 'string', enum: ['fatal', 'non_fatal', 'anr', 'all'] },
+    device_manufacturer: { ...STRING_OR_LIST_SCHEMA, description: 'e.g. "Samsung"' },
+    device_model: { ...STRING_OR_LIST_SCHEMA, description: 'e.g. ["SM-G991B", "Pixel 7"]' },
+    os_version: { ...VERSION_RANGE_SCHEMA, description: 'OS display version range, e.g. { "min": "14" }' },
+    app_version: { ...VERSION_RANGE_SCHEMA, description: 'App display version range, compared numerically, e.g. { "min": "4.10", "max": "4.12.3" }' },
+    build_version: { ...VERSION_RANGE_SCHEMA, description: 'Build number range, e.g. { "min": "4120" }' },
+    country: { ...STRING_OR_LIST_SCHEMA, description: 'Country codes, read from the custom key set by COUNTRY_CUSTOM_KEY' },
+    process_state: { ...STRING_OR_LIST_SCHEMA, description: 'e.g. "BACKGROUND"' },
+    custom_keys: {
+      type: 'array',
+      maxItems: 10,
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string' },
+          equals: { type: 'string', description: 'Exact value' },
+          contains: { type: 'string', description: 'Case-insensitive substring' },
+        },
+        required: ['key'],
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+export class CrashlyticsServer {
   private server: Server;
-  private bigQueryClient: BigQueryClient | null = null;
+  private dataSource: CrashDataSource | null = null;
   private crashProcessor: CrashProcessor | null = null;
+  private proguardRetracer: ProguardRetracer | null = null;
+  private sourceMapResolver: SourceMapResolver | null = null;
+  private codeOwners: CodeOwnersResolver | null = null;
+  private sourceSnippets: SourceSnippetResolver | null = null;
+  private suspectCommits: SuspectCommitFinder | null = null;
+  private issueTracker: IssueTrackerClient | null = null;
+  private ticketStore: TicketStore | null = null;
+  private ticketFilings = new Map<string, Promise<{ created: boolean; ticket: FiledTicket }>>();
+  private anomalyDetector = new AnomalyDetector();
+  private timelineBuilder = new CrashTimelineBuilder();
+  private anrAnalyzer = new AnrAnalyzer();
+  private similarityAnalyzer = new IssueSimilarityAnalyzer();
+  private watcher: CrashWatcher | null = null;
   private config: ServerConfig | null = null;
 
   constructor() {
@@ -35,46 +196,190 @@ class CrashlyticsServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
     this.setupErrorHandling();
   }
 
   private async initialize(): Promise<void> {
-    if (this.bigQueryClient) return;
+    if (this.dataSource) return;
 
     try {
       this.config = {
+        dataSource: DataSourceType.parse((process.env.CRASH_DATA_SOURCE || 'bigquery').toLowerCase()),
         serviceAccountKey: process.env.GOOGLE_SERVICE_ACCOUNT_KEY || '',
         projectId: process.env.BIGQUERY_PROJECT_ID || '',
         datasetId: process.env.BIGQUERY_DATASET_ID || '',
+        fixturePath: process.env.CRASHLYTICS_FIXTURE_PATH,
+        proguardMappingDir: process.env.PROGUARD_MAPPING_DIR,
+        sourceMapDir: process.env.SOURCE_MAP_DIR,
+        appRepoPath: process.env.APP_REPO_PATH,
+        codeOwnersPath: process.env.CODEOWNERS_PATH,
+        ticketTrackers: {
+          ...(process.env.GITHUB_REPOSITORY ? {
+            github: {
+              apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+              repository: process.env.GITHUB_REPOSITORY,
+              token: process.env.GITHUB_TOKEN,
+            },
+          } : {}),
+          ...(process.env.JIRA_BASE_URL ? {
+            jira: {
+              baseUrl: process.env.JIRA_BASE_URL,
+              projectKey: process.env.JIRA_PROJECT_KEY || '',
+              issueType: process.env.JIRA_ISSUE_TYPE || 'Bug',
+              email: process.env.JIRA_EMAIL,
+              apiToken: process.env.JIRA_API_TOKEN,
+            },
+          } : {}),
+        },
+        ticketStoreFile: process.env.TICKET_STORE_FILE || DEFAULT_TICKET_STORE_FILE,
         defaultCrashLimit: parseInt(process.env.DEFAULT_CRASH_LIMIT || '10', 10),
+        countryCustomKey: process.env.COUNTRY_CUSTOM_KEY || 'country',
+        crashFreeDenominator: CrashFreeDenominatorSource.parse((process.env.CRASH_FREE_DENOMINATOR || 'none').toLowerCase()),
+        analyticsDatasetId: process.env.ANALYTICS_DATASET_ID,
+        crashFreeDenominatorTable: process.env.CRASH_FREE_DENOMINATOR_TABLE,
+        queryCache: {
+          ttlSeconds: parseInt(process.env.QUERY_CACHE_TTL_SECONDS || '300', 10),
+          maxEntries: parseInt(process.env.QUERY_CACHE_MAX_ENTRIES || '200', 10),
+          maxBytes: parseInt(process.env.QUERY_CACHE_MAX_MB || '64', 10) * 1024 * 1024,
+        },
+        queryCost: {
+          dryRun: process.env.BIGQUERY_DRY_RUN !== 'false',
+          maxBytesPerQuery: parseFloat(process.env.BIGQUERY_MAX_GB_PER_QUERY || '10') * 1024 ** 3,
+          maxBytesPerSession: parseFloat(process.env.BIGQUERY_MAX_GB_PER_SESSION || '100') * 1024 ** 3,
+          defaultLookbackDays: parseInt(process.env.BIGQUERY_DEFAULT_LOOKBACK_DAYS || '90', 10),
+        },
       };
 
-      if (!this.config.serviceAccountKey || !this.config.projectId || !this.config.datasetId) {
-        throw new Error(
-          'Missing required environment variables: GOOGLE_SERVICE_ACCOUNT_KEY, BIGQUERY_PROJECT_ID, BIGQUERY_DATASET_ID'
-        );
+      if (this.config.ticketTrackers.jira && !this.config.ticketTrackers.jira.projectKey) {
+        throw new Error('Missing required environment variable: JIRA_PROJECT_KEY (JIRA_BASE_URL)');
       }
 
-      this.bigQueryClient = new BigQueryClient(this.config);
+      const dataSource = this.createDataSource(this.config);
       this.crashProcessor = new CrashProcessor();
+      this.proguardRetracer = this.config.proguardMappingDir
+        ? new ProguardRetracer(this.config.proguardMappingDir)
+        : null;
+      this.sourceMapResolver = this.config.sourceMapDir
+        ? new SourceMapResolver(this.config.sourceMapDir)
+        : null;
+      if (this.config.appRepoPath) {
+        const sourceFiles = new SourceFileIndex(this.config.appRepoPath);
+        this.codeOwners = new CodeOwnersResolver(sourceFiles, this.config.codeOwnersPath);
+        this.sourceSnippets = new SourceSnippetResolver(sourceFiles);
+        this.suspectCommits = new SuspectCommitFinder(sourceFiles);
+      }
+      this.issueTracker = new IssueTrackerClient(this.config.ticketTrackers);
+      this.ticketStore = new TicketStore(this.config.ticketStoreFile);
 
-      const isConnected = await this.bigQueryClient.testConnection();
+      const isConnected = await dataSource.testConnection();
       if (!isConnected) {
-        throw new Error('Failed to connect to BigQuery');
+        throw new Error(`Failed to connect to ${this.config.dataSource} data source`);
       }
 
-      console.error('Crashlytics MCP server initialized successfully');
+      this.dataSource = dataSource;
+      console.error(`Crashlytics MCP server initialized successfully (${this.config.dataSource} data source)`);
     } catch (error) {
       console.error('Failed to initialize Crashlytics MCP server:', error);
       throw error;
     }
   }
 
+  private createDataSource(config: ServerConfig): CrashDataSource {
+    if (config.crashFreeDenominator === 'analytics' && !config.analyticsDatasetId) {
+      throw new Error('Missing required environment variable: ANALYTICS_DATASET_ID (CRASH_FREE_DENOMINATOR=analytics)');
+    }
+    if (config.crashFreeDenominator === 'table' && !config.crashFreeDenominatorTable) {
+      throw new Error('Missing required environment variable: CRASH_FREE_DENOMINATOR_TABLE (CRASH_FREE_DENOMINATOR=table)');
+    }
+
+    if (config.dataSource === 'fixture') {
+      if (config.crashFreeDenominator !== 'none') {
+        throw new Error('CRASH_FREE_DENOMINATOR requires the bigquery data source');
+      }
+      if (!config.fixturePath) {
+        throw new Error('Missing required environment variable: CRASHLYTICS_FIXTURE_PATH');
+      }
+      return new FixtureDataSource(config.fixturePath, config.defaultCrashLimit, config.countryCustomKey);
+    }
+
+    if (!config.serviceAccountKey || !config.projectId || !config.datasetId) {
+      throw new Error(
+        'Missing required environment variables: GOOGLE_SERVICE_ACCOUNT_KEY, BIGQUERY_PROJECT_ID, BIGQUERY_DATASET_ID'
+      );
+    }
+    return new BigQueryClient(config);
+  }
+
+  private async deobfuscateEvent(event: CrashEvent): Promise<{ event: CrashEvent; options: CrashDetailsOptions }> {
+    const deobfuscation: DeobfuscationStatus[] = [];
+
+    if (this.proguardRetracer) {
+      const retraced = await this.proguardRetracer.retraceEvent(event);
+      event = retraced.event;
+      if (retraced.deobfuscation) deobfuscation.push(retraced.deobfuscation);
+    }
+
+    const options: CrashDetailsOptions = { deobfuscation };
+    if (this.sourceMapResolver) {
+      options.sourceMaps = await this.sourceMapResolver.loadForEvent(event);
+    }
+
+    return { event, options };
+  }
+
+  /**
+   * Adds the owners of a crash's first in-app frame, falling back to the
+   * frame Crashlytics blamed. An unreadable ownership file still leaves the
+   * crash details, just without owners.
+   */
+  private async withOwners(details: CrashDetails): Promise<CrashDetails> {
+    if (!this.codeOwners) return details;
+
+    const frame: StackFrame | undefined = details.stack_trace.frames.find(isAppFrame) || details.stack_trace.blamed_frame;
+    if (!frame) return { ...details, owners: [] };
+
+    try {
+      const { owners, ...ownerSource } = await this.codeOwners.resolveFrame({ file: frame.file, symbol: frame.symbol });
+      return { ...details, owners, owner_source: ownerSource };
+    } catch (error) {
+      console.error('Crash owners unavailable:', error);
+      return details;
+    }
+  }
+
+  private async ownersOf(frame: CrashFrame | null): Promise<string[]> {
+    if (!frame?.file || !isAppFrame(frame)) return [];
+    return (await this.codeOwners!.resolveFrame(frame)).owners;
+  }
+
+  /** All-time totals of one issue of an app, or null when the app has no events of it. */
+  private async issueAggregateOf(appPackage: string, issueId: string): Promise<IssueAggregate | null> {
+    const [aggregate] = await this.dataSource!.fetchIssueAggregates({
+      app_package: appPackage,
+      issue_id: issueId,
+      time_range: 'all',
+      issue_type: 'all',
+      sort_by: 'events',
+      limit: 1,
+    });
+    return aggregate || null;
+  }
+
+  /** Owners of each event's first in-app frame, retraced first as its file name may be obfuscated. */
+  private async ownersOfEvents(rows: CrashEvent[]): Promise<string[][]> {
+    return Promise.all(rows.map(async row => {
+      const event = this.proguardRetracer ? (await this.proguardRetracer.retraceEvent(row)).event : row;
+      return this.ownersOf(firstAppFrame(event));
+    }));
+  }
+
   private setupToolHandlers(): void {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
@@ -89,7 +394,7 @@ class CrashlyticsServer {
           },
           {
             name: 'get_fatal_crashes',
-            description: 'Get fatal crashes for a specific app package name',
+            description: 'Get fatal crashes for a specific app package name, newest first. Pass next_cursor back as cursor to page through older crashes.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -105,13 +410,18 @@ class CrashlyticsServer {
                   maximum: 50,
                   default: 10
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'next_cursor from a previous response, to fetch the following page',
+                },
+                filter: CRASH_FILTER_SCHEMA,
               },
               required: ['app_package'],
             },
           },
           {
             name: 'get_anr_issues',
-            description: 'Get ANR (Application Not Responding) issues for a specific app package name',
+            description: 'Get ANR (Application Not Responding) issues for a specific app package name, newest first. Pass next_cursor back as cursor to page through older events. Use analyze_anr_issue to classify why an issue blocks the main thread.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -127,6 +437,11 @@ class CrashlyticsServer {
                   maximum: 50,
                   default: 10
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'next_cursor from a previous response, to fetch the following page',
+                },
+                filter: CRASH_FILTER_SCHEMA,
               },
               required: ['app_package'],
             },
@@ -142,13 +457,23 @@ class CrashlyticsServer {
                   description: 'Unique crash identifier',
                   minLength: 1,
                 },
+                include_source: {
+                  type: 'boolean',
+                  description: 'Include source lines around in-app frames from the local checkout at APP_REPO_PATH, if configured (default: true)',
+                },
+                context_lines: {
+                  type: 'number',
+                  description: 'Source lines shown before and after each frame\'s line (default: 5, max: 30)',
+                  minimum: 0,
+                  maximum: 30,
+                },
               },
               required: ['crash_id'],
             },
           },
           {
             name: 'get_crash_details_by_issue_id',
-            description: 'Get detailed information for crashes associated with a Firebase Console issue_id. Returns multiple events (default 10, max 100) to enable both lightweight and detailed analysis.',
+            description: 'Get detailed information for crashes associated with a Firebase Console issue_id. Returns multiple events (default 10, max 100) to enable both lightweight and detailed analysis. Pass next_cursor back as cursor to walk all events of the issue.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -163,19 +488,24 @@ class CrashlyticsServer {
                   minimum: 1,
                   maximum: 100,
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'next_cursor from a previous response, to fetch the following page',
+                },
+                filter: CRASH_FILTER_SCHEMA,
               },
               required: ['issue_id'],
             },
           },
           {
             name: 'analyze_crash_trends',
-            description: 'Analyze crash trends and statistics over time',
+            description: 'Analyze crash trends and statistics over time, including crash-free users and sessions when an exposure denominator is configured',
             inputSchema: {
               type: 'object',
               properties: {
                 time_range: {
                   type: 'string',
-                  enum: ['24h', '7d', '30d', 'all'],
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
                   description: 'Analysis period',
                 },
                 group_by: {
@@ -187,239 +517,1446 @@ class CrashlyticsServer {
               required: ['time_range'],
             },
           },
-        ],
-      };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      await this.initialize();
-
-      if (!this.bigQueryClient || !this.crashProcessor) {
-        throw new McpError(ErrorCode.InternalError, 'Server not properly initialized');
-      }
-
-      try {
-        switch (request.params.name) {
-          case 'list_available_apps':
-            return await this.handleListAvailableApps();
-
-          case 'get_fatal_crashes':
-            return await this.handleGetFatalCrashes(request.params.arguments);
-
-          case 'get_anr_issues':
-            return await this.handleGetAnrIssues(request.params.arguments);
-
-          case 'get_crash_details':
-            return await this.handleGetCrashDetails(request.params.arguments);
-
-          case 'get_crash_details_by_issue_id':
-            return await this.handleGetCrashDetailsByIssueId(request.params.arguments);
-
-          case 'analyze_crash_trends':
-            return await this.handleAnalyzeCrashTrends(request.params.arguments);
-
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
-        }
-      } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        console.error(`Error in ${request.params.name}:`, error);
-        throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${error}`);
-      }
-    });
-  }
-
-  private async handleListAvailableApps() {
-    const apps = await this.bigQueryClient!.discoverApps();
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            available_apps: apps.map(app => ({
-              app_package: app.app_package,
-              platform: app.platform,
-              total_crashes: app.total_crashes,
-              fatal_crashes: app.fatal_crashes,
-              non_fatal_crashes: app.non_fatal_crashes
-            })),
-            message: "Available apps in your Firebase Crashlytics dataset. Use get_fatal_crashes or get_anr_issues with the app_package."
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async handleGetFatalCrashes(args: any) {
-    const appPackage = args?.app_package;
-    const limit = args?.limit || 10;
-    
-    if (!appPackage) {
-      throw new McpError(ErrorCode.InvalidRequest, 'app_package parameter is required');
-    }
-    
-    const rows = await this.bigQueryClient!.fetchFatalCrashesByApp(appPackage, limit);
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            app_package: appPackage,
-            fatal_crashes: rows.map((crash: any) => ({
-              crash_id: crash.event_id,
-              timestamp: crash.event_timestamp,
-              issue_title: crash.issue_title,
-              issue_subtitle: crash.issue_subtitle,
-              device: crash.device,
-              app_version: crash.application?.display_version,
-              exception_info: crash.exceptions?.[0] || null
-            })),
-            total_found: rows.length,
-            message: `Found ${rows.length} fatal crashes for ${appPackage}`
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async handleGetAnrIssues(args: any) {
-    const appPackage = args?.app_package;
-    const limit = args?.limit || 10;
-    
-    if (!appPackage) {
-      throw new McpError(ErrorCode.InvalidRequest, 'app_package parameter is required');
-    }
-    
-    const rows = await this.bigQueryClient!.fetchANRIssuesByApp(appPackage, limit);
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            app_package: appPackage,
-            anr_issues: rows.map((crash: any) => ({
-              crash_id: crash.event_id,
-              timestamp: crash.event_timestamp,
-              issue_title: crash.issue_title,
-              issue_subtitle: crash.issue_subtitle,
-              device: crash.device,
-              app_version: crash.application?.display_version,
-              process_state: crash.process_state,
-              blame_frame: crash.blame_frame
-            })),
-            total_found: rows.length,
-            message: `Found ${rows.length} ANR issues for ${appPackage}`
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async handleGetCrashDetails(args: any) {
-    const params = GetCrashDetailsParams.parse(args);
-    
-    const row = await this.bigQueryClient!.getCrashDetails(params);
-    if (!row) {
-      throw new McpError(ErrorCode.InvalidRequest, `Crash not found: ${params.crash_id}`);
-    }
-
-    const crashDetails = this.crashProcessor!.processCrashDetails(row);
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(crashDetails, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async handleGetCrashDetailsByIssueId(args: any) {
-    const params = GetCrashDetailsByIssueIdParams.parse(args);
-    
-    const rows = await this.bigQueryClient!.getCrashDetailsByIssueId(params);
-    if (rows.length === 0) {
-      throw new McpError(ErrorCode.InvalidRequest, `No crashes found for issue_id: ${params.issue_id}`);
-    }
-
-    const crashDetails = rows.map(row => this.crashProcessor!.processCrashDetails(row));
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            issue_id: params.issue_id,
-            total_events_retrieved: crashDetails.length,
-            events: crashDetails
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async handleAnalyzeCrashTrends(args: any) {
-    const params = AnalyzeCrashTrendsParams.parse(args);
-    
-    const [crashStats, crashFreeCounts] = await Promise.all([
-      this.bigQueryClient!.getCrashStatistics(params),
-      this.bigQueryClient!.getCrashFreeCounts(params.time_range),
-    ]);
-
-    const topCrashRows = await this.bigQueryClient!.fetchCrashes({
-      limit: 10,
-      time_range: params.time_range,
-    });
-    const topCrashes = this.crashProcessor!.processCrashRows(topCrashRows);
-
-    const trendAnalysis = this.crashProcessor!.processTrendAnalysis(
-      crashStats,
-      crashFreeCounts,
-      topCrashes,
-      params.time_range
-    );
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            analysis_period: params.time_range,
-            group_by: params.group_by || 'version',
-            ...trendAnalysis,
-          }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      console.error('[MCP Error]', error);
-    };
-
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-  }
-
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('Crashlytics MCP server running on stdio');
-  }
-}
-
-const server = new CrashlyticsServer();
-server.run().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+          {
+            name: 'list_top_issues',
+            description: 'List the top Crashlytics issues for an app, aggregated by issue_id, with affected users, versions, OS range and growth versus the previous period',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                app_package: {
+                  type: 'string',
+                  description: 'App package name (e.g., com.example.app)',
+                },
+                time_range: {
+                  type: 'string',
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
+                  description: 'Aggregation period (default: 7d)',
+                },
+                issue_type: {
+                  type: 'string',
+                  enum: ['fatal', 'non_fatal', 'anr', 'all'],
+                  description: 'Restrict to one issue type (default: all)',
+                },
+                sort_by: {
+                  type: 'string',
+                  enum: ['users', 'events', 'growth'],
+                  description: 'Ranking criteria; growth compares the second half of the period with the first (default: users)',
+                },
+                app_version: {
+                  type: 'string',
+                  description: 'Only count events from this display version',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Number of issues to return (default: 20, max: 100)',
+                  minimum: 1,
+                  maximum: 100,
+                },
+                filter: CRASH_FILTER_SCHEMA,
+              },
+              required: ['app_package'],
+            },
+          },
+          {
+            name: 'compare_versions',
+            description: 'Compare two app versions: new issues, resolved issues, and issues whose rate per session and active user (with a crash-free denominator) or share of each version\'s crashes changed significantly',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                app_package: {
+                  type: 'string',
+                  description: 'App package name (e.g., com.example.app)',
+                },
+                base_version: {
+                  type: 'string',
+                  description: 'Baseline display version (e.g., 4.11.2)',
+                },
+                target_version: {
+                  type: 'string',
+                  description: 'Version to check for regressions (e.g., 4.12.0)',
+                },
+                time_range: {
+                  type: 'string',
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
+                  description: 'Period to compare over (default: 30d)',
+                },
+                min_rate_change: {
+                  type: 'number',
+                  description: 'Minimum relative rate change, in percent, for an issue to count as regressed or improved (default: 50)',
+                  minimum: 0,
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum issues per category (default: 20, max: 100)',
+                  minimum: 1,
+                  maximum: 100,
+                },
+              },
+              required: ['app_package', 'base_version', 'target_version'],
+            },
+          },
+          {
+            name: 'detect_crash_anomalies',
+            description: 'Detect unusual crash volume in the latest complete hour or day: spikes, newly emerging issues and sudden drops, scored against a day-of-week aware baseline',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                app_package: {
+                  type: 'string',
+                  description: 'Restrict to one app package (default: all apps)',
+                },
+                granularity: {
+                  type: 'string',
+                  enum: ['hour', 'day'],
+                  description: 'Bucket size; the latest complete bucket is evaluated (default: day)',
+                },
+                dimension: {
+                  type: 'string',
+                  enum: ['app', 'issue', 'version'],
+                  description: 'What each series tracks (default: issue)',
+                },
+                lookback_days: {
+                  type: 'number',
+                  description: 'Days of history used for the baseline (default: 28, min: 7, max: 56)',
+                  minimum: 7,
+                  maximum: 56,
+                },
+                min_score: {
+                  type: 'number',
+                  description: 'Minimum robust z-score to report a spike or drop (default: 3)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum anomalies to return (default: 20, max: 100)',
+                  minimum: 1,
+                  maximum: 100,
+                },
+              },
+            },
+          },
+          {
+            name: 'get_user_crash_history',
+            description: 'List every crash, ANR and non-fatal recorded for one user ID or installation, across versions and devices, grouped by session, with the issues involved and links to event details',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                user_id: {
+                  type: 'string',
+                  description: 'User identifier set with setUserId (give this or installation_uuid)',
+                },
+                installation_uuid: {
+                  type: 'string',
+                  description: 'Crashlytics installation UUID (give this or user_id)',
+                },
+                app_package: {
+                  type: 'string',
+                  description: 'Restrict to one app package (default: all apps)',
+                },
+                time_range: {
+                  type: 'string',
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
+                  description: 'How far back to look (default: 30d)',
+                },
+                view: {
+                  type: 'string',
+                  enum: ['sessions', 'events'],
+                  description: 'Group events by session, or list them newest first (default: sessions)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum events to include (default: 100, max: 500)',
+                  minimum: 1,
+                  maximum: 500,
+                },
+              },
+            },
+          },
+          {
+            name: 'get_crash_timeline',
+            description: 'Reconstruct what happened before a crash: Crashlytics logs, analytics breadcrumbs with their params, and non-fatal errors from the same session in one chronological timeline relative to the crash, highlighting screen transitions and the last user actions',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                crash_id: {
+                  type: 'string',
+                  description: 'Crash event identifier (crash_id from the crash listings)',
+                  minLength: 1,
+                },
+                window_minutes: {
+                  type: 'number',
+                  description: 'How many minutes before the crash to include (default: 30, max: 1440)',
+                  minimum: 1,
+                  maximum: 1440,
+                },
+                include_non_fatals: {
+                  type: 'boolean',
+                  description: 'Include non-fatal errors recorded earlier in the same session (default: true)',
+                },
+                max_entries: {
+                  type: 'number',
+                  description: 'Maximum timeline entries, keeping those closest to the crash (default: 200, max: 1000)',
+                  minimum: 1,
+                  maximum: 1000,
+                },
+              },
+              required: ['crash_id'],
+            },
+          },
+          {
+            name: 'analyze_anr_issue',
+            description: 'Classify why an ANR issue blocks the main thread by inspecting the thread dumps of its events: lock waits and deadlocks, binder calls, disk and network I/O, SharedPreferences commits, or a busy or idle main thread. Returns the causes ranked by how many events they explain.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                issue_id: {
+                  type: 'string',
+                  description: 'Firebase Crashlytics issue ID of an ANR issue',
+                  minLength: 1,
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Number of recent events to analyze (default: 50, max: 100)',
+                  minimum: 1,
+                  maximum: 100,
+                },
+                filter: CRASH_FILTER_SCHEMA,
+              },
+              required: ['issue_id'],
+            },
+          },
+          {
+            name: 'find_similar_issues',
+            description: 'Find issues that Crashlytics split from the same bug (across versions, obfuscation changes or slightly different top frames) by comparing normalized stack signatures. With issue_id, returns candidate duplicates of that issue with similarity scores; with only app_package, returns clusters of similar issues in the app.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                issue_id: {
+                  type: 'string',
+                  description: 'Issue to find duplicates of',
+                },
+                app_package: {
+                  type: 'string',
+                  description: 'App whose issues are compared (default: the app of issue_id)',
+                },
+                time_range: {
+                  type: 'string',
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
+                  description: 'Time range of the sampled events (default: 30d)',
+                },
+                min_similarity: {
+                  type: 'number',
+                  description: 'Minimum similarity between 0 and 1 (default: 0.6)',
+                  minimum: 0,
+                  maximum: 1,
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum similar issues or clusters (default: 10, max: 100)',
+                  minimum: 1,
+                  maximum: 100,
+                },
+              },
+            },
+          },
+          {
+            name: 'get_team_crash_rollup',
+            description: 'Roll up an app\'s crash issues by owning team, mapping each issue\'s blamed frame to a source file in the app repository (APP_REPO_PATH) and then to owners via CODEOWNERS or a team ownership file',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                app_package: {
+                  type: 'string',
+                  description: 'App package name (e.g., com.example.app)',
+                },
+                time_range: {
+                  type: 'string',
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
+                  description: 'Aggregation period (default: 7d)',
+                },
+                issue_type: {
+                  type: 'string',
+                  enum: ['fatal', 'non_fatal', 'anr', 'all'],
+                  description: 'Restrict to one issue type (default: all)',
+                },
+                top_issues: {
+                  type: 'number',
+                  description: 'Top issues listed per team, by events (default: 5, max: 20)',
+                  minimum: 1,
+                  maximum: 20,
+                },
+              },
+              required: ['app_package'],
+            },
+          },
+          {
+            name: 'find_suspect_commits',
+            description: 'Find the commits that likely caused an issue: resolves its in-app frames to files and lines in the local git checkout (APP_REPO_PATH) and ranks the commits between the last good and first bad version tags by whether they last changed the crashing lines (blame), nearby lines or the same files (log)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                issue_id: {
+                  type: 'string',
+                  description: 'Issue to find suspect commits for',
+                },
+                bad_version: {
+                  type: 'string',
+                  description: 'First version with the issue, or its tag (default: the oldest version the issue was seen in)',
+                },
+                good_version: {
+                  type: 'string',
+                  description: 'Last version without the issue, or its tag (default: the previous version tag)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum suspect commits (default: 10, max: 50)',
+                  minimum: 1,
+                  maximum: 50,
+                },
+              },
+              required: ['issue_id'],
+            },
+          },
+          {
+            name: 'generate_crash_report',
+            description: 'Generate a stability report for an app and period: crash-free trend, top issues by impact, new and regressed issues, device and OS breakdown and an ANR summary, rendered as Markdown, self-contained HTML with inline charts, or CSV tables',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                app_package: {
+                  type: 'string',
+                  description: 'App package name (e.g., com.example.app)',
+                },
+                time_range: {
+                  type: 'string',
+                  enum: ['1h', '24h', '7d', '30d', 'all'],
+                  description: 'Report period; new and regressed issues are found by comparing it with the next longer one, so a 30d report scans all history. An issue counts as new when that longer period saw it only within this one, so an issue returning after a longer gap also counts as new (default: 7d)',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['markdown', 'html', 'csv'],
+                  description: 'Output format (default: markdown)',
+                },
+                top_issues: {
+                  type: 'number',
+                  description: 'Issues listed per section (default: 10, max: 50)',
+                  minimum: 1,
+                  maximum: 50,
+                },
+              },
+              required: ['app_package'],
+            },
+          },
+          {
+            name: 'create_ticket_from_issue',
+            description: 'File a GitHub or Jira ticket for a Crashlytics issue, with its impact, affected versions, top frames, breadcrumbs and console link. Returns the existing ticket instead when one was already filed for the issue',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                issue_id: {
+                  type: 'string',
+                  description: 'Issue to file a ticket for',
+                },
+                tracker: {
+                  type: 'string',
+                  enum: ['github', 'jira'],
+                  description: 'Tracker to file to (default: the configured one; required when both are)',
+                },
+                labels: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Labels added to the ticket, besides "crashlytics" and the issue type',
+                },
+                dry_run: {
+                  type: 'boolean',
+                  description: 'Return the drafted request without filing it (default: false)',
+                },
+              },
+              required: ['issue_id'],
+            },
+          },
+        ].map(tool => ({
+          ...tool,
+          inputSchema: {
+            ...tool.inputSchema,
+            properties: {
+              ...tool.inputSchema.properties,
+              refresh: {
+                type: 'boolean',
+                description: 'Bypass cached query results and re-run the queries (default: false)',
+              },
+            },
+          },
+        })),
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      await this.initialize();
+
+      if (!this.dataSource || !this.crashProcessor) {
+        throw new McpError(ErrorCode.InternalError, 'Server not properly initialized');
+      }
+
+      try {
+        const queryContext: QueryContext = {
+          ttlSeconds: this.config!.queryCache.ttlSeconds > 0
+            ? TOOL_CACHE_TTL_SECONDS[request.params.name] ?? this.config!.queryCache.ttlSeconds
+            : 0,
+          forceRefresh: request.params.arguments?.refresh === true,
+          lookups: [],
+          jobs: [],
+        };
+        const result = await runInQueryContext(queryContext, () =>
+          this.callTool(request.params.name, request.params.arguments)
+        );
+        return this.withQueryInfo(result, queryContext);
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        
+        console.error(`Error in ${request.params.name}:`, error);
+        throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${error}`);
+      }
+    });
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const apps = await this.withResourceQueries('apps', () => this.dataSource!.discoverApps());
+
+      return {
+        resources: [
+          {
+            uri: resourceUri({ kind: 'apps' }),
+            name: 'Crashlytics apps',
+            description: 'Apps in the Crashlytics dataset, with crash counts',
+            mimeType: RESOURCE_MIME_TYPE,
+          },
+          ...apps.map(app => ({
+            uri: resourceUri({ kind: 'app_issues', app_package: app.app_package }),
+            name: `${app.app_package} issues`,
+            description: `Top issues of ${app.app_package} (${app.platform}) over the last 7 days, by affected users`,
+            mimeType: RESOURCE_MIME_TYPE,
+          })),
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: 'crashlytics://apps/{package}/issues',
+          name: 'App issues',
+          description: 'Top issues of an app over the last 7 days, by affected users',
+          mimeType: RESOURCE_MIME_TYPE,
+        },
+        {
+          uriTemplate: 'crashlytics://apps/{package}/issues/{issue_id}',
+          name: 'Crashlytics issue',
+          description: `An issue's summary over all time and the crash details of its ${ISSUE_RESOURCE_EVENTS} newest events`,
+          mimeType: RESOURCE_MIME_TYPE,
+        },
+        {
+          uriTemplate: 'crashlytics://events/{event_id}',
+          name: 'Crash event',
+          description: 'Crash details of one event, as returned by get_crash_details',
+          mimeType: RESOURCE_MIME_TYPE,
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const resource = parseResourceUri(uri);
+      if (!resource) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+
+      const contents = await this.withResourceQueries(resource.kind, () => this.readResource(resource));
+      return {
+        contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(contents, null, 2) }],
+      };
+    });
+  }
+
+  /** Runs a resource request's queries like those of the tool it shares them with. */
+  private async withResourceQueries<T>(kind: CrashlyticsResource['kind'], read: () => Promise<T>): Promise<T> {
+    await this.initialize();
+
+    if (!this.dataSource || !this.crashProcessor) {
+      throw new McpError(ErrorCode.InternalError, 'Server not properly initialized');
+    }
+
+    try {
+      const queryContext: QueryContext = {
+        ttlSeconds: this.config!.queryCache.ttlSeconds > 0
+          ? TOOL_CACHE_TTL_SECONDS[RESOURCE_TOOLS[kind]] ?? this.config!.queryCache.ttlSeconds
+          : 0,
+        forceRefresh: false,
+        lookups: [],
+        jobs: [],
+      };
+      return await runInQueryContext(queryContext, read);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      console.error(`Error reading ${kind} resource:`, error);
+      throw new McpError(ErrorCode.InternalError, `Resource read failed: ${error}`);
+    }
+  }
+
+  private async readResource(resource: CrashlyticsResource): Promise<object> {
+    switch (resource.kind) {
+      case 'apps': {
+        const apps = await this.dataSource!.discoverApps();
+        return {
+          apps: apps.map(app => ({
+            ...app,
+            issues_uri: resourceUri({ kind: 'app_issues', app_package: app.app_package }),
+          })),
+        };
+      }
+
+      case 'app_issues': {
+        const params = ListTopIssuesParams.parse({ app_package: resource.app_package });
+        const issues = await this.issuesWithOwners(await this.dataSource!.fetchIssueAggregates(params));
+        return {
+          app_package: params.app_package,
+          time_range: params.time_range,
+          sort_by: params.sort_by,
+          issues: issues.map(issue => ({
+            uri: resourceUri({ kind: 'issue', app_package: params.app_package, issue_id: issue.issue_id }),
+            ...issue,
+          })),
+        };
+      }
+
+      case 'issue': {
+        const rows = (await this.dataSource!.getCrashDetailsByIssueId({ issue_id: resource.issue_id, limit: ISSUE_RESOURCE_EVENTS }))
+          .filter(row => row.bundle_identifier === resource.app_package);
+        if (rows.length === 0) {
+          throw new McpError(ErrorCode.InvalidRequest, `No crashes found for issue_id ${resource.issue_id} in ${resource.app_package}`);
+        }
+
+        const aggregate = await this.issueAggregateOf(resource.app_package, resource.issue_id);
+        const events = await Promise.all(rows.map(async row => {
+          const { event, options } = await this.deobfuscateEvent(row);
+          return this.withOwners(this.crashProcessor!.processCrashDetails(event, options));
+        }));
+
+        return {
+          app_package: resource.app_package,
+          issue: aggregate ? (await this.issuesWithOwners([aggregate]))[0] : null,
+          recent_events: events.map(details => ({
+            uri: resourceUri({ kind: 'event', event_id: details.crash_summary.id }),
+            ...details,
+          })),
+        };
+      }
+
+      case 'event':
+        return this.loadCrashDetails(GetCrashDetailsParams.parse({ crash_id: resource.event_id }));
+    }
+  }
+
+  private async callTool(name: string, args: any) {
+    switch (name) {
+      case 'list_available_apps':
+        return await this.handleListAvailableApps();
+
+      case 'get_fatal_crashes':
+        return await this.handleGetFatalCrashes(args);
+
+      case 'get_anr_issues':
+        return await this.handleGetAnrIssues(args);
+
+      case 'get_crash_details':
+        return await this.handleGetCrashDetails(args);
+
+      case 'get_crash_details_by_issue_id':
+        return await this.handleGetCrashDetailsByIssueId(args);
+
+      case 'analyze_crash_trends':
+        return await this.handleAnalyzeCrashTrends(args);
+
+      case 'list_top_issues':
+        return await this.handleListTopIssues(args);
+
+      case 'compare_versions':
+        return await this.handleCompareVersions(args);
+
+      case 'detect_crash_anomalies':
+        return await this.handleDetectCrashAnomalies(args);
+
+      case 'get_user_crash_history':
+        return await this.handleGetUserCrashHistory(args);
+
+      case 'get_crash_timeline':
+        return await this.handleGetCrashTimeline(args);
+
+      case 'analyze_anr_issue':
+        return await this.handleAnalyzeAnrIssue(args);
+
+      case 'find_similar_issues':
+        return await this.handleFindSimilarIssues(args);
+
+      case 'get_team_crash_rollup':
+        return await this.handleGetTeamCrashRollup(args);
+
+      case 'find_suspect_commits':
+        return await this.handleFindSuspectCommits(args);
+
+      case 'generate_crash_report':
+        return await this.handleGenerateCrashReport(args);
+
+      case 'create_ticket_from_issue':
+        return await this.handleCreateTicketFromIssue(args);
+
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Adds a `cache` section describing how the call's BigQuery queries were
+   * served and a `bigquery` section with the bytes the jobs it ran processed.
+   */
+  private withQueryInfo(result: any, queryContext: QueryContext) {
+    const { lookups, jobs, usage } = queryContext;
+    if (lookups.length === 0) return result;
+
+    const hits = lookups.filter(lookup => lookup.status === 'hit').length;
+    const coalesced = lookups.filter(lookup => lookup.status === 'coalesced').length;
+    const misses = lookups.length - hits - coalesced;
+    const cache = {
+      status: misses === 0 ? 'hit' : misses === lookups.length ? 'miss' : 'partial',
+      queries: lookups.length,
+      hits,
+      misses,
+      coalesced,
+      max_age_seconds: Math.max(...lookups.map(lookup => lookup.age_seconds)),
+      ttl_seconds: queryContext.ttlSeconds,
+      refreshed: queryContext.forceRefresh,
+    };
+    const bigquery = {
+      jobs: jobs.length,
+      estimated_bytes: jobs.every(job => job.estimated_bytes === null)
+        ? null
+        : jobs.reduce((sum, job) => sum + (job.estimated_bytes || 0), 0),
+      bytes_processed: jobs.reduce((sum, job) => sum + job.bytes_processed, 0),
+      bytes_billed: jobs.reduce((sum, job) => sum + job.bytes_billed, 0),
+      ...usage,
+    };
+
+    const [first, ...rest] = result.content;
+    return {
+      ...result,
+      content: [{ ...first, text: JSON.stringify({ ...JSON.parse(first.text), cache, bigquery }, null, 2) }, ...rest],
+    };
+  }
+
+  private decodeCursor(token: unknown, scope: string): EventCursor | undefined {
+    if (token === undefined || token === null || token === '') return undefined;
+    if (typeof token !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'cursor must be a string');
+    }
+
+    try {
+      return decodeEventCursor(token, scope);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async handleListAvailableApps() {
+    const apps = await this.dataSource!.discoverApps();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            available_apps: apps.map(app => ({
+              app_package: app.app_package,
+              platform: app.platform,
+              total_crashes: app.total_crashes,
+              fatal_crashes: app.fatal_crashes,
+              non_fatal_crashes: app.non_fatal_crashes
+            })),
+            message: "Available apps in your Firebase Crashlytics dataset. Use get_fatal_crashes or get_anr_issues with the app_package."
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetFatalCrashes(args: unknown) {
+    const { app_package: appPackage, limit, cursor, filter } = ListAppEventsParams.parse(args);
+    const scope = `get_fatal_crashes:${appPackage}:${JSON.stringify(filter || {})}`;
+    const after = this.decodeCursor(cursor, scope);
+    const { page: rows, nextCursor } = paginateEvents(
+      await this.dataSource!.fetchFatalCrashesByApp(appPackage, limit + 1, after, filter),
+      limit,
+      scope
+    );
+    const owners = this.codeOwners ? await this.ownersOfEvents(rows) : null;
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            app_package: appPackage,
+            ...(filter ? { filter } : {}),
+            fatal_crashes: rows.map((crash, index) => ({
+              crash_id: crash.event_id,
+              issue_id: crash.issue_id,
+              timestamp: crash.event_timestamp,
+              issue_title: crash.issue_title,
+              issue_subtitle: crash.issue_subtitle,
+              device: crash.device,
+              operating_system: crash.operating_system,
+              app_version: crash.application.display_version,
+              exception_info: crash.exceptions[0] || crash.errors[0] || null,
+              ...(owners ? { owners: owners[index] } : {})
+            })),
+            total_found: rows.length,
+            next_cursor: nextCursor,
+            message: `Found ${rows.length} fatal crashes for ${appPackage}${nextCursor ? '; more are available with next_cursor' : ''}`
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetAnrIssues(args: unknown) {
+    const { app_package: appPackage, limit, cursor, filter } = ListAppEventsParams.parse(args);
+    const scope = `get_anr_issues:${appPackage}:${JSON.stringify(filter || {})}`;
+    const after = this.decodeCursor(cursor, scope);
+    const { page: rows, nextCursor } = paginateEvents(
+      await this.dataSource!.fetchANRIssuesByApp(appPackage, limit + 1, after, filter),
+      limit,
+      scope
+    );
+    const owners = this.codeOwners ? await this.ownersOfEvents(rows) : null;
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            app_package: appPackage,
+            ...(filter ? { filter } : {}),
+            anr_issues: rows.map((crash, index) => ({
+              crash_id: crash.event_id,
+              issue_id: crash.issue_id,
+              timestamp: crash.event_timestamp,
+              issue_title: crash.issue_title,
+              issue_subtitle: crash.issue_subtitle,
+              device: crash.device,
+              operating_system: crash.operating_system,
+              app_version: crash.application.display_version,
+              process_state: crash.process_state,
+              blame_frame: crash.blame_frame,
+              ...(owners ? { owners: owners[index] } : {})
+            })),
+            total_found: rows.length,
+            next_cursor: nextCursor,
+            message: `Found ${rows.length} ANR issues for ${appPackage}${nextCursor ? '; more are available with next_cursor' : ''}`
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetCrashDetails(args: any) {
+    const crashDetails = await this.loadCrashDetails(GetCrashDetailsParams.parse(args));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(crashDetails, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async loadCrashDetails(params: GetCrashDetailsParams): Promise<CrashDetails> {
+    const row = await this.dataSource!.getCrashDetails(params);
+    if (!row) {
+      throw new McpError(ErrorCode.InvalidRequest, `Crash not found: ${params.crash_id}`);
+    }
+
+    const { event, options } = await this.deobfuscateEvent(row);
+    const crashDetails = await this.withOwners(this.crashProcessor!.processCrashDetails(event, options));
+    if (this.sourceSnippets && params.include_source) {
+      crashDetails.source_snippets = await this.sourceSnippets.snippetsFor(crashDetails.stack_trace.frames, params.context_lines);
+    }
+    return crashDetails;
+  }
+
+  private async handleGetCrashDetailsByIssueId(args: any) {
+    const params = GetCrashDetailsByIssueIdParams.parse(args);
+    const scope = `get_crash_details_by_issue_id:${params.issue_id}:${JSON.stringify(params.filter || {})}`;
+    const after = this.decodeCursor(params.cursor, scope);
+    
+    const { page: rows, nextCursor } = paginateEvents(
+      await this.dataSource!.getCrashDetailsByIssueId({ ...params, limit: params.limit + 1 }, after),
+      params.limit,
+      scope
+    );
+    if (rows.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        after ? `No more crashes for issue_id: ${params.issue_id}` : `No crashes found for issue_id: ${params.issue_id}`
+      );
+    }
+
+    const crashDetails = await Promise.all(rows.map(async row => {
+      const { event, options } = await this.deobfuscateEvent(row);
+      return this.withOwners(this.crashProcessor!.processCrashDetails(event, options));
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            issue_id: params.issue_id,
+            ...(params.filter ? { filter: params.filter } : {}),
+            total_events_retrieved: crashDetails.length,
+            next_cursor: nextCursor,
+            events: crashDetails
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleAnalyzeCrashTrends(args: any) {
+    const params = AnalyzeCrashTrendsParams.parse(args);
+    
+    const [crashStats, crashFreeCounts] = await Promise.all([
+      this.dataSource!.getCrashStatistics(params),
+      this.dataSource!.getCrashFreeCounts(params.time_range),
+    ]);
+
+    const topCrashRows = await this.dataSource!.fetchCrashes({
+      limit: 10,
+      time_range: params.time_range,
+    });
+    const topCrashes = this.crashProcessor!.processCrashRows(topCrashRows);
+
+    const trendAnalysis = this.crashProcessor!.processTrendAnalysis(
+      crashStats,
+      crashFreeCounts,
+      topCrashes,
+      params.time_range,
+      this.config!.crashFreeDenominator
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            analysis_period: params.time_range,
+            group_by: params.group_by || 'version',
+            ...trendAnalysis,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleListTopIssues(args: unknown) {
+    const params = ListTopIssuesParams.parse(args);
+
+    const issues = await this.issuesWithOwners(await this.dataSource!.fetchIssueAggregates(params));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            app_package: params.app_package,
+            time_range: params.time_range,
+            issue_type: params.issue_type,
+            sort_by: params.sort_by,
+            ...(params.filter ? { filter: params.filter } : {}),
+            total_issues: issues.length,
+            issues,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /** Issue summaries of the aggregates, with the owners of each issue's blame frame when ownership is configured. */
+  private async issuesWithOwners(aggregates: IssueAggregate[]): Promise<IssueSummary[]> {
+    const issues = this.crashProcessor!.processIssueAggregates(aggregates);
+    if (!this.codeOwners) return issues;
+
+    const owners = await Promise.all(aggregates.map(aggregate => this.ownersOf(aggregate.blame_frame)));
+    return issues.map((issue, index) => ({ ...issue, owners: owners[index] }));
+  }
+
+  private async handleCompareVersions(args: unknown) {
+    const params = CompareVersionsParams.parse(args);
+
+    const issueQuery = (version: string) => this.dataSource!.fetchIssueAggregates({
+      app_package: params.app_package,
+      time_range: params.time_range,
+      issue_type: 'all',
+      sort_by: 'events',
+      limit: VERSION_COMPARISON_ISSUE_LIMIT,
+      app_version: version,
+    });
+    const [baseIssues, targetIssues, totals, crashFreeCounts] = await Promise.all([
+      issueQuery(params.base_version),
+      issueQuery(params.target_version),
+      this.dataSource!.getVersionCrashTotals(params.app_package, [params.base_version, params.target_version], params.time_range),
+      this.dataSource!.getCrashFreeCounts(params.time_range, params.app_package),
+    ]);
+
+    const totalsOf = (version: string) =>
+      totals.find(row => row.version === version) || { version, event_count: 0, user_count: 0, installation_count: 0 };
+    const baseTotals = totalsOf(params.base_version);
+    if (baseTotals.event_count === 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No crash data found for ${params.app_package} version ${params.base_version}`
+      );
+    }
+
+    const comparison = this.crashProcessor!.processVersionComparison(
+      params,
+      baseIssues,
+      targetIssues,
+      baseTotals,
+      totalsOf(params.target_version),
+      crashFreeCounts,
+      this.config!.crashFreeDenominator
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(comparison, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleDetectCrashAnomalies(args: unknown) {
+    const params = DetectCrashAnomaliesParams.parse(args);
+    const now = new Date();
+    const since = new Date(now.getTime() - params.lookback_days * 24 * 60 * 60 * 1000);
+
+    const rows = await this.dataSource!.getCrashVolumeSeries(params, since);
+    const report = this.anomalyDetector.detect(rows, {
+      granularity: params.granularity,
+      dimension: params.dimension,
+      since,
+      now,
+      minScore: params.min_score,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            app_package: params.app_package || 'all',
+            lookback_days: params.lookback_days,
+            ...report,
+            total_anomalies: report.anomalies.length,
+            anomalies: report.anomalies.slice(0, params.limit),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetUserCrashHistory(args: unknown) {
+    const params = GetUserCrashHistoryParams.parse(args);
+    const subject = params.user_id ? `user ${params.user_id}` : `installation ${params.installation_uuid}`;
+
+    const events = await this.dataSource!.fetchUserEvents({ ...params, limit: params.limit + 1 });
+    const history = this.crashProcessor!.processUserCrashHistory(events.slice(0, params.limit), params, {
+      truncated: events.length > params.limit,
+      consoleProjectId: this.config!.dataSource === 'bigquery' ? this.config!.projectId : undefined,
+    });
+
+    const message = history.total_events === 0
+      ? `No crash events found for ${subject} in the last ${params.time_range}`
+      : `Found ${history.total_events}${history.truncated ? '+' : ''} events for ${subject}: ` +
+        `${history.counts.fatal} fatal, ${history.counts.anr} ANR, ${history.counts.non_fatal} non-fatal`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ ...history, message }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetCrashTimeline(args: unknown) {
+    const params = GetCrashTimelineParams.parse(args);
+
+    const crash = await this.dataSource!.getCrashDetails({ crash_id: params.crash_id });
+    if (!crash) {
+      throw new McpError(ErrorCode.InvalidRequest, `Crash not found: ${params.crash_id}`);
+    }
+    const crashTime = Date.parse(crash.event_timestamp);
+    if (Number.isNaN(crashTime)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Crash ${params.crash_id} has no event timestamp`);
+    }
+
+    const sessionEvents = crash.session_id
+      ? await this.dataSource!.fetchSessionEvents(
+          crash.bundle_identifier,
+          crash.session_id,
+          new Date(crashTime - params.window_minutes * 60 * 1000),
+          new Date(crashTime)
+        )
+      : [];
+    const timeline = this.timelineBuilder.build(crash, sessionEvents, {
+      windowMinutes: params.window_minutes,
+      includeNonFatals: params.include_non_fatals,
+      maxEntries: params.max_entries,
+    });
+
+    const message = timeline.total_entries === 1
+      ? `No logs or breadcrumbs recorded in the ${params.window_minutes} minutes before crash ${params.crash_id}`
+      : `Reconstructed ${timeline.total_entries - 1} entries in the ${params.window_minutes} minutes before crash ${params.crash_id}` +
+        (timeline.last_screen ? `; last screen: ${timeline.last_screen}` : '');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ ...timeline, message }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleAnalyzeAnrIssue(args: unknown) {
+    const params = AnalyzeAnrIssueParams.parse(args);
+
+    const rows = await this.dataSource!.getCrashDetailsByIssueId(params);
+    if (rows.length === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `No crashes found for issue_id: ${params.issue_id}`);
+    }
+    const anrRows = rows.filter(row => row.error_type === 'ANR');
+    if (anrRows.length === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `Issue ${params.issue_id} is not an ANR issue`);
+    }
+
+    // Retrace first so blocking frames point at readable app code
+    const events = await Promise.all(anrRows.map(async row => (await this.deobfuscateEvent(row)).event));
+    const analysis = this.anrAnalyzer.summarizeIssue(params.issue_id, events);
+    const topCause = analysis.causes[0];
+
+    const message = topCause
+      ? `Analyzed ${analysis.events_analyzed} ANR events; most common cause: ${topCause.cause} (${topCause.percentage}%)`
+      : `None of the ${events.length} ANR events of issue ${params.issue_id} include a thread dump`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ ...analysis, ...(params.filter ? { filter: params.filter } : {}), message }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleFindSimilarIssues(args: unknown) {
+    const params = FindSimilarIssuesParams.parse(args);
+
+    let targetEvents: CrashEvent[] = [];
+    if (params.issue_id) {
+      targetEvents = await this.dataSource!.getCrashDetailsByIssueId({ issue_id: params.issue_id, limit: SIMILARITY_EVENTS_PER_ISSUE });
+      if (targetEvents.length === 0) {
+        throw new McpError(ErrorCode.InvalidRequest, `No crashes found for issue_id: ${params.issue_id}`);
+      }
+    }
+    const appPackage = params.app_package || targetEvents[0].bundle_identifier;
+
+    const samples = await this.dataSource!.fetchIssueSamples(appPackage, params.time_range, SIMILARITY_EVENTS_PER_ISSUE, SIMILARITY_MAX_EVENTS);
+    // Obfuscated names change between builds, so compare retraced stacks
+    const events = await Promise.all([...targetEvents, ...samples].map(async event =>
+      this.proguardRetracer ? (await this.proguardRetracer.retraceEvent(event)).event : event
+    ));
+    const options = { minSimilarity: params.min_similarity, limit: params.limit };
+    const issuesCompared = new Set(events.map(event => event.issue_id)).size;
+
+    if (!params.issue_id) {
+      const clusters = this.similarityAnalyzer.cluster(events, options);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              app_package: appPackage,
+              time_range: params.time_range,
+              issues_compared: issuesCompared,
+              clusters,
+              message: clusters.length === 0
+                ? `No similar issues found among ${issuesCompared} issues of ${appPackage}`
+                : `Found ${clusters.length} clusters of similar issues among ${issuesCompared} issues of ${appPackage}`
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const similarIssues = this.similarityAnalyzer.findSimilar(params.issue_id, events, options);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            issue_id: params.issue_id,
+            issue_title: targetEvents[0].issue_title,
+            app_package: appPackage,
+            time_range: params.time_range,
+            signatures: this.similarityAnalyzer.signaturesOf(events.slice(0, targetEvents.length)),
+            issues_compared: issuesCompared - 1,
+            similar_issues: similarIssues,
+            message: similarIssues.length === 0
+              ? `No issues at least ${params.min_similarity} similar to ${params.issue_id} among ${issuesCompared - 1} issues`
+              : `Found ${similarIssues.length} issues similar to ${params.issue_id}`
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetTeamCrashRollup(args: unknown) {
+    const params = GetTeamCrashRollupParams.parse(args);
+    if (!this.codeOwners) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Code ownership is not configured; set APP_REPO_PATH');
+    }
+
+    const aggregates = await this.dataSource!.fetchIssueAggregates({
+      app_package: params.app_package,
+      time_range: params.time_range,
+      issue_type: params.issue_type,
+      sort_by: 'events',
+      limit: TEAM_ROLLUP_ISSUE_LIMIT,
+    });
+    const issues = this.crashProcessor!.processIssueAggregates(aggregates);
+    // Aggregates only carry the blame frame, which for ANRs is often in the
+    // framework, so owners come from the newest event of each issue instead
+    const samples = await this.dataSource!.fetchIssueSamples(params.app_package, params.time_range, 1, TEAM_ROLLUP_ISSUE_LIMIT);
+    const sampleOwners = await this.ownersOfEvents(samples);
+    const ownersByIssue = new Map(samples.map((sample, index) => [sample.issue_id, sampleOwners[index]]));
+    const owners = await Promise.all(aggregates.map(async aggregate => {
+      const sampled = ownersByIssue.get(aggregate.issue_id);
+      return sampled?.length ? sampled : this.ownersOf(aggregate.blame_frame);
+    }));
+
+    // An issue with several owners counts toward each of them
+    const teams = new Map<string | null, TeamCrashRollup>();
+    issues.forEach((issue, index) => {
+      for (const owner of owners[index].length > 0 ? owners[index] : [null]) {
+        let team = teams.get(owner);
+        if (!team) {
+          team = { owner, issue_count: 0, event_count: 0, affected_users: 0, top_issues: [] };
+          teams.set(owner, team);
+        }
+        team.issue_count++;
+        team.event_count += issue.event_count;
+        team.affected_users += issue.affected_users;
+        if (team.top_issues.length < params.top_issues) {
+          const { issue_id, title, type, event_count, affected_users } = issue;
+          team.top_issues.push({ issue_id, title, type, event_count, affected_users });
+        }
+      }
+    });
+
+    const rollup = Array.from(teams.values())
+      .sort((a, b) => (a.owner === null ? 1 : 0) - (b.owner === null ? 1 : 0) || b.event_count - a.event_count);
+    const unowned = teams.get(null);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            app_package: params.app_package,
+            time_range: params.time_range,
+            issue_type: params.issue_type,
+            total_issues: issues.length,
+            teams: rollup,
+            message: `${issues.length} issues across ${rollup.length - (unowned ? 1 : 0)} owners`
+              + (unowned ? `, ${unowned.issue_count} without an owner` : '')
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleFindSuspectCommits(args: unknown) {
+    const params = FindSuspectCommitsParams.parse(args);
+    if (!this.suspectCommits) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No local git checkout is configured; set APP_REPO_PATH');
+    }
+
+    const rows = await this.dataSource!.getCrashDetailsByIssueId({ issue_id: params.issue_id, limit: SUSPECT_SAMPLE_EVENTS });
+    if (rows.length === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `No crashes found for issue_id: ${params.issue_id}`);
+    }
+    const events = await Promise.all(rows.map(async row =>
+      this.proguardRetracer ? (await this.proguardRetracer.retraceEvent(row)).event : row
+    ));
+
+    let badVersion = params.bad_version;
+    if (!badVersion) {
+      // The sampled events are the newest, so look up every version the issue was seen in
+      const aggregate = await this.issueAggregateOf(rows[0].bundle_identifier, params.issue_id);
+      const versions = aggregate?.versions || events.map(event => event.application.display_version);
+      badVersion = sortVersions(versions.filter(Boolean))[0];
+      if (!badVersion) {
+        throw new McpError(ErrorCode.InvalidRequest, `No app version recorded for issue_id: ${params.issue_id}; pass bad_version`);
+      }
+    }
+
+    const tags = await this.suspectCommits.listTags();
+    const badTag = tagFor(tags, badVersion);
+    if (!badTag) {
+      throw new McpError(ErrorCode.InvalidRequest, `No git tag found for version ${badVersion}; pass bad_version`);
+    }
+    const badTagVersion = tags.find(tag => tag.tag === badTag)?.version || badVersion;
+    const goodTag = params.good_version ? tagFor(tags, params.good_version) : previousTag(tags, badTagVersion)?.tag;
+    if (!goodTag) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        params.good_version ? `No git tag found for version ${params.good_version}` : `No version tag found before ${badTag}; pass good_version`
+      );
+    }
+
+    const { frames, unresolved } = await this.suspectCommits.resolveFrames(events);
+    const { commits, suspects } = await this.suspectCommits.findSuspects(frames, tags, goodTag, badTag);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            issue_id: params.issue_id,
+            issue_title: rows[0].issue_title,
+            good_tag: goodTag,
+            bad_version: badVersion,
+            bad_tag: badTag,
+            commits_in_range: commits,
+            frames: frames.map(({ frame, file, line, version }) => ({ frame, file, line, version })),
+            unresolved_frames: unresolved,
+            suspects: suspects.slice(0, params.limit),
+            message: frames.length === 0
+              ? `None of the in-app frames of ${params.issue_id} were found in ${this.config!.appRepoPath}`
+              : `Ranked ${suspects.length} of ${commits} commits between ${goodTag} and ${badTag}`
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGenerateCrashReport(args: unknown) {
+    const params = GenerateCrashReportParams.parse(args);
+    const report = await generateCrashReport(this.dataSource!, this.crashProcessor!, {
+      appPackage: params.app_package,
+      timeRange: params.time_range,
+      topIssues: params.top_issues,
+      crashFreeDenominator: this.config!.crashFreeDenominator,
+    });
+
+    // The report itself follows the summary, so it can be saved as-is
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            app_package: report.app_package,
+            time_range: report.time_range,
+            format: params.format,
+            totals: report.totals,
+            crash_free: report.crash_free,
+            message: `${params.format} report of ${report.totals.issues} issues and ${report.totals.events} events for ${report.app_package}`
+          }, null, 2),
+        },
+        {
+          type: 'text',
+          text: renderCrashReport(report, params.format),
+        },
+      ],
+    };
+  }
+
+  private async handleCreateTicketFromIssue(args: unknown) {
+    const params = CreateTicketFromIssueParams.parse(args);
+    const configured = this.issueTracker!.configuredTrackers();
+    if (!params.dry_run) {
+      if (configured.length === 0) {
+        throw new McpError(ErrorCode.InvalidRequest, 'No issue tracker is configured; set GITHUB_REPOSITORY or JIRA_BASE_URL');
+      }
+      if (params.tracker && !configured.includes(params.tracker)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `The ${params.tracker} tracker is not configured; set ${params.tracker === 'jira' ? 'JIRA_BASE_URL' : 'GITHUB_REPOSITORY'}`
+        );
+      }
+    }
+    if (!params.tracker && configured.length > 1) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Both GitHub and Jira are configured; pass tracker');
+    }
+    const tracker = params.tracker || configured[0] || 'github';
+
+    if (params.dry_run) {
+      const existing = await this.ticketStore!.get(params.issue_id);
+      const draft = await this.draftIssueTicket(params.issue_id, params.labels);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status: 'draft',
+              tracker,
+              existing_ticket: existing,
+              request: this.issueTracker!.buildRequest(draft, tracker),
+              message: existing
+                ? `Issue ${params.issue_id} already has ticket ${existing.key}; filing would return it`
+                : `Drafted a ${tracker} ticket for ${params.issue_id}; call again without dry_run to file it`
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    // Concurrent calls for an issue share one filing, so it gets a single ticket
+    const pending = this.ticketFilings.get(params.issue_id);
+    const filing = pending || this.fileTicket(params.issue_id, params.labels, tracker)
+      .finally(() => this.ticketFilings.delete(params.issue_id));
+    if (!pending) this.ticketFilings.set(params.issue_id, filing);
+    const { created, ticket } = await filing;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(created && !pending ? {
+            status: 'created',
+            ticket,
+            message: `Filed ${ticket.key} for issue ${params.issue_id}: ${ticket.url}`
+          } : {
+            status: 'existing',
+            ticket,
+            message: `Issue ${params.issue_id} already has ticket ${ticket.key}: ${ticket.url}`
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /** Files a ticket for the issue unless the store already has one. */
+  private async fileTicket(issueId: string, labels: string[], tracker: TicketTracker): Promise<{ created: boolean; ticket: FiledTicket }> {
+    const existing = await this.ticketStore!.get(issueId);
+    if (existing) {
+      return { created: false, ticket: existing };
+    }
+
+    const draft = await this.draftIssueTicket(issueId, labels);
+    const created = await this.issueTracker!.create(draft, tracker);
+    const ticket: FiledTicket = {
+      issue_id: issueId,
+      tracker,
+      key: created.key,
+      url: created.url,
+      title: draft.title,
+      created_at: new Date().toISOString(),
+    };
+    await this.ticketStore!.record(ticket);
+    return { created: true, ticket };
+  }
+
+  private async draftIssueTicket(issueId: string, labels: string[]): Promise<TicketDraft> {
+    const [row] = await this.dataSource!.getCrashDetailsByIssueId({ issue_id: issueId, limit: 1 });
+    if (!row) {
+      throw new McpError(ErrorCode.InvalidRequest, `No crashes found for issue_id: ${issueId}`);
+    }
+    const { event, options } = await this.deobfuscateEvent(row);
+    const details = await this.withOwners(this.crashProcessor!.processCrashDetails(event, options));
+
+    const aggregate = await this.issueAggregateOf(row.bundle_identifier, issueId);
+    const issue = aggregate ? this.crashProcessor!.processIssueAggregates([aggregate])[0] : null;
+
+    const consoleProjectId = this.config!.dataSource === 'bigquery' ? this.config!.projectId : '';
+    return draftTicket(details, issue, {
+      issueId,
+      appPackage: row.bundle_identifier,
+      consoleUrl: firebaseConsoleIssueUrl(consoleProjectId, row.platform, row.bundle_identifier, issueId),
+      labels,
+    });
+  }
+
+
+  private setupErrorHandling(): void {
+    this.server.onerror = (error) => {
+      console.error('[MCP Error]', error);
+    };
+  }
+
+  /** Serves MCP over `transport`; `run` serves it over stdio. */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  async close(): Promise<void> {
+    this.watcher?.stop();
+    await this.server.close();
+  }
+
+  async run(): Promise<void> {
+    process.on('SIGINT', async () => {
+      await this.close();
+      process.exit(0);
+    });
+
+    await this.connect(new StdioServerTransport());
+    console.error('Crashlytics MCP server running on stdio');
+
+    if (process.env.WATCH_CONFIG) {
+      await this.startWatcher(process.env.WATCH_CONFIG);
+    }
+  }
+
+  private async startWatcher(configPath: string): Promise<void> {
+    this.watcher = await CrashWatcher.fromFile(configPath, async () => {
+      await this.initialize();
+      return {
+        dataSource: this.dataSource!,
+        crashProcessor: this.crashProcessor!,
+        crashFreeDenominator: this.config!.crashFreeDenominator,
+      };
+    });
+    this.watcher.start();
+  }
+}
+
+if (require.main === module) {
+  const server = new CrashlyticsServer();
+  server.run().catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
+}
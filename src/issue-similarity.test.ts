@@ -0,0 +1,101 @@
+import { IssueSimilarityAnalyzer, normalizeFrameSymbol, signatureSimilarity, stackSignature } from './issue-similarity';
+import { crashEvent } from './test-helpers';
+
+function stackEvent(eventId: string, issueId: string, symbols: string[], type = 'java.lang.NullPointerException', overrides: Record<string, unknown> = {}) {
+  return crashEvent({
+    event_id: eventId,
+    issue_id: issueId,
+    exceptions: [{ type, blamed: true, frames: symbols.map(symbol => ({ symbol, owner: symbol.startsWith('com.example') ? 'DEVELOPER' : 'PLATFORM' })) }],
+    ...overrides,
+  });
+}
+
+describe('normalizeFrameSymbol', () => {
+  it.each([
+    ['com.example.Cart.total(java.util.List)', 'com.example.Cart.total'],
+    ['-[CartViewController viewDidLoad] + 132', '-[CartViewController viewDidLoad]'],
+    ['com.example.Cart.lambda$onCreate$3', 'com.example.Cart.onCreate'],
+    ['com.example.Cart$1.run', 'com.example.Cart.run'],
+    ['com.example.Cart$$ExternalSyntheticLambda0.run', 'com.example.Cart.run'],
+    ['com.example.CartViewModel$load$1.invokeSuspend', 'com.example.CartViewModel.load'],
+  ])('normalizes %s', (symbol, normalized) => {
+    expect(normalizeFrameSymbol(symbol)).toBe(normalized);
+  });
+
+  it.each(['com.example.Cart.access$000', 'a.b.c', '  '])('drops %j', symbol => {
+    expect(normalizeFrameSymbol(symbol)).toBeNull();
+  });
+});
+
+describe('stackSignature', () => {
+  it('keeps app frames and the short exception type', () => {
+    const signature = stackSignature(stackEvent('e1', 'i1', [
+      'java.util.Objects.requireNonNull',
+      'com.example.Cart.total',
+      'com.example.Cart.lambda$render$0',
+      'com.example.Cart.render',
+      'android.os.Looper.loop',
+    ]));
+
+    expect(signature).toEqual({ fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/), exception_type: 'NullPointerException', frames: ['com.example.Cart.total', 'com.example.Cart.render'] });
+  });
+
+  it('uses framework frames when no app frame is on the stack', () => {
+    expect(stackSignature(stackEvent('e1', 'i1', ['android.os.Handler.dispatchMessage', 'android.os.Looper.loop'])).frames).toEqual([
+      'android.os.Handler.dispatchMessage',
+      'android.os.Looper.loop',
+    ]);
+  });
+
+  it('fingerprints rebuilt stacks the same', () => {
+    const before = stackSignature(stackEvent('e1', 'i1', ['com.example.Cart.lambda$render$0(Cart.java)']));
+    const after = stackSignature(stackEvent('e2', 'i2', ['com.example.Cart.lambda$render$4']));
+
+    expect(after.fingerprint).toBe(before.fingerprint);
+  });
+});
+
+describe('signatureSimilarity', () => {
+  const signature = (frames: string[], exceptionType = 'IllegalStateException') => ({ fingerprint: frames.join(), exception_type: exceptionType, frames });
+
+  it('weighs shared frames in order and the exception type', () => {
+    expect(signatureSimilarity(signature(['a', 'b', 'c', 'd']), signature(['a', 'c', 'd', 'e']))).toEqual({ score: 0.788, shared: ['a', 'c', 'd'] });
+    expect(signatureSimilarity(signature(['a', 'b']), signature(['c'], 'IOException')).score).toBe(0);
+    expect(signatureSimilarity(signature(['a']), signature(['a'])).score).toBe(1);
+  });
+});
+
+describe('IssueSimilarityAnalyzer', () => {
+  const analyzer = new IssueSimilarityAnalyzer();
+  const events = [
+    stackEvent('e1', 'checkout', ['com.example.Cart.total', 'com.example.Cart.render', 'com.example.Cart.onResume'], 'java.lang.NullPointerException', { application: { display_version: '1.0.0' } }),
+    stackEvent('e2', 'checkout', ['com.example.Cart.total', 'com.example.Cart.render', 'com.example.Cart.onResume']),
+    stackEvent('e3', 'checkout-split', ['com.example.Cart.total', 'com.example.Cart.render', 'com.example.Cart.onStart'], 'java.lang.NullPointerException', { application: { display_version: '1.1.0' } }),
+    stackEvent('e4', 'checkout-neighbour', ['com.example.Cart.render', 'com.example.Cart.onStart', 'com.example.Main.launch']),
+    stackEvent('e5', 'network', ['com.example.Api.fetch'], 'java.io.IOException'),
+  ];
+
+  it('finds issues similar to one issue', () => {
+    const similar = analyzer.findSimilar('checkout', events, { minSimilarity: 0.6, limit: 10 });
+
+    expect(similar).toEqual([
+      expect.objectContaining({ issue_id: 'checkout-split', similarity: 0.717, exact_match: false, shared_frames: ['com.example.Cart.total', 'com.example.Cart.render'], app_versions: ['1.1.0'] }),
+    ]);
+    expect(analyzer.findSimilar('missing', events, { minSimilarity: 0.6, limit: 10 })).toEqual([]);
+  });
+
+  it('clusters issues transitively and leaves out the rest', () => {
+    const clusters = analyzer.cluster(events, { minSimilarity: 0.6, limit: 10 });
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].issues.map(issue => issue.issue_id)).toEqual(['checkout', 'checkout-split', 'checkout-neighbour']);
+    expect(clusters[0].issues[0]).toMatchObject({ similarity: 1, exact_match: true, sampled_events: 2 });
+  });
+
+  it('counts each event once', () => {
+    expect(analyzer.findSimilar('checkout-split', [...events, events[0]], { minSimilarity: 0.6, limit: 10 })[0]).toMatchObject({
+      issue_id: 'checkout',
+      sampled_events: 2,
+    });
+  });
+});
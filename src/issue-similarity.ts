@@ -0,0 +1,272 @@
+import { createHash } from 'crypto';
+import { getPrimaryError } from './crash-normalizer.js';
+import { CrashEvent, CrashFrame, IssueCluster, SimilarIssue, StackSignature } from './types.js';
+
+const MAX_SIGNATURE_FRAMES = 8;
+const MAX_SHARED_FRAMES = 5;
+const FRAME_WEIGHT = 0.85;
+const TYPE_WEIGHT = 0.15;
+
+const FRAMEWORK_OWNERS = new Set(['PLATFORM', 'RUNTIME', 'SYSTEM']);
+const FRAMEWORK_PREFIXES = [
+  'android.',
+  'androidx.',
+  'com.android.',
+  'com.google.android.',
+  'dalvik.',
+  'java.',
+  'javax.',
+  'jdk.',
+  'kotlin.',
+  'kotlinx.',
+  'libcore.',
+  'sun.',
+];
+// R8 renames classes and methods to one or two letters
+const OBFUSCATED_SEGMENT = /^[a-zA-Z]{1,2}$/;
+const SYNTHETIC_ACCESSOR = /(^|\.)access\$\d+$|-\$\$Nest\$/;
+
+function isFrameworkFrame(frame: CrashFrame): boolean {
+  return FRAMEWORK_OWNERS.has(frame.owner) || FRAMEWORK_PREFIXES.some(prefix => frame.symbol.startsWith(prefix));
+}
+
+/**
+ * Reduces a frame symbol to the parts that survive rebuilds: arguments,
+ * offsets and addresses are dropped, lambdas and anonymous classes collapse
+ * into their enclosing method or class, and synthetic accessors and
+ * obfuscated names return null so they are left out of signatures.
+ */
+export function normalizeFrameSymbol(symbol: string): string | null {
+  let normalized = symbol.trim()
+    .replace(/\s*\+\s*\d+$/, '')
+    .replace(/0x[0-9a-fA-F]+/g, '')
+    .replace(/\(.*\)$/, '')
+    .trim();
+  if (!normalized || SYNTHETIC_ACCESSOR.test(normalized)) return null;
+
+  normalized = normalized
+    .replace(/\$\$ExternalSynthetic\w+/g, '')
+    .replace(/\$\$Lambda\$[\w$]*/g, '')
+    .replace(/lambda\$(\w+?)\$\d+/g, '$1')
+    .replace(/\$lambda[-$]\d+/g, '')
+    .replace(/\$(\w+)\$\d+\.(invoke|invokeSuspend)$/, '.$1')
+    .replace(/\$\d+/g, '')
+    .replace(/\$+(?=\.|$)/g, '');
+
+  const segments = normalized.split('.');
+  if (segments.length >= 2 && segments.slice(-2).every(segment => OBFUSCATED_SEGMENT.test(segment))) {
+    return null;
+  }
+  return normalized;
+}
+
+function frameSource(event: CrashEvent): CrashFrame[] {
+  const exception = event.exceptions.find(candidate => candidate.blamed) || event.exceptions[0];
+  if (exception?.frames.length) return exception.frames;
+
+  const error = event.errors.find(candidate => candidate.blamed) || event.errors[0];
+  if (error?.frames.length) return error.frames;
+
+  const thread = event.threads.find(candidate => candidate.crashed || candidate.blamed);
+  if (thread?.frames.length) return thread.frames;
+
+  return event.blame_frame ? [event.blame_frame] : [];
+}
+
+export function stackSignature(event: CrashEvent): StackSignature {
+  const source = frameSource(event);
+  const appFrames = source.filter(frame => !isFrameworkFrame(frame));
+  // Crashes entirely inside the framework still need something to compare
+  const selected = appFrames.length > 0 ? appFrames : source;
+
+  const frames: string[] = [];
+  for (const frame of selected) {
+    const normalized = normalizeFrameSymbol(frame.symbol);
+    if (normalized && normalized !== frames[frames.length - 1]) {
+      frames.push(normalized);
+    }
+    if (frames.length === MAX_SIGNATURE_FRAMES) break;
+  }
+
+  const errorType = getPrimaryError(event).type;
+  const exceptionType = errorType.split('.').pop()!.split('$')[0] || errorType;
+
+  return {
+    fingerprint: createHash('sha1').update([exceptionType, ...frames].join('\n')).digest('hex').slice(0, 16),
+    exception_type: exceptionType,
+    frames,
+  };
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): string[] {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.push(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+/**
+ * Similarity between 0 and 1: mostly the share of frames two stacks have in
+ * common, in order, plus a smaller weight for the same exception type.
+ */
+export function signatureSimilarity(a: StackSignature, b: StackSignature): { score: number; shared: string[] } {
+  if (a.fingerprint === b.fingerprint) {
+    return { score: 1, shared: a.frames };
+  }
+
+  const shared = longestCommonSubsequence(a.frames, b.frames);
+  const frameScore = a.frames.length + b.frames.length > 0
+    ? (2 * shared.length) / (a.frames.length + b.frames.length)
+    : 0;
+  const typeScore = a.exception_type === b.exception_type ? 1 : 0;
+
+  return { score: Math.round((FRAME_WEIGHT * frameScore + TYPE_WEIGHT * typeScore) * 1000) / 1000, shared };
+}
+
+interface IssueSignatures {
+  issueId: string;
+  event: CrashEvent;
+  signatures: Map<string, StackSignature>;
+  versions: Set<string>;
+  sampledEvents: number;
+}
+
+/**
+ * Finds issues that Crashlytics split from one bug, by comparing the stack
+ * signatures of sampled events. Two issues are as similar as their closest
+ * pair of signatures.
+ */
+export class IssueSimilarityAnalyzer {
+  signaturesOf(events: CrashEvent[]): StackSignature[] {
+    const signatures = new Map<string, StackSignature>();
+    for (const event of events) {
+      const signature = stackSignature(event);
+      signatures.set(signature.fingerprint, signature);
+    }
+    return Array.from(signatures.values());
+  }
+
+  findSimilar(issueId: string, events: CrashEvent[], options: { minSimilarity: number; limit: number }): SimilarIssue[] {
+    const issues = this.groupByIssue(events);
+    const target = issues.get(issueId);
+    if (!target) return [];
+
+    return Array.from(issues.values())
+      .filter(issue => issue !== target)
+      .map(issue => this.compare(target, issue))
+      .filter(similar => similar.similarity >= options.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity || b.sampled_events - a.sampled_events)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Groups issues whose similarity reaches `minSimilarity`, transitively,
+   * so a cluster can hold issues that are each only close to a neighbour.
+   */
+  cluster(events: CrashEvent[], options: { minSimilarity: number; limit: number }): IssueCluster[] {
+    const issues = Array.from(this.groupByIssue(events).values());
+    const parent = issues.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    for (let i = 0; i < issues.length; i++) {
+      for (let j = i + 1; j < issues.length; j++) {
+        if (find(i) !== find(j) && this.compare(issues[i], issues[j]).similarity >= options.minSimilarity) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, IssueSignatures[]>();
+    issues.forEach((issue, index) => {
+      const root = find(index);
+      groups.set(root, [...(groups.get(root) || []), issue]);
+    });
+
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => {
+        const [representative, ...others] = [...members].sort((a, b) => b.sampledEvents - a.sampledEvents);
+        const signature = representative.signatures.values().next().value!;
+        return {
+          fingerprint: signature.fingerprint,
+          exception_type: signature.exception_type,
+          frames: signature.frames,
+          issues: [
+            this.compare(representative, representative),
+            ...others
+              .map(issue => this.compare(representative, issue))
+              .sort((a, b) => b.similarity - a.similarity),
+          ],
+        };
+      })
+      .sort((a, b) => b.issues.length - a.issues.length)
+      .slice(0, options.limit);
+  }
+
+  private groupByIssue(events: CrashEvent[]): Map<string, IssueSignatures> {
+    const issues = new Map<string, IssueSignatures>();
+    const seen = new Set<string>();
+
+    for (const event of events) {
+      if (!event.issue_id || seen.has(event.event_id)) continue;
+      seen.add(event.event_id);
+
+      let issue = issues.get(event.issue_id);
+      if (!issue) {
+        issue = { issueId: event.issue_id, event, signatures: new Map(), versions: new Set(), sampledEvents: 0 };
+        issues.set(event.issue_id, issue);
+      }
+      const signature = stackSignature(event);
+      issue.signatures.set(signature.fingerprint, signature);
+      if (event.application.display_version) issue.versions.add(event.application.display_version);
+      issue.sampledEvents++;
+    }
+    return issues;
+  }
+
+  private compare(target: IssueSignatures, issue: IssueSignatures): SimilarIssue {
+    let best = { score: 0, shared: [] as string[] };
+    for (const a of target.signatures.values()) {
+      for (const b of issue.signatures.values()) {
+        const similarity = signatureSimilarity(a, b);
+        if (similarity.score > best.score) best = similarity;
+      }
+    }
+
+    const errorType = issue.event.error_type;
+    return {
+      issue_id: issue.issueId,
+      issue_title: issue.event.issue_title,
+      type: errorType === 'FATAL' ? 'fatal' : errorType === 'ANR' ? 'anr' : 'non_fatal',
+      similarity: best.score,
+      exact_match: best.score === 1,
+      shared_frames: best.shared.slice(0, MAX_SHARED_FRAMES),
+      app_versions: Array.from(issue.versions),
+      sampled_events: issue.sampledEvents,
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { CrashProcessor } from './crash-processor';
+import { IssueTrackerClient, draftTicket, renderGitHubBody, renderJiraDescription } from './issue-tracker';
+import { crashEvent, issueAggregate } from './test-helpers';
+import { TicketDraft } from './types';
+
+const processor = new CrashProcessor();
+const details = processor.processCrashDetails(crashEvent({
+  exceptions: [{ type: 'java.lang.IllegalStateException', exception_message: 'boom', blamed: true, frames: [
+    { symbol: 'com.example.app.Main.onCreate', file: 'Main.kt', line: 12, owner: 'DEVELOPER' },
+    { symbol: 'android.app.Activity.performCreate', file: 'Activity.java', line: 0, owner: 'PLATFORM' },
+  ] }],
+  breadcrumbs: [{ name: 'screen_view', timestamp: '2026-10-17T09:59:00.000Z', params: [{ key: 'screen', value: 'Main' }] }],
+}));
+const [issue] = processor.processIssueAggregates([issueAggregate({ event_count: 4, user_count: 2, versions: ['1.0.0', '0.9.0'] })]);
+const draftOptions = { issueId: 'issue-1', appPackage: 'com.example.app', consoleUrl: 'https://console.example.com/issue-1', labels: ['mobile team', 'crashlytics'] };
+
+describe('draftTicket', () => {
+  it('describes the issue and its newest event', () => {
+    expect(draftTicket(details, issue, draftOptions)).toEqual({
+      issue_id: 'issue-1',
+      title: 'Crash: com.example.app.Main.onCreate',
+      labels: ['crashlytics', 'fatal', 'mobile team'],
+      fields: [
+        ['Issue ID', 'issue-1'],
+        ['App', 'com.example.app (ANDROID)'],
+        ['Impact', 'low'],
+        ['Events', '4'],
+        ['Affected users', '2'],
+        ['First seen', '2026-10-16T10:00:00.000Z'],
+        ['Last seen', '2026-10-17T10:00:00.000Z'],
+        ['Affected versions', '1.0.0, 0.9.0'],
+        ['Latest event', 'event-1 on Pixel 7, 14'],
+      ],
+      exception: 'java.lang.IllegalStateException: boom',
+      top_frames: ['at com.example.app.Main.onCreate (Main.kt:12)', 'at android.app.Activity.performCreate (Activity.java)'],
+      breadcrumbs: ['2026-10-17T09:59:00.000Z screen_view (screen=Main)'],
+      console_url: 'https://console.example.com/issue-1',
+    });
+  });
+
+  it('falls back to the event without an issue aggregate', () => {
+    const draft = draftTicket({ ...details, owners: ['@app-team'] }, null, { ...draftOptions, labels: [] });
+
+    expect(draft.title).toBe('Crash: IllegalStateException: boom');
+    expect(draft.fields.map(([label]) => label)).toEqual(['Issue ID', 'App', 'Impact', 'Affected versions', 'Latest event', 'Owners']);
+    expect(draft.fields).toContainEqual(['Owners', '@app-team']);
+  });
+
+  it('shortens long titles', () => {
+    const [long] = processor.processIssueAggregates([issueAggregate({ issue_title: 'x'.repeat(300) })]);
+
+    expect(draftTicket(details, long, draftOptions).title).toHaveLength(250);
+  });
+});
+
+describe('ticket bodies', () => {
+  const draft = draftTicket(details, issue, draftOptions);
+
+  it('renders GitHub Markdown ending with the issue marker', () => {
+    const body = renderGitHubBody(draft);
+
+    expect(body.startsWith('- **Issue ID:** issue-1\n- **App:** com.example.app (ANDROID)\n')).toBe(true);
+    expect(body).toContain('### Exception\n\n```\njava.lang.IllegalStateException: boom\n```');
+    expect(body).toContain('### Breadcrumbs\n\n```\n2026-10-17T09:59:00.000Z screen_view (screen=Main)\n```');
+    expect(body.endsWith('[Open in the Firebase Console](https://console.example.com/issue-1)\n\n<!-- crashlytics-issue-id: issue-1 -->')).toBe(true);
+  });
+
+  it('renders Jira wiki markup', () => {
+    const description = renderJiraDescription({ ...draft, breadcrumbs: [], console_url: null });
+
+    expect(description.startsWith('* *Issue ID:* issue-1\n')).toBe(true);
+    expect(description).toContain('h3. Top frames\n{noformat}\nat com.example.app.Main.onCreate (Main.kt:12)\n');
+    expect(description).not.toContain('Breadcrumbs');
+    expect(description).not.toContain('Firebase Console');
+  });
+});
+
+describe('IssueTrackerClient', () => {
+  const draft: TicketDraft = draftTicket(details, issue, draftOptions);
+  const client = new IssueTrackerClient({
+    github: { apiUrl: 'https://github.example.com/api/v3/', repository: 'example/app', token: 'gh-token' },
+    jira: { baseUrl: 'https://jira.example.com/', projectKey: 'APP', issueType: 'Bug', email: 'dev@example.com', apiToken: 'jira-token' },
+  });
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists the configured trackers', () => {
+    expect(client.configuredTrackers()).toEqual(['github', 'jira']);
+    expect(new IssueTrackerClient({}).configuredTrackers()).toEqual([]);
+  });
+
+  it('builds Jira requests with labels Jira accepts', () => {
+    expect(client.buildRequest(draft, 'jira')).toEqual({
+      url: 'https://jira.example.com/rest/api/2/issue',
+      payload: { fields: expect.objectContaining({ project: { key: 'APP' }, issuetype: { name: 'Bug' }, labels: ['crashlytics', 'fatal', 'mobile-team'] }) },
+    });
+  });
+
+  it('files GitHub issues', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ number: 42, html_url: 'https://github.example.com/example/app/issues/42' }, { status: 201 }));
+
+    expect(await client.create(draft, 'github')).toEqual({ key: 'example/app#42', url: 'https://github.example.com/example/app/issues/42' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://github.example.com/api/v3/repos/example/app/issues');
+    expect(init.headers).toMatchObject({ Accept: 'application/vnd.github+json', Authorization: 'Bearer gh-token' });
+    expect(JSON.parse(init.body)).toEqual({ title: draft.title, body: renderGitHubBody(draft), labels: draft.labels });
+  });
+
+  it('files Jira issues with basic authentication', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ key: 'APP-7' }, { status: 201 }));
+
+    expect(await client.create(draft, 'jira')).toEqual({ key: 'APP-7', url: 'https://jira.example.com/browse/APP-7' });
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      Authorization: `Basic ${Buffer.from('dev@example.com:jira-token').toString('base64')}`,
+    });
+  });
+
+  it('reports failed and malformed responses', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('Bad credentials', { status: 401, statusText: 'Unauthorized' }))
+      .mockResolvedValueOnce(Response.json({}, { status: 201 }));
+
+    await expect(client.create(draft, 'github')).rejects.toThrow('Failed to create GitHub issue: Error: HTTP 401 Unauthorized: Bad credentials');
+    await expect(client.create(draft, 'jira')).rejects.toThrow('Failed to create Jira issue: Error: response has no issue key');
+  });
+});
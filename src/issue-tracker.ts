@@ -0,0 +1,193 @@
+import {
+  CrashDetails,
+  IssueSummary,
+  StackFrame,
+  TicketDraft,
+  TicketTracker,
+  TicketTrackersConfig,
+} from './types.js';
+
+const TRACKER_TIMEOUT_MS = 10000;
+const MAX_TICKET_FRAMES = 10;
+const MAX_TICKET_BREADCRUMBS = 10;
+const MAX_VERSIONS_LISTED = 10;
+// Jira rejects longer summaries; GitHub titles are cut to match
+const MAX_TITLE_LENGTH = 250;
+
+const TYPE_PREFIXES: Record<IssueSummary['type'], string> = {
+  fatal: 'Crash',
+  non_fatal: 'Non-fatal',
+  anr: 'ANR',
+};
+
+function formatFrame(frame: StackFrame): string {
+  const location = frame.line > 0 ? `${frame.file}:${frame.line}` : frame.file;
+  return `at ${frame.symbol || `${frame.class}.${frame.method}`} (${location})`;
+}
+
+/**
+ * Builds a ticket for a Crashlytics issue from its newest event's details
+ * and, when found, the issue's aggregate over all time.
+ */
+export function draftTicket(
+  details: CrashDetails,
+  issue: IssueSummary | null,
+  options: { issueId: string; appPackage: string; consoleUrl: string | null; labels: string[] }
+): TicketDraft {
+  const { crash_summary: summary, stack_trace: stackTrace, context } = details;
+  const type = issue?.type || (details.anr_analysis ? 'anr' : summary.is_fatal ? 'fatal' : 'non_fatal');
+  const title = `${TYPE_PREFIXES[type]}: ${issue?.title || summary.title}`;
+  const versions = issue?.affected_versions || [summary.app_version];
+
+  const fields: Array<[string, string]> = [
+    ['Issue ID', options.issueId],
+    ['App', `${options.appPackage} (${summary.platform})`],
+    ['Impact', issue?.impact || summary.impact],
+    ...(issue ? [
+      ['Events', String(issue.event_count)],
+      ['Affected users', String(issue.affected_users)],
+      ['First seen', issue.first_seen],
+      ['Last seen', issue.last_seen],
+    ] as Array<[string, string]> : []),
+    ['Affected versions', versions.slice(0, MAX_VERSIONS_LISTED).join(', ') + (versions.length > MAX_VERSIONS_LISTED ? ', …' : '')],
+    ['Latest event', `${summary.id} on ${details.device_info.model}, ${details.device_info.os_version}`],
+    ...(details.owners?.length ? [['Owners', details.owners.join(', ')]] as Array<[string, string]> : []),
+  ];
+
+  return {
+    issue_id: options.issueId,
+    title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title,
+    labels: Array.from(new Set(['crashlytics', type.replace('_', '-'), ...options.labels])),
+    fields,
+    exception: stackTrace.message ? `${stackTrace.exception_type}: ${stackTrace.message}` : stackTrace.exception_type,
+    top_frames: stackTrace.frames.slice(0, MAX_TICKET_FRAMES).map(formatFrame),
+    breadcrumbs: context.breadcrumbs.slice(-MAX_TICKET_BREADCRUMBS).map(breadcrumb => {
+      const params = Object.entries(breadcrumb.params || {}).map(([key, value]) => `${key}=${value}`).join(', ');
+      return `${breadcrumb.timestamp} ${breadcrumb.name}${params ? ` (${params})` : ''}`;
+    }),
+    console_url: options.consoleUrl,
+  };
+}
+
+/** The ticket body as GitHub Markdown, ending with a marker naming the Crashlytics issue. */
+export function renderGitHubBody(draft: TicketDraft): string {
+  const sections = [
+    draft.fields.map(([label, value]) => `- **${label}:** ${value}`).join('\n'),
+    `### Exception\n\n\`\`\`\n${draft.exception}\n\`\`\``,
+  ];
+  if (draft.top_frames.length > 0) {
+    sections.push(`### Top frames\n\n\`\`\`\n${draft.top_frames.join('\n')}\n\`\`\``);
+  }
+  if (draft.breadcrumbs.length > 0) {
+    sections.push(`### Breadcrumbs\n\n\`\`\`\n${draft.breadcrumbs.join('\n')}\n\`\`\``);
+  }
+  if (draft.console_url) {
+    sections.push(`[Open in the Firebase Console](${draft.console_url})`);
+  }
+  sections.push(`<!-- crashlytics-issue-id: ${draft.issue_id} -->`);
+  return sections.join('\n\n');
+}
+
+/** The ticket body in Jira wiki markup, as the REST API v2 expects. */
+export function renderJiraDescription(draft: TicketDraft): string {
+  const sections = [
+    draft.fields.map(([label, value]) => `* *${label}:* ${value}`).join('\n'),
+    `h3. Exception\n{noformat}\n${draft.exception}\n{noformat}`,
+  ];
+  if (draft.top_frames.length > 0) {
+    sections.push(`h3. Top frames\n{noformat}\n${draft.top_frames.join('\n')}\n{noformat}`);
+  }
+  if (draft.breadcrumbs.length > 0) {
+    sections.push(`h3. Breadcrumbs\n{noformat}\n${draft.breadcrumbs.join('\n')}\n{noformat}`);
+  }
+  if (draft.console_url) {
+    sections.push(`[Open in the Firebase Console|${draft.console_url}]`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Files tickets as GitHub issues or Jira issues through their REST APIs.
+ * Base URLs are configurable, for GitHub Enterprise, Jira Data Center or
+ * a local mock server.
+ */
+export class IssueTrackerClient {
+  constructor(private readonly config: TicketTrackersConfig) {}
+
+  configuredTrackers(): TicketTracker[] {
+    return TicketTracker.options.filter(tracker => this.config[tracker]);
+  }
+
+  /** The request the tracker's create-issue endpoint expects. */
+  buildRequest(draft: TicketDraft, tracker: TicketTracker): { url: string; payload: object } {
+    if (tracker === 'jira') {
+      const jira = this.config.jira;
+      return {
+        url: jira ? `${jira.baseUrl.replace(/\/+$/, '')}/rest/api/2/issue` : '/rest/api/2/issue',
+        payload: {
+          fields: {
+            project: { key: jira?.projectKey || '' },
+            issuetype: { name: jira?.issueType || 'Bug' },
+            summary: draft.title,
+            description: renderJiraDescription(draft),
+            // Jira labels cannot contain spaces
+            labels: draft.labels.map(label => label.replace(/\s+/g, '-')),
+          },
+        },
+      };
+    }
+
+    const github = this.config.github;
+    return {
+      url: github ? `${github.apiUrl.replace(/\/+$/, '')}/repos/${github.repository}/issues` : '/repos/{owner}/{repo}/issues',
+      payload: { title: draft.title, body: renderGitHubBody(draft), labels: draft.labels },
+    };
+  }
+
+  async create(draft: TicketDraft, tracker: TicketTracker): Promise<{ key: string; url: string }> {
+    const { url, payload } = this.buildRequest(draft, tracker);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TRACKER_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...this.authHeaders(tracker) },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}: ${(await response.text()).slice(0, 500)}`);
+      }
+
+      const created = await response.json() as { key?: string; number?: number; html_url?: string } | null;
+      if (tracker === 'jira') {
+        if (!created?.key) throw new Error('response has no issue key');
+        return { key: created.key, url: `${this.config.jira!.baseUrl.replace(/\/+$/, '')}/browse/${created.key}` };
+      }
+      if (!created?.number) throw new Error('response has no issue number');
+      return { key: `${this.config.github!.repository}#${created.number}`, url: created.html_url || '' };
+    } catch (error) {
+      throw new Error(`Failed to create ${tracker === 'jira' ? 'Jira' : 'GitHub'} issue: ${error}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private authHeaders(tracker: TicketTracker): Record<string, string> {
+    if (tracker === 'jira') {
+      const { email, apiToken } = this.config.jira || {};
+      if (!apiToken) return {};
+      // Jira Cloud takes an email and API token; Data Center takes a personal access token alone
+      return email
+        ? { Authorization: `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}` }
+        : { Authorization: `Bearer ${apiToken}` };
+    }
+
+    const token = this.config.github?.token;
+    return {
+      Accept: 'application/vnd.github+json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProguardMapping, ProguardRetracer } from './proguard-retracer';
+import { crashEvent } from './test-helpers';
+import { CrashFrame } from './types';
+
+const MAPPING = `# compiler: R8
+com.example.app.CartFragment -> a.b:
+# {"id":"sourceFile","fileName":"CartFragment.kt"}
+    int itemCount -> c
+    void onViewCreated(android.view.View) -> a
+    1:3:java.math.BigDecimal com.example.app.CartKt.total(java.util.List):12:14 -> b
+    1:3:void onResume():40 -> b
+    4:4:void onPause():55 -> b
+com.example.app.CartKt -> a.c:
+    void format(java.lang.String) -> a
+`;
+
+function frame(symbol: string, line: number, overrides: Partial<CrashFrame> = {}): CrashFrame {
+  return { symbol, file: 'SourceFile', line, offset: 0, address: 0, library: '', owner: 'DEVELOPER', blamed: false, ...overrides };
+}
+
+describe('ProguardMapping', () => {
+  const mapping = new ProguardMapping(MAPPING);
+
+  it('maps obfuscated class names', () => {
+    expect(mapping.originalClassName('a.b')).toBe('com.example.app.CartFragment');
+    expect(mapping.originalClassName('z.z')).toBeUndefined();
+  });
+
+  it('retraces a method without line ranges, keeping its line', () => {
+    expect(mapping.retraceFrame(frame('a.b.a', 7))).toEqual([
+      frame('com.example.app.CartFragment.onViewCreated', 7, { file: 'CartFragment.kt' }),
+    ]);
+  });
+
+  it('expands inlined frames, innermost first, and only blames the innermost', () => {
+    const retraced = mapping.retraceFrame(frame('a.b.b', 2, { blamed: true }));
+
+    expect(retraced).toEqual([
+      frame('com.example.app.CartKt.total', 13, { file: 'CartKt.java', blamed: true }),
+      frame('com.example.app.CartFragment.onResume', 40, { file: 'CartFragment.kt' }),
+    ]);
+  });
+
+  it('picks the member whose range covers the line', () => {
+    expect(mapping.retraceFrame(frame('a.b.b', 4))).toEqual([
+      frame('com.example.app.CartFragment.onPause', 55, { file: 'CartFragment.kt' }),
+    ]);
+  });
+
+  it('keeps the method name of members missing from the mapping', () => {
+    expect(mapping.retraceFrame(frame('a.c.z', 3, { file: 'Unknown Source' }))).toEqual([
+      frame('com.example.app.CartKt.z', 3, { file: 'CartKt.java' }),
+    ]);
+  });
+
+  it('skips frames of classes that are not in the mapping', () => {
+    expect(mapping.retraceFrame(frame('android.os.Looper.loop', 193))).toBeNull();
+    expect(mapping.retraceFrame(frame('main', 1))).toBeNull();
+  });
+});
+
+describe('ProguardRetracer', () => {
+  let mappingDir: string;
+
+  beforeEach(async () => {
+    mappingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mappings-'));
+    await fs.mkdir(path.join(mappingDir, 'com.example.app', '100'), { recursive: true });
+    await fs.writeFile(path.join(mappingDir, 'com.example.app', '100', 'mapping.txt'), MAPPING);
+    await fs.writeFile(path.join(mappingDir, 'com.example.app-101.txt'), MAPPING);
+  });
+
+  afterEach(async () => {
+    await fs.rm(mappingDir, { recursive: true, force: true });
+  });
+
+  function androidEvent(buildVersion: string) {
+    return crashEvent({
+      bundle_identifier: 'com.example.app',
+      application: { display_version: '1.0.0', build_version: buildVersion },
+      blame_frame: { symbol: 'a.b.b', file: 'SourceFile', line: 4, blamed: true },
+      exceptions: [{ type: 'a.b', blamed: true, frames: [frame('a.b.b', 2), frame('android.os.Looper.loop', 193)] }],
+    });
+  }
+
+  it('retraces frames and exception types with the version code mapping', async () => {
+    const { event, deobfuscation } = await new ProguardRetracer(mappingDir).retraceEvent(androidEvent('100'));
+
+    expect(event.exceptions[0].type).toBe('com.example.app.CartFragment');
+    expect(event.exceptions[0].frames.map(retraced => retraced.symbol)).toEqual([
+      'com.example.app.CartKt.total',
+      'com.example.app.CartFragment.onResume',
+      'android.os.Looper.loop',
+    ]);
+    expect(event.blame_frame).toMatchObject({ symbol: 'com.example.app.CartFragment.onPause', line: 55 });
+    expect(deobfuscation).toMatchObject({
+      type: 'proguard',
+      status: 'retraced',
+      mapping_file: path.join(mappingDir, 'com.example.app', '100', 'mapping.txt'),
+      frames_retraced: 2,
+    });
+  });
+
+  it('finds flat mapping files', async () => {
+    const { deobfuscation } = await new ProguardRetracer(mappingDir).retraceEvent(androidEvent('101'));
+
+    expect(deobfuscation?.mapping_file).toBe(path.join(mappingDir, 'com.example.app-101.txt'));
+  });
+
+  it('reports versions without a mapping', async () => {
+    const original = androidEvent('102');
+    const { event, deobfuscation } = await new ProguardRetracer(mappingDir).retraceEvent(original);
+
+    expect(event).toBe(original);
+    expect(deobfuscation).toMatchObject({ status: 'mapping_not_found', message: expect.stringContaining('version code 102') });
+  });
+
+  it('picks up a mapping uploaded after a version was looked up', async () => {
+    const retracer = new ProguardRetracer(mappingDir);
+    expect((await retracer.retraceEvent(androidEvent('102'))).deobfuscation?.status).toBe('mapping_not_found');
+
+    await fs.writeFile(path.join(mappingDir, 'com.example.app-102.txt'), MAPPING);
+    expect((await retracer.retraceEvent(androidEvent('102'))).deobfuscation?.status).toBe('retraced');
+  });
+
+  it('refuses version codes that would leave the mapping directory', async () => {
+    // `..` would read <dir>/mapping.txt
+    await fs.writeFile(path.join(mappingDir, 'mapping.txt'), MAPPING);
+    const retracer = new ProguardRetracer(mappingDir);
+
+    expect((await retracer.retraceEvent(androidEvent('../100'))).deobfuscation?.status).toBe('mapping_not_found');
+    expect((await retracer.retraceEvent(androidEvent('..'))).deobfuscation?.status).toBe('mapping_not_found');
+  });
+
+  it('leaves other platforms alone', async () => {
+    const original = crashEvent({ platform: 'IOS' });
+
+    expect(await new ProguardRetracer(mappingDir).retraceEvent(original)).toEqual({ event: original, deobfuscation: null });
+  });
+
+  it('retries a mapping that failed to load', async () => {
+    const mappingFile = path.join(mappingDir, 'com.example.app', '100', 'mapping.txt');
+    await fs.rm(mappingFile);
+    await fs.mkdir(mappingFile);
+    const retracer = new ProguardRetracer(mappingDir);
+
+    await expect(retracer.retraceEvent(androidEvent('100'))).rejects.toThrow('Failed to read mapping file');
+
+    await fs.rmdir(mappingFile);
+    await fs.writeFile(mappingFile, MAPPING);
+    expect((await retracer.retraceEvent(androidEvent('100'))).deobfuscation?.status).toBe('retraced');
+  });
+});
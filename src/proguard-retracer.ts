@@ -0,0 +1,284 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PromiseCache } from './promise-cache.js';
+import { CrashEvent, CrashFrame, DeobfuscationStatus } from './types.js';
+
+interface MemberMapping {
+  obfuscatedName: string;
+  originalClass: string;
+  originalName: string;
+  obfuscatedStart?: number;
+  obfuscatedEnd?: number;
+  originalStart?: number;
+  originalEnd?: number;
+}
+
+interface ClassMapping {
+  originalName: string;
+  obfuscatedName: string;
+  sourceFile?: string;
+  members: MemberMapping[];
+}
+
+const CLASS_LINE = /^(\S+)\s+->\s+(\S+):$/;
+const METHOD_LINE = /^\s+(?:(\d+):(\d+):)?\S+\s+([^\s(]+)\([^)]*\)(?::(\d+)(?::(\d+))?)?\s+->\s+(\S+)$/;
+const UNKNOWN_SOURCE_FILES = ['', 'Unknown Source', 'SourceFile', 'Unknown'];
+// Mapping files of large apps run to tens of megabytes once parsed
+const MAX_CACHED_MAPPINGS = 16;
+
+// Package names and version codes become path segments, so only plain names are looked up
+function isSafeKey(key: string): boolean {
+  return /^[A-Za-z0-9._-]+$/.test(key) && !/^\.+$/.test(key);
+}
+
+/**
+ * Parsed R8/ProGuard `mapping.txt`. Supports line-number ranges, inlined
+ * frames (several members sharing one obfuscated range) and the R8
+ * `sourceFile` metadata comment.
+ */
+export class ProguardMapping {
+  private classes = new Map<string, ClassMapping>();
+
+  constructor(contents: string) {
+    this.parse(contents);
+  }
+
+  private parse(contents: string): void {
+    let current: ClassMapping | null = null;
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+
+      if (line.trimStart().startsWith('#')) {
+        if (current && !/^\s/.test(line)) {
+          current.sourceFile = this.parseSourceFile(line) || current.sourceFile;
+        }
+        continue;
+      }
+
+      const classMatch = line.match(CLASS_LINE);
+      if (classMatch) {
+        current = { originalName: classMatch[1], obfuscatedName: classMatch[2], members: [] };
+        this.classes.set(current.obfuscatedName, current);
+        continue;
+      }
+
+      const methodMatch = current ? line.match(METHOD_LINE) : null;
+      if (current && methodMatch) {
+        const qualifiedName = methodMatch[3];
+        const lastDot = qualifiedName.lastIndexOf('.');
+
+        current.members.push({
+          obfuscatedName: methodMatch[6],
+          originalClass: lastDot > 0 ? qualifiedName.slice(0, lastDot) : current.originalName,
+          originalName: lastDot > 0 ? qualifiedName.slice(lastDot + 1) : qualifiedName,
+          obfuscatedStart: methodMatch[1] !== undefined ? parseInt(methodMatch[1], 10) : undefined,
+          obfuscatedEnd: methodMatch[2] !== undefined ? parseInt(methodMatch[2], 10) : undefined,
+          originalStart: methodMatch[4] !== undefined ? parseInt(methodMatch[4], 10) : undefined,
+          originalEnd: methodMatch[5] !== undefined ? parseInt(methodMatch[5], 10) : undefined,
+        });
+      }
+    }
+  }
+
+  private parseSourceFile(line: string): string | undefined {
+    try {
+      const metadata = JSON.parse(line.trim().slice(1).trim());
+      return metadata?.id === 'sourceFile' ? metadata.fileName : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  originalClassName(obfuscatedName: string): string | undefined {
+    return this.classes.get(obfuscatedName)?.originalName;
+  }
+
+  /**
+   * Retraces one frame. Returns several frames, innermost first, when the
+   * obfuscated location covers inlined methods; returns null when the frame's
+   * class does not appear in the mapping.
+   */
+  retraceFrame(frame: CrashFrame): CrashFrame[] | null {
+    const lastDot = frame.symbol.lastIndexOf('.');
+    if (lastDot <= 0) return null;
+
+    const classMapping = this.classes.get(frame.symbol.slice(0, lastDot));
+    if (!classMapping) return null;
+
+    const methodName = frame.symbol.slice(lastDot + 1);
+    const candidates = classMapping.members.filter(member => member.obfuscatedName === methodName);
+    const chain = this.selectInlineChain(candidates, frame.line);
+
+    if (chain.length === 0) {
+      return [{
+        ...frame,
+        symbol: `${classMapping.originalName}.${methodName}`,
+        file: this.resolveFile(frame.file, classMapping.originalName, classMapping),
+      }];
+    }
+
+    return chain.map((member, index) => ({
+      ...frame,
+      symbol: `${member.originalClass}.${member.originalName}`,
+      file: this.resolveFile(frame.file, member.originalClass, this.findClassByOriginalName(member.originalClass)),
+      line: this.originalLine(member, frame.line),
+      blamed: index === 0 ? frame.blamed : false,
+    }));
+  }
+
+  private selectInlineChain(candidates: MemberMapping[], line: number): MemberMapping[] {
+    const ranged = candidates.filter(member =>
+      member.obfuscatedStart !== undefined
+      && member.obfuscatedEnd !== undefined
+      && line >= member.obfuscatedStart
+      && line <= member.obfuscatedEnd
+    );
+
+    if (ranged.length > 0) {
+      const first = ranged[0];
+      return ranged.filter(member =>
+        member.obfuscatedStart === first.obfuscatedStart && member.obfuscatedEnd === first.obfuscatedEnd
+      );
+    }
+
+    const unranged = candidates.filter(member => member.obfuscatedStart === undefined);
+    return unranged.length > 0 ? [unranged[0]] : [];
+  }
+
+  private originalLine(member: MemberMapping, line: number): number {
+    if (member.originalStart === undefined) {
+      return line;
+    }
+    if (member.obfuscatedStart === undefined || member.obfuscatedEnd === undefined) {
+      return member.originalStart;
+    }
+
+    const obfuscatedSpan = member.obfuscatedEnd - member.obfuscatedStart;
+    const originalSpan = (member.originalEnd ?? member.originalStart) - member.originalStart;
+    return originalSpan === obfuscatedSpan
+      ? member.originalStart + (line - member.obfuscatedStart)
+      : member.originalStart;
+  }
+
+  private findClassByOriginalName(originalName: string): ClassMapping | undefined {
+    for (const classMapping of this.classes.values()) {
+      if (classMapping.originalName === originalName) return classMapping;
+    }
+    return undefined;
+  }
+
+  private resolveFile(file: string, originalClass: string, classMapping: ClassMapping | undefined): string {
+    if (classMapping?.sourceFile) return classMapping.sourceFile;
+    if (!UNKNOWN_SOURCE_FILES.includes(file)) return file;
+
+    const simpleName = originalClass.split('.').pop() || originalClass;
+    return `${simpleName.split('$')[0]}.java`;
+  }
+}
+
+/**
+ * Loads mapping files from a local directory keyed by app package and
+ * version code, and retraces the frames of Android events before they are
+ * turned into a `StackTrace`. Mappings are cached per version, for the most
+ * recently used versions; versions without one are looked up again, so a
+ * mapping uploaded while the server runs is picked up.
+ *
+ * Accepted layouts: `<dir>/<package>/<version_code>/mapping.txt`,
+ * `<dir>/<package>/<version_code>.txt` and `<dir>/<package>-<version_code>.txt`.
+ */
+export class ProguardRetracer {
+  private mappings = new PromiseCache<{ mapping: ProguardMapping; file: string } | null>(
+    MAX_CACHED_MAPPINGS,
+    loaded => loaded !== null
+  );
+
+  constructor(private readonly mappingDir: string) {}
+
+  private candidatePaths(appPackage: string, versionCode: string): string[] {
+    return [
+      path.join(this.mappingDir, appPackage, versionCode, 'mapping.txt'),
+      path.join(this.mappingDir, appPackage, `${versionCode}.txt`),
+      path.join(this.mappingDir, `${appPackage}-${versionCode}.txt`),
+    ];
+  }
+
+  private loadMapping(appPackage: string, versionCode: string): Promise<{ mapping: ProguardMapping; file: string } | null> {
+    return this.mappings.getOrLoad(
+      `${appPackage}@${versionCode}`,
+      () => this.readFirstMapping(this.candidatePaths(appPackage, versionCode))
+    );
+  }
+
+  private async readFirstMapping(candidates: string[]): Promise<{ mapping: ProguardMapping; file: string } | null> {
+    for (const file of candidates) {
+      try {
+        const contents = await fs.readFile(file, 'utf-8');
+        return { mapping: new ProguardMapping(contents), file };
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+          throw new Error(`Failed to read mapping file ${file}: ${error}`);
+        }
+      }
+    }
+    return null;
+  }
+
+  async retraceEvent(event: CrashEvent): Promise<{ event: CrashEvent; deobfuscation: DeobfuscationStatus | null }> {
+    if (event.platform.toUpperCase() !== 'ANDROID') {
+      return { event, deobfuscation: null };
+    }
+
+    const versionCode = event.application.build_version;
+    const loaded = isSafeKey(event.bundle_identifier) && isSafeKey(versionCode)
+      ? await this.loadMapping(event.bundle_identifier, versionCode)
+      : null;
+
+    if (!loaded) {
+      return {
+        event,
+        deobfuscation: {
+          type: 'proguard',
+          status: 'mapping_not_found',
+          frames_retraced: 0,
+          message: `No mapping file found for ${event.bundle_identifier} version code ${versionCode || 'unknown'}`,
+        },
+      };
+    }
+
+    let framesRetraced = 0;
+    const retraceFrames = (frames: CrashFrame[]): CrashFrame[] => frames.flatMap(frame => {
+      const retraced = loaded.mapping.retraceFrame(frame);
+      if (!retraced) return [frame];
+      framesRetraced++;
+      return retraced;
+    });
+    const retraceType = (type: string): string => loaded.mapping.originalClassName(type) || type;
+
+    const retracedEvent: CrashEvent = {
+      ...event,
+      blame_frame: event.blame_frame ? retraceFrames([event.blame_frame])[0] : null,
+      exceptions: event.exceptions.map(exception => ({
+        ...exception,
+        type: retraceType(exception.type),
+        frames: retraceFrames(exception.frames),
+      })),
+      errors: event.errors.map(error => ({ ...error, frames: retraceFrames(error.frames) })),
+      threads: event.threads.map(thread => ({ ...thread, frames: retraceFrames(thread.frames) })),
+    };
+
+    return {
+      event: retracedEvent,
+      deobfuscation: {
+        type: 'proguard',
+        status: framesRetraced > 0 ? 'retraced' : 'not_obfuscated',
+        mapping_file: loaded.file,
+        frames_retraced: framesRetraced,
+        message: framesRetraced > 0
+          ? `Retraced ${framesRetraced} frames using ${path.basename(loaded.file)}`
+          : 'Mapping file found but no frames matched obfuscated classes',
+      },
+    };
+  }
+}
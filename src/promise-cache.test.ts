@@ -0,0 +1,54 @@
+import { PromiseCache } from './promise-cache';
+
+describe('PromiseCache', () => {
+  it('shares one load between lookups of a key', async () => {
+    const cache = new PromiseCache<string>(4);
+    const load = jest.fn(async () => 'value');
+
+    const [first, second] = await Promise.all([cache.getOrLoad('a', load), cache.getOrLoad('a', load)]);
+
+    expect(first).toBe('value');
+    expect(second).toBe('value');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the least recently used key beyond its capacity', async () => {
+    const cache = new PromiseCache<string>(2);
+    const load = jest.fn(async () => 'value');
+
+    await cache.getOrLoad('a', load);
+    await cache.getOrLoad('b', load);
+    await cache.getOrLoad('a', load);
+    await cache.getOrLoad('c', load);
+    expect(cache.size).toBe(2);
+
+    await cache.getOrLoad('a', load);
+    expect(load).toHaveBeenCalledTimes(3);
+    await cache.getOrLoad('b', load);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+
+  it('retries a load that rejected', async () => {
+    const cache = new PromiseCache<string>(4);
+    const load = jest.fn()
+      .mockRejectedValueOnce(new Error('EMFILE'))
+      .mockResolvedValueOnce('value');
+
+    await expect(cache.getOrLoad('a', load)).rejects.toThrow('EMFILE');
+    expect(cache.size).toBe(0);
+    await expect(cache.getOrLoad('a', load)).resolves.toBe('value');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a load whose value it does not keep', async () => {
+    const cache = new PromiseCache<string | null>(4, value => value !== null);
+    const load = jest.fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce('value');
+
+    await expect(cache.getOrLoad('a', load)).resolves.toBeNull();
+    await expect(cache.getOrLoad('a', load)).resolves.toBe('value');
+    await expect(cache.getOrLoad('a', load)).resolves.toBe('value');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
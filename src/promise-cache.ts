@@ -0,0 +1,37 @@
+/**
+ * LRU cache of asynchronous loads keyed by string, holding at most
+ * `maxEntries` loads. Concurrent lookups of a key share one load, and a
+ * load that rejects, or resolves to a value `keep` refuses, is dropped so
+ * the next lookup retries it.
+ */
+export class PromiseCache<T> {
+  private entries = new Map<string, Promise<T>>();
+
+  constructor(private readonly maxEntries: number, private readonly keep: (value: T) => boolean = () => true) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const loading = load();
+    this.entries.set(key, loading);
+    const drop = () => {
+      if (this.entries.get(key) === loading) this.entries.delete(key);
+    };
+    loading.then(value => this.keep(value) || drop(), drop);
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldestKey);
+    }
+    return loading;
+  }
+}
@@ -0,0 +1,144 @@
+import { QueryBuilder, assertValidIdentifier, buildTableReference, combineParams, resolveTableReference } from './query-builder';
+
+const TABLE = '`my-project.crashlytics.*`';
+
+const HOSTILE_VALUES = [
+  "com.example' OR '1'='1",
+  'com.example` OR 1=1 --',
+  'x"; DROP TABLE events; --',
+  '1 UNION SELECT * FROM `other.dataset.secrets`',
+  "'; DELETE FROM events WHERE 'a'='a",
+  'abc -- \n; SELECT 1',
+];
+
+function issueQuery(appPackage: string, issueId: string) {
+  return new QueryBuilder(TABLE)
+    .select('issue_id', 'COUNT(*) AS event_count')
+    .where('bundle_identifier = @app_package', { app_package: appPackage })
+    .where('issue_id = @issue_id', { issue_id: issueId })
+    .groupBy('issue_id')
+    .orderBy('event_count DESC')
+    .limit(10)
+    .build();
+}
+
+describe('QueryBuilder', () => {
+  const reference = issueQuery('com.example.app', 'abc123');
+
+  it.each(HOSTILE_VALUES)('keeps %j out of the query text', value => {
+    const built = issueQuery(value, value);
+
+    expect(built.query).toBe(reference.query);
+    expect(built.query).not.toContain(value);
+    expect(built.params).toEqual({ app_package: value, issue_id: value, limit: 10 });
+  });
+
+  it('binds the limit as @limit', () => {
+    expect(reference.query).toMatch(/\nLIMIT @limit$/);
+    expect(reference.params.limit).toBe(10);
+  });
+
+  it('rejects non-positive and fractional limits', () => {
+    expect(() => new QueryBuilder(TABLE).limit(0)).toThrow('Invalid query limit');
+    expect(() => new QueryBuilder(TABLE).limit(-5)).toThrow('Invalid query limit');
+    expect(() => new QueryBuilder(TABLE).limit(2.5)).toThrow('Invalid query limit');
+  });
+
+  it('reserves the limit parameter name', () => {
+    const builder = new QueryBuilder(TABLE).where('x = @limit', { limit: 5 }).limit(10);
+    expect(() => builder.build()).toThrow('"limit" is reserved');
+  });
+
+  it('rejects duplicate parameters', () => {
+    const builder = new QueryBuilder(TABLE).where('a = @value', { value: 'a' });
+    expect(() => builder.where('b = @value', { value: 'b' })).toThrow('Duplicate query parameter: value');
+  });
+
+  it('rejects null and undefined parameters', () => {
+    expect(() => new QueryBuilder(TABLE).addParam('value', null as unknown as string)).toThrow('must have a value');
+    expect(() => new QueryBuilder(TABLE).addParam('value', undefined as unknown as string)).toThrow('must have a value');
+  });
+
+  it('rejects parameter names that are not identifiers', () => {
+    expect(() => new QueryBuilder(TABLE).addParam('a; DROP', 'x')).toThrow('Invalid query parameter name');
+    expect(() => new QueryBuilder(TABLE).addParam('1abc', 'x')).toThrow('Invalid query parameter name');
+    expect(() => new QueryBuilder(TABLE).addParam('', 'x')).toThrow('Invalid query parameter name');
+  });
+
+  it('skips conditions and their parameters when whereIf is disabled', () => {
+    const built = new QueryBuilder(TABLE)
+      .whereIf(false, 'platform = @platform', { platform: "' OR 1=1" })
+      .build();
+
+    expect(built.query).toBe(`SELECT *\nFROM ${TABLE}`);
+    expect(built.params).toEqual({});
+  });
+
+  it('parenthesizes each condition so one cannot widen another', () => {
+    const built = new QueryBuilder(TABLE)
+      .where('a = @a OR b = @b', { a: 1, b: 2 })
+      .where('c = @c', { c: 3 })
+      .build();
+
+    expect(built.query).toContain('WHERE (a = @a OR b = @b)\n  AND (c = @c)');
+  });
+});
+
+describe('buildTableReference', () => {
+  it('quotes a valid reference', () => {
+    expect(buildTableReference('my-project', 'firebase_crashlytics')).toBe('`my-project.firebase_crashlytics.*`');
+    expect(buildTableReference('my-project', 'firebase_crashlytics', 'com_example_app_*')).toBe(
+      '`my-project.firebase_crashlytics.com_example_app_*`'
+    );
+  });
+
+  it.each([
+    ['project', 'my-project`; DROP', 'crashlytics', '*'],
+    ['project', 'ab', 'crashlytics', '*'],
+    ['dataset', 'my-project', 'crash-lytics', '*'],
+    ['dataset', 'my-project', 'crashlytics.other', '*'],
+    ['table', 'my-project', 'crashlytics', 'events` UNION SELECT 1 --'],
+    ['table', 'my-project', 'crashlytics', 'a*b'],
+  ])('rejects an invalid %s identifier', (kind, project, dataset, table) => {
+    expect(() => buildTableReference(project, dataset, table)).toThrow(`Invalid BigQuery ${kind} identifier`);
+  });
+});
+
+describe('assertValidIdentifier', () => {
+  it('accepts domain-scoped projects', () => {
+    expect(assertValidIdentifier('project', 'example.com:my-project')).toBe('example.com:my-project');
+  });
+
+  it('rejects non-string values', () => {
+    expect(() => assertValidIdentifier('dataset', 42 as unknown as string)).toThrow('Invalid BigQuery dataset identifier');
+  });
+});
+
+describe('resolveTableReference', () => {
+  it('defaults the project', () => {
+    expect(resolveTableReference('metrics.daily_active_users', 'my-project')).toBe('`my-project.metrics.daily_active_users`');
+  });
+
+  it('keeps an explicit project', () => {
+    expect(resolveTableReference('other-project.metrics.dau', 'my-project')).toBe('`other-project.metrics.dau`');
+  });
+
+  it('rejects references without a dataset or with hostile parts', () => {
+    expect(() => resolveTableReference('dau', 'my-project')).toThrow('Invalid BigQuery table reference');
+    expect(() => resolveTableReference('metrics.dau`; DROP TABLE x; --', 'my-project')).toThrow('Invalid BigQuery table identifier');
+  });
+});
+
+describe('combineParams', () => {
+  it('merges the parameters of composed queries', () => {
+    expect(combineParams({ query: 'a', params: { a: 1 } }, { query: 'b', params: { b: 'x' } })).toEqual({ a: 1, b: 'x' });
+  });
+
+  it('refuses a name bound by two queries', () => {
+    const start = { query: 'a', params: { start_time: new Date(0) } };
+
+    expect(() => combineParams(start, { query: 'b', params: { start_time: new Date(1) } })).toThrow(
+      'Duplicate query parameter: start_time'
+    );
+  });
+});
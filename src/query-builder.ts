@@ -0,0 +1,180 @@
+export type QueryParamValue = string | number | boolean | Date | string[] | number[];
+
+export interface ParameterizedQuery {
+  query: string;
+  params: Record<string, QueryParamValue>;
+}
+
+const PROJECT_ID_PATTERN = /^(?:[a-z][a-z0-9.-]{0,62}:)?[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+const DATASET_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,1023}$/;
+const TABLE_ID_PATTERN = /^(?:[A-Za-z0-9_]{1,1023}\*?|\*)$/;
+const PARAM_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type IdentifierKind = 'project' | 'dataset' | 'table';
+
+/**
+ * Validates a project, dataset or table identifier before it is interpolated
+ * into a table reference. Identifiers cannot be passed as query parameters.
+ */
+export function assertValidIdentifier(kind: IdentifierKind, value: string): string {
+  const pattern = kind === 'project'
+    ? PROJECT_ID_PATTERN
+    : kind === 'dataset'
+      ? DATASET_ID_PATTERN
+      : TABLE_ID_PATTERN;
+
+  if (typeof value !== 'string' || !pattern.test(value)) {
+    throw new Error(`Invalid BigQuery ${kind} identifier: ${JSON.stringify(value)}`);
+  }
+
+  return value;
+}
+
+export function buildTableReference(projectId: string, datasetId: string, tableId: string = '*'): string {
+  assertValidIdentifier('project', projectId);
+  assertValidIdentifier('dataset', datasetId);
+  assertValidIdentifier('table', tableId);
+
+  return `\`${projectId}.${datasetId}.${tableId}\``;
+}
+
+/**
+ * Resolves a configured `dataset.table` or `project.dataset.table` reference,
+ * defaulting to `defaultProjectId` when the project is omitted.
+ */
+export function resolveTableReference(reference: string, defaultProjectId: string): string {
+  const parts = reference.split('.');
+  if (parts.length < 2) {
+    throw new Error(`Invalid BigQuery table reference: ${JSON.stringify(reference)}`);
+  }
+
+  const tableId = parts.pop()!;
+  const datasetId = parts.pop()!;
+  return buildTableReference(parts.length > 0 ? parts.join('.') : defaultProjectId, datasetId, tableId);
+}
+
+/**
+ * Parameters of several queries composed into one, such as the CTEs of a
+ * join. A name bound by two of them is refused rather than letting one
+ * value silently replace the other.
+ */
+export function combineParams(...queries: ParameterizedQuery[]): Record<string, QueryParamValue> {
+  const params: Record<string, QueryParamValue> = {};
+  for (const query of queries) {
+    for (const [name, value] of Object.entries(query.params)) {
+      if (name in params) {
+        throw new Error(`Duplicate query parameter: ${name}`);
+      }
+      params[name] = value;
+    }
+  }
+  return params;
+}
+
+/**
+ * Small builder for the SELECT statements issued against the Crashlytics export.
+ * SQL fragments are always static strings owned by the caller; every value that
+ * originates from a tool argument must go through a named parameter.
+ */
+export class QueryBuilder {
+  private columns: string[] = ['*'];
+  private conditions: string[] = [];
+  private groupByColumns: string[] = [];
+  private qualifyConditions: string[] = [];
+  private orderByColumns: string[] = [];
+  private limitValue: number | null = null;
+  private params: Record<string, QueryParamValue> = {};
+
+  constructor(private readonly tableReference: string) {}
+
+  select(...columns: string[]): this {
+    this.columns = columns;
+    return this;
+  }
+
+  where(condition: string, params: Record<string, QueryParamValue> = {}): this {
+    for (const [name, value] of Object.entries(params)) {
+      this.addParam(name, value);
+    }
+    this.conditions.push(condition);
+    return this;
+  }
+
+  whereIf(enabled: boolean, condition: string, params: Record<string, QueryParamValue> = {}): this {
+    return enabled ? this.where(condition, params) : this;
+  }
+
+  groupBy(...columns: string[]): this {
+    this.groupByColumns.push(...columns);
+    return this;
+  }
+
+  /** Filters on window functions, e.g. to keep the newest rows per group. */
+  qualify(condition: string, params: Record<string, QueryParamValue> = {}): this {
+    for (const [name, value] of Object.entries(params)) {
+      this.addParam(name, value);
+    }
+    this.qualifyConditions.push(condition);
+    return this;
+  }
+
+  orderBy(...columns: string[]): this {
+    this.orderByColumns.push(...columns);
+    return this;
+  }
+
+  limit(limit: number): this {
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error(`Invalid query limit: ${limit}`);
+    }
+    this.limitValue = limit;
+    return this;
+  }
+
+  addParam(name: string, value: QueryParamValue): string {
+    if (!PARAM_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid query parameter name: ${name}`);
+    }
+    if (name in this.params) {
+      throw new Error(`Duplicate query parameter: ${name}`);
+    }
+    if (value === null || value === undefined) {
+      throw new Error(`Query parameter ${name} must have a value`);
+    }
+    this.params[name] = value;
+    return `@${name}`;
+  }
+
+  build(): ParameterizedQuery {
+    const parts: string[] = [];
+    const params = { ...this.params };
+
+    parts.push(`SELECT ${this.columns.join(',\n  ')}`);
+    parts.push(`FROM ${this.tableReference}`);
+
+    if (this.conditions.length > 0) {
+      parts.push(`WHERE ${this.conditions.map(condition => `(${condition})`).join('\n  AND ')}`);
+    }
+    if (this.groupByColumns.length > 0) {
+      parts.push(`GROUP BY ${this.groupByColumns.join(', ')}`);
+    }
+    if (this.qualifyConditions.length > 0) {
+      parts.push(`QUALIFY ${this.qualifyConditions.map(condition => `(${condition})`).join('\n  AND ')}`);
+    }
+    if (this.orderByColumns.length > 0) {
+      parts.push(`ORDER BY ${this.orderByColumns.join(', ')}`);
+    }
+    if (this.limitValue !== null) {
+      if ('limit' in params) {
+        throw new Error('Query parameter name "limit" is reserved');
+      }
+      params.limit = this.limitValue;
+      parts.push('LIMIT @limit');
+    }
+
+    return {
+      query: parts.join('\n'),
+      params,
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { ParameterizedQuery } from './query-builder';
+import { QueryCache } from './query-cache';
+import { QueryContext, runInQueryContext } from './query-context';
+import { FIXTURE_NOW, freezeFixtureTime } from './test-helpers';
+
+function query(sql: string, params: ParameterizedQuery['params'] = {}): ParameterizedQuery {
+  return { query: sql, params };
+}
+
+function context(overrides: Partial<QueryContext> = {}): QueryContext {
+  return { forceRefresh: false, lookups: [], jobs: [], ...overrides };
+}
+
+describe('QueryCache', () => {
+  const options = { ttlSeconds: 300, maxEntries: 2, maxBytes: 1024 };
+
+  beforeEach(() => {
+    freezeFixtureTime();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves repeated queries from the cache and reports the lookups', async () => {
+    const cache = new QueryCache(options);
+    const load = jest.fn(async () => [{ count: 1 }]);
+    const request = context();
+
+    await runInQueryContext(request, async () => {
+      await cache.getOrLoad(query('SELECT 1'), load);
+      jest.setSystemTime(FIXTURE_NOW.getTime() + 30_000);
+      expect(await cache.getOrLoad(query('SELECT  1 '), load)).toEqual([{ count: 1 }]);
+    });
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(request.lookups).toEqual([{ status: 'miss', age_seconds: 0 }, { status: 'hit', age_seconds: 30 }]);
+  });
+
+  it('reloads entries older than the TTL', async () => {
+    const cache = new QueryCache(options);
+    const load = jest.fn(async () => []);
+
+    await cache.getOrLoad(query('SELECT 1'), load);
+    jest.setSystemTime(FIXTURE_NOW.getTime() + 300_000);
+    await cache.getOrLoad(query('SELECT 1'), load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the TTL and refresh flag of the current tool call', async () => {
+    const cache = new QueryCache(options);
+    const load = jest.fn(async () => []);
+
+    await cache.getOrLoad(query('SELECT 1'), load);
+    await runInQueryContext(context({ forceRefresh: true }), () => cache.getOrLoad(query('SELECT 1'), load));
+    await runInQueryContext(context({ ttlSeconds: 0 }), () => cache.getOrLoad(query('SELECT 1'), load));
+
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('coalesces concurrent identical queries', async () => {
+    const cache = new QueryCache(options);
+    let resolve: (rows: unknown[]) => void = () => {};
+    const load = jest.fn(() => new Promise<unknown[]>(done => { resolve = done; }));
+    const request = context();
+
+    const results = runInQueryContext(request, () => Promise.all([
+      cache.getOrLoad(query('SELECT 1'), load),
+      cache.getOrLoad(query('SELECT 1'), load),
+    ]));
+    resolve([{ count: 1 }]);
+
+    expect(await results).toEqual([[{ count: 1 }], [{ count: 1 }]]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(request.lookups.map(lookup => lookup.status)).toEqual(['miss', 'coalesced']);
+  });
+
+  it('does not cache failed queries', async () => {
+    const cache = new QueryCache(options);
+    const load = jest.fn()
+      .mockRejectedValueOnce(new Error('Quota exceeded'))
+      .mockResolvedValueOnce([]);
+
+    await expect(cache.getOrLoad(query('SELECT 1'), load)).rejects.toThrow('Quota exceeded');
+    await expect(cache.getOrLoad(query('SELECT 1'), load)).resolves.toEqual([]);
+  });
+
+  it('evicts the least recently used entry beyond the entry limit', async () => {
+    const cache = new QueryCache(options);
+    const load = jest.fn(async () => []);
+
+    await cache.getOrLoad(query('SELECT 1'), load);
+    await cache.getOrLoad(query('SELECT 2'), load);
+    await cache.getOrLoad(query('SELECT 1'), load);
+    await cache.getOrLoad(query('SELECT 3'), load);
+    expect(load).toHaveBeenCalledTimes(3);
+
+    await cache.getOrLoad(query('SELECT 1'), load);
+    expect(load).toHaveBeenCalledTimes(3);
+    await cache.getOrLoad(query('SELECT 2'), load);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps the cached results within the byte limit', async () => {
+    const cache = new QueryCache({ ...options, maxEntries: 10, maxBytes: 100 });
+    const rows = [{ text: 'x'.repeat(60) }];
+    const load = jest.fn(async () => rows);
+
+    await cache.getOrLoad(query('SELECT 1'), load);
+    await cache.getOrLoad(query('SELECT 2'), load);
+    await cache.getOrLoad(query('SELECT 2'), load);
+    await cache.getOrLoad(query('SELECT 1'), load);
+    expect(load).toHaveBeenCalledTimes(3);
+
+    const oversized = jest.fn(async () => [{ text: 'x'.repeat(200) }]);
+    await cache.getOrLoad(query('SELECT 3'), oversized);
+    await cache.getOrLoad(query('SELECT 3'), oversized);
+    expect(oversized).toHaveBeenCalledTimes(2);
+  });
+
+  describe('keyOf', () => {
+    const cache = new QueryCache(options);
+
+    it('ignores whitespace and parameter order', () => {
+      expect(cache.keyOf(query('SELECT *\n  FROM t WHERE a = @a', { a: 1, b: 2 }))).toBe(
+        cache.keyOf(query('SELECT * FROM t WHERE a = @a', { b: 2, a: 1 }))
+      );
+      expect(cache.keyOf(query('SELECT 1', { a: 1 }))).not.toBe(cache.keyOf(query('SELECT 1', { a: 2 })));
+    });
+
+    it('keeps dates exact', () => {
+      const at = (iso: string) => cache.keyOf(query('SELECT 1', { filter_start_time: new Date(iso) }));
+
+      expect(at('2026-10-18T12:01:00Z')).toBe(at('2026-10-18T12:01:00Z'));
+      expect(at('2026-10-18T12:01:00Z')).not.toBe(at('2026-10-18T12:04:59Z'));
+    });
+  });
+
+  describe('rangeEnd', () => {
+    it('rounds now down to the TTL', () => {
+      const cache = new QueryCache(options);
+
+      jest.setSystemTime(new Date('2026-10-18T12:04:59Z'));
+      expect(cache.rangeEnd()).toEqual(new Date('2026-10-18T12:00:00Z'));
+      jest.setSystemTime(new Date('2026-10-18T12:05:00Z'));
+      expect(cache.rangeEnd()).toEqual(new Date('2026-10-18T12:05:00Z'));
+    });
+
+    it('follows the request TTL and leaves now alone without caching', async () => {
+      const cache = new QueryCache(options);
+      jest.setSystemTime(new Date('2026-10-18T12:04:59Z'));
+
+      await runInQueryContext(context({ ttlSeconds: 60 }), async () => {
+        expect(cache.rangeEnd()).toEqual(new Date('2026-10-18T12:04:00Z'));
+      });
+      await runInQueryContext(context({ ttlSeconds: 0 }), async () => {
+        expect(cache.rangeEnd()).toEqual(new Date('2026-10-18T12:04:59Z'));
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { ParameterizedQuery } from './query-builder.js';
+import { CacheLookup, QueryContext, getQueryContext } from './query-context.js';
+import { QueryCacheConfig } from './types.js';
+
+interface CacheEntry {
+  rows: unknown[];
+  storedAt: number;
+  bytes: number;
+}
+
+function estimateBytes(rows: unknown[]): number {
+  try {
+    return Buffer.byteLength(JSON.stringify(rows, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+  } catch {
+    return Number.MAX_SAFE_INTEGER;
+  }
+}
+
+/**
+ * LRU cache of query results keyed by normalized SQL and parameters, with
+ * in-flight coalescing so concurrent identical queries share one job.
+ */
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown[]>>();
+  private totalBytes = 0;
+
+  constructor(private readonly options: QueryCacheConfig) {}
+
+  /**
+   * The time relative ranges such as `7d` count back from: now, rounded
+   * down to the TTL so repeated calls within it build the same parameters.
+   * Timestamps a caller passes in are never rounded.
+   */
+  rangeEnd(): Date {
+    const ttlSeconds = this.ttlSeconds();
+    if (ttlSeconds <= 0) return new Date();
+
+    const bucketMs = Math.max(ttlSeconds, 60) * 1000;
+    return new Date(Math.floor(Date.now() / bucketMs) * bucketMs);
+  }
+
+  keyOf(query: ParameterizedQuery): string {
+    const params = Object.keys(query.params).sort().map(name => [name, query.params[name]]);
+
+    return createHash('sha256')
+      .update(query.query.replace(/\s+/g, ' ').trim())
+      .update(JSON.stringify(params))
+      .digest('hex');
+  }
+
+  /**
+   * Results are shared between every caller of the same query, so `Row` is
+   * only as accurate as the SQL each caller passes in.
+   */
+  async getOrLoad<Row>(query: ParameterizedQuery, load: () => Promise<Row[]>): Promise<Row[]> {
+    const request = getQueryContext();
+    const ttlSeconds = this.ttlSeconds();
+    if (ttlSeconds <= 0) {
+      return this.track(request, 'miss', 0, load());
+    }
+
+    const key = this.keyOf(query);
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (entry && !request?.forceRefresh && now - entry.storedAt < ttlSeconds * 1000) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return this.track(request, 'hit', now - entry.storedAt, Promise.resolve(entry.rows as Row[]));
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return this.track(request, 'coalesced', 0, pending as Promise<Row[]>);
+    }
+
+    const loading = load()
+      .then(rows => {
+        this.store(key, rows);
+        return rows;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, loading);
+    return this.track(request, 'miss', 0, loading);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  private ttlSeconds(): number {
+    return getQueryContext()?.ttlSeconds ?? this.options.ttlSeconds;
+  }
+
+  private track<Row>(request: QueryContext | undefined, status: CacheLookup['status'], ageMs: number, rows: Promise<Row[]>): Promise<Row[]> {
+    request?.lookups.push({ status, age_seconds: Math.round(ageMs / 1000) });
+    return rows;
+  }
+
+  private store(key: string, rows: unknown[]): void {
+    const bytes = estimateBytes(rows);
+    const previous = this.entries.get(key);
+    if (previous) {
+      this.entries.delete(key);
+      this.totalBytes -= previous.bytes;
+    }
+    if (bytes > this.options.maxBytes) return;
+
+    this.entries.set(key, { rows, storedAt: Date.now(), bytes });
+    this.totalBytes += bytes;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) break;
+      this.entries.delete(oldestKey);
+      this.totalBytes -= oldest.bytes;
+    }
+  }
+}
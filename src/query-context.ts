@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { QueryCostUsage } from './query-cost-guard.js';
+
+export interface CacheLookup {
+  status: 'hit' | 'miss' | 'coalesced';
+  age_seconds: number;
+}
+
+export interface QueryJobStats {
+  estimated_bytes: number | null;
+  bytes_processed: number;
+  bytes_billed: number;
+}
+
+/**
+ * State shared by the queries of one tool call. Handlers run inside
+ * `runInQueryContext` so that queries issued deep inside a data source pick
+ * up the tool's cache TTL and refresh flag, and report back how each query
+ * was served and what the BigQuery jobs it ran cost.
+ */
+export interface QueryContext {
+  ttlSeconds?: number;
+  forceRefresh: boolean;
+  lookups: CacheLookup[];
+  jobs: QueryJobStats[];
+  /** Session totals as of the last job, set by the data source that ran it. */
+  usage?: QueryCostUsage;
+}
+
+const queryContext = new AsyncLocalStorage<QueryContext>();
+
+export function runInQueryContext<T>(context: QueryContext, fn: () => Promise<T>): Promise<T> {
+  return queryContext.run(context, fn);
+}
+
+export function getQueryContext(): QueryContext | undefined {
+  return queryContext.getStore();
+}
@@ -0,0 +1,56 @@
+import { QueryCostGuard, formatBytes } from './query-cost-guard';
+
+describe('formatBytes', () => {
+  it.each([
+    [0, '0 B'],
+    [1536, '1.5 KiB'],
+    [10 * 1024 ** 3, '10 GiB'],
+    [3 * 1024 ** 6, '3072 PiB'],
+  ])('formats %d bytes as %s', (bytes, formatted) => {
+    expect(formatBytes(bytes)).toBe(formatted);
+  });
+});
+
+describe('QueryCostGuard', () => {
+  const config = { dryRun: true, maxBytesPerQuery: 1024, maxBytesPerSession: 4096, defaultLookbackDays: 90 };
+
+  it('refuses estimates above the per-query limit', () => {
+    const guard = new QueryCostGuard(config);
+
+    expect(() => guard.assertAllowed(1024)).not.toThrow();
+    expect(() => guard.assertAllowed(1025)).toThrow('Query would process 1 KiB, above the per-query limit of 1 KiB; narrow the time range or app');
+  });
+
+  it('refuses estimates beyond the remaining session budget', () => {
+    const guard = new QueryCostGuard(config);
+    guard.record(3584);
+
+    expect(() => guard.assertAllowed(1000)).toThrow('only 512 B of the session budget of 4 KiB remains');
+    expect(guard.maximumBytesBilled()).toBe(512);
+  });
+
+  it('refuses every query once the session budget is used up, even without an estimate', () => {
+    const guard = new QueryCostGuard(config);
+    guard.record(4096);
+
+    expect(() => guard.assertAllowed(null)).toThrow('BigQuery session budget of 4 KiB is used up (4 KiB billed)');
+    expect(guard.maximumBytesBilled()).toBe(0);
+  });
+
+  it('treats zero limits as disabled', () => {
+    const guard = new QueryCostGuard({ ...config, maxBytesPerQuery: 0, maxBytesPerSession: 0 });
+    guard.record(1024 ** 4);
+
+    expect(() => guard.assertAllowed(1024 ** 4)).not.toThrow();
+    expect(guard.maximumBytesBilled()).toBeNull();
+    expect(guard.usage()).toEqual({ session_bytes_billed: 1024 ** 4, session_limit_bytes: null, max_bytes_per_query: null });
+  });
+
+  it('reports the session total against its limits', () => {
+    const guard = new QueryCostGuard(config);
+    guard.record(100);
+    guard.record(200);
+
+    expect(guard.usage()).toEqual({ session_bytes_billed: 300, session_limit_bytes: 4096, max_bytes_per_query: 1024 });
+  });
+});
@@ -0,0 +1,71 @@
+import { QueryCostConfig } from './types.js';
+
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB'];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value * 100) / 100} ${BYTE_UNITS[unit]}`;
+}
+
+export interface QueryCostUsage {
+  session_bytes_billed: number;
+  session_limit_bytes: number | null;
+  max_bytes_per_query: number | null;
+}
+
+/**
+ * Per-query and per-session byte limits for BigQuery jobs. Queries are
+ * refused on their dry-run estimate before anything is billed, and each job
+ * runs with `maximumBytesBilled` set to what is still allowed, so BigQuery
+ * fails a query whose estimate was too low instead of overspending.
+ */
+export class QueryCostGuard {
+  private sessionBytesBilled = 0;
+
+  constructor(private readonly config: QueryCostConfig) {}
+
+  assertAllowed(estimatedBytes: number | null): void {
+    const { maxBytesPerQuery, maxBytesPerSession } = this.config;
+
+    if (maxBytesPerSession > 0 && this.sessionBytesBilled >= maxBytesPerSession) {
+      throw new Error(`BigQuery session budget of ${formatBytes(maxBytesPerSession)} is used up (${formatBytes(this.sessionBytesBilled)} billed)`);
+    }
+    if (estimatedBytes === null) return;
+
+    if (maxBytesPerQuery > 0 && estimatedBytes > maxBytesPerQuery) {
+      throw new Error(`Query would process ${formatBytes(estimatedBytes)}, above the per-query limit of ${formatBytes(maxBytesPerQuery)}; narrow the time range or app`);
+    }
+    if (maxBytesPerSession > 0 && this.sessionBytesBilled + estimatedBytes > maxBytesPerSession) {
+      throw new Error(`Query would process ${formatBytes(estimatedBytes)}, but only ${formatBytes(maxBytesPerSession - this.sessionBytesBilled)} of the session budget of ${formatBytes(maxBytesPerSession)} remains`);
+    }
+  }
+
+  /** The smaller of the per-query cap and the remaining session budget, or null when neither applies. */
+  maximumBytesBilled(): number | null {
+    const limits: number[] = [];
+    if (this.config.maxBytesPerQuery > 0) {
+      limits.push(this.config.maxBytesPerQuery);
+    }
+    if (this.config.maxBytesPerSession > 0) {
+      limits.push(Math.max(this.config.maxBytesPerSession - this.sessionBytesBilled, 0));
+    }
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  record(bytesBilled: number): void {
+    this.sessionBytesBilled += bytesBilled;
+  }
+
+  usage(): QueryCostUsage {
+    return {
+      session_bytes_billed: this.sessionBytesBilled,
+      session_limit_bytes: this.config.maxBytesPerSession || null,
+      max_bytes_per_query: this.config.maxBytesPerQuery || null,
+    };
+  }
+}
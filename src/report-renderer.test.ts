@@ -0,0 +1,95 @@
+import { CrashProcessor } from './crash-processor';
+import { renderCrashReport } from './report-renderer';
+import { issueAggregate } from './test-helpers';
+import { CrashReport } from './types';
+
+const [issue] = new CrashProcessor().processIssueAggregates([issueAggregate({
+  issue_id: 'issue-1',
+  issue_title: 'Cart.total, "items" | <b>',
+  event_count: 5,
+  user_count: 3,
+  versions: ['1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+})]);
+
+function crashReport(overrides: Partial<CrashReport> = {}): CrashReport {
+  return {
+    app_package: 'com.example.app',
+    time_range: '7d',
+    generated_at: '2026-10-18T12:00:00.000Z',
+    period_start: '2026-10-11T12:00:00.000Z',
+    totals: { issues: 1, events: 5, fatal_events: 5, non_fatal_events: 0, anr_events: 0 },
+    crash_free: {
+      status: 'available',
+      source: 'table',
+      crash_free_users_rate: 99.5,
+      crash_free_sessions_rate: 99.9,
+      crashed_users: 3,
+      total_users: 600,
+      crashed_sessions: 5,
+      total_sessions: 5000,
+      message: '99.5% of users were crash-free',
+    },
+    trend: [
+      { date: '2026-10-16', crash_count: 2, affected_users: 1, crash_free_users_rate: 99.8, crash_free_sessions_rate: 99.9 },
+      { date: '2026-10-17', crash_count: 3, affected_users: 2, crash_free_users_rate: 99.2, crash_free_sessions_rate: null },
+    ],
+    top_issues: [issue],
+    new_issues: [issue],
+    regressed_issues: [],
+    devices: [{ name: 'Pixel 7', crash_count: 5, percentage: 100 }],
+    operating_systems: [{ name: '14', crash_count: 5, percentage: 100 }],
+    anr: { issue_count: 0, event_count: 0, share_of_events: 0, top_issues: [] },
+    ...overrides,
+  };
+}
+
+describe('renderCrashReport', () => {
+  it('renders markdown tables with escaped cells', () => {
+    const markdown = renderCrashReport(crashReport(), 'markdown');
+
+    expect(markdown).toContain('# Crash report: com.example.app (last 7 days)\n\nGenerated 2026-10-18T12:00:00.000Z. 99.5% of users were crash-free.');
+    expect(markdown).toContain('| 2026-10-17 | 2 | 99.2% | n/a |');
+    expect(markdown).toContain('| Cart.total, "items" \\| <b> | issue-1 | fatal | low | 5 | 3 | new | 1.3.0, 1.2.0, 1.1.0, … |');
+    expect(markdown).toContain('## Regressed issues\n\nNo regressed issues.');
+    expect(markdown).toContain('## ANRs\n\n0 ANR issues, 0 events (0% of all events).\n\nNo ANRs in this period.');
+  });
+
+  it('explains why the all-time period has no new or regressed issues', () => {
+    const markdown = renderCrashReport(crashReport({ time_range: 'all', new_issues: null, regressed_issues: null }), 'markdown');
+
+    expect(markdown).toContain('(all time)');
+    expect(markdown).toContain('## New issues\n\nNot available for the all-time period.');
+  });
+
+  it('quotes CSV fields with commas, quotes and line breaks', () => {
+    const csv = renderCrashReport(crashReport({
+      devices: [{ name: 'Pixel\n7', crash_count: 5, percentage: 100 }],
+      operating_systems: [{ name: 'Android\r14', crash_count: 5, percentage: 100 }],
+    }), 'csv');
+
+    expect(csv.startsWith('Summary\nMetric,Value\nIssues,1\n')).toBe(true);
+    expect(csv).toContain('\n\nTop issues by impact\nIssue,Issue ID,Type,Impact,Events,Users,Growth,Versions\n'
+      + '"Cart.total, ""items"" | <b>",issue-1,fatal,low,5,3,new,"1.3.0, 1.2.0, 1.1.0, …"\n');
+    expect(csv).toContain('\n\nDevices\nDevice,Crashes,Share\n"Pixel\n7",5,100%\n');
+    expect(csv).toContain('\n"Android\r14",5,100%\n');
+    expect(csv).toContain('\n\nRegressed issues\nIssue,Issue ID,Type,Events,Users,Share before,Share now\n\n');
+  });
+
+  it('escapes HTML and charts the trend and breakdowns', () => {
+    const html = renderCrashReport(crashReport(), 'html');
+
+    expect(html).toContain('<title>Crash report: com.example.app (last 7 days)</title>');
+    expect(html).toContain('<td>Cart.total, &quot;items&quot; | &lt;b&gt;</td>');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('aria-label="Crash-free users (%)"');
+    expect(html).toContain('<title>2026-10-17: 99.2</title>');
+    expect(html).toContain('>5 (100%)</text>');
+    expect(html).toContain('<p class="empty">No ANRs in this period.</p>');
+  });
+
+  it('charts crashed users when no crash-free rate is known', () => {
+    const trend = crashReport().trend.map(day => ({ ...day, crash_free_users_rate: null, crash_free_sessions_rate: null }));
+
+    expect(renderCrashReport(crashReport({ trend }), 'html')).toContain('aria-label="Crashed users per day"');
+  });
+});
@@ -0,0 +1,286 @@
+import { BreakdownEntry, CrashReport, IssueSummary, ReportFormat } from './types.js';
+
+interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: Array<Array<string | number>>;
+  /** Shown instead of the table when it has no rows. */
+  empty: string;
+}
+
+const PERIOD_LABELS: Record<CrashReport['time_range'], string> = {
+  '1h': 'last hour',
+  '24h': 'last 24 hours',
+  '7d': 'last 7 days',
+  '30d': 'last 30 days',
+  'all': 'all time',
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 32;
+const BAR_HEIGHT = 18;
+const BAR_LABEL_WIDTH = 160;
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${value}%`;
+}
+
+function growth(issue: IssueSummary): string {
+  return issue.growth.change_rate === null ? 'new' : `${issue.growth.change_rate > 0 ? '+' : ''}${issue.growth.change_rate}%`;
+}
+
+/** The report's sections as tables, shared by every format. */
+function reportTables(report: CrashReport): ReportTable[] {
+  const { totals, crash_free: crashFree } = report;
+
+  return [
+    {
+      title: 'Summary',
+      headers: ['Metric', 'Value'],
+      rows: [
+        ['Issues', totals.issues],
+        ['Events', totals.events],
+        ['Fatal events', totals.fatal_events],
+        ['Non-fatal events', totals.non_fatal_events],
+        ['ANR events', totals.anr_events],
+        ['Crashed users', crashFree.crashed_users],
+        ['Crash-free users', percent(crashFree.crash_free_users_rate)],
+        ['Crash-free sessions', percent(crashFree.crash_free_sessions_rate)],
+      ],
+      empty: '',
+    },
+    {
+      title: 'Crash-free trend',
+      headers: ['Date', 'Crashed users', 'Crash-free users', 'Crash-free sessions'],
+      rows: report.trend.map(day => [
+        day.date,
+        day.affected_users,
+        percent(day.crash_free_users_rate),
+        percent(day.crash_free_sessions_rate),
+      ]),
+      empty: 'No crashes in this period.',
+    },
+    {
+      title: 'Top issues by impact',
+      headers: ['Issue', 'Issue ID', 'Type', 'Impact', 'Events', 'Users', 'Growth', 'Versions'],
+      rows: report.top_issues.map(issue => [
+        issue.title,
+        issue.issue_id,
+        issue.type,
+        issue.impact,
+        issue.event_count,
+        issue.affected_users,
+        growth(issue),
+        issue.affected_versions.slice(0, 3).join(', ') + (issue.affected_versions.length > 3 ? ', …' : ''),
+      ]),
+      empty: 'No issues in this period.',
+    },
+    {
+      title: 'New issues',
+      headers: ['Issue', 'Issue ID', 'Type', 'Events', 'Users', 'First seen'],
+      rows: (report.new_issues || []).map(issue => [
+        issue.title,
+        issue.issue_id,
+        issue.type,
+        issue.event_count,
+        issue.affected_users,
+        issue.first_seen,
+      ]),
+      empty: report.new_issues ? 'No new issues.' : 'Not available for the all-time period.',
+    },
+    {
+      title: 'Regressed issues',
+      headers: ['Issue', 'Issue ID', 'Type', 'Events', 'Users', 'Share before', 'Share now'],
+      rows: (report.regressed_issues || []).map(issue => [
+        issue.title,
+        issue.issue_id,
+        issue.type,
+        issue.event_count,
+        issue.affected_users,
+        percent(issue.previous_share),
+        percent(issue.current_share),
+      ]),
+      empty: report.regressed_issues ? 'No regressed issues.' : 'Not available for the all-time period.',
+    },
+    {
+      title: 'Devices',
+      headers: ['Device', 'Crashes', 'Share'],
+      rows: report.devices.map(entry => [entry.name, entry.crash_count, percent(entry.percentage)]),
+      empty: 'No crashes in this period.',
+    },
+    {
+      title: 'OS versions',
+      headers: ['OS version', 'Crashes', 'Share'],
+      rows: report.operating_systems.map(entry => [entry.name, entry.crash_count, percent(entry.percentage)]),
+      empty: 'No crashes in this period.',
+    },
+    {
+      title: 'ANRs',
+      headers: ['Issue', 'Issue ID', 'Events', 'Users', 'Likely cause'],
+      rows: report.anr.top_issues.map(issue => [
+        issue.title,
+        issue.issue_id,
+        issue.event_count,
+        issue.affected_users,
+        issue.top_cause_description || 'Unknown',
+      ]),
+      empty: 'No ANRs in this period.',
+    },
+  ];
+}
+
+function heading(report: CrashReport): string {
+  return `Crash report: ${report.app_package} (${PERIOD_LABELS[report.time_range]})`;
+}
+
+function anrSummary(report: CrashReport): string {
+  return `${report.anr.issue_count} ANR issues, ${report.anr.event_count} events (${percent(report.anr.share_of_events)} of all events).`;
+}
+
+function renderMarkdown(report: CrashReport): string {
+  const cell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const lines = [`# ${heading(report)}`, '', `Generated ${report.generated_at}. ${report.crash_free.message}.`];
+
+  for (const table of reportTables(report)) {
+    lines.push('', `## ${table.title}`, '');
+    if (table.title === 'ANRs') lines.push(anrSummary(report), '');
+
+    if (table.rows.length === 0) {
+      lines.push(table.empty);
+      continue;
+    }
+    lines.push(`| ${table.headers.join(' | ')} |`, `| ${table.headers.map(() => '---').join(' | ')} |`);
+    for (const row of table.rows) {
+      lines.push(`| ${row.map(cell).join(' | ')} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Line chart of the daily crash-free user rate, or of crashed users without a denominator. */
+function trendChart(report: CrashReport): string {
+  if (report.trend.length === 0) return '';
+
+  const useRate = report.trend.some(day => day.crash_free_users_rate !== null);
+  const values = report.trend.map(day => useRate ? day.crash_free_users_rate ?? 0 : day.affected_users);
+  const min = useRate ? Math.min(...values) : 0;
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const x = (index: number) => CHART_PADDING + (values.length > 1 ? (index / (values.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING) : 0);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - min) / range) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  const points = values.map((value, index) => `${x(index).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const dots = values.map((value, index) =>
+    `<circle cx="${x(index).toFixed(1)}" cy="${y(value).toFixed(1)}" r="3"><title>${escapeHtml(report.trend[index].date)}: ${value}</title></circle>`
+  ).join('');
+  const label = useRate ? 'Crash-free users (%)' : 'Crashed users per day';
+  const first = report.trend[0].date;
+  const last = report.trend[report.trend.length - 1].date;
+
+  return `<svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${label}">
+<text x="${CHART_PADDING}" y="16">${label}</text>
+<text x="4" y="${y(max) + 4}">${max}</text>
+<text x="4" y="${y(min) + 4}">${min}</text>
+<polyline fill="none" stroke="#d93025" stroke-width="2" points="${points}"/>
+<g fill="#d93025">${dots}</g>
+<text x="${CHART_PADDING}" y="${CHART_HEIGHT - 8}">${escapeHtml(first)}</text>
+<text x="${CHART_WIDTH - CHART_PADDING}" y="${CHART_HEIGHT - 8}" text-anchor="end">${escapeHtml(last)}</text>
+</svg>`;
+}
+
+function barChart(entries: BreakdownEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const height = entries.length * (BAR_HEIGHT + 6) + 6;
+  const barWidth = CHART_WIDTH - BAR_LABEL_WIDTH - 64;
+  const max = Math.max(...entries.map(entry => entry.crash_count)) || 1;
+  const bars = entries.map((entry, index) => {
+    const top = 6 + index * (BAR_HEIGHT + 6);
+    const width = Math.max(1, (entry.crash_count / max) * barWidth);
+    return `<text x="${BAR_LABEL_WIDTH - 8}" y="${top + 13}" text-anchor="end">${escapeHtml(entry.name)}</text>
+<rect x="${BAR_LABEL_WIDTH}" y="${top}" width="${width.toFixed(1)}" height="${BAR_HEIGHT}" fill="#1a73e8"/>
+<text x="${BAR_LABEL_WIDTH + width + 6}" y="${top + 13}">${entry.crash_count} (${entry.percentage}%)</text>`;
+  }).join('\n');
+
+  return `<svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${height}" role="img">\n${bars}\n</svg>`;
+}
+
+function renderHtml(report: CrashReport): string {
+  const charts: Record<string, string> = {
+    'Crash-free trend': trendChart(report),
+    'Devices': barChart(report.devices),
+    'OS versions': barChart(report.operating_systems),
+  };
+
+  const sections = reportTables(report).map(table => {
+    const parts = [`<h2>${escapeHtml(table.title)}</h2>`];
+    if (table.title === 'ANRs') parts.push(`<p>${escapeHtml(anrSummary(report))}</p>`);
+    if (charts[table.title]) parts.push(charts[table.title]);
+
+    if (table.rows.length === 0) {
+      parts.push(`<p class="empty">${escapeHtml(table.empty)}</p>`);
+    } else {
+      const header = table.headers.map(name => `<th>${escapeHtml(name)}</th>`).join('');
+      const rows = table.rows
+        .map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`)
+        .join('\n');
+      parts.push(`<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`);
+    }
+    return `<section>\n${parts.join('\n')}\n</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(heading(report))}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 2rem auto; max-width: 960px; color: #202124; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border-bottom: 1px solid #dadce0; padding: 4px 8px; text-align: left; }
+th { background: #f1f3f4; }
+.chart { width: 100%; max-width: ${CHART_WIDTH}px; font-size: 11px; margin-bottom: 1rem; }
+.empty, .meta { color: #5f6368; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(heading(report))}</h1>
+<p class="meta">Generated ${escapeHtml(report.generated_at)}. ${escapeHtml(report.crash_free.message)}.</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderCsv(report: CrashReport): string {
+  const field = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  // One table after another, each under a row naming it
+  return reportTables(report)
+    .map(table => [table.title, table.headers.map(field).join(','), ...table.rows.map(row => row.map(field).join(','))].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function renderCrashReport(report: CrashReport, format: ReportFormat): string {
+  switch (format) {
+    case 'html':
+      return renderHtml(report);
+    case 'csv':
+      return renderCsv(report);
+    case 'markdown':
+    default:
+      return renderMarkdown(report);
+  }
+}
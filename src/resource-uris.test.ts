@@ -0,0 +1,38 @@
+import { parseResourceUri, resourceUri } from './resource-uris';
+import { CrashlyticsResource } from './types';
+
+describe('resource URIs', () => {
+  it.each<[CrashlyticsResource, string]>([
+    [{ kind: 'apps' }, 'crashlytics://apps'],
+    [{ kind: 'app_issues', app_package: 'com.example.app' }, 'crashlytics://apps/com.example.app/issues'],
+    [{ kind: 'issue', app_package: 'com.example.app', issue_id: 'abc123' }, 'crashlytics://apps/com.example.app/issues/abc123'],
+    [{ kind: 'event', event_id: 'event-1' }, 'crashlytics://events/event-1'],
+  ])('round-trips %j', (resource, uri) => {
+    expect(resourceUri(resource)).toBe(uri);
+    expect(parseResourceUri(uri)).toEqual(resource);
+  });
+
+  it('percent-encodes path segments', () => {
+    const resource: CrashlyticsResource = { kind: 'issue', app_package: 'com.example/app', issue_id: 'a b?' };
+
+    expect(resourceUri(resource)).toBe('crashlytics://apps/com.example%2Fapp/issues/a%20b%3F');
+    expect(parseResourceUri(resourceUri(resource))).toEqual(resource);
+  });
+
+  it('ignores a trailing slash', () => {
+    expect(parseResourceUri('crashlytics://apps/com.example.app/issues/')).toEqual({ kind: 'app_issues', app_package: 'com.example.app' });
+  });
+
+  it.each([
+    'https://apps',
+    'crashlytics://',
+    'crashlytics://apps/com.example.app',
+    'crashlytics://apps//issues',
+    'crashlytics://apps/com.example.app/events/abc',
+    'crashlytics://events',
+    'crashlytics://events/a/b',
+    'crashlytics://events/%E0%A4%A',
+  ])('rejects %s', uri => {
+    expect(parseResourceUri(uri)).toBeNull();
+  });
+});
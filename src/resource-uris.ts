@@ -0,0 +1,42 @@
+import { CrashlyticsResource } from './types.js';
+
+const SCHEME = 'crashlytics://';
+
+/** URI of a resource; path segments are percent-encoded, so package names and IDs round-trip. */
+export function resourceUri(resource: CrashlyticsResource): string {
+  const segment = encodeURIComponent;
+  switch (resource.kind) {
+    case 'apps':
+      return `${SCHEME}apps`;
+    case 'app_issues':
+      return `${SCHEME}apps/${segment(resource.app_package)}/issues`;
+    case 'issue':
+      return `${SCHEME}apps/${segment(resource.app_package)}/issues/${segment(resource.issue_id)}`;
+    case 'event':
+      return `${SCHEME}events/${segment(resource.event_id)}`;
+  }
+}
+
+/** The resource a URI names, or null when it is not a `crashlytics://` URI this server serves. */
+export function parseResourceUri(uri: string): CrashlyticsResource | null {
+  if (!uri.startsWith(SCHEME)) return null;
+
+  let segments: string[];
+  try {
+    segments = uri.slice(SCHEME.length).replace(/\/+$/, '').split('/').map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (segments.some(segment => !segment)) return null;
+
+  const [root, ...rest] = segments;
+  if (root === 'apps') {
+    if (rest.length === 0) return { kind: 'apps' };
+    if (rest.length === 2 && rest[1] === 'issues') return { kind: 'app_issues', app_package: rest[0] };
+    if (rest.length === 3 && rest[1] === 'issues') return { kind: 'issue', app_package: rest[0], issue_id: rest[2] };
+  }
+  if (root === 'events' && rest.length === 1) {
+    return { kind: 'event', event_id: rest[0] };
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceFileIndex, blamedStack, isAppFrame } from './source-files';
+import { crashEvent } from './test-helpers';
+
+describe('isAppFrame', () => {
+  it('trusts the owner, else takes frames without a library as app code', () => {
+    expect(isAppFrame({ owner: 'DEVELOPER', library: 'com.example.app' })).toBe(true);
+    expect(isAppFrame({ owner: 'PLATFORM' })).toBe(false);
+    expect(isAppFrame({ library: 'UIKitCore' })).toBe(false);
+    expect(isAppFrame({})).toBe(true);
+  });
+});
+
+describe('blamedStack', () => {
+  const frames = (symbol: string) => [{ symbol }];
+
+  it('prefers the blamed exception, then errors, then the crashed thread', () => {
+    expect(blamedStack(crashEvent({
+      exceptions: [{ frames: frames('cause') }, { blamed: true, frames: frames('blamed') }],
+      threads: [{ crashed: true, frames: frames('thread') }],
+    }))[0].symbol).toBe('blamed');
+    expect(blamedStack(crashEvent({ errors: [{ frames: frames('error') }], threads: [{ crashed: true, frames: frames('thread') }] }))[0].symbol).toBe('error');
+    expect(blamedStack(crashEvent({ threads: [{ frames: frames('other') }, { crashed: true, frames: frames('thread') }] }))[0].symbol).toBe('thread');
+    expect(blamedStack(crashEvent())).toEqual([]);
+  });
+});
+
+describe('SourceFileIndex', () => {
+  let repo: string;
+
+  async function writeFile(relativePath: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(repo, relativePath), '');
+  }
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'source-files-'));
+    await writeFile('app/src/main/java/com/example/cart/CartFragment.kt');
+    await writeFile('app/src/main/java/com/example/cart/Utils.kt');
+    await writeFile('app/src/main/java/com/example/profile/Utils.kt');
+    await writeFile('lib/src/cart.dart');
+    await writeFile('build/generated/Generated.kt');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('finds a file by its unique name', async () => {
+    expect(await new SourceFileIndex(repo).findFrameFile({ file: 'CartFragment.kt' })).toBe('app/src/main/java/com/example/cart/CartFragment.kt');
+  });
+
+  it('tells files of the same name apart by path or JVM package', async () => {
+    const index = new SourceFileIndex(repo);
+
+    expect(await index.findFrameFile({ file: 'profile/Utils.kt' })).toBe('app/src/main/java/com/example/profile/Utils.kt');
+    expect(await index.findFrameFile({ file: 'Utils.kt', symbol: 'com.example.cart.UtilsKt.format' })).toBe(
+      'app/src/main/java/com/example/cart/Utils.kt'
+    );
+    expect(await index.findFrameFile({ file: 'Utils.kt' })).toBeNull();
+  });
+
+  it('resolves Dart package paths under lib/', async () => {
+    expect(await new SourceFileIndex(repo).findFrameFile({ file: 'package:my_app/src/cart.dart' })).toBe('lib/src/cart.dart');
+  });
+
+  it('skips build output and unknown files', async () => {
+    const index = new SourceFileIndex(repo);
+
+    expect(await index.findFrameFile({ file: 'Generated.kt' })).toBeNull();
+    expect(await index.findFrameFile({ file: 'Missing.kt' })).toBeNull();
+    expect(await index.findFrameFile({ file: '' })).toBeNull();
+  });
+
+  it('indexes the checkout again after a failure', async () => {
+    const missing = path.join(repo, 'checkout');
+    const index = new SourceFileIndex(missing);
+
+    await expect(index.findFrameFile({ file: 'Cart.kt' })).rejects.toThrow(`Failed to index app repository ${missing}`);
+
+    await fs.mkdir(missing);
+    await fs.writeFile(path.join(missing, 'Cart.kt'), '');
+    expect(await index.findFrameFile({ file: 'Cart.kt' })).toBe('Cart.kt');
+  });
+});
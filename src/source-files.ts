@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CrashEvent, CrashFrame } from './types.js';
+
+const SKIPPED_DIRECTORIES = new Set(['.git', '.gradle', '.idea', 'build', 'dist', 'node_modules', 'Pods', 'DerivedData']);
+const MAX_INDEXED_FILES = 200_000;
+const JAVA_SYMBOL = /^[\w$]+(\.[\w$]+)+$/;
+// Dart frames name files by package, e.g. package:my_app/src/cart.dart for lib/src/cart.dart
+const DART_PACKAGE_FILE = /^package:[\w.]+\/(.+)$/;
+
+/** Frames without an owner are taken as app code unless they name a library, since not every SDK reports owners. */
+export function isAppFrame(frame: { owner?: string; library?: string }): boolean {
+  return frame.owner ? frame.owner === 'DEVELOPER' : !frame.library;
+}
+
+/** The frames of an event's blamed exception or error, else of its crashed thread. */
+export function blamedStack(event: CrashEvent): CrashFrame[] {
+  const exception = event.exceptions.find(candidate => candidate.blamed) || event.exceptions[0];
+  const error = event.errors.find(candidate => candidate.blamed) || event.errors[0];
+  const thread = event.threads.find(candidate => candidate.crashed || candidate.blamed);
+  return exception?.frames.length ? exception.frames : error?.frames.length ? error.frames : thread?.frames || [];
+}
+
+/**
+ * Finds the source files of crash frames in a local checkout of the app.
+ * Frames only carry a file name, or a path when source-mapped, so the
+ * checkout is indexed by file name once, on first use.
+ */
+export class SourceFileIndex {
+  private fileIndex: Promise<Map<string, string[]>> | null = null;
+
+  constructor(readonly root: string) {}
+
+  /**
+   * The repository-relative path of a frame's file: the candidate whose
+   * path ends with the frame's path, the only file of that name, or the
+   * one under the directories of the frame's JVM package. Null when none
+   * or several files could be meant.
+   */
+  async findFrameFile(frame: { file: string; symbol?: string }): Promise<string | null> {
+    let file = frame.file.replace(/\\/g, '/');
+    const dartFile = file.match(DART_PACKAGE_FILE);
+    file = (dartFile ? `lib/${dartFile[1]}` : file).replace(/^(\.\/|\/)+/, '');
+    if (!file) return null;
+
+    const index = await this.loadFileIndex();
+    const candidates = index.get(path.posix.basename(file)) || [];
+    if (candidates.length === 0) return null;
+
+    if (file.includes('/')) {
+      const exact = candidates.find(candidate => candidate === file || candidate.endsWith(`/${file}`));
+      if (exact) return exact;
+    }
+    if (candidates.length === 1) return candidates[0];
+
+    // JVM frames name their package, which mirrors the source directories
+    if (frame.symbol && JAVA_SYMBOL.test(frame.symbol)) {
+      const packagePath = frame.symbol.split('.').slice(0, -2).join('/');
+      const match = candidates.find(candidate => candidate.endsWith(`${packagePath}/${path.posix.basename(file)}`));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  async readFile(relativePath: string): Promise<string> {
+    try {
+      return await fs.readFile(path.join(this.root, relativePath), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read source file ${relativePath}: ${error}`);
+    }
+  }
+
+  private loadFileIndex(): Promise<Map<string, string[]>> {
+    if (!this.fileIndex) {
+      // A failed walk is retried on the next lookup instead of failing every one
+      this.fileIndex = this.indexRepository().catch(error => {
+        this.fileIndex = null;
+        throw error;
+      });
+    }
+    return this.fileIndex;
+  }
+
+  private async indexRepository(): Promise<Map<string, string[]>> {
+    const index = new Map<string, string[]>();
+    const pending = [''];
+    let indexed = 0;
+
+    while (pending.length > 0 && indexed < MAX_INDEXED_FILES) {
+      const directory = pending.pop()!;
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(this.root, directory), { withFileTypes: true });
+      } catch (error) {
+        throw new Error(`Failed to index app repository ${this.root}: ${error}`);
+      }
+
+      for (const entry of entries) {
+        const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (!SKIPPED_DIRECTORIES.has(entry.name)) pending.push(relativePath);
+        } else if (entry.isFile()) {
+          index.set(entry.name, [...(index.get(entry.name) || []), relativePath]);
+          indexed++;
+        }
+      }
+    }
+    return index;
+  }
+}
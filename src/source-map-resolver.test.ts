@@ -0,0 +1,168 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BundleSourceMaps, RawSourceMap, SourceMap, SourceMapResolver, decodeVlq } from './source-map-resolver';
+import { crashEvent } from './test-helpers';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeVlq(values: number[]): string {
+  return values.map(value => {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let encoded = '';
+    do {
+      const digit = vlq & 31;
+      vlq >>>= 5;
+      encoded += BASE64[vlq > 0 ? digit | 32 : digit];
+    } while (vlq > 0);
+    return encoded;
+  }).join('');
+}
+
+// Generated line 1: column 0 is cart.ts 10:3 (addItem), column 100 is api.ts 20:5 (fetchCart).
+// Generated line 2: column 5 is api.ts 20:5 without a name, column 25 maps to no source.
+const BUNDLE_MAP: RawSourceMap = {
+  sources: ['src/cart.ts', 'src/api.ts'],
+  names: ['addItem', 'fetchCart'],
+  mappings: [
+    [encodeVlq([0, 0, 9, 2, 0]), encodeVlq([100, 1, 10, 2, 1])].join(','),
+    [encodeVlq([5, 0, 0, 0]), encodeVlq([20])].join(','),
+  ].join(';'),
+};
+
+describe('decodeVlq', () => {
+  it('decodes signed and multi-digit values', () => {
+    expect(decodeVlq('AAgBC')).toEqual([0, 0, 16, 1]);
+    expect(decodeVlq('D')).toEqual([-1]);
+  });
+
+  it.each([[[0]], [[15, -16, 16]], [[284712, -284712]], [[1, 2, 3, 4, 5]]])('round-trips %j', values => {
+    expect(decodeVlq(encodeVlq(values))).toEqual(values);
+  });
+
+  it('rejects characters outside Base64', () => {
+    expect(() => decodeVlq('A!')).toThrow('Invalid source map mapping character: !');
+  });
+});
+
+describe('SourceMap', () => {
+  const map = new SourceMap(BUNDLE_MAP);
+
+  it('finds the closest preceding segment', () => {
+    expect(map.originalPositionFor(1, 1)).toEqual({ source: 'src/cart.ts', line: 10, column: 3, name: 'addItem' });
+    expect(map.originalPositionFor(1, 99)).toMatchObject({ source: 'src/cart.ts', name: 'addItem' });
+    expect(map.originalPositionFor(1, 150)).toEqual({ source: 'src/api.ts', line: 20, column: 5, name: 'fetchCart' });
+    expect(map.originalPositionFor(2, 6)).toEqual({ source: 'src/api.ts', line: 20, column: 5, name: undefined });
+  });
+
+  it('returns null for unmapped positions', () => {
+    expect(map.originalPositionFor(2, 1)).toBeNull();
+    expect(map.originalPositionFor(2, 30)).toBeNull();
+    expect(map.originalPositionFor(3, 1)).toBeNull();
+  });
+
+  it('prefixes sources with the source root', () => {
+    const rooted = new SourceMap({ ...BUNDLE_MAP, sourceRoot: 'webpack:///app' });
+
+    expect(rooted.originalPositionFor(1, 1)?.source).toBe('webpack:///app/src/cart.ts');
+  });
+
+  it('resolves positions of indexed maps relative to their section', () => {
+    const indexed = new SourceMap({
+      sections: [
+        { offset: { line: 5, column: 0 }, map: BUNDLE_MAP },
+        { offset: { line: 0, column: 0 }, map: BUNDLE_MAP },
+        { offset: { line: 0, column: 1000 }, map: { sources: ['src/vendor.ts'], names: [], mappings: encodeVlq([0, 0, 0, 0]) } },
+      ],
+    });
+
+    expect(indexed.originalPositionFor(1, 150)).toMatchObject({ source: 'src/api.ts', line: 20 });
+    expect(indexed.originalPositionFor(1, 1001)).toEqual({ source: 'src/vendor.ts', line: 1, column: 1, name: undefined });
+    expect(indexed.originalPositionFor(7, 6)).toMatchObject({ source: 'src/api.ts', line: 20, column: 5 });
+  });
+});
+
+describe('BundleSourceMaps', () => {
+  const maps = new BundleSourceMaps(new Map([['index.android.bundle', new SourceMap(BUNDLE_MAP)]]), '/maps/1.0.0');
+
+  it('resolves bundle frames to their original source', () => {
+    const frame = { method: 'anonymous', class: 'index.android.bundle', file: 'index.android.bundle', line: 1, column: 150 };
+
+    expect(maps.resolveFrame(frame)).toEqual({
+      method: 'fetchCart',
+      class: 'api',
+      file: 'src/api.ts',
+      line: 20,
+      column: 5,
+      library: undefined,
+      generated_location: 'index.android.bundle:1:150',
+    });
+  });
+
+  it('skips frames of other files and frames without a column', () => {
+    expect(maps.resolveFrame({ method: 'm', class: 'c', file: 'main.bundle', line: 1, column: 1 })).toBeNull();
+    expect(maps.resolveFrame({ method: 'm', class: 'c', file: 'index.android.bundle', line: 1 })).toBeNull();
+    expect(maps.resolveFrame({ method: 'm', class: 'c', file: 'Cart.kt', line: 1, column: 1 })).toBeNull();
+  });
+});
+
+describe('SourceMapResolver', () => {
+  let sourceMapDir: string;
+  let versionDir: string;
+
+  beforeEach(async () => {
+    sourceMapDir = await fs.mkdtemp(path.join(os.tmpdir(), 'source-maps-'));
+    versionDir = path.join(sourceMapDir, 'com.example.app', '100');
+    await fs.mkdir(versionDir, { recursive: true });
+    await fs.writeFile(path.join(versionDir, 'index.android.bundle.map'), JSON.stringify(BUNDLE_MAP));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sourceMapDir, { recursive: true, force: true });
+  });
+
+  const event = crashEvent({ bundle_identifier: 'com.example.app', application: { display_version: '1.0.0', build_version: '100' } });
+
+  it('falls back from the display version to the build number', async () => {
+    const maps = await new SourceMapResolver(sourceMapDir).loadForEvent(event);
+
+    expect(maps?.directory).toBe(versionDir);
+  });
+
+  it('returns null when no version has source maps', async () => {
+    const other = crashEvent({ bundle_identifier: 'com.example.app', application: { display_version: '2.0.0', build_version: '200' } });
+
+    expect(await new SourceMapResolver(sourceMapDir).loadForEvent(other)).toBeNull();
+    expect(await new SourceMapResolver(sourceMapDir).loadForEvent(crashEvent({ bundle_identifier: '../com.example.app' }))).toBeNull();
+  });
+
+  it('refuses dot-only versions', async () => {
+    // `..` would read the maps in <dir>/com.example.app
+    await fs.writeFile(path.join(sourceMapDir, 'com.example.app', 'index.android.bundle.map'), JSON.stringify(BUNDLE_MAP));
+    const dots = crashEvent({ bundle_identifier: 'com.example.app', application: { display_version: '.', build_version: '..' } });
+
+    expect(await new SourceMapResolver(sourceMapDir).loadForEvent(dots)).toBeNull();
+  });
+
+  it('picks up maps uploaded after a version was looked up', async () => {
+    const resolver = new SourceMapResolver(sourceMapDir);
+    const later = crashEvent({ bundle_identifier: 'com.example.app', application: { display_version: '2.0.0', build_version: '200' } });
+    expect(await resolver.loadForEvent(later)).toBeNull();
+
+    const laterDir = path.join(sourceMapDir, 'com.example.app', '2.0.0');
+    await fs.mkdir(laterDir);
+    await fs.writeFile(path.join(laterDir, 'index.android.bundle.map'), JSON.stringify(BUNDLE_MAP));
+    expect((await resolver.loadForEvent(later))?.directory).toBe(laterDir);
+  });
+
+  it('retries source maps that failed to parse', async () => {
+    const file = path.join(versionDir, 'index.android.bundle.map');
+    await fs.writeFile(file, '{ not json');
+    const resolver = new SourceMapResolver(sourceMapDir);
+
+    await expect(resolver.loadForEvent(event)).rejects.toThrow('Failed to parse source map');
+
+    await fs.writeFile(file, JSON.stringify(BUNDLE_MAP));
+    expect((await resolver.loadForEvent(event))?.directory).toBe(versionDir);
+  });
+});
@@ -0,0 +1,300 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PromiseCache } from './promise-cache.js';
+import { CrashEvent, DeobfuscationStatus, StackFrame } from './types.js';
+
+interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex?: number;
+  originalLine?: number;
+  originalColumn?: number;
+  nameIndex?: number;
+}
+
+/** The parts of a Source Map v3 file this consumer reads. */
+export interface RawSourceMap {
+  sources?: string[];
+  sourceRoot?: string;
+  names?: string[];
+  mappings?: string;
+  sections?: Array<{ offset?: { line?: number; column?: number }; map: RawSourceMap }>;
+}
+
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64_CHARS).map((char, index) => [char, index]));
+const BUNDLE_FILE_PATTERN = /\.(?:bundle|jsbundle|js|mjs|cjs|hbc)$/i;
+// Bundles of large apps have source maps of tens of megabytes
+const MAX_CACHED_VERSIONS = 16;
+
+// Package names and versions become path segments, so only plain names are looked up
+function isSafeKey(key: string): boolean {
+  return /^[A-Za-z0-9._+-]+$/.test(key) && !/^\.+$/.test(key);
+}
+
+export function isJavaScriptBundleFile(file: string): boolean {
+  return BUNDLE_FILE_PATTERN.test(file.split(/[?#]/)[0]);
+}
+
+export function isJavaScriptBundleFrame(frame: StackFrame): boolean {
+  return isJavaScriptBundleFile(frame.file) && frame.column !== undefined;
+}
+
+/** Decodes one Base64 VLQ mapping segment into its signed fields. */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mapping character: ${char}`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Minimal Source Map v3 consumer supporting plain and indexed (`sections`)
+ * maps, which covers Metro, Hermes-composed and webpack output.
+ */
+export class SourceMap {
+  private lines: MappingSegment[][] = [];
+  private sources: string[] = [];
+  private names: string[] = [];
+  private sections: Array<{ line: number; column: number; map: SourceMap }> = [];
+
+  constructor(raw: RawSourceMap) {
+    if (Array.isArray(raw?.sections)) {
+      this.sections = raw.sections
+        .map(section => ({
+          line: section.offset?.line || 0,
+          column: section.offset?.column || 0,
+          map: new SourceMap(section.map),
+        }))
+        .sort((a, b) => a.line - b.line || a.column - b.column);
+      return;
+    }
+
+    const sourceRoot = raw?.sourceRoot ? String(raw.sourceRoot).replace(/\/?$/, '/') : '';
+    this.sources = (raw?.sources || []).map(source => sourceRoot + source);
+    this.names = raw?.names || [];
+    this.lines = this.decodeMappings(raw?.mappings || '');
+  }
+
+  private decodeMappings(mappings: string): MappingSegment[][] {
+    const lines: MappingSegment[][] = [];
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    for (const line of mappings.split(';')) {
+      const segments: MappingSegment[] = [];
+      let generatedColumn = 0;
+
+      for (const encoded of line.split(',')) {
+        if (!encoded) continue;
+
+        const values = decodeVlq(encoded);
+        generatedColumn += values[0];
+        const segment: MappingSegment = { generatedColumn };
+
+        if (values.length >= 4) {
+          sourceIndex += values[1];
+          originalLine += values[2];
+          originalColumn += values[3];
+          segment.sourceIndex = sourceIndex;
+          segment.originalLine = originalLine;
+          segment.originalColumn = originalColumn;
+        }
+        if (values.length >= 5) {
+          nameIndex += values[4];
+          segment.nameIndex = nameIndex;
+        }
+
+        segments.push(segment);
+      }
+
+      segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+      lines.push(segments);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Looks up a generated position. `line` and `column` are 1-based, as they
+   * appear in JavaScript stack traces; the returned position is 1-based too.
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    if (this.sections.length > 0) {
+      const zeroLine = line - 1;
+      const zeroColumn = column - 1;
+      let match: { line: number; column: number; map: SourceMap } | undefined;
+
+      for (const section of this.sections) {
+        if (section.line < zeroLine || (section.line === zeroLine && section.column <= zeroColumn)) {
+          match = section;
+        }
+      }
+      if (!match) return null;
+
+      const sectionColumn = zeroLine === match.line ? zeroColumn - match.column : zeroColumn;
+      return match.map.originalPositionFor(zeroLine - match.line + 1, sectionColumn + 1);
+    }
+
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    const generatedColumn = Math.max(column - 1, 0);
+    let low = 0;
+    let high = segments.length - 1;
+    let found: MappingSegment | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= generatedColumn) {
+        found = segments[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (!found || found.sourceIndex === undefined || found.originalLine === undefined) {
+      return null;
+    }
+
+    return {
+      source: this.sources[found.sourceIndex] || 'Unknown',
+      line: found.originalLine + 1,
+      column: (found.originalColumn || 0) + 1,
+      name: found.nameIndex !== undefined ? this.names[found.nameIndex] : undefined,
+    };
+  }
+}
+
+/**
+ * Source maps available for one app version, keyed by bundle file name.
+ * Lookups are synchronous so the crash processor can apply them while it
+ * builds a `StackTrace`.
+ */
+export class BundleSourceMaps {
+  constructor(private readonly maps: Map<string, SourceMap>, readonly directory: string) {}
+
+  resolveFrame(frame: StackFrame): StackFrame | null {
+    if (!isJavaScriptBundleFrame(frame)) return null;
+
+    const bundleName = path.basename(frame.file.split(/[?#]/)[0]);
+    const position = this.maps.get(bundleName)?.originalPositionFor(frame.line, frame.column!);
+    if (!position) return null;
+
+    const source = position.source.replace(/^webpack:\/\/\/?/, '');
+    return {
+      method: position.name || frame.method,
+      class: frame.class === bundleName ? path.basename(source).replace(/\.[^.]+$/, '') : frame.class,
+      file: source,
+      line: position.line,
+      column: position.column,
+      library: frame.library,
+      generated_location: `${frame.file}:${frame.line}:${frame.column}`,
+    };
+  }
+}
+
+/**
+ * Loads JavaScript source maps (React Native bundles, web views) from a
+ * local directory laid out as `<dir>/<app_package>/<version>/<bundle>.map`,
+ * where `<version>` is the display version or the build number. The maps
+ * of the most recently used versions are kept in memory; versions without
+ * maps are looked up again, so maps uploaded while the server runs are used.
+ */
+export class SourceMapResolver {
+  private cache = new PromiseCache<BundleSourceMaps | null>(MAX_CACHED_VERSIONS, maps => maps !== null);
+
+  constructor(private readonly sourceMapDir: string) {}
+
+  private async loadDirectory(directory: string): Promise<BundleSourceMaps | null> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') return null;
+      throw new Error(`Failed to read source map directory ${directory}: ${error}`);
+    }
+
+    const maps = new Map<string, SourceMap>();
+    for (const entry of entries.filter(name => name.endsWith('.map'))) {
+      const file = path.join(directory, entry);
+      try {
+        maps.set(entry.slice(0, -'.map'.length), new SourceMap(JSON.parse(await fs.readFile(file, 'utf-8'))));
+      } catch (error) {
+        throw new Error(`Failed to parse source map ${file}: ${error}`);
+      }
+    }
+
+    return maps.size > 0 ? new BundleSourceMaps(maps, directory) : null;
+  }
+
+  private load(appPackage: string, version: string): Promise<BundleSourceMaps | null> {
+    return this.cache.getOrLoad(
+      `${appPackage}@${version}`,
+      () => this.loadDirectory(path.join(this.sourceMapDir, appPackage, version))
+    );
+  }
+
+  async loadForEvent(event: CrashEvent): Promise<BundleSourceMaps | null> {
+    if (!isSafeKey(event.bundle_identifier)) return null;
+
+    const versions = [event.application.display_version, event.application.build_version]
+      .filter(version => version && isSafeKey(version));
+
+    for (const version of versions) {
+      const maps = await this.load(event.bundle_identifier, version);
+      if (maps) return maps;
+    }
+    return null;
+  }
+
+  static describe(event: CrashEvent, maps: BundleSourceMaps | null, framesResolved: number): DeobfuscationStatus {
+    if (!maps) {
+      return {
+        type: 'source_map',
+        status: 'mapping_not_found',
+        frames_retraced: 0,
+        message: `No source maps found for ${event.bundle_identifier} version ${event.application.display_version || event.application.build_version || 'unknown'}`,
+      };
+    }
+
+    return {
+      type: 'source_map',
+      status: framesResolved > 0 ? 'retraced' : 'not_obfuscated',
+      mapping_file: maps.directory,
+      frames_retraced: framesResolved,
+      message: framesResolved > 0
+        ? `Resolved ${framesResolved} JavaScript frames using source maps`
+        : 'Source maps found but no bundle frames could be resolved',
+    };
+  }
+}
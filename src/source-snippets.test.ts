@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceFileIndex } from './source-files';
+import { SourceSnippetResolver } from './source-snippets';
+import { StackFrame } from './types';
+
+function frame(file: string, line: number, overrides: Partial<StackFrame> = {}): StackFrame {
+  return { method: 'onViewCreated', class: 'CartFragment', file, line, owner: 'DEVELOPER', ...overrides };
+}
+
+describe('SourceSnippetResolver', () => {
+  let repo: string;
+  let resolver: SourceSnippetResolver;
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'snippets-'));
+    const lines = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`);
+    lines[9] = `val total = ${'x'.repeat(250)}`;
+    await fs.writeFile(path.join(repo, 'CartFragment.kt'), lines.join('\r\n'));
+    resolver = new SourceSnippetResolver(new SourceFileIndex(repo));
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('marks the frame line within its context', async () => {
+    const [snippet] = await resolver.snippetsFor([frame('CartFragment.kt', 9, { symbol: 'com.example.CartFragment.onViewCreated' })], 1);
+
+    expect(snippet).toEqual({
+      frame: 'com.example.CartFragment.onViewCreated',
+      file: 'CartFragment.kt',
+      line: 9,
+      start_line: 8,
+      end_line: 10,
+      code: [
+        '   8 | line 8',
+        '>  9 | line 9',
+        `  10 | val total = ${'x'.repeat(188)}…`,
+      ].join('\n'),
+    });
+  });
+
+  it('clamps the context to the file', async () => {
+    const [first, last] = await resolver.snippetsFor([frame('CartFragment.kt', 1), frame('CartFragment.kt', 12)], 3);
+
+    expect([first.start_line, first.end_line]).toEqual([1, 4]);
+    expect([last.start_line, last.end_line]).toEqual([9, 12]);
+    expect(first.frame).toBe('CartFragment.onViewCreated');
+  });
+
+  it('leaves out framework frames, repeats, missing files and lines past the end', async () => {
+    const snippets = await resolver.snippetsFor([
+      frame('CartFragment.kt', 2),
+      frame('CartFragment.kt', 2),
+      frame('Fragment.java', 3, { owner: 'PLATFORM' }),
+      frame('Missing.kt', 3),
+      frame('CartFragment.kt', 13),
+      frame('CartFragment.kt', 0),
+    ], 0);
+
+    expect(snippets.map(snippet => snippet.line)).toEqual([2]);
+  });
+
+  it('reads at most five frames', async () => {
+    const frames = Array.from({ length: 8 }, (_, index) => frame('CartFragment.kt', index + 1));
+
+    expect(await resolver.snippetsFor(frames, 0)).toHaveLength(5);
+  });
+});
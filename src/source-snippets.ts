@@ -0,0 +1,60 @@
+import { SourceFileIndex, isAppFrame } from './source-files.js';
+import { SourceSnippet, StackFrame } from './types.js';
+
+const MAX_SNIPPET_FRAMES = 5;
+const MAX_LINE_LENGTH = 200;
+
+/**
+ * Reads the source around a crash's in-app frames from a local checkout,
+ * so the code can be read alongside the stack trace. Frames whose file is
+ * not found, or whose line is past the end of it, are left out.
+ */
+export class SourceSnippetResolver {
+  constructor(private readonly sourceFiles: SourceFileIndex) {}
+
+  async snippetsFor(frames: StackFrame[], contextLines: number): Promise<SourceSnippet[]> {
+    const seen = new Set<string>();
+    const appFrames = frames.filter(frame => {
+      const key = `${frame.file}:${frame.line}`;
+      if (!isAppFrame(frame) || frame.line <= 0 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }).slice(0, MAX_SNIPPET_FRAMES);
+
+    const files = new Map<string, Promise<string[]>>();
+    const snippets = await Promise.all(appFrames.map(async frame => {
+      const file = await this.sourceFiles.findFrameFile(frame);
+      if (!file) return null;
+
+      if (!files.has(file)) {
+        files.set(file, this.sourceFiles.readFile(file).then(contents => contents.split(/\r?\n/)));
+      }
+      return this.snippet(frame, file, await files.get(file)!, contextLines);
+    }));
+    return snippets.filter((snippet): snippet is SourceSnippet => snippet !== null);
+  }
+
+  private snippet(frame: StackFrame, file: string, lines: string[], contextLines: number): SourceSnippet | null {
+    if (frame.line > lines.length) return null;
+
+    const startLine = Math.max(1, frame.line - contextLines);
+    const endLine = Math.min(lines.length, frame.line + contextLines);
+    const width = String(endLine).length;
+
+    const code = lines.slice(startLine - 1, endLine).map((text, index) => {
+      const number = startLine + index;
+      const marker = number === frame.line ? '>' : ' ';
+      const truncated = text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text;
+      return `${marker} ${String(number).padStart(width)} | ${truncated}`;
+    });
+
+    return {
+      frame: frame.symbol || `${frame.class}.${frame.method}`,
+      file,
+      line: frame.line,
+      start_line: startLine,
+      end_line: endLine,
+      code: code.join('\n'),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { SourceFileIndex } from './source-files';
+import { SuspectCommitFinder, VersionTag, previousTag, tagFor } from './suspect-commits';
+import { GitCheckout, createGitCheckout, crashEvent } from './test-helpers';
+
+const TAGS: VersionTag[] = [
+  { version: '4.11.0', tag: 'v4.11.0' },
+  { version: '4.11.2', tag: 'release/4.11.2' },
+  { version: '4.12.0', tag: '4.12.0' },
+  { version: '4.12.0', tag: 'v4.12.0' },
+];
+
+describe('tagFor', () => {
+  it('prefers an exact tag, then v<version>, then any tag ending in the version', () => {
+    expect(tagFor(TAGS, '4.12.0')).toBe('4.12.0');
+    expect(tagFor(TAGS, '4.11.0')).toBe('v4.11.0');
+    expect(tagFor(TAGS, '4.11.2')).toBe('release/4.11.2');
+    expect(tagFor(TAGS, '5.0.0')).toBeNull();
+  });
+});
+
+describe('previousTag', () => {
+  it('finds the highest tagged version below a version', () => {
+    expect(previousTag(TAGS, '4.12.0')).toEqual({ version: '4.11.2', tag: 'release/4.11.2' });
+    expect(previousTag(TAGS, '4.11.0')).toBeNull();
+  });
+});
+
+describe('SuspectCommitFinder', () => {
+  const source = (changes: Record<number, string> = {}) =>
+    Array.from({ length: 20 }, (_, index) => changes[index + 1] ?? `line ${index + 1}`).join('\n');
+  let checkout: GitCheckout;
+  let finder: SuspectCommitFinder;
+  let hashes: Record<string, string>;
+
+  beforeAll(async () => {
+    checkout = await createGitCheckout();
+    hashes = {
+      base: await checkout.commit('Add cart', { 'app/Cart.kt': source(), 'app/Api.kt': 'fetch' }, 'v1.0.0'),
+      crashing: await checkout.commit('Skip empty carts', { 'app/Cart.kt': source({ 10: 'cart!!.total' }) }),
+      nearby: await checkout.commit('Log cart totals', { 'app/Cart.kt': source({ 10: 'cart!!.total', 12: 'log(total)' }) }),
+      sameFile: await checkout.commit('Rename cart', { 'app/Cart.kt': source({ 10: 'cart!!.total', 12: 'log(total)', 20: 'end' }) }),
+      unrelated: await checkout.commit('Retry fetches', { 'app/Api.kt': 'retry(fetch)' }, 'v1.1.0'),
+    };
+    finder = new SuspectCommitFinder(new SourceFileIndex(checkout.root));
+  });
+
+  afterAll(async () => {
+    await checkout.remove();
+  });
+
+  const event = crashEvent({
+    application: { display_version: '1.1.0' },
+    exceptions: [{ blamed: true, frames: [
+      { symbol: 'com.example.Cart.total', file: 'Cart.kt', line: 10, owner: 'DEVELOPER' },
+      { symbol: 'android.os.Looper.loop', file: 'Looper.java', line: 193, owner: 'PLATFORM' },
+      { symbol: 'com.example.Missing.run', file: 'Missing.kt', line: 3, owner: 'DEVELOPER' },
+    ] }],
+  });
+
+  it('lists the version tags of the checkout', async () => {
+    expect((await finder.listTags()).sort((a, b) => a.tag.localeCompare(b.tag))).toEqual([
+      { version: '1.0.0', tag: 'v1.0.0' },
+      { version: '1.1.0', tag: 'v1.1.0' },
+    ]);
+  });
+
+  it('resolves in-app frames to files in the checkout', async () => {
+    const { frames, unresolved } = await finder.resolveFrames([event, event]);
+
+    expect(frames).toEqual([{ frame: 'com.example.Cart.total', file: 'app/Cart.kt', line: 10, version: '1.1.0', weight: 2 }]);
+    expect(unresolved).toBe(1);
+  });
+
+  it('ranks commits that changed the crashing line above nearby lines and the same file', async () => {
+    const { frames } = await finder.resolveFrames([event]);
+    const { commits, suspects } = await finder.findSuspects(frames, await finder.listTags(), 'v1.0.0', 'v1.1.0');
+
+    expect(commits).toBe(4);
+    expect(suspects.map(suspect => [suspect.hash, suspect.score])).toEqual([
+      [hashes.crashing, 11],
+      [hashes.nearby, 5],
+      [hashes.sameFile, 1],
+    ]);
+    expect(suspects[0]).toMatchObject({
+      short_hash: hashes.crashing.slice(0, 10),
+      author: 'Dev',
+      message: 'Skip empty carts',
+      reasons: ['Last changed the crashing line app/Cart.kt:10 (com.example.Cart.total)', 'Touched app/Cart.kt'],
+      files: ['app/Cart.kt'],
+    });
+  });
+
+  it('reports git failures', async () => {
+    await expect(finder.findSuspects([], [], 'v0.0.1', 'v1.1.0')).rejects.toThrow(`Failed to run git log in ${checkout.root}`);
+  });
+});
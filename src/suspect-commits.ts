@@ -0,0 +1,184 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { SourceFileIndex, blamedStack, isAppFrame } from './source-files.js';
+import { CrashEvent, SuspectCommit, SuspectFrame } from './types.js';
+import { compareVersions } from './version-utils.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 30_000;
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+const MAX_FRAMES_PER_EVENT = 10;
+const MAX_SUSPECT_FRAMES = 20;
+const NEARBY_LINES = 3;
+// Evidence weights; a frame's weight falls with its depth in the stack
+const CRASHING_LINE_SCORE = 10;
+const NEARBY_LINE_SCORE = 4;
+const FILE_SCORE = 1;
+
+const TAG_VERSION = /(\d+(?:\.\d+)+(?:-[\w.]+)?)$/;
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+export interface VersionTag {
+  version: string;
+  tag: string;
+}
+
+export interface ResolvedFrame extends SuspectFrame {
+  weight: number;
+}
+
+/** The tag of a version: a tag with exactly that name, else `v<version>`, else one ending in the version. */
+export function tagFor(tags: VersionTag[], version: string): string | null {
+  const exact = [version, `v${version}`].find(name => tags.some(tag => tag.tag === name));
+  return exact || tags.find(tag => tag.version === version)?.tag || null;
+}
+
+/** The highest tagged version below `version`. */
+export function previousTag(tags: VersionTag[], version: string): VersionTag | null {
+  const older = tags.filter(tag => compareVersions(tag.version, version) < 0);
+  return older.sort((a, b) => compareVersions(b.version, a.version))[0] || null;
+}
+
+/**
+ * Ranks the commits between two release tags of a local git checkout by
+ * how closely they touched an issue's in-app frames: commits that last
+ * changed a crashing line (by blame at the tag of the crashing version)
+ * rank above ones that changed nearby lines, which rank above ones that
+ * only touched the same files (by log).
+ */
+export class SuspectCommitFinder {
+  constructor(private readonly sourceFiles: SourceFileIndex) {}
+
+  /** Tags named after a version, such as v4.12.0 or release/4.12.0. Not cached, so new releases show up. */
+  async listTags(): Promise<VersionTag[]> {
+    const output = await this.git('tag', '--list');
+    return output.split('\n').flatMap(line => {
+      const tag = line.trim();
+      const match = tag.match(TAG_VERSION);
+      return match ? [{ version: match[1], tag }] : [];
+    });
+  }
+
+  /** In-app frames of the events resolved to files in the checkout, the most frequent and shallowest first. */
+  async resolveFrames(events: CrashEvent[]): Promise<{ frames: ResolvedFrame[]; unresolved: number }> {
+    const frames = new Map<string, ResolvedFrame>();
+    const unresolved = new Set<string>();
+
+    for (const event of events) {
+      const appFrames = blamedStack(event).filter(frame => isAppFrame(frame) && frame.file).slice(0, MAX_FRAMES_PER_EVENT);
+      for (const [depth, frame] of appFrames.entries()) {
+        const version = event.application.display_version;
+        const key = `${frame.file}:${frame.line}:${version}`;
+        const existing = frames.get(key);
+        if (existing) {
+          existing.weight += 1 / (depth + 1);
+          continue;
+        }
+        if (unresolved.has(key)) continue;
+
+        const file = await this.sourceFiles.findFrameFile(frame);
+        if (!file) {
+          unresolved.add(key);
+          continue;
+        }
+        frames.set(key, { frame: frame.symbol, file, line: frame.line, version, weight: 1 / (depth + 1) });
+      }
+    }
+
+    return {
+      frames: Array.from(frames.values()).sort((a, b) => b.weight - a.weight).slice(0, MAX_SUSPECT_FRAMES),
+      unresolved: unresolved.size,
+    };
+  }
+
+  async findSuspects(
+    frames: ResolvedFrame[],
+    tags: VersionTag[],
+    goodTag: string,
+    badTag: string
+  ): Promise<{ commits: number; suspects: SuspectCommit[] }> {
+    const range = `${goodTag}..${badTag}`;
+    const commits = new Map<string, SuspectCommit>();
+    for (const record of (await this.git('log', '--no-merges', `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`, range)).split('\n')) {
+      if (!record) continue;
+      const [hash, author, date, message] = record.split(FIELD_SEPARATOR);
+      commits.set(hash, { hash, short_hash: hash.slice(0, 10), author, date, message, score: 0, reasons: [], files: [] });
+    }
+    if (commits.size === 0 || frames.length === 0) {
+      return { commits: commits.size, suspects: [] };
+    }
+
+    const credit = (hash: string, score: number, reason: string, file: string) => {
+      const commit = commits.get(hash);
+      if (!commit) return;
+      commit.score += score;
+      if (!commit.reasons.includes(reason)) commit.reasons.push(reason);
+      if (!commit.files.includes(file)) commit.files.push(file);
+    };
+
+    for (const frame of frames) {
+      // Line numbers only hold for the build that crashed
+      const ref = frame.version ? tagFor(tags, frame.version) : null;
+      if (!ref || frame.line <= 0) continue;
+
+      for (const [line, hash] of await this.blame(ref, frame.file, frame.line)) {
+        if (line === frame.line) {
+          credit(hash, CRASHING_LINE_SCORE * frame.weight, `Last changed the crashing line ${frame.file}:${frame.line} (${frame.frame})`, frame.file);
+        } else {
+          credit(hash, NEARBY_LINE_SCORE * frame.weight, `Changed lines near ${frame.file}:${frame.line} (${frame.frame})`, frame.file);
+        }
+      }
+    }
+
+    const weights = new Map<string, number>();
+    for (const frame of frames) {
+      weights.set(frame.file, Math.max(weights.get(frame.file) || 0, frame.weight));
+    }
+    const log = await this.git('log', '--no-merges', `--format=${RECORD_SEPARATOR}%H`, '--name-only', '--relative', range, '--', ...weights.keys());
+    for (const record of log.split(RECORD_SEPARATOR)) {
+      const [hash, ...files] = record.split('\n').filter(Boolean);
+      for (const file of files) {
+        if (weights.has(file)) credit(hash, FILE_SCORE * weights.get(file)!, `Touched ${file}`, file);
+      }
+    }
+
+    const suspects = Array.from(commits.values())
+      .filter(commit => commit.score > 0)
+      .map(commit => ({ ...commit, score: Math.round(commit.score * 100) / 100 }))
+      .sort((a, b) => b.score - a.score || b.date.localeCompare(a.date));
+    return { commits: commits.size, suspects };
+  }
+
+  /** The commit that last changed each line within NEARBY_LINES of `line`, as of `ref`. */
+  private async blame(ref: string, file: string, line: number): Promise<Map<number, string>> {
+    const lines = new Map<number, string>();
+    const start = Math.max(1, line - NEARBY_LINES);
+    let output: string;
+    try {
+      output = await this.git('blame', '--porcelain', '-L', `${start},+${line - start + NEARBY_LINES + 1}`, ref, '--', file);
+    } catch {
+      // The file did not exist at that tag, or is shorter than the frame's line
+      return lines;
+    }
+
+    for (const header of output.matchAll(/^([0-9a-f]{40}) \d+ (\d+)/gm)) {
+      lines.set(Number(header[2]), header[1]);
+    }
+    return lines;
+  }
+
+  private async git(...args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: this.sourceFiles.root,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+      });
+      return stdout;
+    } catch (error) {
+      throw new Error(`Failed to run git ${args[0]} in ${this.sourceFiles.root}: ${error}`);
+    }
+  }
+}
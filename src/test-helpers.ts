@@ -0,0 +1,153 @@
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CrashlyticsServer } from './index.js';
+import { CrashEvent, IssueAggregate } from './types.js';
+import { normalizeCrashEvent } from './crash-normalizer.js';
+
+export const FIXTURE_PATH = path.join(__dirname, '..', 'fixtures');
+
+// The day after the newest fixture event, so relative time ranges cover the fixtures
+export const FIXTURE_NOW = new Date('2026-10-18T12:00:00.000Z');
+
+/** Fakes only `Date`, pinned to FIXTURE_NOW, leaving timers and the MCP transport real. */
+export function freezeFixtureTime(): void {
+  jest.useFakeTimers({
+    now: FIXTURE_NOW,
+    doNotFake: [
+      'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'requestAnimationFrame', 'cancelAnimationFrame',
+      'requestIdleCallback', 'cancelIdleCallback', 'setImmediate', 'clearImmediate',
+      'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout',
+    ],
+  });
+}
+
+export interface FixtureClient {
+  client: Client;
+  /** Calls a tool and parses its first content item. */
+  callTool(name: string, args?: Record<string, unknown>): Promise<any>;
+  /** Calls a tool and returns every content item's text. */
+  callToolText(name: string, args?: Record<string, unknown>): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Connects an MCP client to a server backed by the fixture data source.
+ * `env` is applied for the life of the connection, since the server reads
+ * its configuration from the environment on the first request.
+ */
+export async function connectFixtureClient(env: Record<string, string> = {}): Promise<FixtureClient> {
+  const overrides: Record<string, string> = {
+    CRASH_DATA_SOURCE: 'fixture',
+    CRASHLYTICS_FIXTURE_PATH: FIXTURE_PATH,
+    ...env,
+  };
+  const previous = Object.fromEntries(Object.keys(overrides).map(key => [key, process.env[key]]));
+  Object.assign(process.env, overrides);
+
+  const server = new CrashlyticsServer();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const callToolText = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return (result.content as Array<{ text: string }>).map(item => item.text);
+  };
+
+  return {
+    client,
+    callToolText,
+    callTool: async (name, args) => JSON.parse((await callToolText(name, args))[0]),
+    close: async () => {
+      await client.close();
+      await server.close();
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    },
+  };
+}
+
+/** A normalized crash event built from the fields a test cares about. */
+export function crashEvent(overrides: Record<string, unknown> = {}): CrashEvent {
+  return normalizeCrashEvent({
+    event_id: 'event-1',
+    issue_id: 'issue-1',
+    platform: 'ANDROID',
+    bundle_identifier: 'com.example.app',
+    is_fatal: true,
+    error_type: 'FATAL',
+    issue_title: 'com.example.app.Main.onCreate',
+    issue_subtitle: 'java.lang.IllegalStateException: boom',
+    event_timestamp: '2026-10-17T10:00:00.000Z',
+    application: { display_version: '1.0.0', build_version: '100' },
+    device: { manufacturer: 'Google', model: 'Pixel 7' },
+    operating_system: { display_version: '14', name: 'Android' },
+    exceptions: [],
+    errors: [],
+    threads: [],
+    ...overrides,
+  });
+}
+
+/** An issue aggregate with the counts a test cares about. */
+export function issueAggregate(overrides: Partial<IssueAggregate> = {}): IssueAggregate {
+  return {
+    issue_id: 'issue-1',
+    issue_title: 'com.example.app.Main.onCreate',
+    issue_subtitle: 'java.lang.IllegalStateException: boom',
+    error_type: 'FATAL',
+    event_count: 1,
+    user_count: 1,
+    installation_count: 1,
+    first_seen: '2026-10-16T10:00:00.000Z',
+    last_seen: '2026-10-17T10:00:00.000Z',
+    versions: ['1.0.0'],
+    os_versions: ['14'],
+    recent_events: 1,
+    previous_events: 0,
+    blame_frame: null,
+    ...overrides,
+  };
+}
+
+export interface GitCheckout {
+  root: string;
+  /** Writes the files, commits them and optionally tags the commit; returns its hash. */
+  commit(message: string, files: Record<string, string>, tag?: string): Promise<string>;
+  remove(): Promise<void>;
+}
+
+/** A throwaway git repository with a fixed author and commit dates a minute apart. */
+export async function createGitCheckout(): Promise<GitCheckout> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'git-checkout-'));
+  let commits = 0;
+  const git = (args: string[], env: Record<string, string> = {}) =>
+    execFileSync('git', args, { cwd: root, encoding: 'utf-8', env: { ...process.env, ...env } }).trim();
+  git(['init', '--quiet']);
+
+  return {
+    root,
+    async commit(message, files, tag) {
+      for (const [file, contents] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+        await fs.writeFile(path.join(root, file), contents);
+      }
+      const date = new Date(Date.UTC(2026, 9, 1, 0, commits++)).toISOString();
+      git(['add', '--all']);
+      git(['commit', '--quiet', '-m', message], {
+        GIT_AUTHOR_NAME: 'Dev', GIT_AUTHOR_EMAIL: 'dev@example.com', GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_NAME: 'Dev', GIT_COMMITTER_EMAIL: 'dev@example.com', GIT_COMMITTER_DATE: date,
+      });
+      if (tag) git(['tag', tag]);
+      return git(['rev-parse', 'HEAD']);
+    },
+    remove: () => fs.rm(root, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TicketStore } from './ticket-store';
+import { FiledTicket } from './types';
+
+const ticket: FiledTicket = {
+  issue_id: 'issue-1',
+  tracker: 'github',
+  key: 'example/app#42',
+  url: 'https://github.com/example/app/issues/42',
+  title: 'Crash: com.example.app.Main.onCreate',
+  created_at: '2026-10-18T12:00:00.000Z',
+};
+
+describe('TicketStore', () => {
+  let directory: string;
+  let storeFile: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tickets-'));
+    storeFile = path.join(directory, 'nested', 'tickets.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('has no tickets before the file exists', async () => {
+    expect(await new TicketStore(storeFile).get('issue-1')).toBeNull();
+  });
+
+  it('persists tickets for other store instances', async () => {
+    await new TicketStore(storeFile).record(ticket);
+    await new TicketStore(storeFile).record({ ...ticket, issue_id: 'issue-2', key: 'example/app#43' });
+
+    const store = new TicketStore(storeFile);
+    expect(await store.get('issue-1')).toEqual(ticket);
+    expect(await store.get('issue-2')).toMatchObject({ key: 'example/app#43' });
+    expect(await store.get('issue-3')).toBeNull();
+  });
+
+  it('keeps every ticket of concurrent filings for different issues', async () => {
+    const store = new TicketStore(storeFile);
+    const other = new TicketStore(storeFile);
+    const issueIds = Array.from({ length: 8 }, (_, index) => `issue-${index}`);
+
+    await Promise.all(issueIds.map((issueId, index) => (index % 2 ? other : store).record({ ...ticket, issue_id: issueId })));
+
+    for (const issueId of issueIds) {
+      expect(await store.get(issueId)).toMatchObject({ issue_id: issueId });
+    }
+    expect((await fs.readdir(path.dirname(storeFile))).sort()).toEqual(['tickets.json']);
+  });
+
+  it('waits for another process to release its lock and takes over stale ones', async () => {
+    const lockFile = `${storeFile}.lock`;
+    await fs.mkdir(path.dirname(storeFile), { recursive: true });
+    await fs.writeFile(lockFile, '');
+    const recorded = new TicketStore(storeFile).record(ticket);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(await new TicketStore(storeFile).get('issue-1')).toBeNull();
+    await fs.rm(lockFile);
+    await recorded;
+    expect(await new TicketStore(storeFile).get('issue-1')).toEqual(ticket);
+
+    await fs.writeFile(lockFile, '');
+    const stale = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(lockFile, stale, stale);
+    await new TicketStore(storeFile).record({ ...ticket, issue_id: 'issue-2' });
+    expect(await new TicketStore(storeFile).get('issue-2')).toMatchObject({ issue_id: 'issue-2' });
+  });
+
+  it('ignores files without tickets and refuses unreadable ones', async () => {
+    await fs.mkdir(path.dirname(storeFile), { recursive: true });
+    await fs.writeFile(storeFile, '{}');
+    expect(await new TicketStore(storeFile).get('issue-1')).toBeNull();
+
+    await fs.writeFile(storeFile, '{ not json');
+    await expect(new TicketStore(storeFile).get('issue-1')).rejects.toThrow(`Failed to read ticket store ${storeFile}`);
+  });
+});
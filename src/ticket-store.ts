@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FiledTicket } from './types.js';
+
+const LOCK_RETRY_MS = 25;
+const LOCK_ATTEMPTS = 200;
+// A lock this old was left behind by a process that died while saving
+const STALE_LOCK_MS = 30 * 1000;
+
+/**
+ * Tickets filed for Crashlytics issues, persisted as JSON so an issue is
+ * not filed twice, even across restarts or by several MCP clients sharing
+ * the file. Saves hold a lock file beside the store while they re-read and
+ * rewrite it, so concurrent saves keep each other's tickets.
+ */
+export class TicketStore {
+  // Saves of this process run one at a time instead of polling the lock file
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly storeFile: string) {}
+
+  // Read on every lookup rather than cached, since other processes may file tickets too
+  private async load(): Promise<Record<string, FiledTicket>> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.storeFile, 'utf-8'));
+      return parsed?.tickets && typeof parsed.tickets === 'object' ? parsed.tickets : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read ticket store ${this.storeFile}: ${error}`);
+      }
+      return {};
+    }
+  }
+
+  async get(issueId: string): Promise<FiledTicket | null> {
+    return (await this.load())[issueId] || null;
+  }
+
+  record(ticket: FiledTicket): Promise<void> {
+    const saved = this.saving.then(() => this.withLock(() => this.save(ticket)));
+    this.saving = saved.catch(() => undefined);
+    return saved;
+  }
+
+  private async save(ticket: FiledTicket): Promise<void> {
+    const tickets = await this.load();
+    tickets[ticket.issue_id] = ticket;
+
+    const temporaryFile = `${this.storeFile}.${process.pid}.tmp`;
+    try {
+      await fs.writeFile(temporaryFile, JSON.stringify({ tickets }, null, 2));
+      await fs.rename(temporaryFile, this.storeFile);
+    } catch (error) {
+      throw new Error(`Failed to save ticket store ${this.storeFile}: ${error}`);
+    }
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockFile = `${this.storeFile}.lock`;
+    try {
+      await fs.mkdir(path.dirname(this.storeFile), { recursive: true });
+    } catch (error) {
+      throw new Error(`Failed to save ticket store ${this.storeFile}: ${error}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await (await fs.open(lockFile, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`Failed to lock ticket store ${this.storeFile}: ${error}`);
+        }
+      }
+
+      const lock = await fs.stat(lockFile).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockFile, { force: true });
+      } else if (attempt >= LOCK_ATTEMPTS) {
+        throw new Error(`Ticket store ${this.storeFile} is locked by another process; remove ${lockFile} if none is running`);
+      } else if (lock) {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockFile, { force: true });
+    }
+  }
+}
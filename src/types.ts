@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { versionSortKey } from './version-utils.js';
 
 export const ImpactLevel = z.enum(['high', 'medium', 'low']);
 export type ImpactLevel = z.infer<typeof ImpactLevel>;
@@ -9,17 +10,123 @@ export type ImpactFilter = z.infer<typeof ImpactFilter>;
 export const Platform = z.enum(['ios', 'android', 'all']);
 export type Platform = z.infer<typeof Platform>;
 
-export const TimeRange = z.enum(['24h', '7d', '30d', 'all']);
+export const TimeRange = z.enum(['1h', '24h', '7d', '30d', 'all']);
 export type TimeRange = z.infer<typeof TimeRange>;
 
 export const GroupBy = z.enum(['version', 'device', 'os', 'issue_type']);
 export type GroupBy = z.infer<typeof GroupBy>;
 
+export const IssueSortBy = z.enum(['users', 'events', 'growth']);
+export type IssueSortBy = z.infer<typeof IssueSortBy>;
+
+export const IssueTypeFilter = z.enum(['fatal', 'non_fatal', 'anr', 'all']);
+export type IssueTypeFilter = z.infer<typeof IssueTypeFilter>;
+
+export const AnomalyGranularity = z.enum(['hour', 'day']);
+export type AnomalyGranularity = z.infer<typeof AnomalyGranularity>;
+
+export const AnomalyDimension = z.enum(['app', 'issue', 'version']);
+export type AnomalyDimension = z.infer<typeof AnomalyDimension>;
+
+export const DataSourceType = z.enum(['bigquery', 'fixture']);
+export type DataSourceType = z.infer<typeof DataSourceType>;
+
+export const CrashFreeDenominatorSource = z.enum(['none', 'analytics', 'table']);
+export type CrashFreeDenominatorSource = z.infer<typeof CrashFreeDenominatorSource>;
+
+export interface QueryCacheConfig {
+  /** Default TTL; tools override it per call, and 0 disables caching. */
+  ttlSeconds: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface GitHubTrackerConfig {
+  /** REST API root, e.g. https://api.github.com or a GitHub Enterprise /api/v3 URL. */
+  apiUrl: string;
+  /** owner/name */
+  repository: string;
+  token?: string;
+}
+
+export interface JiraTrackerConfig {
+  baseUrl: string;
+  projectKey: string;
+  issueType: string;
+  email?: string;
+  apiToken?: string;
+}
+
+export interface TicketTrackersConfig {
+  github?: GitHubTrackerConfig;
+  jira?: JiraTrackerConfig;
+}
+
+export interface QueryCostConfig {
+  /** Estimate each query with a dry run and refuse it before it is billed. */
+  dryRun: boolean;
+  /** `maximumBytesBilled` of every query; 0 disables the cap. */
+  maxBytesPerQuery: number;
+  /** Bytes all queries of the server process may bill together; 0 disables the budget. */
+  maxBytesPerSession: number;
+  /** Lookback for app listings without a time range, so they still prune partitions; 0 disables it. */
+  defaultLookbackDays: number;
+}
+
 export interface ServerConfig {
+  dataSource: DataSourceType;
   serviceAccountKey: string;
   projectId: string;
   datasetId: string;
+  fixturePath?: string;
+  proguardMappingDir?: string;
+  sourceMapDir?: string;
+  /** Local checkout of the app, for mapping frames to CODEOWNERS. */
+  appRepoPath?: string;
+  codeOwnersPath?: string;
+  /** Issue trackers `create_ticket_from_issue` can file to, and where filed tickets are remembered. */
+  ticketTrackers: TicketTrackersConfig;
+  ticketStoreFile: string;
   defaultCrashLimit: number;
+  /** Custom key holding the user's country, which the export has no column for. */
+  countryCustomKey: string;
+  crashFreeDenominator: CrashFreeDenominatorSource;
+  analyticsDatasetId?: string;
+  crashFreeDenominatorTable?: string;
+  queryCache: QueryCacheConfig;
+  queryCost: QueryCostConfig;
+}
+
+export interface AppSummary {
+  app_package: string;
+  platform: string;
+  total_crashes: number;
+  fatal_crashes: number;
+  non_fatal_crashes: number;
+  latest_crash: string;
+  earliest_crash: string;
+}
+
+export interface CrashStatisticsRow {
+  group_key: string;
+  crash_count: number;
+  affected_users: number;
+  crash_date: string;
+}
+
+/**
+ * Fatal-crash counts for one day, app and version, joined with the configured
+ * exposure denominator. Totals are null when no denominator is configured or
+ * it has no row for that day, app and version.
+ */
+export interface CrashFreeCountRow {
+  date: string;
+  app_package: string;
+  app_version: string;
+  crashed_users: number;
+  crashed_sessions: number;
+  total_users: number | null;
+  total_sessions: number | null;
 }
 
 export interface CrashSummary {
@@ -42,12 +149,36 @@ export interface StackFrame {
   line: number;
   column?: number;
   library?: string;
+  generated_location?: string;
+  symbol?: string;
+  offset?: number;
+  address?: number;
+  owner?: string;
+  blamed?: boolean;
+}
+
+export interface ExceptionTrace {
+  exception_type: string;
+  message: string;
+  nested: boolean;
+  blamed: boolean;
+  frames: StackFrame[];
+}
+
+export interface ThreadTrace {
+  name: string;
+  crashed: boolean;
+  blamed: boolean;
+  frames: StackFrame[];
 }
 
 export interface StackTrace {
   exception_type: string;
   message: string;
   frames: StackFrame[];
+  blamed_frame?: StackFrame;
+  exceptions?: ExceptionTrace[];
+  threads?: ThreadTrace[];
 }
 
 export interface DeviceInfo {
@@ -64,25 +195,78 @@ export interface CrashContext {
   os_version: string;
   device: string;
   memory_available: string;
-  breadcrumbs: string[];
-  custom_keys: Record<string, any>;
+  logs: CrashLog[];
+  breadcrumbs: CrashBreadcrumb[];
+  custom_keys: Record<string, string>;
   session_id: string;
   user_id?: string;
 }
 
+export interface DeobfuscationStatus {
+  type: 'proguard' | 'source_map';
+  status: 'retraced' | 'not_obfuscated' | 'mapping_not_found';
+  mapping_file?: string;
+  frames_retraced: number;
+  message: string;
+}
+
 export interface CrashDetails {
   crash_summary: CrashSummary;
   stack_trace: StackTrace;
   context: CrashContext;
   device_info: DeviceInfo;
   suggested_fix_context: string;
+  deobfuscation?: DeobfuscationStatus[];
+  anr_analysis?: AnrAnalysis;
+  owners?: string[];
+  owner_source?: CodeOwnerSource;
+  source_snippets?: SourceSnippet[];
+}
+
+/** Source lines around an in-app frame; `code` marks the frame's line with ">". */
+export interface SourceSnippet {
+  frame: string;
+  file: string;
+  line: number;
+  start_line: number;
+  end_line: number;
+  code: string;
+}
+
+/** How a crash's owners were found: its first in-app frame, that frame's file and the matching rule. */
+export interface CodeOwnerSource {
+  frame: string;
+  source_file: string | null;
+  rule: string | null;
+}
+
+export interface TeamCrashRollup {
+  owner: string | null;
+  issue_count: number;
+  event_count: number;
+  /** Sum over issues, so users hit by several issues count more than once. */
+  affected_users: number;
+  top_issues: Array<Pick<IssueSummary, 'issue_id' | 'title' | 'type' | 'event_count' | 'affected_users'>>;
 }
 
 export interface CrashTrend {
   date: string;
   crash_count: number;
   affected_users: number;
-  crash_free_rate: number;
+  crash_free_users_rate: number | null;
+  crash_free_sessions_rate: number | null;
+}
+
+export interface CrashFreeSummary {
+  status: 'available' | 'unavailable';
+  source: CrashFreeDenominatorSource;
+  crash_free_users_rate: number | null;
+  crash_free_sessions_rate: number | null;
+  crashed_users: number;
+  total_users: number | null;
+  crashed_sessions: number;
+  total_sessions: number | null;
+  message: string;
 }
 
 export interface TrendAnalysis {
@@ -94,24 +278,546 @@ export interface TrendAnalysis {
     crash_count: number;
     percentage: number;
   }>;
-  crash_free_percentage: number;
+  crash_free: CrashFreeSummary;
+}
+
+export interface BreakdownEntry {
+  name: string;
+  crash_count: number;
+  percentage: number;
+}
+
+/**
+ * Per-issue totals as returned by a data source, before impact scoring.
+ * `recent_events`/`previous_events` cover the two halves of the growth window.
+ * `installation_count` counts distinct installations, the unit crash-free
+ * denominators count users in.
+ */
+export interface IssueAggregate {
+  issue_id: string;
+  issue_title: string;
+  issue_subtitle: string;
+  error_type: CrashErrorType;
+  event_count: number;
+  user_count: number;
+  installation_count: number;
+  first_seen: string;
+  last_seen: string;
+  versions: string[];
+  os_versions: string[];
+  recent_events: number;
+  previous_events: number;
+  blame_frame: CrashFrame | null;
+}
+
+export interface IssueSummary {
+  issue_id: string;
+  title: string;
+  subtitle: string;
+  type: 'fatal' | 'non_fatal' | 'anr';
+  event_count: number;
+  affected_users: number;
+  first_seen: string;
+  last_seen: string;
+  affected_versions: string[];
+  os_range: {
+    min: string;
+    max: string;
+  };
+  impact: ImpactLevel;
+  growth: {
+    recent_events: number;
+    previous_events: number;
+    change: number;
+    change_rate: number | null;
+  };
+  owners?: string[];
+}
+
+/**
+ * The crash events, distinct crashed users and distinct crashed installations
+ * one version reported to Crashlytics.
+ */
+export interface VersionCrashTotals {
+  version: string;
+  event_count: number;
+  user_count: number;
+  installation_count: number;
+}
+
+/**
+ * One version's crash totals and, when a crash-free denominator is
+ * configured, the active users and sessions it had over the same days.
+ */
+export interface VersionTotals extends VersionCrashTotals {
+  active_users: number | null;
+  sessions: number | null;
+}
+
+/**
+ * An issue's counts within one version. With an `exposure` rate basis, rates
+ * are per session and per active user, and `user_count` counts crashed
+ * installations, as the crash-free active users do; with `share_of_crashes`,
+ * they are the issue's share of the version's crash events and crashed users.
+ */
+export interface VersionIssueStats {
+  event_count: number;
+  user_count: number;
+  event_rate: number;
+  user_rate: number;
+}
+
+export interface VersionIssueChange {
+  issue_id: string;
+  title: string;
+  subtitle: string;
+  type: 'fatal' | 'non_fatal' | 'anr';
+  impact: ImpactLevel;
+  base: VersionIssueStats | null;
+  target: VersionIssueStats | null;
+  event_rate_change: number | null;
+  user_rate_change: number | null;
+}
+
+export interface VersionComparison {
+  app_package: string;
+  base_version: string;
+  target_version: string;
+  time_range: TimeRange;
+  rate_basis: 'exposure' | 'share_of_crashes';
+  rate_basis_message: string;
+  totals: {
+    base: VersionTotals;
+    target: VersionTotals;
+  };
+  new_issues: VersionIssueChange[];
+  resolved_issues: VersionIssueChange[];
+  regressed_issues: VersionIssueChange[];
+  improved_issues: VersionIssueChange[];
+}
+
+/** Events of one series (app, issue or app version) within one hour or day bucket. */
+export interface CrashVolumeRow {
+  series_key: string;
+  label: string;
+  app_package: string;
+  bucket: string;
+  event_count: number;
+  user_count: number;
+}
+
+export interface CrashAnomaly {
+  type: 'spike' | 'emerging' | 'drop';
+  dimension: AnomalyDimension;
+  series_key: string;
+  label: string;
+  app_package: string;
+  bucket: string;
+  observed: number;
+  expected: number;
+  affected_users: number;
+  baseline_points: number;
+  score: number;
+  confidence: number;
+}
+
+export interface AnomalyReport {
+  granularity: AnomalyGranularity;
+  dimension: AnomalyDimension;
+  evaluated_bucket: string;
+  series_analyzed: number;
+  anomalies: CrashAnomaly[];
+}
+
+export interface UserCrashEvent {
+  crash_id: string;
+  issue_id: string;
+  issue_title: string;
+  issue_subtitle: string;
+  type: 'fatal' | 'non_fatal' | 'anr';
+  timestamp: string;
+  session_id: string | null;
+  app_package: string;
+  app_version: string;
+  device: string;
+  os_version: string;
+  process_state: string;
+  console_url: string | null;
+}
+
+/**
+ * Events of one Firebase session, oldest first; events without a session
+ * share a `null` entry. `fatal` is set when the session had a crash or ANR.
+ */
+export interface UserSession {
+  session_id: string | null;
+  started_at: string;
+  ended_at: string;
+  app_versions: string[];
+  devices: string[];
+  event_count: number;
+  fatal: boolean;
+  issue_ids: string[];
+  events: UserCrashEvent[];
+}
+
+export interface UserIssueSummary {
+  issue_id: string;
+  title: string;
+  type: 'fatal' | 'non_fatal' | 'anr';
+  event_count: number;
+  session_count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface UserCrashHistory {
+  user_id: string | null;
+  installation_uuid: string | null;
+  time_range: TimeRange;
+  total_events: number;
+  truncated: boolean;
+  counts: {
+    fatal: number;
+    non_fatal: number;
+    anr: number;
+  };
+  first_seen: string | null;
+  last_seen: string | null;
+  app_versions: string[];
+  devices: string[];
+  installations: string[];
+  issues: UserIssueSummary[];
+  multi_error_sessions: number;
+  sessions?: UserSession[];
+  events?: UserCrashEvent[];
+}
+
+export type TimelineEntryKind = 'log' | 'breadcrumb' | 'screen' | 'non_fatal' | 'crash';
+
+/**
+ * One step before a crash. `offset_ms` is relative to the crash (negative
+ * before it); the `crash` entry is the event the timeline was built for.
+ */
+export interface TimelineEntry {
+  timestamp: string;
+  offset_ms: number;
+  kind: TimelineEntryKind;
+  message: string;
+  params?: Record<string, string>;
+  event_id?: string;
+  issue_id?: string;
+}
+
+export interface ScreenTransition {
+  timestamp: string;
+  offset_ms: number;
+  from: string | null;
+  to: string;
+}
+
+export type AnrCause =
+  | 'deadlock'
+  | 'lock_contention'
+  | 'shared_preferences'
+  | 'binder_call'
+  | 'network_io'
+  | 'disk_io'
+  | 'blocking_wait'
+  | 'main_thread_busy'
+  | 'main_thread_idle'
+  | 'unknown';
+
+/** One step of a lock-wait chain: `thread` waits for `lock`, which `held_by` holds. */
+export interface AnrLockWait {
+  thread: string;
+  lock: string;
+  lock_class: string | null;
+  held_by: string | null;
+}
+
+export interface AnrAnalysis {
+  cause: AnrCause;
+  description: string;
+  /** Every main-thread finding, strongest first; `cause` is the first. */
+  findings: AnrCause[];
+  main_thread: {
+    name: string;
+    state: string | null;
+    top_frames: string[];
+  } | null;
+  /** Frame that matched the cause. */
+  evidence: string | null;
+  /** Topmost app frame on the main thread, where the blocking call is made from. */
+  blocking_frame: string | null;
+  lock_chain: AnrLockWait[];
+  /** Threads in a lock cycle, whether or not the main thread waits on it. */
+  deadlocked_threads: string[];
+  threads_analyzed: number;
+  blocked_threads: number;
+}
+
+export interface AnrCauseSummary {
+  cause: AnrCause;
+  description: string;
+  event_count: number;
+  percentage: number;
+  affected_users: number;
+  example_crash_id: string;
+  top_blocking_frames: Array<{ frame: string; count: number }>;
+}
+
+export interface AnrIssueAnalysis {
+  issue_id: string;
+  issue_title: string;
+  events_analyzed: number;
+  events_without_threads: number;
+  causes: AnrCauseSummary[];
+  events: Array<{
+    crash_id: string;
+    timestamp: string;
+    cause: AnrCause;
+    evidence: string | null;
+    blocking_frame: string | null;
+  }>;
+}
+
+/**
+ * Normalized top of an event's stack. Events whose signatures share a
+ * `fingerprint` crashed in the same place.
+ */
+export interface StackSignature {
+  fingerprint: string;
+  exception_type: string;
+  frames: string[];
 }
 
+export interface SimilarIssue {
+  issue_id: string;
+  issue_title: string;
+  type: 'fatal' | 'non_fatal' | 'anr';
+  similarity: number;
+  exact_match: boolean;
+  shared_frames: string[];
+  app_versions: string[];
+  sampled_events: number;
+}
+
+export interface IssueCluster {
+  fingerprint: string;
+  exception_type: string;
+  frames: string[];
+  issues: SimilarIssue[];
+}
+
+/** An in-app frame of an issue, resolved to a file of the local checkout. */
+export interface SuspectFrame {
+  frame: string;
+  file: string;
+  line: number;
+  /** App version of the events the frame came from; its tag is blamed. */
+  version: string;
+}
+
+export interface SuspectCommit {
+  hash: string;
+  short_hash: string;
+  author: string;
+  date: string;
+  message: string;
+  score: number;
+  reasons: string[];
+  files: string[];
+}
+
+export const ReportFormat = z.enum(['markdown', 'html', 'csv']);
+export type ReportFormat = z.infer<typeof ReportFormat>;
+
+/** An issue whose share of the app's events grew significantly since before the report period. */
+export interface RegressedIssue extends IssueSummary {
+  previous_share: number;
+  current_share: number;
+}
+
+export interface AnrReportIssue {
+  issue_id: string;
+  title: string;
+  event_count: number;
+  affected_users: number;
+  top_cause: AnrCause | null;
+  top_cause_description: string | null;
+}
+
+export interface CrashReport {
+  app_package: string;
+  time_range: TimeRange;
+  generated_at: string;
+  period_start: string | null;
+  totals: {
+    issues: number;
+    events: number;
+    fatal_events: number;
+    non_fatal_events: number;
+    anr_events: number;
+  };
+  crash_free: CrashFreeSummary;
+  /** Oldest day first. */
+  trend: CrashTrend[];
+  top_issues: IssueSummary[];
+  /** Null for the `all` period, which has nothing before it to compare with. */
+  new_issues: IssueSummary[] | null;
+  regressed_issues: RegressedIssue[] | null;
+  devices: BreakdownEntry[];
+  operating_systems: BreakdownEntry[];
+  anr: {
+    issue_count: number;
+    event_count: number;
+    share_of_events: number;
+    top_issues: AnrReportIssue[];
+  };
+}
+
+/** A `crashlytics://` resource, as parsed from its URI. */
+export type CrashlyticsResource =
+  | { kind: 'apps' }
+  | { kind: 'app_issues'; app_package: string }
+  | { kind: 'issue'; app_package: string; issue_id: string }
+  | { kind: 'event'; event_id: string };
+
+export const TicketTracker = z.enum(['github', 'jira']);
+export type TicketTracker = z.infer<typeof TicketTracker>;
+
+/** A ticket for a Crashlytics issue, before it is rendered for a tracker. */
+export interface TicketDraft {
+  issue_id: string;
+  title: string;
+  labels: string[];
+  /** Label and value pairs listed at the top of the ticket. */
+  fields: Array<[string, string]>;
+  exception: string;
+  top_frames: string[];
+  breadcrumbs: string[];
+  console_url: string | null;
+}
+
+/** A ticket filed for a Crashlytics issue, as remembered in the ticket store. */
+export interface FiledTicket {
+  issue_id: string;
+  tracker: TicketTracker;
+  key: string;
+  url: string;
+  title: string;
+  created_at: string;
+}
+
+export interface CrashTimeline {
+  crash_id: string;
+  issue_id: string;
+  issue_title: string;
+  type: 'fatal' | 'non_fatal' | 'anr';
+  crash_timestamp: string;
+  session_id: string | null;
+  app_package: string;
+  app_version: string;
+  device: string;
+  window_minutes: number;
+  session_events: number;
+  counts: {
+    logs: number;
+    breadcrumbs: number;
+    screens: number;
+    non_fatals: number;
+  };
+  last_screen: string | null;
+  screen_transitions: ScreenTransition[];
+  last_user_actions: TimelineEntry[];
+  total_entries: number;
+  truncated: boolean;
+  entries: TimelineEntry[];
+}
+
+const StringList = z
+  .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+  .transform(value => (Array.isArray(value) ? value : [value]));
+
+const VersionBound = z.string().refine(value => versionSortKey(value) !== null, {
+  message: 'Version bounds must start with a number, e.g. "4.12.0" or "4120"',
+});
+
+/** Inclusive version range; either bound may be omitted. */
+export const VersionRange = z
+  .object({
+    min: VersionBound.optional(),
+    max: VersionBound.optional(),
+  })
+  .strict()
+  .refine(range => range.min !== undefined || range.max !== undefined, { message: 'Set min, max or both' });
+export type VersionRange = z.infer<typeof VersionRange>;
+
+export const CustomKeyFilter = z
+  .object({
+    key: z.string().min(1),
+    equals: z.string().optional(),
+    contains: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine(filter => (filter.equals === undefined) !== (filter.contains === undefined), {
+    message: 'Set exactly one of equals or contains',
+  });
+export type CustomKeyFilter = z.infer<typeof CustomKeyFilter>;
+
+/**
+ * Structured event filter shared by the listing tools. Every condition must
+ * hold; list-valued fields match any of their values, case-insensitively.
+ */
+export const CrashFilter = z
+  .object({
+    start_time: z.string().datetime({ offset: true }).optional(),
+    end_time: z.string().datetime({ offset: true }).optional(),
+    issue_type: IssueTypeFilter.optional(),
+    device_manufacturer: StringList.optional(),
+    device_model: StringList.optional(),
+    os_version: VersionRange.optional(),
+    app_version: VersionRange.optional(),
+    build_version: VersionRange.optional(),
+    country: StringList.optional(),
+    process_state: StringList.optional(),
+    custom_keys: z.array(CustomKeyFilter).max(10).optional(),
+  })
+  .strict()
+  .refine(filter => !filter.start_time || !filter.end_time || Date.parse(filter.start_time) < Date.parse(filter.end_time), {
+    message: 'start_time must be before end_time',
+  });
+export type CrashFilter = z.infer<typeof CrashFilter>;
+
 export const FetchCrashesParams = z.object({
   limit: z.number().positive().optional(),
   impact_filter: ImpactFilter.optional(),
   time_range: TimeRange.optional(),
   app_version: z.string().optional(),
   platform: Platform.optional(),
+  filter: CrashFilter.optional(),
 });
 
 export const GetCrashDetailsParams = z.object({
   crash_id: z.string().min(1),
+  include_source: z.boolean().optional().default(true),
+  context_lines: z.number().int().min(0).max(30).optional().default(5),
 });
 
 export const GetCrashDetailsByIssueIdParams = z.object({
   issue_id: z.string().min(1),
   limit: z.number().int().positive().max(100).optional().default(10),
+  cursor: z.string().min(1).optional(),
+  filter: CrashFilter.optional(),
+});
+
+/** Arguments of get_fatal_crashes and get_anr_issues, which page through one app's newest events. */
+export const ListAppEventsParams = z.object({
+  app_package: z.string().min(1),
+  limit: z.number().int().positive().max(50).optional().default(10),
+  cursor: z.string().min(1).optional(),
+  filter: CrashFilter.optional(),
 });
 
 export const AnalyzeCrashTrendsParams = z.object({
@@ -119,28 +825,309 @@ export const AnalyzeCrashTrendsParams = z.object({
   group_by: GroupBy.optional(),
 });
 
+export const ListTopIssuesParams = z.object({
+  app_package: z.string().min(1),
+  time_range: TimeRange.optional().default('7d'),
+  issue_type: IssueTypeFilter.optional().default('all'),
+  sort_by: IssueSortBy.optional().default('users'),
+  limit: z.number().int().positive().max(100).optional().default(20),
+  app_version: z.string().min(1).optional(),
+  filter: CrashFilter.optional(),
+});
+
+export const CompareVersionsParams = z.object({
+  app_package: z.string().min(1),
+  base_version: z.string().min(1),
+  target_version: z.string().min(1),
+  time_range: TimeRange.optional().default('30d'),
+  min_rate_change: z.number().nonnegative().optional().default(50),
+  limit: z.number().int().positive().max(100).optional().default(20),
+});
+
 export type FetchCrashesParams = z.infer<typeof FetchCrashesParams>;
 export type GetCrashDetailsParams = z.infer<typeof GetCrashDetailsParams>;
 export type GetCrashDetailsByIssueIdParams = z.infer<typeof GetCrashDetailsByIssueIdParams>;
+export type ListAppEventsParams = z.infer<typeof ListAppEventsParams>;
 export type AnalyzeCrashTrendsParams = z.infer<typeof AnalyzeCrashTrendsParams>;
+export const DetectCrashAnomaliesParams = z.object({
+  app_package: z.string().min(1).optional(),
+  granularity: AnomalyGranularity.optional().default('day'),
+  dimension: AnomalyDimension.optional().default('issue'),
+  lookback_days: z.number().int().min(7).max(56).optional().default(28),
+  min_score: z.number().positive().optional().default(3),
+  limit: z.number().int().positive().max(100).optional().default(20),
+});
 
-export interface BigQueryCrashRow {
-  crash_id: string;
+export const UserHistoryView = z.enum(['sessions', 'events']);
+export type UserHistoryView = z.infer<typeof UserHistoryView>;
+
+export const GetUserCrashHistoryParams = z
+  .object({
+    user_id: z.string().min(1).optional(),
+    installation_uuid: z.string().min(1).optional(),
+    app_package: z.string().min(1).optional(),
+    time_range: TimeRange.optional().default('30d'),
+    view: UserHistoryView.optional().default('sessions'),
+    limit: z.number().int().positive().max(500).optional().default(100),
+  })
+  .refine(params => (params.user_id === undefined) !== (params.installation_uuid === undefined), {
+    message: 'Set exactly one of user_id or installation_uuid',
+  });
+
+export const AnalyzeAnrIssueParams = z.object({
+  issue_id: z.string().min(1),
+  limit: z.number().int().positive().max(100).optional().default(50),
+  filter: CrashFilter.optional(),
+});
+
+export const FindSimilarIssuesParams = z
+  .object({
+    issue_id: z.string().min(1).optional(),
+    app_package: z.string().min(1).optional(),
+    time_range: TimeRange.optional().default('30d'),
+    min_similarity: z.number().min(0).max(1).optional().default(0.6),
+    limit: z.number().int().positive().max(100).optional().default(10),
+  })
+  .refine(params => params.issue_id !== undefined || params.app_package !== undefined, {
+    message: 'Set issue_id, app_package or both',
+  });
+
+export const FindSuspectCommitsParams = z.object({
+  issue_id: z.string().min(1),
+  bad_version: z.string().min(1).optional(),
+  good_version: z.string().min(1).optional(),
+  limit: z.number().int().positive().max(50).optional().default(10),
+});
+
+export const GenerateCrashReportParams = z.object({
+  app_package: z.string().min(1),
+  time_range: TimeRange.optional().default('7d'),
+  format: ReportFormat.optional().default('markdown'),
+  top_issues: z.number().int().positive().max(50).optional().default(10),
+});
+
+export const CreateTicketFromIssueParams = z.object({
+  issue_id: z.string().min(1),
+  tracker: TicketTracker.optional(),
+  labels: z.array(z.string().min(1)).optional().default([]),
+  dry_run: z.boolean().optional().default(false),
+});
+
+export const GetTeamCrashRollupParams = z.object({
+  app_package: z.string().min(1),
+  time_range: TimeRange.optional().default('7d'),
+  issue_type: IssueTypeFilter.optional().default('all'),
+  top_issues: z.number().int().positive().max(20).optional().default(5),
+});
+
+export const GetCrashTimelineParams = z.object({
+  crash_id: z.string().min(1),
+  window_minutes: z.number().int().positive().max(1440).optional().default(30),
+  include_non_fatals: z.boolean().optional().default(true),
+  max_entries: z.number().int().positive().max(1000).optional().default(200),
+});
+
+export const WebhookFormat = z.enum(['slack', 'json']);
+export type WebhookFormat = z.infer<typeof WebhookFormat>;
+
+export const WebhookConfig = z.object({
+  name: z.string().min(1),
+  url: z.string().url(),
+  format: WebhookFormat.optional().default('json'),
+  headers: z.record(z.string()).optional(),
+});
+
+const watchRuleBase = {
+  name: z.string().min(1),
+  app_package: z.string().min(1),
+  webhooks: z.array(z.string()).optional(),
+};
+
+export const WatchRule = z.discriminatedUnion('type', [
+  z.object({
+    ...watchRuleBase,
+    type: z.literal('new_issue'),
+    issue_type: IssueTypeFilter.optional().default('fatal'),
+    window: TimeRange.optional().default('1h'),
+    min_users: z.number().int().nonnegative().optional().default(1),
+    min_events: z.number().int().nonnegative().optional().default(1),
+  }),
+  z.object({
+    ...watchRuleBase,
+    type: z.literal('issue_threshold'),
+    issue_type: IssueTypeFilter.optional().default('all'),
+    window: TimeRange.optional().default('24h'),
+    min_users: z.number().int().nonnegative().optional().default(0),
+    min_events: z.number().int().nonnegative().optional().default(0),
+  }),
+  z.object({
+    ...watchRuleBase,
+    type: z.literal('crash_free'),
+    metric: z.enum(['users', 'sessions']).optional().default('users'),
+    version: z.string().min(1).optional().default('latest'),
+    threshold: z.number().min(0).max(100),
+    window: TimeRange.optional().default('24h'),
+  }),
+  z.object({
+    ...watchRuleBase,
+    type: z.literal('anomaly'),
+    granularity: AnomalyGranularity.optional().default('hour'),
+    dimension: AnomalyDimension.optional().default('issue'),
+    lookback_days: z.number().int().min(7).max(56).optional().default(28),
+    min_score: z.number().positive().optional().default(3),
+    anomaly_types: z.array(z.enum(['spike', 'emerging', 'drop'])).optional().default(['spike', 'emerging']),
+  }),
+]);
+
+export const WatchConfig = z.object({
+  interval_minutes: z.number().positive().optional().default(15),
+  state_file: z.string().min(1).optional(),
+  webhooks: z.array(WebhookConfig).min(1),
+  rules: z.array(WatchRule).min(1),
+});
+
+export type WebhookConfig = z.infer<typeof WebhookConfig>;
+export type WatchRule = z.infer<typeof WatchRule>;
+export type WatchConfig = z.infer<typeof WatchConfig>;
+
+/** One condition found by a watch rule; `key` identifies it for deduplication. */
+export interface WatchAlert {
+  key: string;
+  rule: string;
+  rule_type: WatchRule['type'];
+  app_package: string;
+  title: string;
+  message: string;
+  details: Record<string, string | number | null>;
+}
+
+export type ListTopIssuesParams = z.infer<typeof ListTopIssuesParams>;
+/** What a data source aggregates issues by: a list_top_issues query, optionally narrowed to one issue. */
+export type IssueAggregateQuery = ListTopIssuesParams & { issue_id?: string };
+export type CompareVersionsParams = z.infer<typeof CompareVersionsParams>;
+export type DetectCrashAnomaliesParams = z.infer<typeof DetectCrashAnomaliesParams>;
+export type GetUserCrashHistoryParams = z.infer<typeof GetUserCrashHistoryParams>;
+export type GetCrashTimelineParams = z.infer<typeof GetCrashTimelineParams>;
+export type AnalyzeAnrIssueParams = z.infer<typeof AnalyzeAnrIssueParams>;
+export type FindSimilarIssuesParams = z.infer<typeof FindSimilarIssuesParams>;
+export type GetTeamCrashRollupParams = z.infer<typeof GetTeamCrashRollupParams>;
+export type FindSuspectCommitsParams = z.infer<typeof FindSuspectCommitsParams>;
+export type GenerateCrashReportParams = z.infer<typeof GenerateCrashReportParams>;
+export type CreateTicketFromIssueParams = z.infer<typeof CreateTicketFromIssueParams>;
+
+export const CrashErrorType = z.enum(['FATAL', 'NON_FATAL', 'ANR', 'UNKNOWN']);
+export type CrashErrorType = z.infer<typeof CrashErrorType>;
+
+export interface CrashFrame {
+  symbol: string;
+  file: string;
+  line: number;
+  offset: number;
+  address: number;
+  library: string;
+  owner: string;
+  blamed: boolean;
+}
+
+export interface CrashException {
+  type: string;
+  exception_message: string;
+  nested: boolean;
+  title: string;
+  subtitle: string;
+  blamed: boolean;
+  frames: CrashFrame[];
+}
+
+export interface CrashError {
+  queue_name: string;
+  code: number;
+  title: string;
+  subtitle: string;
+  blamed: boolean;
+  frames: CrashFrame[];
+}
+
+export interface CrashThread {
+  crashed: boolean;
+  thread_name: string;
+  queue_name: string;
+  signal_name: string;
+  signal_code: string;
+  crash_address: number;
+  code: number;
+  name: string;
+  title: string;
+  subtitle: string;
+  blamed: boolean;
+  frames: CrashFrame[];
+}
+
+export interface CrashLog {
   timestamp: string;
-  event_name: string;
+  message: string;
+}
+
+export interface CrashBreadcrumb {
+  timestamp: string;
+  name: string;
+  params: Record<string, string>;
+}
+
+export interface MemoryUsage {
+  used: number;
+  free: number;
+}
+
+/**
+ * A single Crashlytics event, normalized from one row of the BigQuery export
+ * (or a fixture file with the same shape). Every tool consumes this model.
+ */
+export interface CrashEvent {
+  event_id: string;
+  issue_id: string;
+  variant_id: string;
+  issue_title: string;
+  issue_subtitle: string;
+  event_timestamp: string;
+  received_timestamp: string;
   platform: string;
-  app_version: string;
-  bundle_id: string;
-  exception_type: string;
-  exception_message: string;
-  stack_trace: string;
+  bundle_identifier: string;
   is_fatal: boolean;
-  device_model: string;
-  os_version: string;
-  memory_available: bigint;
-  storage_available: bigint;
-  user_id: string;
+  error_type: CrashErrorType;
+  application: {
+    build_version: string;
+    display_version: string;
+  };
+  device: {
+    manufacturer: string;
+    model: string;
+    architecture: string;
+  };
+  operating_system: {
+    display_version: string;
+    name: string;
+    modification_state: string;
+    type: string;
+    device_type: string;
+  };
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  installation_uuid: string;
   session_id: string;
-  custom_keys: string;
-  breadcrumbs: string;
+  process_state: string;
+  app_orientation: string;
+  device_orientation: string;
+  memory: MemoryUsage;
+  storage: MemoryUsage;
+  custom_keys: Record<string, string>;
+  logs: CrashLog[];
+  breadcrumbs: CrashBreadcrumb[];
+  blame_frame: CrashFrame | null;
+  exceptions: CrashException[];
+  errors: CrashError[];
+  threads: CrashThread[];
 }
@@ -0,0 +1,30 @@
+import { compareVersions, sortVersions, versionSortKey } from './version-utils';
+
+describe('compareVersions', () => {
+  it('orders numeric segments numerically and releases after their pre-releases', () => {
+    expect(sortVersions(['4.12.0', '4.9.1', '4.12.0-beta.2', '4.12', 'v4.10.0'])).toEqual([
+      '4.9.1', 'v4.10.0', '4.12.0-beta.2', '4.12.0', '4.12',
+    ]);
+    expect(compareVersions('4.12', '4.12.0')).toBe(0);
+  });
+});
+
+describe('versionSortKey', () => {
+  const versions = ['2.0.0-beta.3', '2.0.0', '2.0.1', '2.1', '10.0', '4120'];
+
+  it('sorts like compareVersions', () => {
+    const byKey = [...versions].sort((a, b) => (versionSortKey(a)! < versionSortKey(b)! ? -1 : 1));
+
+    expect(byKey).toEqual(sortVersions(versions));
+  });
+
+  it('ignores a leading v and build metadata', () => {
+    expect(versionSortKey('v4.12.0+412')).toBe(versionSortKey('4.12.0'));
+    expect(versionSortKey('4_12_0')).toBe(versionSortKey('4.12.0'));
+  });
+
+  it('returns null for versions without a numeric core', () => {
+    expect(versionSortKey('beta')).toBeNull();
+    expect(versionSortKey('')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Compares app or OS version strings such as "4.12.0", "17.5.1" or
+ * "2.0.0-beta.3". Numeric segments compare numerically, a release sorts
+ * after its pre-releases, and anything non-numeric falls back to string order.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [coreA, preA] = splitPrerelease(a);
+  const [coreB, preB] = splitPrerelease(b);
+
+  const partsA = coreA.split(/[._]/);
+  const partsB = coreB.split(/[._]/);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = compareSegments(partsA[i] ?? '0', partsB[i] ?? '0');
+    if (diff !== 0) return diff;
+  }
+
+  if (preA === preB) return 0;
+  if (!preA) return 1;
+  if (!preB) return -1;
+  return compareSegments(preA, preB);
+}
+
+export function sortVersions(versions: string[]): string[] {
+  return [...versions].sort(compareVersions);
+}
+
+function splitPrerelease(version: string): [string, string] {
+  const trimmed = version.trim().replace(/^v/i, '').split('+')[0];
+  const index = trimmed.indexOf('-');
+  return index >= 0 ? [trimmed.slice(0, index), trimmed.slice(index + 1)] : [trimmed, ''];
+}
+
+function compareSegments(a: string, b: string): number {
+  const numericA = /^\d+$/.test(a);
+  const numericB = /^\d+$/.test(b);
+
+  if (numericA && numericB) return parseInt(a, 10) - parseInt(b, 10);
+  if (numericA) return 1;
+  if (numericB) return -1;
+  return a.localeCompare(b);
+}
+
+export const SORT_KEY_SEGMENTS = 6;
+export const SORT_KEY_WIDTH = 12;
+
+/**
+ * Fixed-width key whose string order follows `compareVersions` for versions
+ * with a numeric core ("4.12.0", "v2.1-beta", build numbers like "4120"),
+ * so version ranges can be evaluated in SQL. Segments are zero-padded and a
+ * release sorts after its pre-releases. Returns null when the version does
+ * not start with a number; the BigQuery client builds the same key in SQL.
+ */
+export function versionSortKey(version: string): string | null {
+  const match = /^v?(\d+(?:[._]\d+)*)(?:-([^+]*))?/i.exec(version.trim());
+  if (!match) return null;
+
+  const parts = match[1].split(/[._]/);
+  const core = Array.from({ length: SORT_KEY_SEGMENTS }, (_, index) => (parts[index] ?? '0').padStart(SORT_KEY_WIDTH, '0'));
+  return `${core.join('.')}${match[2] !== undefined ? `-${match[2]}` : '~'}`;
+}
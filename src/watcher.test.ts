@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CrashWatcher, WatchContext } from './watcher';
+import { CrashDataSource } from './crash-data-source';
+import { CrashProcessor } from './crash-processor';
+import { FixtureDataSource } from './fixture-data-source';
+import { WebhookNotifier } from './webhook-notifier';
+import { FIXTURE_NOW, FIXTURE_PATH, freezeFixtureTime } from './test-helpers';
+import { CrashFreeCountRow, WatchAlert, WatchConfig } from './types';
+
+const CHECKOUT_ISSUE = 'addd0a8117be12c0631a2140b751167f';
+const ANR_ISSUE = '7c9e2b1a4d5f6e8a9b0c1d2e3f4a5b6c';
+
+const fixtureContext: WatchContext = {
+  dataSource: new FixtureDataSource(FIXTURE_PATH),
+  crashProcessor: new CrashProcessor(),
+  crashFreeDenominator: 'none',
+};
+
+function watchConfig(rules: unknown[]): WatchConfig {
+  return WatchConfig.parse({ webhooks: [{ name: 'alerts', url: 'https://hooks.example.com/crashes' }], rules });
+}
+
+/** The alerts posted to webhooks, in order. */
+function postedAlerts(fetchMock: jest.SpyInstance): WatchAlert[] {
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+}
+
+describe('CrashWatcher', () => {
+  let directory: string;
+  let stateFile: string;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(() => {
+    freezeFixtureTime();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'watcher-'));
+    stateFile = path.join(directory, 'state.json');
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(null, { status: 200 }));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('delivers each new issue once, across restarts', async () => {
+    const config = watchConfig([{ name: 'new-crashes', type: 'new_issue', app_package: 'com.example.myapp', issue_type: 'all', window: '7d' }]);
+
+    const delivered = await new CrashWatcher(config, stateFile, async () => fixtureContext).runOnce(FIXTURE_NOW);
+
+    expect(delivered.map(alert => alert.key).sort()).toEqual([`new-crashes:${ANR_ISSUE}`, `new-crashes:${CHECKOUT_ISSUE}`]);
+    expect(postedAlerts(fetchMock)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ source: 'mcp-crashlytics-server', key: `new-crashes:${CHECKOUT_ISSUE}`, rule_type: 'new_issue' }),
+    ]));
+
+    fetchMock.mockClear();
+    expect(await new CrashWatcher(config, stateFile, async () => fixtureContext).runOnce(FIXTURE_NOW)).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries alerts whose delivery failed', async () => {
+    const config = watchConfig([{ name: 'busy', type: 'issue_threshold', app_package: 'com.example.myapp', window: '7d', min_events: 2 }]);
+    const watcher = new CrashWatcher(config, stateFile, async () => fixtureContext);
+    fetchMock.mockImplementationOnce(async () => new Response('unavailable', { status: 503, statusText: 'Service Unavailable' }));
+
+    expect(await watcher.runOnce(FIXTURE_NOW)).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(`Alert busy:${CHECKOUT_ISSUE} not delivered:`, expect.any(Error));
+
+    expect((await watcher.runOnce(FIXTURE_NOW)).map(alert => alert.key)).toEqual([`busy:${CHECKOUT_ISSUE}`]);
+  });
+
+  it('skips crash-free rules without a denominator', async () => {
+    const config = watchConfig([{ name: 'crash-free', type: 'crash_free', app_package: 'com.example.myapp', threshold: 99, window: '7d' }]);
+
+    expect(await new CrashWatcher(config, stateFile, async () => fixtureContext).runOnce(FIXTURE_NOW)).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Watch rule crash-free skipped'));
+  });
+
+  it('re-arms crash-free alerts once the rate recovers', async () => {
+    let crashedUsers = 50;
+    const counts = jest.fn(async (): Promise<CrashFreeCountRow[]> => [
+      { date: '2026-10-17', app_package: 'com.example.myapp', app_version: '4.11.2', crashed_users: 90, crashed_sessions: 90, total_users: 100, total_sessions: 100 },
+      { date: '2026-10-17', app_package: 'com.example.myapp', app_version: '4.12.0', crashed_users: crashedUsers, crashed_sessions: 0, total_users: 1000, total_sessions: 1000 },
+    ]);
+    const context: WatchContext = {
+      ...fixtureContext,
+      dataSource: { getCrashFreeCounts: counts } as unknown as CrashDataSource,
+      crashFreeDenominator: 'table',
+    };
+    const config = watchConfig([{ name: 'crash-free', type: 'crash_free', app_package: 'com.example.myapp', threshold: 99 }]);
+    const watcher = new CrashWatcher(config, stateFile, async () => context);
+
+    const [alert] = await watcher.runOnce(FIXTURE_NOW);
+    expect(alert).toMatchObject({ key: 'crash-free:4.12.0', details: { version: '4.12.0', rate: 95, threshold: 99 } });
+    expect(counts).toHaveBeenCalledWith(expect.anything(), 'com.example.myapp');
+    expect(await watcher.runOnce(FIXTURE_NOW)).toEqual([]);
+
+    crashedUsers = 0;
+    expect(await watcher.runOnce(FIXTURE_NOW)).toEqual([]);
+    crashedUsers = 50;
+    expect((await watcher.runOnce(FIXTURE_NOW)).map(fired => fired.key)).toEqual(['crash-free:4.12.0']);
+  });
+
+  it('only posts to the webhooks a rule names', async () => {
+    const config = WatchConfig.parse({
+      webhooks: [{ name: 'alerts', url: 'https://hooks.example.com/a' }, { name: 'mobile', url: 'https://hooks.example.com/b' }],
+      rules: [{ name: 'new-crashes', type: 'new_issue', app_package: 'com.example.myapp', window: '7d', webhooks: ['mobile'] }],
+    });
+
+    await new CrashWatcher(config, stateFile, async () => fixtureContext).runOnce(FIXTURE_NOW);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://hooks.example.com/b']);
+  });
+
+  it('refuses duplicate rule names and unknown webhooks', () => {
+    const rule = { name: 'new-crashes', type: 'new_issue', app_package: 'com.example.myapp' };
+
+    expect(() => new CrashWatcher(watchConfig([rule, rule]), stateFile, async () => fixtureContext)).toThrow(
+      'Duplicate watch rule name: new-crashes'
+    );
+    expect(() => new CrashWatcher(watchConfig([{ ...rule, webhooks: ['pager'] }]), stateFile, async () => fixtureContext)).toThrow(
+      'Watch rule new-crashes references unknown webhook: pager'
+    );
+  });
+});
+
+describe('WebhookNotifier.buildPayload', () => {
+  const alert: WatchAlert = {
+    key: 'new-crashes:abc',
+    rule: 'new-crashes',
+    rule_type: 'new_issue',
+    app_package: 'com.example.app',
+    title: 'New issue in com.example.app: Main.onCreate',
+    message: '3 users and 5 events (1h)',
+    details: { issue_id: 'abc', users: 3, versions: '' },
+  };
+
+  it('formats Slack messages with the non-empty details', () => {
+    const payload = new WebhookNotifier().buildPayload(alert, 'slack', FIXTURE_NOW) as { blocks: Array<{ text?: { text: string } }> };
+
+    expect(payload.blocks[0].text?.text).toBe('*New issue in com.example.app: Main.onCreate*\n3 users and 5 events (1h)');
+    expect(payload.blocks[1].text?.text).toBe('*issue_id:* abc\n*users:* 3');
+  });
+
+  it('wraps the alert in a JSON envelope', () => {
+    expect(new WebhookNotifier().buildPayload(alert, 'json', FIXTURE_NOW)).toEqual({
+      source: 'mcp-crashlytics-server',
+      fired_at: '2026-10-18T12:00:00.000Z',
+      ...alert,
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  CrashFreeDenominatorSource,
+  IssueAggregate,
+  WatchAlert,
+  WatchConfig,
+  WatchRule,
+} from './types.js';
+import { CrashDataSource, getTimeRangeStart } from './crash-data-source.js';
+import { CrashProcessor } from './crash-processor.js';
+import { AnomalyDetector } from './anomaly-detector.js';
+import { AlertStateStore } from './alert-state-store.js';
+import { WebhookNotifier } from './webhook-notifier.js';
+import { compareVersions } from './version-utils.js';
+
+const DEFAULT_STATE_FILE = '.crashlytics-watch-state.json';
+// Issues are only looked up this far back, so an issue that recurs after a
+// quieter month is reported as new again.
+const NEW_ISSUE_LOOKBACK = '30d';
+const WATCH_ISSUE_LIMIT = 100;
+
+export interface WatchContext {
+  dataSource: CrashDataSource;
+  crashProcessor: CrashProcessor;
+  crashFreeDenominator: CrashFreeDenominatorSource;
+}
+
+type RuleOfType<T extends WatchRule['type']> = Extract<WatchRule, { type: T }>;
+
+/**
+ * Periodically evaluates the rules of a watch config and posts new alerts to
+ * webhooks. Each alert is delivered once: delivered keys are kept in an
+ * `AlertStateStore`, and `crash_free` alerts re-arm once the rate recovers.
+ */
+export class CrashWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stateStore: AlertStateStore;
+  private notifier = new WebhookNotifier();
+  private anomalyDetector = new AnomalyDetector();
+
+  constructor(
+    private readonly config: WatchConfig,
+    stateFile: string,
+    private readonly getContext: () => Promise<WatchContext>
+  ) {
+    const webhookNames = new Set(config.webhooks.map(webhook => webhook.name));
+    const ruleNames = new Set<string>();
+
+    for (const rule of config.rules) {
+      if (ruleNames.has(rule.name)) {
+        throw new Error(`Duplicate watch rule name: ${rule.name}`);
+      }
+      ruleNames.add(rule.name);
+
+      const unknown = (rule.webhooks || []).find(name => !webhookNames.has(name));
+      if (unknown) {
+        throw new Error(`Watch rule ${rule.name} references unknown webhook: ${unknown}`);
+      }
+    }
+
+    this.stateStore = new AlertStateStore(stateFile);
+  }
+
+  static async fromFile(configPath: string, getContext: () => Promise<WatchContext>): Promise<CrashWatcher> {
+    let config: WatchConfig;
+    try {
+      config = WatchConfig.parse(JSON.parse(await fs.readFile(configPath, 'utf-8')));
+    } catch (error) {
+      throw new Error(`Failed to load watch config ${configPath}: ${error}`);
+    }
+
+    const stateFile = path.resolve(path.dirname(configPath), config.state_file || DEFAULT_STATE_FILE);
+    return new CrashWatcher(config, stateFile, getContext);
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.runOnce().catch(error => console.error('Crash watcher run failed:', error));
+    };
+    this.timer = setInterval(run, this.config.interval_minutes * 60 * 1000);
+    this.timer.unref();
+    run();
+    console.error(`Crash watcher started: ${this.config.rules.length} rules every ${this.config.interval_minutes} minutes`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Evaluates every rule once and returns the alerts that were delivered. */
+  async runOnce(now: Date = new Date()): Promise<WatchAlert[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      const context = await this.getContext();
+      const delivered: WatchAlert[] = [];
+
+      for (const rule of this.config.rules) {
+        try {
+          const alerts = await this.evaluateRule(rule, context, now);
+          if (rule.type === 'crash_free') {
+            await this.stateStore.clearResolved(rule.name, new Set(alerts.map(alert => alert.key)));
+          }
+
+          for (const alert of alerts) {
+            if (await this.stateStore.has(alert.key)) continue;
+            if (await this.deliver(rule, alert)) {
+              await this.stateStore.record(alert.key, rule.name, now);
+              delivered.push(alert);
+            }
+          }
+        } catch (error) {
+          console.error(`Watch rule ${rule.name} failed:`, error);
+        }
+      }
+
+      await this.stateStore.save(now);
+      return delivered;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async evaluateRule(rule: WatchRule, context: WatchContext, now: Date): Promise<WatchAlert[]> {
+    switch (rule.type) {
+      case 'new_issue':
+        return this.evaluateNewIssueRule(rule, context, now);
+      case 'issue_threshold':
+        return this.evaluateIssueThresholdRule(rule, context);
+      case 'crash_free':
+        return this.evaluateCrashFreeRule(rule, context);
+      case 'anomaly':
+        return this.evaluateAnomalyRule(rule, context, now);
+    }
+  }
+
+  private async evaluateNewIssueRule(rule: RuleOfType<'new_issue'>, context: WatchContext, now: Date): Promise<WatchAlert[]> {
+    const windowStart = getTimeRangeStart(rule.window, now) || getTimeRangeStart(NEW_ISSUE_LOOKBACK, now)!;
+    const issues = await context.dataSource.fetchIssueAggregates({
+      app_package: rule.app_package,
+      time_range: NEW_ISSUE_LOOKBACK,
+      issue_type: rule.issue_type,
+      sort_by: 'users',
+      limit: WATCH_ISSUE_LIMIT,
+    });
+
+    return issues
+      .filter(issue => new Date(issue.first_seen).getTime() >= windowStart.getTime())
+      .filter(issue => issue.user_count >= rule.min_users && issue.event_count >= rule.min_events)
+      .map(issue => this.issueAlert(rule, issue, `New issue in ${rule.app_package}: ${issue.issue_title}`));
+  }
+
+  private async evaluateIssueThresholdRule(rule: RuleOfType<'issue_threshold'>, context: WatchContext): Promise<WatchAlert[]> {
+    const issues = await context.dataSource.fetchIssueAggregates({
+      app_package: rule.app_package,
+      time_range: rule.window,
+      issue_type: rule.issue_type,
+      sort_by: 'users',
+      limit: WATCH_ISSUE_LIMIT,
+    });
+
+    return issues
+      .filter(issue => issue.user_count >= rule.min_users && issue.event_count >= rule.min_events)
+      .map(issue => this.issueAlert(rule, issue, `Issue over threshold in ${rule.app_package}: ${issue.issue_title}`));
+  }
+
+  private issueAlert(rule: RuleOfType<'new_issue' | 'issue_threshold'>, issue: IssueAggregate, title: string): WatchAlert {
+    return {
+      key: `${rule.name}:${issue.issue_id}`,
+      rule: rule.name,
+      rule_type: rule.type,
+      app_package: rule.app_package,
+      title,
+      message: `${issue.user_count} users and ${issue.event_count} events (${rule.window}), first seen ${issue.first_seen}`,
+      details: {
+        issue_id: issue.issue_id,
+        issue_title: issue.issue_title,
+        issue_subtitle: issue.issue_subtitle,
+        error_type: issue.error_type,
+        users: issue.user_count,
+        events: issue.event_count,
+        first_seen: issue.first_seen,
+        last_seen: issue.last_seen,
+        versions: issue.versions.join(', '),
+      },
+    };
+  }
+
+  private async evaluateCrashFreeRule(rule: RuleOfType<'crash_free'>, context: WatchContext): Promise<WatchAlert[]> {
+    const rows = await context.dataSource.getCrashFreeCounts(rule.window, rule.app_package);
+    const version = rule.version === 'latest'
+      ? rows.map(row => row.app_version).filter(Boolean).sort(compareVersions).pop()
+      : rule.version;
+    if (!version) return [];
+
+    const summary = context.crashProcessor.buildCrashFreeSummary(
+      rows.filter(row => row.app_version === version),
+      context.crashFreeDenominator
+    );
+    const rate = rule.metric === 'sessions' ? summary.crash_free_sessions_rate : summary.crash_free_users_rate;
+    if (rate === null) {
+      console.error(`Watch rule ${rule.name} skipped: ${summary.message}`);
+      return [];
+    }
+    if (rate >= rule.threshold) return [];
+
+    return [{
+      key: `${rule.name}:${version}`,
+      rule: rule.name,
+      rule_type: rule.type,
+      app_package: rule.app_package,
+      title: `Crash-free ${rule.metric} below ${rule.threshold}% for ${rule.app_package} ${version}`,
+      message: `Crash-free ${rule.metric} is ${rate}% over the last ${rule.window}`,
+      details: {
+        version,
+        metric: rule.metric,
+        rate,
+        threshold: rule.threshold,
+        crashed_users: summary.crashed_users,
+        total_users: summary.total_users,
+        crashed_sessions: summary.crashed_sessions,
+        total_sessions: summary.total_sessions,
+      },
+    }];
+  }
+
+  private async evaluateAnomalyRule(rule: RuleOfType<'anomaly'>, context: WatchContext, now: Date): Promise<WatchAlert[]> {
+    const since = new Date(now.getTime() - rule.lookback_days * 24 * 60 * 60 * 1000);
+    const rows = await context.dataSource.getCrashVolumeSeries({
+      app_package: rule.app_package,
+      granularity: rule.granularity,
+      dimension: rule.dimension,
+      lookback_days: rule.lookback_days,
+      min_score: rule.min_score,
+      limit: WATCH_ISSUE_LIMIT,
+    }, since);
+    const report = this.anomalyDetector.detect(rows, {
+      granularity: rule.granularity,
+      dimension: rule.dimension,
+      since,
+      now,
+      minScore: rule.min_score,
+    });
+
+    return report.anomalies
+      .filter(anomaly => rule.anomaly_types.includes(anomaly.type))
+      .map(anomaly => ({
+        key: `${rule.name}:${anomaly.series_key}:${anomaly.bucket}:${anomaly.type}`,
+        rule: rule.name,
+        rule_type: rule.type,
+        app_package: rule.app_package,
+        title: `Crash ${anomaly.type} in ${rule.app_package}: ${anomaly.label || anomaly.series_key}`,
+        message: `${anomaly.observed} events in the ${rule.granularity} starting ${anomaly.bucket}, expected ${anomaly.expected} (score ${anomaly.score}, confidence ${anomaly.confidence})`,
+        details: {
+          dimension: anomaly.dimension,
+          series_key: anomaly.series_key,
+          bucket: anomaly.bucket,
+          observed: anomaly.observed,
+          expected: anomaly.expected,
+          affected_users: anomaly.affected_users,
+          score: anomaly.score,
+          confidence: anomaly.confidence,
+        },
+      }));
+  }
+
+  private async deliver(rule: WatchRule, alert: WatchAlert): Promise<boolean> {
+    const webhooks = this.config.webhooks.filter(webhook => !rule.webhooks || rule.webhooks.includes(webhook.name));
+    let delivered = false;
+
+    for (const webhook of webhooks) {
+      try {
+        await this.notifier.send(webhook, alert);
+        delivered = true;
+      } catch (error) {
+        console.error(`Alert ${alert.key} not delivered:`, error);
+      }
+    }
+
+    return delivered;
+  }
+}
@@ -0,0 +1,60 @@
+import { WatchAlert, WebhookConfig } from './types.js';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Delivers watch alerts to webhooks, either as Slack incoming-webhook
+ * messages or as the alert itself in a generic JSON envelope.
+ */
+export class WebhookNotifier {
+  buildPayload(alert: WatchAlert, format: WebhookConfig['format'], firedAt: Date = new Date()): object {
+    if (format === 'slack') {
+      const details = Object.entries(alert.details)
+        .filter(([, value]) => value !== null && value !== '')
+        .map(([key, value]) => `*${key}:* ${value}`)
+        .join('\n');
+
+      return {
+        text: `:rotating_light: ${alert.title}`,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: `*${alert.title}*\n${alert.message}` },
+          },
+          ...(details ? [{ type: 'section', text: { type: 'mrkdwn', text: details } }] : []),
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `Rule \`${alert.rule}\` · ${alert.app_package} · ${firedAt.toISOString()}` }],
+          },
+        ],
+      };
+    }
+
+    return {
+      source: 'mcp-crashlytics-server',
+      fired_at: firedAt.toISOString(),
+      ...alert,
+    };
+  }
+
+  async send(webhook: WebhookConfig, alert: WatchAlert): Promise<void> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(webhook.headers || {}) },
+        body: JSON.stringify(this.buildPayload(alert, webhook.format)),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      throw new Error(`Webhook ${webhook.name} delivery failed: ${error}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}